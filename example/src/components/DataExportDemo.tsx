@@ -4,6 +4,7 @@ import {
   CsvExporter,
   JsonlExporter,
   TsvExporter,
+  XlsxExporter,
 } from "@izumisy/seizen-table-plugins/file-export";
 
 const columns = [
@@ -26,7 +27,7 @@ export function DataExportDemo() {
     plugins: [
       FileExportPlugin.configure({
         filename: "employees",
-        exporters: [CsvExporter, TsvExporter, JsonlExporter],
+        exporters: [CsvExporter, XlsxExporter, TsvExporter, JsonlExporter],
       }),
     ],
   });
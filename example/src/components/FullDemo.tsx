@@ -11,6 +11,7 @@ import {
   CsvExporter,
   JsonlExporter,
   TsvExporter,
+  XlsxExporter,
 } from "@izumisy/seizen-table-plugins/file-export";
 import { RowDetailPlugin } from "@izumisy/seizen-table-plugins/row-detail";
 import {
@@ -666,7 +667,7 @@ export function FullDemo() {
       ColumnControlPlugin.configure({ width: 280 }),
       FileExportPlugin.configure({
         filename: "employees",
-        exporters: [CsvExporter, TsvExporter, JsonlExporter],
+        exporters: [CsvExporter, XlsxExporter, TsvExporter, JsonlExporter],
       }),
       RowDetailPlugin.configure({ width: 320 }),
     ],
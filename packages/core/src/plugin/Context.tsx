@@ -9,17 +9,35 @@ import type { SeizenTableInstance } from "../table/useSeizenTable";
 import type { SeizenTableEventMap, SeizenTableEventName } from "./useEventBus";
 import type { PluginArgsRegistry } from "./usePluginControl";
 
-// Re-export filter types from columnMeta (which also does module augmentation)
+// Re-export filter, edit, aggregation, format and search types from columnMeta (which also does module augmentation)
 export type {
   FilterType,
+  BuiltinFilterType,
+  FilterTypeRegistry,
   FilterOperator,
+  BuiltinFilterOperator,
   StringFilterOperator,
   NumberFilterOperator,
   DateFilterOperator,
+  DatePeriod,
   EnumFilterOperator,
+  FilterRange,
+  FilterValue,
   ColumnFilterMeta,
+  CellEditorType,
+  CellEditorProps,
+  ColumnEditMeta,
+  AggregateFn,
+  ColumnAggregateMeta,
+  ColumnFormatMeta,
+  ColumnSearchMeta,
+  ColumnExportMeta,
+} from "./columnMeta";
+export {
+  DEFAULT_FILTER_OPERATORS,
+  FILTER_OPERATOR_LABELS,
+  DATE_PERIOD_LABELS,
 } from "./columnMeta";
-export { DEFAULT_FILTER_OPERATORS, FILTER_OPERATOR_LABELS } from "./columnMeta";
 
 import type { ColumnFilterMeta } from "./columnMeta";
 
@@ -94,10 +112,13 @@ export interface PluginContextValue<TOpenArgs = unknown> {
    * Built-in events:
    * - `data-change`: Table data changed
    * - `selection-change`: Row selection changed
+   * - `select-all-change`: All matching rows became selected or deselected
    * - `filter-change`: Column filters changed
    * - `sorting-change`: Sorting changed
    * - `pagination-change`: Pagination changed
+   * - `grouping-change`: Grouping changed
    * - `row-click`: A row was clicked
+   * - `row-expand`: A row with sub rows was expanded
    *
    * @example
    * ```tsx
@@ -146,9 +167,11 @@ export function PluginContextProvider<TData>({
 }: PluginContextProviderProps<TData>) {
   const data = table.getData();
   const selectedRows = table.getSelectedRows();
+  const isAllRowsSelected = table.getIsAllRowsSelected();
   const filterState = table.getFilterState();
   const sortingState = table.getSortingState();
   const paginationState = table.getPaginationState();
+  const groupingState = table.getGrouping();
 
   // Convert columns to simplified PluginColumnInfo (respecting column order)
   const columnOrder = table.getColumnOrder();
@@ -186,9 +209,11 @@ export function PluginContextProvider<TData>({
   // Store previous values for change detection and emit events
   const prevDataRef = useRef(data);
   const prevSelectionRef = useRef(selectedRows);
+  const prevAllRowsSelectedRef = useRef(isAllRowsSelected);
   const prevFilterRef = useRef(filterState);
   const prevSortingRef = useRef(sortingState);
   const prevPaginationRef = useRef(paginationState);
+  const prevGroupingRef = useRef(groupingState);
 
   // Emit events when values change
   useEffect(() => {
@@ -205,6 +230,21 @@ export function PluginContextProvider<TData>({
     }
   }, [selectedRows, table.eventBus]);
 
+  useEffect(() => {
+    if (prevAllRowsSelectedRef.current !== isAllRowsSelected) {
+      prevAllRowsSelectedRef.current = isAllRowsSelected;
+      table.eventBus.emit("select-all-change", {
+        selected: isAllRowsSelected,
+        totalRowCount:
+          typeof table.remote === "object"
+            ? table.remote.totalRowCount
+            : table.remote
+            ? undefined
+            : table._tanstackTable.getFilteredRowModel().rows.length,
+      });
+    }
+  }, [isAllRowsSelected, table]);
+
   useEffect(() => {
     if (prevFilterRef.current !== filterState) {
       prevFilterRef.current = filterState;
@@ -226,6 +266,13 @@ export function PluginContextProvider<TData>({
     }
   }, [paginationState, table.eventBus]);
 
+  useEffect(() => {
+    if (prevGroupingRef.current !== groupingState) {
+      prevGroupingRef.current = groupingState;
+      table.eventBus.emit("grouping-change", groupingState);
+    }
+  }, [groupingState, table.eventBus]);
+
   // useEvent hook factory
   const useEvent = <K extends SeizenTableEventName | (string & {})>(
     event: K,
@@ -345,6 +345,63 @@ export function Cell<TData>({ cell, column, row, children }: CellProps<TData>) {
   return <>{children}</>;
 }
 
+// =============================================================================
+// ColumnHeader
+// =============================================================================
+
+export interface ColumnHeaderProps<TData> {
+  /**
+   * The TanStack Table Column object of the header
+   */
+  column: Column<TData, unknown>;
+}
+
+/**
+ * Renders all plugin column header slots for a column (e.g., filter
+ * buttons).
+ *
+ * Clicks and key presses inside don't reach the header, so they don't
+ * sort the column.
+ *
+ * @example
+ * ```tsx
+ * <th>
+ *   {flexRender(header.column.columnDef.header, header.getContext())}
+ *   <SeizenTablePlugins.ColumnHeader column={header.column} />
+ * </th>
+ * ```
+ */
+export function ColumnHeader<TData>({ column }: ColumnHeaderProps<TData>) {
+  const { table } = usePluginContext();
+  const plugins = table.plugins;
+
+  const columnHeaderPlugins = plugins.filter(
+    (p) => p.slots.columnHeader !== undefined
+  );
+
+  if (columnHeaderPlugins.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {columnHeaderPlugins.map((p) => (
+        <span
+          key={p.id}
+          className={styles.columnHeaderSlot}
+          data-plugin-id={p.id}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <PluginArgsProvider args={p._args}>
+            {p.slots.columnHeader!.render(column as any)}
+          </PluginArgsProvider>
+        </span>
+      ))}
+    </>
+  );
+}
+
 // =============================================================================
 // Namespace Export
 // =============================================================================
@@ -361,4 +418,5 @@ export const SeizenTablePlugins = {
   Footer,
   InlineRow,
   Cell,
+  ColumnHeader,
 } as const;
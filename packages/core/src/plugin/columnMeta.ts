@@ -1,18 +1,46 @@
 /**
  * Column metadata types for TanStack Table integration.
- * This module provides type-safe column metadata for filter configuration.
+ * This module provides type-safe column metadata for filter, edit,
+ * aggregation and format configuration.
  */
 
+import type { ReactNode } from "react";
 import type { RowData } from "@tanstack/react-table";
+import type { z } from "zod";
 
 // =============================================================================
 // Filter Types
 // =============================================================================
 
+/**
+ * Filter types provided by SeizenTable
+ */
+export type BuiltinFilterType = "string" | "number" | "date" | "enum";
+
+/**
+ * Registry for custom filter types, mapping each type to its operators.
+ *
+ * Extend this interface via module augmentation, and register the
+ * implementation of the type with `registerFilterType`.
+ *
+ * @example
+ * ```typescript
+ * declare module "@izumisy/seizen-table/plugin" {
+ *   interface FilterTypeRegistry {
+ *     tags: "has" | "has_any";
+ *     boolean: "is_true" | "is_false";
+ *   }
+ * }
+ * ```
+ */
+export interface FilterTypeRegistry {
+  // Empty by default - custom filter types are added via module augmentation
+}
+
 /**
  * Filter type for a column - determines available operators and input UI
  */
-export type FilterType = "string" | "number" | "date" | "enum";
+export type FilterType = BuiltinFilterType | keyof FilterTypeRegistry;
 
 /**
  * Filter operators for string type columns
@@ -25,53 +53,125 @@ export type StringFilterOperator =
   | "starts_with"
   | "ends_with"
   | "is_empty"
-  | "is_not_empty";
+  | "is_not_empty"
+  | "in"
+  | "not_in";
 
 /**
- * Filter operators for number type columns
+ * Filter operators for number type columns.
+ * `between` and `not_between` take a `[min, max]` range, inclusive.
  */
-export type NumberFilterOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
+export type NumberFilterOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "not_between";
 
 /**
- * Filter operators for date type columns
+ * Filter operators for date type columns. Dates are compared by day.
+ *
+ * Values by operator:
+ * - `on`, `before`, `after` - A date, e.g. `"2024-01-31"`
+ * - `between`, `not_between` - A range of dates, e.g.
+ *   `["2024-01-01", "2024-01-31"]`. Either end can be left empty.
+ * - `in_last`, `in_next` - A number of days including today, e.g. `"7"`
+ * - `in_this` - A {@link DatePeriod} containing today, e.g. `"month"`
+ *
+ * `eq` is a deprecated alias of `on`, kept for existing filters.
  */
-export type DateFilterOperator = "eq" | "before" | "after";
+export type DateFilterOperator =
+  | "on"
+  /** @deprecated Use `on` instead. */
+  | "eq"
+  | "before"
+  | "after"
+  | "between"
+  | "not_between"
+  | "in_last"
+  | "in_next"
+  | "in_this";
 
 /**
- * Filter operators for enum type columns
+ * Calendar periods for the `in_this` date filter operator.
+ * Weeks start on Monday.
  */
-export type EnumFilterOperator = "is" | "is_not";
+export type DatePeriod = "day" | "week" | "month" | "year";
 
 /**
- * All filter operators
+ * Filter operators for enum type columns.
+ * `in` and `not_in` take a list of values.
  */
-export type FilterOperator =
+export type EnumFilterOperator = "is" | "is_not" | "in" | "not_in";
+
+/**
+ * Filter operators of the built-in filter types
+ */
+export type BuiltinFilterOperator =
   | StringFilterOperator
   | NumberFilterOperator
   | DateFilterOperator
   | EnumFilterOperator;
 
+/**
+ * All filter operators, including those of custom filter types
+ */
+export type FilterOperator =
+  | BuiltinFilterOperator
+  | FilterTypeRegistry[keyof FilterTypeRegistry];
+
+/**
+ * Range of a `between`/`not_between` filter: `[min, max]`, inclusive.
+ * An empty string leaves that end open.
+ */
+export type FilterRange = [min: string, max: string];
+
+/**
+ * Value of a filter condition:
+ * - `FilterRange` for `between` and `not_between`
+ * - A list of values for `in` and `not_in`
+ * - A string for other operators
+ */
+export type FilterValue = string | FilterRange | string[];
+
 /**
  * Default operators for each filter type
  */
-export const DEFAULT_FILTER_OPERATORS: Record<FilterType, FilterOperator[]> = {
+export const DEFAULT_FILTER_OPERATORS: Record<
+  BuiltinFilterType,
+  BuiltinFilterOperator[]
+> = {
   string: [
     "contains",
     "equals",
     "starts_with",
     "ends_with",
+    "in",
+    "not_in",
     "is_empty",
     "is_not_empty",
   ],
-  number: ["eq", "neq", "gt", "gte", "lt", "lte"],
-  date: ["eq", "before", "after"],
-  enum: ["is", "is_not"],
+  number: ["eq", "neq", "gt", "gte", "lt", "lte", "between", "not_between"],
+  date: [
+    "on",
+    "before",
+    "after",
+    "between",
+    "not_between",
+    "in_last",
+    "in_next",
+    "in_this",
+  ],
+  enum: ["is", "is_not", "in", "not_in"],
 };
 
 /**
  * Human-readable labels for filter operators
  */
-export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+export const FILTER_OPERATOR_LABELS: Record<BuiltinFilterOperator, string> = {
   // String operators
   contains: "Contains",
   not_contains: "Does not contain",
@@ -81,6 +181,8 @@ export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
   ends_with: "Ends with",
   is_empty: "Is empty",
   is_not_empty: "Is not empty",
+  in: "Is any of",
+  not_in: "Is none of",
   // Number operators
   eq: "=",
   neq: "≠",
@@ -88,14 +190,31 @@ export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
   gte: "≥",
   lt: "<",
   lte: "≤",
-  // Date operators (shared keys with number but different context)
+  // Range operators (number and date)
+  between: "Between",
+  not_between: "Not between",
+  // Date operators
+  on: "On",
   before: "Before",
   after: "After",
+  in_last: "In the last",
+  in_next: "In the next",
+  in_this: "In this",
   // Enum operators
   is: "Is",
   is_not: "Is not",
 };
 
+/**
+ * Human-readable labels for date periods
+ */
+export const DATE_PERIOD_LABELS: Record<DatePeriod, string> = {
+  day: "Day",
+  week: "Week",
+  month: "Month",
+  year: "Year",
+};
+
 // =============================================================================
 // Column Filter Metadata
 // =============================================================================
@@ -128,7 +247,8 @@ export interface ColumnFilterMeta {
   filterType?: FilterType;
   /**
    * Custom operators to use instead of defaults.
-   * If not provided, uses DEFAULT_FILTER_OPERATORS[filterType]
+   * If not provided, uses the operators of the filter type
+   * (see `getDefaultFilterOperators`)
    */
   filterOperators?: FilterOperator[];
   /**
@@ -138,14 +258,219 @@ export interface ColumnFilterMeta {
   filterEnumValues?: string[];
 }
 
+// =============================================================================
+// Column Edit Metadata
+// =============================================================================
+
+/**
+ * Built-in cell editor types
+ */
+export type CellEditorType = "text" | "number" | "date" | "enum";
+
+/**
+ * Props passed to a custom cell editor
+ */
+export interface CellEditorProps<TData = unknown, TValue = unknown> {
+  /** Current draft value */
+  value: TValue;
+  /** Update the draft value */
+  onChange: (value: TValue) => void;
+  /**
+   * Validate and commit the draft.
+   * Pass a value to commit it directly instead of the draft.
+   */
+  onCommit: (value?: TValue) => void;
+  /** Discard the draft and close the editor */
+  onCancel: () => void;
+  /** Validation error of the last commit attempt */
+  error?: string;
+  /** Data of the row being edited */
+  row: TData;
+}
+
+/**
+ * Column edit metadata - makes cells of a column editable in place.
+ * Add this to your column's `meta` property.
+ *
+ * @example
+ * ```tsx
+ * const columns: ColumnDef<Person>[] = [
+ *   {
+ *     accessorKey: "age",
+ *     header: "Age",
+ *     meta: {
+ *       filterType: "number",
+ *       editable: true,
+ *       editSchema: z.number().int().min(0),
+ *     },
+ *   },
+ * ];
+ * ```
+ */
+export interface ColumnEditMeta<TData = unknown, TValue = unknown> {
+  /**
+   * Whether cells of this column can be edited.
+   * Pass a function to decide per row.
+   */
+  editable?: boolean | ((row: TData) => boolean);
+  /**
+   * Editor for the cell: a built-in editor type or a custom render function.
+   * Defaults to the editor matching `filterType` ("enum" uses
+   * `filterEnumValues` as options), or "text".
+   */
+  editor?:
+    | CellEditorType
+    | ((props: CellEditorProps<TData, TValue>) => ReactNode);
+  /**
+   * Schema to validate the edited value with before it is committed.
+   * The parsed output is committed, so the schema may also transform it.
+   */
+  editSchema?: z.ZodType;
+}
+
+// =============================================================================
+// Column Aggregation Metadata
+// =============================================================================
+
+/**
+ * Built-in aggregation functions
+ */
+export type AggregateFn =
+  | "sum"
+  | "avg"
+  | "min"
+  | "max"
+  | "count"
+  | "countDistinct";
+
+/**
+ * Column aggregation metadata - configures how values of a column are
+ * summarized in group rows and the footer row.
+ * Add this to your column's `meta` property.
+ *
+ * @example
+ * ```tsx
+ * const columns: ColumnDef<Employee>[] = [
+ *   {
+ *     accessorKey: "salary",
+ *     header: "Salary",
+ *     meta: { aggregate: "avg" },
+ *   },
+ * ];
+ * ```
+ */
+export interface ColumnAggregateMeta {
+  /**
+   * Aggregation of the column's values: a built-in function, or a custom
+   * function receiving the values of the aggregated rows.
+   */
+  aggregate?: AggregateFn | ((values: unknown[]) => unknown);
+}
+
+// =============================================================================
+// Column Format Metadata
+// =============================================================================
+
+/**
+ * Column format metadata - configures how values of a column are displayed.
+ * Add this to your column's `meta` property.
+ *
+ * @example
+ * ```tsx
+ * const columns: ColumnDef<Invoice>[] = [
+ *   {
+ *     accessorKey: "amount",
+ *     header: "Amount",
+ *     meta: {
+ *       aggregate: "sum",
+ *       format: (value) => currency.format(value),
+ *     },
+ *   },
+ * ];
+ * ```
+ */
+export interface ColumnFormatMeta<TValue = unknown> {
+  /**
+   * Format a value of the column for display.
+   * Used by cells without a custom `cell` renderer, and for aggregated
+   * values other than counts.
+   */
+  format?: (value: TValue) => string;
+}
+
+// =============================================================================
+// Column Search Metadata
+// =============================================================================
+
+/**
+ * Column search metadata - configures which columns the global search
+ * matches. Add this to your column's `meta` property.
+ *
+ * @example
+ * ```tsx
+ * const columns: ColumnDef<Person>[] = [
+ *   { accessorKey: "name", header: "Name", meta: { globalSearchable: true } },
+ *   { accessorKey: "email", header: "Email", meta: { globalSearchable: true } },
+ *   { accessorKey: "age", header: "Age" }, // Not searched
+ * ];
+ * ```
+ */
+export interface ColumnSearchMeta {
+  /**
+   * Whether the global search matches values of this column.
+   * Once a column sets `true`, only columns set to `true` are searched.
+   * By default, columns with string or number values are searched.
+   */
+  globalSearchable?: boolean;
+}
+
+// =============================================================================
+// Column Export Metadata
+// =============================================================================
+
+/**
+ * Column export metadata - configures how values of a column are exported,
+ * e.g. by the File Export plugin.
+ * Add this to your column's `meta` property.
+ *
+ * @example
+ * ```tsx
+ * const columns: ColumnDef<Order>[] = [
+ *   {
+ *     accessorFn: (order) => order.customer.name,
+ *     id: "customer",
+ *     header: "Customer",
+ *   },
+ *   {
+ *     accessorKey: "status",
+ *     header: "Status",
+ *     cell: ({ getValue }) => <StatusBadge status={getValue()} />,
+ *     meta: { exportValue: (status) => STATUS_LABELS[status] },
+ *   },
+ * ];
+ * ```
+ */
+export interface ColumnExportMeta<TData = unknown, TValue = unknown> {
+  /**
+   * Convert a value of the column for export, e.g. to the text its `cell`
+   * renders. By default, the value read by the column's accessor is
+   * exported as is.
+   */
+  exportValue?: (value: TValue, row: TData) => unknown;
+}
+
 // =============================================================================
 // Module Augmentation for TanStack Table
 // =============================================================================
 
 declare module "@tanstack/react-table" {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   interface ColumnMeta<TData extends RowData, TValue>
-    extends ColumnFilterMeta {}
+    extends ColumnFilterMeta,
+      ColumnEditMeta<TData, TValue>,
+      ColumnAggregateMeta,
+      ColumnFormatMeta<TValue>,
+      ColumnSearchMeta,
+      ColumnExportMeta<TData, TValue> {}
 
   // Register custom filter function name for type-safe usage
   interface FilterFns {
@@ -42,6 +42,12 @@ function createMockColumn(id = "name"): Column<TestRow, unknown> {
   return {
     id,
     getCanSort: () => true,
+    getCanPin: () => false,
+    getIsPinned: () => false,
+    pin: vi.fn(),
+    getCanGroup: () => false,
+    getIsGrouped: () => false,
+    toggleGrouping: vi.fn(),
     toggleVisibility: vi.fn(),
     toggleSorting: vi.fn(),
   } as unknown as Column<TestRow, unknown>;
@@ -493,6 +499,88 @@ describe("ContextMenuProvider", () => {
     expect(screen.getByText("Column Plugin")).toBeInTheDocument();
   });
 
+  it("should render built-in pinning actions in column menu", () => {
+    let capturedContext: ReturnType<typeof useContextMenu<TestRow>> | null =
+      null;
+
+    function TestConsumer() {
+      capturedContext = useContextMenu<TestRow>();
+      return null;
+    }
+
+    render(
+      <ContextMenuProvider
+        table={createMockTable()}
+        plugins={[]}
+        selectedRows={[]}
+        emit={mockEmit}
+      >
+        <TestConsumer />
+      </ContextMenuProvider>
+    );
+
+    const column = {
+      ...createMockColumn(),
+      getCanPin: () => true,
+      getIsPinned: () => "left" as const,
+    };
+
+    act(() => {
+      capturedContext!.openColumnMenu(column, createMockRect());
+    });
+
+    expect(screen.queryByText("Pin left")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText("Pin right"));
+    expect(column.pin).toHaveBeenCalledWith("right");
+
+    act(() => {
+      capturedContext!.openColumnMenu(column, createMockRect());
+    });
+    fireEvent.click(screen.getByText("Unpin"));
+    expect(column.pin).toHaveBeenCalledWith(false);
+  });
+
+  it("should render built-in grouping actions in column menu", () => {
+    let capturedContext: ReturnType<typeof useContextMenu<TestRow>> | null =
+      null;
+
+    function TestConsumer() {
+      capturedContext = useContextMenu<TestRow>();
+      return null;
+    }
+
+    render(
+      <ContextMenuProvider
+        table={createMockTable()}
+        plugins={[]}
+        selectedRows={[]}
+        emit={mockEmit}
+      >
+        <TestConsumer />
+      </ContextMenuProvider>
+    );
+
+    const column = { ...createMockColumn(), getCanGroup: () => true };
+
+    act(() => {
+      capturedContext!.openColumnMenu(column, createMockRect());
+    });
+
+    expect(screen.queryByText("Ungroup")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText("Group by this column"));
+    expect(column.toggleGrouping).toHaveBeenCalled();
+
+    act(() => {
+      capturedContext!.openColumnMenu(
+        { ...column, getIsGrouped: () => true },
+        createMockRect()
+      );
+    });
+
+    expect(screen.queryByText("Group by this column")).not.toBeInTheDocument();
+    expect(screen.getByText("Ungroup")).toBeInTheDocument();
+  });
+
   it("should filter out items with visible: false", () => {
     const pluginWithConditionalItems = createMockPlugin({
       name: "Conditional Plugin",
@@ -386,6 +386,46 @@ function ContextMenuRenderer<TData>({
       }
     }
   } else if (menuState.type === "column") {
+    // Built-in pinning actions
+    const { column } = menuState;
+    const pinItems: ContextMenuItemEntry[] = [
+      {
+        label: "Pin left",
+        onClick: () => column.pin("left"),
+        visible: column.getCanPin() && column.getIsPinned() !== "left",
+      },
+      {
+        label: "Pin right",
+        onClick: () => column.pin("right"),
+        visible: column.getCanPin() && column.getIsPinned() !== "right",
+      },
+      {
+        label: "Unpin",
+        onClick: () => column.pin(false),
+        visible: column.getIsPinned() !== false,
+      },
+    ].filter((item) => item.visible);
+    if (pinItems.length > 0) {
+      sections.push({ pluginName: null, items: pinItems });
+    }
+
+    // Built-in grouping actions, nesting the column inside existing groups
+    const groupItems: ContextMenuItemEntry[] = [
+      {
+        label: "Group by this column",
+        onClick: () => column.toggleGrouping(),
+        visible: column.getCanGroup() && !column.getIsGrouped(),
+      },
+      {
+        label: "Ungroup",
+        onClick: () => column.toggleGrouping(),
+        visible: column.getIsGrouped(),
+      },
+    ].filter((item) => item.visible);
+    if (groupItems.length > 0) {
+      sections.push({ pluginName: null, items: groupItems });
+    }
+
     // Plugin column context menu items
     for (const plugin of plugins) {
       const columnItems = plugin.contextMenuItems?.column;
@@ -26,13 +26,15 @@ export type PluginPosition = "left-sider" | "right-sider";
  * - `footer`: Renders below the table
  * - `cell`: Custom cell renderer applied to all columns (first match wins)
  * - `inline-row`: Renders below a specific row when opened (first match wins)
+ * - `column-header`: Renders in each column header, after the title
  */
 export type SlotType =
   | "side-panel"
   | "header"
   | "footer"
   | "cell"
-  | "inline-row";
+  | "inline-row"
+  | "column-header";
 
 // =============================================================================
 // Slot Definitions
@@ -85,6 +87,14 @@ export interface InlineRowSlot<TData = unknown> {
   render: (row: Row<TData>) => ReactNode;
 }
 
+/**
+ * Column header slot configuration - renders in each column header
+ */
+export interface ColumnHeaderSlot<TData = unknown> {
+  /** Render function receiving the column of the header */
+  render: (column: Column<TData, unknown>) => ReactNode;
+}
+
 /**
  * Context menu items configuration for plugins
  */
@@ -104,6 +114,7 @@ export interface PluginSlots<TData = unknown> {
   footer?: FooterSlot;
   cell?: CellSlot<TData>;
   inlineRow?: InlineRowSlot<TData>;
+  columnHeader?: ColumnHeaderSlot<TData>;
 }
 
 // =============================================================================
@@ -202,6 +213,11 @@ export interface DefinePluginSlots<TData, TSchema extends z.ZodType> {
     /** Render function. Use usePluginArgs() inside to access args. */
     render: (row: Row<TData>) => ReactNode;
   };
+  /** Column header slot - renders in each column header, after the title */
+  columnHeader?: {
+    /** Render function. Use usePluginArgs() inside to access args. */
+    render: (column: Column<TData, unknown>) => ReactNode;
+  };
 }
 
 /**
@@ -330,6 +346,13 @@ export function definePlugin<TData, TSchema extends z.ZodType>(
         };
       }
 
+      // Build columnHeader slot
+      if (options.slots.columnHeader) {
+        slots.columnHeader = {
+          render: options.slots.columnHeader.render,
+        };
+      }
+
       return {
         id: options.id,
         name: options.name,
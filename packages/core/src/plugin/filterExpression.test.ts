@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  toColumnFilters,
+  toFilterExpression,
+  type FilterGroup,
+} from "./filterExpression";
+
+// =============================================================================
+// toColumnFilters
+// =============================================================================
+
+describe("toColumnFilters", () => {
+  it("stores conditions of an AND group as plain column filters", () => {
+    expect(
+      toColumnFilters({
+        combinator: "and",
+        filters: [
+          { columnId: "name", operator: "contains", value: "al" },
+          { columnId: "age", operator: "gt", value: "30" },
+        ],
+      })
+    ).toEqual([
+      { id: "name", value: { operator: "contains", value: "al" } },
+      { id: "age", value: { operator: "gt", value: "30" } },
+    ]);
+  });
+
+  it("combines conditions on the same column into one filter", () => {
+    expect(
+      toColumnFilters({
+        combinator: "and",
+        filters: [
+          { columnId: "age", operator: "gte", value: "20" },
+          { columnId: "age", operator: "lt", value: "30" },
+        ],
+      })
+    ).toEqual([
+      {
+        id: "age",
+        value: {
+          combinator: "and",
+          filters: [
+            { columnId: "age", operator: "gte", value: "20" },
+            { columnId: "age", operator: "lt", value: "30" },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("stores an OR group under the first column it refers to", () => {
+    const group: FilterGroup = {
+      combinator: "or",
+      filters: [
+        { columnId: "status", operator: "is", value: "active" },
+        { columnId: "age", operator: "gt", value: "30" },
+      ],
+    };
+
+    expect(toColumnFilters(group)).toEqual([{ id: "status", value: group }]);
+    expect(toColumnFilters({ combinator: "or", filters: [] })).toEqual([]);
+  });
+});
+
+// =============================================================================
+// toFilterExpression
+// =============================================================================
+
+describe("toFilterExpression", () => {
+  it("round-trips expressions through column filters", () => {
+    const group: FilterGroup = {
+      combinator: "and",
+      filters: [
+        { columnId: "name", operator: "contains", value: "al" },
+        {
+          combinator: "or",
+          filters: [
+            { columnId: "status", operator: "is", value: "active" },
+            { columnId: "status", operator: "is", value: "trial" },
+          ],
+        },
+      ],
+    };
+
+    expect(toFilterExpression(toColumnFilters(group))).toEqual(group);
+  });
+
+  it("skips column filters without an operator", () => {
+    expect(toFilterExpression([{ id: "name", value: "al" }])).toEqual({
+      combinator: "and",
+      filters: [],
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Filter expressions: conditions combined with nested AND/OR groups.
+ *
+ * Expressions are stored in the column filter state, so that they are
+ * persisted, synced to the URL and emitted in `filter-change` like any other
+ * column filter. `toColumnFilters` and `toFilterExpression` convert between
+ * the two forms.
+ */
+
+import type { ColumnFiltersState } from "@tanstack/react-table";
+import type { FilterOperator, FilterValue } from "./columnMeta";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How the filters of a group are combined
+ */
+export type FilterCombinator = "and" | "or";
+
+/**
+ * A single filter condition on a column
+ */
+export interface FilterCondition {
+  columnId: string;
+  operator: FilterOperator;
+  value: FilterValue;
+}
+
+/**
+ * Filters combined with AND or OR. Groups can be nested.
+ *
+ * @example
+ * ```ts
+ * // status is active OR (status is trial AND age > 30)
+ * const group: FilterGroup = {
+ *   combinator: "or",
+ *   filters: [
+ *     { columnId: "status", operator: "is", value: "active" },
+ *     {
+ *       combinator: "and",
+ *       filters: [
+ *         { columnId: "status", operator: "is", value: "trial" },
+ *         { columnId: "age", operator: "gt", value: "30" },
+ *       ],
+ *     },
+ *   ],
+ * };
+ * ```
+ */
+export interface FilterGroup {
+  combinator: FilterCombinator;
+  filters: FilterExpression[];
+}
+
+/**
+ * A filter condition or a group of filters
+ */
+export type FilterExpression = FilterCondition | FilterGroup;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Type guard to check if a value is a filter group
+ */
+export function isFilterGroup(value: unknown): value is FilterGroup {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "combinator" in value &&
+    "filters" in value &&
+    Array.isArray(value.filters)
+  );
+}
+
+function getFirstColumnId(expression: FilterExpression): string | undefined {
+  if (!isFilterGroup(expression)) return expression.columnId;
+  for (const filter of expression.filters) {
+    const columnId = getFirstColumnId(filter);
+    if (columnId !== undefined) return columnId;
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Convert a filter expression to column filter state.
+ *
+ * Conditions of a top-level AND group become plain `{ operator, value }`
+ * column filters. Nested groups, and multiple conditions on the same column,
+ * are stored as a group under the ID of the first column they refer to.
+ */
+export function toColumnFilters(group: FilterGroup): ColumnFiltersState {
+  const entries =
+    group.combinator === "and"
+      ? group.filters
+      : group.filters.length > 0
+      ? [group]
+      : [];
+
+  const byColumn = new Map<string, FilterExpression[]>();
+  for (const expression of entries) {
+    const columnId = getFirstColumnId(expression);
+    if (columnId === undefined) continue;
+    byColumn.set(columnId, [...(byColumn.get(columnId) ?? []), expression]);
+  }
+
+  return Array.from(byColumn, ([columnId, expressions]) => {
+    if (expressions.length === 1 && !isFilterGroup(expressions[0])) {
+      const { operator, value } = expressions[0];
+      return { id: columnId, value: { operator, value } };
+    }
+    const value: FilterGroup =
+      expressions.length === 1
+        ? (expressions[0] as FilterGroup)
+        : { combinator: "and", filters: expressions };
+    return { id: columnId, value };
+  });
+}
+
+/**
+ * Convert column filter state to a single filter expression, e.g. to send
+ * the filters of a `filter-change` event to a Remote Mode backend.
+ *
+ * Column filters are combined with AND. Values that are neither
+ * `{ operator, value }` nor groups are skipped.
+ */
+export function toFilterExpression(
+  columnFilters: ColumnFiltersState
+): FilterGroup {
+  const filters: FilterExpression[] = [];
+  for (const { id, value } of columnFilters) {
+    if (isFilterGroup(value)) {
+      // Flatten groups of a top-level AND into it
+      if (value.combinator === "and") {
+        filters.push(...value.filters);
+      } else {
+        filters.push(value);
+      }
+    } else if (
+      typeof value === "object" &&
+      value !== null &&
+      "operator" in value &&
+      "value" in value
+    ) {
+      const { operator, value: filterValue } = value as Omit<
+        FilterCondition,
+        "columnId"
+      >;
+      filters.push({ columnId: id, operator, value: filterValue });
+    }
+  }
+  return { combinator: "and", filters };
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  registerFilterType,
+  getFilterTypeDefinition,
+  getDefaultFilterOperators,
+  getFilterOperatorLabel,
+  filterOperatorRequiresValue,
+} from "./filterRegistry";
+import { createPluginFilterFn, pluginFilterFn } from "../table/filterFn";
+import type { FilterType } from "./columnMeta";
+
+declare module "./columnMeta" {
+  interface FilterTypeRegistry {
+    tags: "has" | "has_any";
+    flag: "is_true" | "is_false";
+  }
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+registerFilterType("tags", {
+  operators: ["has", "has_any", "is_empty"],
+  labels: { has: "Has", has_any: "Has any of" },
+  predicate: (cellValue, { operator, value }) => {
+    const tags = cellValue as string[];
+    return operator === "has"
+      ? tags.includes(value as string)
+      : (value as string[]).some((tag) => tags.includes(tag));
+  },
+});
+
+registerFilterType("flag", {
+  operators: ["is_true", "is_false"],
+  operatorsWithoutValue: ["is_true", "is_false"],
+  predicate: (cellValue, { operator }) =>
+    operator === "is_true" ? cellValue === true : cellValue === false,
+});
+
+function createMockRow(values: Record<string, unknown>) {
+  return {
+    getValue: (columnId: string) => values[columnId],
+  } as unknown as Parameters<typeof pluginFilterFn>[0];
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+describe("filter type registry", () => {
+  it("returns definitions of registered types only", () => {
+    expect(getFilterTypeDefinition("tags")?.operators).toEqual([
+      "has",
+      "has_any",
+      "is_empty",
+    ]);
+    expect(getFilterTypeDefinition("string")).toBeUndefined();
+  });
+
+  it("returns the operators of registered and built-in types", () => {
+    expect(getDefaultFilterOperators("flag")).toEqual(["is_true", "is_false"]);
+    expect(getDefaultFilterOperators("enum")).toEqual([
+      "is",
+      "is_not",
+      "in",
+      "not_in",
+    ]);
+  });
+
+  it("resolves labels from the type, then the built-in labels", () => {
+    expect(getFilterOperatorLabel("has_any", "tags")).toBe("Has any of");
+    expect(getFilterOperatorLabel("is_empty", "tags")).toBe("Is empty");
+    expect(getFilterOperatorLabel("is_true", "flag")).toBe("is_true");
+    expect(getFilterOperatorLabel("contains")).toBe("Contains");
+  });
+
+  it("knows operators registered without a value by the filter type", () => {
+    expect(filterOperatorRequiresValue("is_true", "flag")).toBe(false);
+    expect(filterOperatorRequiresValue("is_empty")).toBe(false);
+    expect(filterOperatorRequiresValue("has", "tags")).toBe(true);
+    // Only the operators of the given type are taken into account
+    expect(filterOperatorRequiresValue("is_true", "tags")).toBe(true);
+    expect(filterOperatorRequiresValue("is_true")).toBe(true);
+  });
+});
+
+// =============================================================================
+// pluginFilterFn
+// =============================================================================
+
+describe("pluginFilterFn with custom filter types", () => {
+  const filterTypes: Record<string, FilterType> = {
+    tags: "tags",
+    active: "flag",
+  };
+  const filterFn = createPluginFilterFn({
+    getFilterType: (columnId) => filterTypes[columnId],
+  });
+  const row = createMockRow({ tags: ["a", "b"], active: true });
+
+  it("evaluates filters with the predicate of the column's type", () => {
+    const has = (value: string) =>
+      filterFn(row, "tags", { operator: "has", value }, () => {});
+    expect(has("a")).toBe(true);
+    expect(has("c")).toBe(false);
+    expect(
+      filterFn(
+        row,
+        "tags",
+        { operator: "has_any", value: ["c", "b"] },
+        () => {}
+      )
+    ).toBe(true);
+  });
+
+  it("handles is_empty for custom types", () => {
+    expect(
+      filterFn(row, "tags", { operator: "is_empty", value: "" }, () => {})
+    ).toBe(false);
+  });
+
+  it("keeps filters with operators registered without a value", () => {
+    const value = { operator: "is_false" as const, value: "" };
+    const column = (filterType: FilterType) =>
+      ({ columnDef: { meta: { filterType } } } as never);
+    expect(filterFn.autoRemove?.(value, column("flag"))).toBe(false);
+    expect(filterFn.autoRemove?.(value, column("tags"))).toBe(true);
+    expect(filterFn(row, "active", value, () => {})).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Filter type registry.
+ *
+ * Apps and plugins register custom filter types with their operators,
+ * labels, predicate and value input. `pluginFilterFn` evaluates filters on
+ * columns of a registered type with its predicate, and FilterPlugin offers
+ * its operators and input.
+ */
+
+import type { ComponentType } from "react";
+import {
+  DEFAULT_FILTER_OPERATORS,
+  FILTER_OPERATOR_LABELS,
+  type ColumnFilterMeta,
+  type FilterOperator,
+  type FilterType,
+  type FilterTypeRegistry,
+  type FilterValue,
+} from "./columnMeta";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Props passed to the value input of a filter type
+ */
+export interface FilterInputProps<TOperator extends string = FilterOperator> {
+  /** Operator of the filter */
+  operator: TOperator;
+  /** Current filter value */
+  value: FilterValue;
+  /** Update the filter value */
+  onChange: (value: FilterValue) => void;
+  /** Filter metadata of the column */
+  filterMeta: ColumnFilterMeta;
+}
+
+/**
+ * Context passed to the predicate of a filter type
+ */
+export interface FilterPredicateContext {
+  /** Time zone set with `filterTimeZone`, if any */
+  timeZone?: string;
+}
+
+/**
+ * Implementation of a filter type.
+ *
+ * `is_empty` and `is_not_empty` are handled for all filter types and can
+ * be listed in `operators` without being handled by the predicate.
+ */
+export interface FilterTypeDefinition<TOperator extends string = string> {
+  /** Operators offered for columns of the type, in order */
+  operators: (TOperator | "is_empty" | "is_not_empty")[];
+  /**
+   * Labels of the operators. Operators without a label use
+   * FILTER_OPERATOR_LABELS, e.g. when reusing "eq" or "gt".
+   */
+  labels?: Partial<Record<TOperator, string>>;
+  /** Operators that take no value, e.g. "is_true" */
+  operatorsWithoutValue?: TOperator[];
+  /** Check whether a cell value matches a filter */
+  predicate: (
+    cellValue: unknown,
+    filter: { operator: TOperator; value: FilterValue },
+    context: FilterPredicateContext
+  ) => boolean;
+  /**
+   * Input for the filter value in FilterPlugin.
+   * Defaults to a text input.
+   */
+  input?: ComponentType<FilterInputProps<TOperator>>;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const filterTypes = new Map<string, FilterTypeDefinition>();
+
+/**
+ * Register a custom filter type. Registering a type again replaces it.
+ *
+ * Declare the type and its operators in `FilterTypeRegistry` first.
+ *
+ * @example
+ * ```tsx
+ * registerFilterType("tags", {
+ *   operators: ["has", "has_any"],
+ *   labels: { has: "Has", has_any: "Has any of" },
+ *   predicate: (cellValue, { operator, value }) => {
+ *     const tags = cellValue as string[];
+ *     return operator === "has"
+ *       ? tags.includes(value as string)
+ *       : (value as string[]).some((tag) => tags.includes(tag));
+ *   },
+ * });
+ *
+ * const columns = [
+ *   { accessorKey: "tags", header: "Tags", meta: { filterType: "tags" } },
+ * ];
+ * ```
+ */
+export function registerFilterType<TType extends keyof FilterTypeRegistry>(
+  type: TType,
+  definition: FilterTypeDefinition<Extract<FilterTypeRegistry[TType], string>>
+): void {
+  // Operators are checked against the type at registration only
+  filterTypes.set(type, definition as unknown as FilterTypeDefinition);
+}
+
+/**
+ * Get the definition of a registered filter type.
+ * Returns undefined for built-in and unknown filter types.
+ */
+export function getFilterTypeDefinition(
+  type: FilterType
+): FilterTypeDefinition | undefined {
+  return filterTypes.get(type);
+}
+
+/**
+ * Get the operators offered for a filter type
+ */
+export function getDefaultFilterOperators(type: FilterType): FilterOperator[] {
+  const definition = getFilterTypeDefinition(type);
+  if (definition) return definition.operators as FilterOperator[];
+  return (
+    (DEFAULT_FILTER_OPERATORS as Partial<Record<string, FilterOperator[]>>)[
+      type
+    ] ?? []
+  );
+}
+
+/**
+ * Get the label of an operator, using the labels of the filter type first
+ */
+export function getFilterOperatorLabel(
+  operator: FilterOperator,
+  type?: FilterType
+): string {
+  const labels: Partial<Record<string, string>> | undefined =
+    type === undefined ? undefined : getFilterTypeDefinition(type)?.labels;
+  return (
+    labels?.[operator] ??
+    (FILTER_OPERATOR_LABELS as Partial<Record<string, string>>)[operator] ??
+    operator
+  );
+}
+
+/**
+ * Check if an operator takes a value: false for is_empty, is_not_empty
+ * and operators registered without a value by the filter type
+ */
+export function filterOperatorRequiresValue(
+  operator: FilterOperator,
+  type?: FilterType
+): boolean {
+  if (operator === "is_empty" || operator === "is_not_empty") return false;
+  const operatorsWithoutValue: string[] | undefined =
+    type === undefined
+      ? undefined
+      : getFilterTypeDefinition(type)?.operatorsWithoutValue;
+  return !operatorsWithoutValue?.includes(operator);
+}
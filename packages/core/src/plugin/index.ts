@@ -19,6 +19,7 @@ export type {
   FooterSlot,
   CellSlot,
   InlineRowSlot,
+  ColumnHeaderSlot,
   PluginSlots,
   ContextMenuItemsSlot,
   // Plugin types
@@ -56,14 +57,64 @@ export type {
   PluginColumnInfo,
   // Filter types
   FilterType,
+  BuiltinFilterType,
+  FilterTypeRegistry,
   FilterOperator,
+  BuiltinFilterOperator,
   StringFilterOperator,
   NumberFilterOperator,
   DateFilterOperator,
+  DatePeriod,
   EnumFilterOperator,
+  FilterRange,
+  FilterValue,
   ColumnFilterMeta,
+  // Edit types
+  CellEditorType,
+  CellEditorProps,
+  ColumnEditMeta,
+  // Aggregation types
+  AggregateFn,
+  ColumnAggregateMeta,
+  // Format types
+  ColumnFormatMeta,
+  // Search types
+  ColumnSearchMeta,
+  // Export types
+  ColumnExportMeta,
 } from "./Context";
-export { DEFAULT_FILTER_OPERATORS, FILTER_OPERATOR_LABELS } from "./Context";
+export {
+  DEFAULT_FILTER_OPERATORS,
+  FILTER_OPERATOR_LABELS,
+  DATE_PERIOD_LABELS,
+} from "./Context";
+
+// Filter type registry
+export {
+  registerFilterType,
+  getFilterTypeDefinition,
+  getDefaultFilterOperators,
+  getFilterOperatorLabel,
+  filterOperatorRequiresValue,
+} from "./filterRegistry";
+export type {
+  FilterTypeDefinition,
+  FilterInputProps,
+  FilterPredicateContext,
+} from "./filterRegistry";
+
+// Filter expressions
+export {
+  isFilterGroup,
+  toColumnFilters,
+  toFilterExpression,
+} from "./filterExpression";
+export type {
+  FilterCombinator,
+  FilterCondition,
+  FilterGroup,
+  FilterExpression,
+} from "./filterExpression";
 
 // SeizenTablePlugins compound components
 export { SeizenTablePlugins } from "./SeizenTablePlugins";
@@ -71,6 +122,7 @@ export type {
   SidePanelProps,
   InlineRowProps,
   CellProps,
+  ColumnHeaderProps,
 } from "./SeizenTablePlugins";
 
 // PluginControl (for type-safe plugin.open())
@@ -156,6 +156,17 @@ export const footerSlot = style({
   borderTop: `var(--szui-border-width, ${fallback.borderWidth}) solid var(--szui-border-color, ${fallback.borderColor})`,
 });
 
+// =============================================================================
+// Column Header Slot Styles
+// =============================================================================
+
+export const columnHeaderSlot = style({
+  display: "inline-flex",
+  alignItems: "center",
+  marginLeft: "4px",
+  verticalAlign: "middle",
+});
+
 // =============================================================================
 // Inline Row Slot Styles
 // =============================================================================
@@ -1,6 +1,8 @@
 import { useCallback, useMemo, useRef } from "react";
 import type {
   ColumnFiltersState,
+  ColumnSizingState,
+  GroupingState,
   PaginationState,
   SortingState,
   Cell,
@@ -37,8 +39,10 @@ export interface EventBusRegistry {
  * Map of built-in event names to their payload types.
  *
  * SeizenTable automatically emits these events:
- * - State change events: data, selection, filter, sorting, pagination
- * - Action events: row-click
+ * - State change events: data, selection, select-all, filter, sorting,
+ *   pagination, grouping
+ * - Action events: row-click, row-expand, column-resize, active-cell-change,
+ *   cell-edit-commit, cell-edit-cancel
  *
  * Plugins can extend EventBusRegistry to add custom events.
  *
@@ -57,6 +61,18 @@ export interface SeizenTableEventMap<TData = unknown> extends EventBusRegistry {
    */
   "selection-change": TData[];
 
+  /**
+   * Emitted when all rows matching the current filters become selected,
+   * or stop being selected.
+   * In Remote Mode, rows on other pages are not loaded, so this is the only
+   * way to know that the selection covers them.
+   * `totalRowCount` is the number of matching rows, when known.
+   */
+  "select-all-change": {
+    selected: boolean;
+    totalRowCount?: number;
+  };
+
   /**
    * Emitted when column filters change.
    */
@@ -72,12 +88,62 @@ export interface SeizenTableEventMap<TData = unknown> extends EventBusRegistry {
    */
   "pagination-change": PaginationState;
 
+  /**
+   * Emitted when grouping changes.
+   * Payload is the array of column IDs rows are grouped by.
+   */
+  "grouping-change": GroupingState;
+
   /**
    * Emitted when a table row is clicked.
    * Payload is the clicked row data.
    */
   "row-click": TData;
 
+  /**
+   * Emitted when a row with sub rows (see `getSubRows`) is expanded.
+   * In Remote Mode, the app is expected to load the children of the row
+   * and update `data`; the row shows a loading indicator until then.
+   */
+  "row-expand": {
+    row: TData;
+    rowId: string;
+  };
+
+  /**
+   * Emitted when the active cell of the grid moves, by keyboard
+   * navigation or by focusing a cell.
+   * `rowIndex` is the position of the row on the current page.
+   */
+  "active-cell-change": {
+    rowIndex: number;
+    rowId: string;
+    columnId: string;
+    row: TData;
+  };
+
+  /**
+   * Emitted when a cell edit is committed with a changed value.
+   * `value` has passed the column's `editSchema`; the app is expected to
+   * persist it and update `data`.
+   */
+  "cell-edit-commit": {
+    row: TData;
+    rowId: string;
+    columnId: string;
+    value: unknown;
+    previousValue: unknown;
+  };
+
+  /**
+   * Emitted when a cell edit is cancelled and its draft discarded.
+   */
+  "cell-edit-cancel": {
+    row: TData;
+    rowId: string;
+    columnId: string;
+  };
+
   /**
    * Emitted when cell context menu is opened.
    * Payload includes the cell, column, row, and value.
@@ -96,6 +162,17 @@ export interface SeizenTableEventMap<TData = unknown> extends EventBusRegistry {
   "column-context-menu": {
     column: Column<TData, unknown>;
   };
+
+  /**
+   * Emitted when the user finishes resizing a column
+   * (end of a drag, or double-click to auto-fit).
+   * Payload includes the resized column and all column sizes.
+   */
+  "column-resize": {
+    columnId: string;
+    size: number;
+    columnSizing: ColumnSizingState;
+  };
 }
 
 /**
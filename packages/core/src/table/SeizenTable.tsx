@@ -5,8 +5,11 @@ import {
   TableTable,
   TableHeader,
   TableBody,
+  TableFooter,
+  TableVirtualBody,
   TableRow,
   TableCell,
+  TableColumnResizeHandle,
 } from "./components";
 import { Paginator } from "./components/Paginator";
 import { SeizenTablePlugins } from "../plugin/SeizenTablePlugins";
@@ -26,6 +29,26 @@ export interface PaginateOptions {
   sizeOptions?: number[];
 }
 
+export interface VirtualizeOptions {
+  /**
+   * Whether to render only the visible rows (row virtualization)
+   * @default false
+   */
+  enable?: boolean;
+
+  /**
+   * Row height in pixels, used as the fixed or estimated height of each row
+   * @default 41
+   */
+  rowHeight?: number;
+
+  /**
+   * Number of rows to render above and below the visible area
+   * @default 10
+   */
+  overscan?: number;
+}
+
 export interface LoaderProps {
   /**
    * Whether to show the loading overlay.
@@ -55,6 +78,13 @@ export interface SeizenTableProps<TData> {
    */
   paginate?: PaginateOptions;
 
+  /**
+   * Row virtualization options.
+   * Useful for large tables with pagination disabled. The table needs a
+   * bounded height (e.g. via `className`) so that its body can scroll.
+   */
+  virtualize?: VirtualizeOptions;
+
   /**
    * Show loading overlay on the table.
    * Useful for Remote Mode when fetching data.
@@ -126,8 +156,11 @@ function Loader({ loading = true, children }: LoaderProps) {
  * - SeizenTable.Table
  * - SeizenTable.Header
  * - SeizenTable.Body
+ * - SeizenTable.VirtualBody
+ * - SeizenTable.Footer
  * - SeizenTable.Row
  * - SeizenTable.Cell
+ * - SeizenTable.ColumnResizeHandle
  * - SeizenTable.Paginator
  *
  * For plugin UI slots, use SeizenTablePlugins:
@@ -136,6 +169,7 @@ function Loader({ loading = true, children }: LoaderProps) {
  * - SeizenTablePlugins.Footer
  * - SeizenTablePlugins.InlineRow
  * - SeizenTablePlugins.Cell
+ * - SeizenTablePlugins.ColumnHeader
  *
  * @example High-level usage (all-in-one)
  * ```tsx
@@ -161,6 +195,7 @@ export function SeizenTable<TData>({
   table,
   className,
   paginate,
+  virtualize,
   loading = false,
   loaderComponent,
 }: SeizenTableProps<TData>) {
@@ -176,7 +211,15 @@ export function SeizenTable<TData>({
           before={<Loader loading={loading}>{loaderComponent}</Loader>}
         >
           <TableHeader />
-          <TableBody />
+          {virtualize?.enable ? (
+            <TableVirtualBody
+              rowHeight={virtualize.rowHeight}
+              overscan={virtualize.overscan}
+            />
+          ) : (
+            <TableBody />
+          )}
+          <TableFooter />
         </TableTable>
         <SeizenTablePlugins.Footer />
         {paginateEnabled && (
@@ -200,7 +243,10 @@ SeizenTable.Content = TableContent;
 SeizenTable.Table = TableTable;
 SeizenTable.Header = TableHeader;
 SeizenTable.Body = TableBody;
+SeizenTable.VirtualBody = TableVirtualBody;
+SeizenTable.Footer = TableFooter;
 SeizenTable.Row = TableRow;
 SeizenTable.Cell = TableCell;
+SeizenTable.ColumnResizeHandle = TableColumnResizeHandle;
 SeizenTable.Paginator = Paginator;
 SeizenTable.Loader = Loader;
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import type { Column, ColumnMeta } from "@tanstack/react-table";
+import { applyAggregateFn, formatAggregateValue } from "./aggregation";
+
+// =============================================================================
+// applyAggregateFn
+// =============================================================================
+
+describe("applyAggregateFn", () => {
+  const values = [10, 20, null, 30, 20];
+
+  it("sums and averages numbers, skipping empty values", () => {
+    expect(applyAggregateFn("sum", values)).toBe(80);
+    expect(applyAggregateFn("avg", values)).toBe(20);
+  });
+
+  it("returns the minimum and maximum", () => {
+    expect(applyAggregateFn("min", values)).toBe(10);
+    expect(applyAggregateFn("max", values)).toBe(30);
+  });
+
+  it("compares dates for min and max", () => {
+    const dates = [new Date(2024, 5, 1), new Date(2023, 0, 1)];
+    expect(applyAggregateFn("min", dates)).toBe(dates[1]);
+    expect(applyAggregateFn("max", dates)).toBe(dates[0]);
+  });
+
+  it("counts values and distinct values", () => {
+    expect(applyAggregateFn("count", values)).toBe(4);
+    expect(applyAggregateFn("countDistinct", values)).toBe(3);
+  });
+
+  it("returns undefined for sums without numbers", () => {
+    expect(applyAggregateFn("sum", ["a", null])).toBeUndefined();
+    expect(applyAggregateFn("max", [])).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// formatAggregateValue
+// =============================================================================
+
+describe("formatAggregateValue", () => {
+  const createColumn = (meta: ColumnMeta<unknown, unknown>) =>
+    ({ columnDef: { meta } }) as Column<unknown, unknown>;
+
+  it("rounds numbers to two decimals", () => {
+    expect(formatAggregateValue(createColumn({}), 10 / 3)).toBe(
+      (3.33).toLocaleString()
+    );
+  });
+
+  it("formats empty values as an empty string", () => {
+    expect(formatAggregateValue(createColumn({}), undefined)).toBe("");
+  });
+
+  it("uses the column's format except for counts", () => {
+    const format = (value: unknown) => `$${Number(value).toFixed(2)}`;
+
+    expect(
+      formatAggregateValue(createColumn({ aggregate: "sum", format }), 1500)
+    ).toBe("$1500.00");
+    expect(
+      formatAggregateValue(createColumn({ aggregate: "count", format }), 3)
+    ).toBe("3");
+  });
+});
@@ -0,0 +1,144 @@
+import type { Column, Row, Table } from "@tanstack/react-table";
+import type { AggregateFn } from "../plugin/columnMeta";
+import { formatColumnValue } from "./columnFormat";
+
+/**
+ * Rows aggregated by the footer row: all rows matching the filters, or the
+ * rows on the current page
+ */
+export type AggregateScope = "filtered" | "page";
+
+/**
+ * Short labels shown next to aggregated values
+ */
+export const AGGREGATE_LABELS: Record<AggregateFn, string> = {
+  sum: "Sum",
+  avg: "Avg",
+  min: "Min",
+  max: "Max",
+  count: "Count",
+  countDistinct: "Distinct",
+};
+
+function toComparable(value: unknown): number | null {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number" && !Number.isNaN(value)) return value;
+  return null;
+}
+
+/**
+ * Apply a built-in aggregation function to values.
+ * Empty values (null, undefined) are skipped; sum and avg only consider
+ * numbers, min and max numbers and dates.
+ */
+export function applyAggregateFn(fn: AggregateFn, values: unknown[]): unknown {
+  const present = values.filter((value) => value != null);
+
+  switch (fn) {
+    case "count":
+      return present.length;
+    case "countDistinct":
+      return new Set(
+        present.map((value) =>
+          value instanceof Date ? value.getTime() : value
+        )
+      ).size;
+    case "sum":
+    case "avg": {
+      const numbers = present.filter(
+        (value): value is number =>
+          typeof value === "number" && !Number.isNaN(value)
+      );
+      if (numbers.length === 0) return undefined;
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return fn === "sum" ? sum : sum / numbers.length;
+    }
+    case "min":
+    case "max": {
+      let result: unknown = undefined;
+      let resultComparable: number | null = null;
+      for (const value of present) {
+        const comparable = toComparable(value);
+        if (comparable === null) continue;
+        if (
+          resultComparable === null ||
+          (fn === "min"
+            ? comparable < resultComparable
+            : comparable > resultComparable)
+        ) {
+          result = value;
+          resultComparable = comparable;
+        }
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Aggregate the values of a column over rows, according to the column's
+ * `aggregate` meta. Group rows are skipped, so that only data rows count.
+ *
+ * @returns The aggregated value, or undefined if the column has no `aggregate`
+ */
+export function aggregateColumn<TData>(
+  column: Column<TData, unknown>,
+  rows: Row<TData>[]
+): unknown {
+  const aggregate = column.columnDef.meta?.aggregate;
+  if (!aggregate) return undefined;
+
+  const values = rows
+    .filter((row) => !row.getIsGrouped())
+    .map((row) => row.getValue(column.id));
+  return typeof aggregate === "function"
+    ? aggregate(values)
+    : applyAggregateFn(aggregate, values);
+}
+
+/**
+ * Aggregate every column that has `aggregate` in its meta over the rows of
+ * a scope. Hidden columns are included.
+ *
+ * @returns Aggregated values keyed by column ID
+ */
+export function aggregateColumns<TData>(
+  table: Table<TData>,
+  scope: AggregateScope
+): Record<string, unknown> {
+  const rows =
+    scope === "page"
+      ? table.getRowModel().rows
+      : table.getFilteredRowModel().rows;
+  const aggregates: Record<string, unknown> = {};
+  for (const column of table.getAllLeafColumns()) {
+    if (!column.columnDef.meta?.aggregate) continue;
+    aggregates[column.id] = aggregateColumn(column, rows);
+  }
+  return aggregates;
+}
+
+/**
+ * Format an aggregated value of a column for display.
+ * Uses the column's `format` meta, except for counts, which are not values
+ * of the column.
+ */
+export function formatAggregateValue<TData>(
+  column: Column<TData, unknown>,
+  value: unknown
+): string {
+  if (value == null) return "";
+  const aggregate = column.columnDef.meta?.aggregate;
+  if (
+    column.columnDef.meta?.format &&
+    aggregate !== "count" &&
+    aggregate !== "countDistinct"
+  ) {
+    return formatColumnValue(column, value);
+  }
+  if (typeof value === "number") {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { z } from "zod";
+import { useSeizenTable } from "./useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "./useSeizenTable";
+import { SeizenTable } from "./SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  age: number;
+  status: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice", age: 25, status: "active" },
+  { id: 2, name: "Bob", age: 30, status: "inactive" },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID" },
+  {
+    accessorKey: "name",
+    header: "Name",
+    meta: { editable: true, editSchema: z.string().min(1, "Required") },
+  },
+  {
+    accessorKey: "age",
+    header: "Age",
+    meta: { filterType: "number", editable: (row) => row.id !== 2 },
+  },
+  {
+    accessorKey: "status",
+    header: "Status",
+    meta: {
+      filterType: "enum",
+      filterEnumValues: ["active", "inactive"],
+      editable: true,
+    },
+  },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getCell(rowId: string, columnId: string): HTMLElement {
+  return document.querySelector(
+    `tr[data-row-id="${rowId}"] > td[data-column-id="${columnId}"]`
+  ) as HTMLElement;
+}
+
+function edit(rowId: string, columnId: string): HTMLInputElement {
+  fireEvent.doubleClick(getCell(rowId, columnId));
+  return getCell(rowId, columnId).querySelector(
+    "input, select"
+  ) as HTMLInputElement;
+}
+
+// =============================================================================
+// Cell Editing Tests
+// =============================================================================
+
+describe("cell editing", () => {
+  it("opens an editor with the current value on double-click", () => {
+    renderTable();
+
+    const input = edit("1", "name");
+
+    expect(input).toHaveValue("Alice");
+    expect(input).toHaveFocus();
+    expect(getCell("1", "name")).toHaveAttribute("data-editing");
+  });
+
+  it("does not edit cells of non-editable columns or rows", () => {
+    const table = renderTable();
+
+    fireEvent.doubleClick(getCell("1", "id"));
+    fireEvent.doubleClick(getCell("2", "age"));
+
+    expect(table.current.getEditingCell()).toBeNull();
+    expect(document.querySelector("input")).not.toBeInTheDocument();
+  });
+
+  it("commits the draft on Enter and emits cell-edit-commit", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("cell-edit-commit", listener);
+
+    const input = edit("1", "name");
+    fireEvent.change(input, { target: { value: "Alicia" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(listener).toHaveBeenCalledWith({
+      row: data[0],
+      rowId: "1",
+      columnId: "name",
+      value: "Alicia",
+      previousValue: "Alice",
+    });
+    expect(table.current.getEditingCell()).toBeNull();
+    expect(getCell("1", "name")).toHaveFocus();
+  });
+
+  it("discards the draft on Escape and emits cell-edit-cancel", () => {
+    const table = renderTable();
+    const commitListener = vi.fn();
+    const cancelListener = vi.fn();
+    table.current.eventBus.subscribe("cell-edit-commit", commitListener);
+    table.current.eventBus.subscribe("cell-edit-cancel", cancelListener);
+
+    const input = edit("1", "name");
+    fireEvent.change(input, { target: { value: "Alicia" } });
+    fireEvent.keyDown(input, { key: "Escape" });
+
+    expect(commitListener).not.toHaveBeenCalled();
+    expect(cancelListener).toHaveBeenCalledWith({
+      row: data[0],
+      rowId: "1",
+      columnId: "name",
+    });
+    expect(getCell("1", "name")).toHaveTextContent("Alice");
+  });
+
+  it("keeps the editor open when validation fails", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("cell-edit-commit", listener);
+
+    const input = edit("1", "name");
+    fireEvent.change(input, { target: { value: "" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent("Required");
+    expect(table.current.getEditingCell()).toMatchObject({
+      draft: "",
+      error: "Required",
+    });
+  });
+
+  it("uses editors matching the filter type", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("cell-edit-commit", listener);
+
+    const numberInput = edit("1", "age");
+    expect(numberInput).toHaveAttribute("type", "number");
+    fireEvent.change(numberInput, { target: { value: "26" } });
+    fireEvent.keyDown(numberInput, { key: "Enter" });
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ columnId: "age", value: 26 })
+    );
+
+    const select = edit("1", "status");
+    expect(select.tagName).toBe("SELECT");
+    fireEvent.change(select, { target: { value: "inactive" } });
+    fireEvent.keyDown(select, { key: "Enter" });
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ columnId: "status", value: "inactive" })
+    );
+  });
+
+  it("does not emit cell-edit-commit when the value is unchanged", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("cell-edit-commit", listener);
+
+    const input = edit("1", "name");
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(table.current.getEditingCell()).toBeNull();
+  });
+
+  it("starts editing the active cell with Enter", () => {
+    const table = renderTable();
+    act(() => getCell("2", "status").focus());
+
+    fireEvent.keyDown(getCell("2", "status"), { key: "Enter" });
+
+    expect(table.current.getEditingCell()).toMatchObject({
+      rowId: "2",
+      columnId: "status",
+      draft: "inactive",
+    });
+  });
+
+  it("renders a custom editor", () => {
+    const table = renderTable({
+      columns: [
+        {
+          accessorKey: "name",
+          header: "Name",
+          meta: {
+            editable: true,
+            editor: ({ onCommit }) => (
+              <button onClick={() => onCommit("Custom")}>Set value</button>
+            ),
+          },
+        },
+      ],
+    });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("cell-edit-commit", listener);
+
+    fireEvent.doubleClick(getCell("1", "name"));
+    fireEvent.click(screen.getByRole("button", { name: "Set value" }));
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ value: "Custom", previousValue: "Alice" })
+    );
+  });
+
+  it("shows optimistic values until they are rolled back", () => {
+    const table = renderTable({ optimisticEdits: true });
+
+    const input = edit("1", "name");
+    fireEvent.change(input, { target: { value: "Alicia" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(getCell("1", "name")).toHaveTextContent("Alicia");
+    expect(table.current.getPendingCellEdit("1", "name")).toEqual({
+      value: "Alicia",
+    });
+
+    act(() => table.current.rollbackCellEdit("1", "name"));
+
+    expect(getCell("1", "name")).toHaveTextContent("Alice");
+    expect(table.current.getPendingCellEdit("1", "name")).toBeUndefined();
+  });
+});
@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Column, Row, Table } from "@tanstack/react-table";
+import type { EventBus } from "../plugin/useEventBus";
+import type { SeizenTableInstance } from "./useSeizenTable";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Cell being edited, with its draft value
+ */
+export interface EditingCell {
+  rowId: string;
+  columnId: string;
+  /** Draft value, not yet committed */
+  draft: unknown;
+  /** Validation error of the last commit attempt */
+  error?: string;
+}
+
+/**
+ * Values committed optimistically, keyed by row ID and column ID
+ */
+type PendingCellEdits = Record<string, Record<string, unknown>>;
+
+type CellEditingMethods<TData> = Pick<
+  SeizenTableInstance<TData>,
+  | "getEditingCell"
+  | "startCellEdit"
+  | "setCellEditDraft"
+  | "commitCellEdit"
+  | "cancelCellEdit"
+  | "getPendingCellEdit"
+  | "rollbackCellEdit"
+>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether a cell can be edited, according to the column's `editable` meta
+ */
+export function isCellEditable<TData>(
+  row: Row<TData>,
+  column: Column<TData, unknown>
+): boolean {
+  const editable = column.columnDef.meta?.editable;
+  return typeof editable === "function"
+    ? editable(row.original)
+    : editable === true;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return Object.is(a, b);
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+interface UseCellEditingOptions<TData> {
+  table: Table<TData>;
+  eventBus: EventBus;
+  data: TData[];
+  optimistic: boolean;
+}
+
+/**
+ * Editing state of the table: the cell being edited with its draft, and
+ * values committed optimistically that the app has not confirmed yet.
+ *
+ * Optimistic values are shown until `data` changes (the app applied the
+ * edit) or the app rolls them back.
+ */
+export function useCellEditing<TData>({
+  table,
+  eventBus,
+  data,
+  optimistic,
+}: UseCellEditingOptions<TData>): CellEditingMethods<TData> {
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  const [pendingEdits, setPendingEdits] = useState<PendingCellEdits>({});
+
+  // New data from the app replaces optimistic values
+  useEffect(() => {
+    setPendingEdits((prev) => (Object.keys(prev).length === 0 ? prev : {}));
+  }, [data]);
+
+  return useMemo(() => {
+    const findCell = (rowId: string, columnId: string) => {
+      const row = table.getCoreRowModel().rowsById[rowId];
+      const column = table
+        .getAllLeafColumns()
+        .find((leaf) => leaf.id === columnId);
+      return row && column ? { row, column } : null;
+    };
+
+    const getPendingCellEdit = (rowId: string, columnId: string) => {
+      const pending = pendingEdits[rowId];
+      return pending && columnId in pending
+        ? { value: pending[columnId] }
+        : undefined;
+    };
+
+    return {
+      getEditingCell: () => editingCell,
+
+      startCellEdit: (rowId: string, columnId: string) => {
+        const target = findCell(rowId, columnId);
+        if (!target || !isCellEditable(target.row, target.column)) return;
+
+        // Starting another edit discards the current draft
+        const current =
+          editingCell && findCell(editingCell.rowId, editingCell.columnId);
+        if (current) {
+          eventBus.emit("cell-edit-cancel", {
+            row: current.row.original,
+            rowId: current.row.id,
+            columnId: current.column.id,
+          });
+        }
+
+        const pending = getPendingCellEdit(rowId, columnId);
+        setEditingCell({
+          rowId,
+          columnId,
+          draft: pending ? pending.value : target.row.getValue(columnId),
+        });
+      },
+
+      setCellEditDraft: (value: unknown) => {
+        setEditingCell((prev) =>
+          prev
+            ? { rowId: prev.rowId, columnId: prev.columnId, draft: value }
+            : prev
+        );
+      },
+
+      commitCellEdit: (...args: [value?: unknown]) => {
+        if (!editingCell) return false;
+        const { rowId, columnId } = editingCell;
+        const target = findCell(rowId, columnId);
+        if (!target) {
+          setEditingCell(null);
+          return false;
+        }
+
+        let value = args.length > 0 ? args[0] : editingCell.draft;
+        const schema = target.column.columnDef.meta?.editSchema;
+        if (schema) {
+          const result = schema.safeParse(value);
+          if (!result.success) {
+            setEditingCell({
+              rowId,
+              columnId,
+              draft: value,
+              error: result.error.issues[0]?.message ?? "Invalid value",
+            });
+            return false;
+          }
+          value = result.data;
+        }
+
+        setEditingCell(null);
+
+        const previousValue = target.row.getValue(columnId);
+        const pending = getPendingCellEdit(rowId, columnId);
+        const currentValue = pending ? pending.value : previousValue;
+        if (isSameValue(value, currentValue)) return true;
+
+        if (optimistic) {
+          setPendingEdits((prev) => ({
+            ...prev,
+            [rowId]: { ...prev[rowId], [columnId]: value },
+          }));
+        }
+        eventBus.emit("cell-edit-commit", {
+          row: target.row.original,
+          rowId,
+          columnId,
+          value,
+          previousValue,
+        });
+        return true;
+      },
+
+      cancelCellEdit: () => {
+        if (!editingCell) return;
+        const { rowId, columnId } = editingCell;
+        const target = findCell(rowId, columnId);
+        setEditingCell(null);
+        if (target) {
+          eventBus.emit("cell-edit-cancel", {
+            row: target.row.original,
+            rowId,
+            columnId,
+          });
+        }
+      },
+
+      getPendingCellEdit,
+
+      rollbackCellEdit: (rowId: string, columnId: string) => {
+        setPendingEdits((prev) => {
+          const pending = prev[rowId];
+          if (!pending || !(columnId in pending)) return prev;
+          const { [columnId]: _, ...rest } = pending;
+          return { ...prev, [rowId]: rest };
+        });
+      },
+    };
+  }, [table, eventBus, editingCell, pendingEdits, optimistic]);
+}
@@ -0,0 +1,14 @@
+import type { Column } from "@tanstack/react-table";
+
+/**
+ * Format a value of a column for display, with the column's `format` meta
+ * if set. Empty values (null, undefined) are rendered as an empty string.
+ */
+export function formatColumnValue<TData>(
+  column: Column<TData, unknown>,
+  value: unknown
+): string {
+  if (value == null) return "";
+  const format = column.columnDef.meta?.format;
+  return format ? format(value) : String(value);
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { useSeizenTable } from "./useSeizenTable";
+import type { SeizenTableColumn } from "./useSeizenTable";
+import type { SeizenTableState } from "./useSeizenTableState";
+import { SeizenTable } from "./SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  email: string;
+  status: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice", email: "alice@example.com", status: "active" },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID", size: 60 },
+  { accessorKey: "name", header: "Name", size: 120 },
+  { accessorKey: "email", header: "Email" },
+  { accessorKey: "status", header: "Status", size: 90 },
+];
+
+function renderTable(initialState: Partial<SeizenTableState>) {
+  function TestTable() {
+    const table = useSeizenTable({ data, columns, initialState });
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  return render(<TestTable />);
+}
+
+function getCells(columnId: string): HTMLElement[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>(`[data-column-id="${columnId}"]`)
+  );
+}
+
+// =============================================================================
+// Pinned Column Rendering Tests
+// =============================================================================
+
+describe("pinned columns", () => {
+  it("offsets left-pinned columns by the widths of the columns before them", () => {
+    renderTable({ columnPinning: { left: ["id", "name"], right: [] } });
+
+    for (const cell of getCells("id")) {
+      expect(cell).toHaveAttribute("data-pinned", "left");
+      expect(cell).not.toHaveAttribute("data-pinned-edge");
+      expect(cell.style.left).toBe("0px");
+    }
+    for (const cell of getCells("name")) {
+      expect(cell).toHaveAttribute("data-pinned-edge");
+      expect(cell.style.left).toBe("60px");
+    }
+  });
+
+  it("offsets right-pinned columns by the widths of the columns after them", () => {
+    renderTable({ columnPinning: { left: [], right: ["name", "status"] } });
+
+    for (const cell of getCells("status")) {
+      expect(cell).toHaveAttribute("data-pinned", "right");
+      expect(cell.style.right).toBe("0px");
+    }
+    for (const cell of getCells("name")) {
+      expect(cell).toHaveAttribute("data-pinned-edge");
+      expect(cell.style.right).toBe("90px");
+    }
+  });
+
+  it("gives pinned columns without a size a default width", () => {
+    renderTable({ columnPinning: { left: ["email", "id"], right: [] } });
+
+    const [emailHeader] = getCells("email");
+    expect(emailHeader.style.width).toBe("150px");
+    for (const cell of getCells("id")) {
+      expect(cell.style.left).toBe("150px");
+    }
+  });
+
+  it("does not mark unpinned columns", () => {
+    renderTable({ columnPinning: { left: ["id"], right: [] } });
+
+    for (const cell of getCells("email")) {
+      expect(cell).not.toHaveAttribute("data-pinned");
+      expect(cell.style.left).toBe("");
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import type {
+  Column,
+  ColumnSizingState,
+  Table,
+} from "@tanstack/react-table";
+import { getColumnWidth } from "./columnSizing";
+
+/**
+ * Resolve the sticky position of a pinned column.
+ * The offset is the total width of the pinned columns between the column
+ * and the edge it is pinned to.
+ * Returns undefined for columns that are not pinned.
+ */
+export function getColumnPinningStyle<TData>(
+  column: Column<TData, unknown>,
+  table: Table<TData>,
+  columnSizing: ColumnSizingState
+): React.CSSProperties | undefined {
+  const position = column.getIsPinned();
+  if (!position) return undefined;
+
+  const pinnedColumns =
+    position === "left"
+      ? table.getLeftVisibleLeafColumns()
+      : table.getRightVisibleLeafColumns().slice().reverse();
+  let offset = 0;
+  for (const pinned of pinnedColumns) {
+    if (pinned.id === column.id) break;
+    offset += getColumnWidth(pinned, columnSizing) ?? 0;
+  }
+
+  return { [position]: offset };
+}
+
+/**
+ * Data attributes marking pinned cells, used for sticky styling
+ */
+export function getColumnPinningAttributes<TData>(
+  column: Column<TData, unknown>
+): { "data-pinned"?: "left" | "right"; "data-pinned-edge"?: "" } {
+  const position = column.getIsPinned();
+  if (!position) return {};
+
+  const isEdge =
+    position === "left"
+      ? column.getIsLastColumn("left")
+      : column.getIsFirstColumn("right");
+  return {
+    "data-pinned": position,
+    ...(isEdge ? { "data-pinned-edge": "" } : {}),
+  };
+}
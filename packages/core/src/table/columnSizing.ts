@@ -0,0 +1,96 @@
+import type { Column, ColumnSizingState } from "@tanstack/react-table";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Minimum column width when the column def has no `minSize` */
+export const DEFAULT_MIN_COLUMN_SIZE = 40;
+
+/** Extra space added to auto-fitted columns for the resize handle */
+const AUTO_FIT_PADDING = 4;
+
+// =============================================================================
+// Size Helpers
+// =============================================================================
+
+/**
+ * Clamp a width to the column's `minSize`/`maxSize`
+ */
+export function clampColumnSize<TData>(
+  column: Column<TData, unknown>,
+  size: number
+): number {
+  const { minSize = DEFAULT_MIN_COLUMN_SIZE, maxSize = Infinity } =
+    column.columnDef;
+  return Math.round(Math.min(Math.max(size, minSize), maxSize));
+}
+
+/**
+ * Resolve the width of a column that has been sized explicitly,
+ * either by the user (sizing state) or by `size` on the column def.
+ * Pinned columns always get a width, since sticky offsets depend on it.
+ * Returns undefined for columns that use the automatic table layout width.
+ */
+export function getColumnWidth<TData>(
+  column: Column<TData, unknown>,
+  columnSizing: ColumnSizingState
+): number | undefined {
+  const size =
+    columnSizing[column.id] ??
+    column.columnDef.size ??
+    (column.getIsPinned() ? column.getSize() : undefined);
+  return size === undefined ? undefined : clampColumnSize(column, size);
+}
+
+// =============================================================================
+// DOM Measurement
+// =============================================================================
+
+function getCells(table: HTMLTableElement, columnId: string): HTMLElement[] {
+  return Array.from(
+    table.querySelectorAll<HTMLElement>("th[data-column-id], td[data-column-id]")
+  ).filter((cell) => cell.dataset.columnId === columnId);
+}
+
+/**
+ * Measure the rendered width of every header cell, keyed by column ID
+ */
+export function measureHeaderWidths(
+  table: HTMLTableElement
+): Record<string, number> {
+  const widths: Record<string, number> = {};
+  for (const th of Array.from(
+    table.querySelectorAll<HTMLElement>("thead th[data-column-id]")
+  )) {
+    widths[th.dataset.columnId!] = th.getBoundingClientRect().width;
+  }
+  return widths;
+}
+
+/**
+ * Measure the width a column needs to show the content of all rendered
+ * header and body cells without truncation.
+ */
+export function measureColumnContentWidth(
+  table: HTMLTableElement,
+  columnId: string
+): number {
+  let maxWidth = 0;
+  for (const cell of getCells(table, columnId)) {
+    // Exclude the resize handle, which spans the edge of header cells
+    const handle = cell.querySelector(":scope > [data-resize-handle]");
+    const range = document.createRange();
+    range.selectNodeContents(cell);
+    if (handle) {
+      range.setEndBefore(handle);
+    }
+    const contentWidth = range.getBoundingClientRect().width;
+    const computed = window.getComputedStyle(cell);
+    const padding =
+      (parseFloat(computed.paddingLeft) || 0) +
+      (parseFloat(computed.paddingRight) || 0);
+    maxWidth = Math.max(maxWidth, contentWidth + padding);
+  }
+  return Math.ceil(maxWidth) + AUTO_FIT_PADDING;
+}
@@ -1,6 +1,16 @@
 import { flexRender, type Cell, type Row } from "@tanstack/react-table";
 import { useContextMenuHandlers } from "../../plugin/contextMenu";
 import { SeizenTablePlugins } from "../../plugin/SeizenTablePlugins";
+import { useSeizenTableContext } from "./Root";
+import { useCellTabIndex } from "../gridNavigation";
+import { isCellEditable } from "../cellEditing";
+import { TableCellEditor } from "./CellEditor";
+import { TableRowExpandToggle } from "./RowExpandToggle";
+import { ROW_INDENT_WIDTH, getTreeColumnId } from "../treeData";
+import {
+  getColumnPinningAttributes,
+  getColumnPinningStyle,
+} from "../columnPinning";
 import * as styles from "../styles.css";
 
 export interface TableCellProps<TData> {
@@ -26,6 +36,11 @@ export interface TableCellProps<TData> {
  * Features:
  * - Automatic cell content rendering via flexRender
  * - Context menu support (right-click)
+ * - Roving tabindex for keyboard navigation (inside SeizenTable.Table)
+ * - Inline editing for `editable` columns (double-click, Enter or F2)
+ * - Expand toggle and indentation of sub rows in the first column
+ *   (when `getSubRows` is set)
+ * - Sticky positioning for pinned columns
  * - Plugin cell slot support (custom cell renderers)
  *
  * @example Default usage
@@ -69,20 +84,73 @@ export function TableCell<TData>({
   className,
   children,
 }: React.PropsWithChildren<TableCellProps<TData>>) {
+  const table = useSeizenTableContext<TData>();
   const { handleCellContextMenu } = useContextMenuHandlers<TData>();
+  const tabIndex = useCellTabIndex(row.id, cell.column.id);
   const cellClassName = className ? `${styles.td} ${className}` : styles.td;
+  const isEditable = isCellEditable(row, cell.column);
+  const editingCell = table.getEditingCell();
+  const isEditing =
+    editingCell?.rowId === row.id && editingCell.columnId === cell.column.id;
+
+  // Show the value committed optimistically until the app updates the data
+  const pending = table.getPendingCellEdit(row.id, cell.column.id);
+  const cellContext = cell.getContext();
+  const getPendingValue = (() =>
+    pending?.value) as typeof cellContext.getValue;
+  const context = pending
+    ? {
+        ...cellContext,
+        getValue: getPendingValue,
+        renderValue: getPendingValue,
+      }
+    : cellContext;
+
+  // Tree data: the first column shows the expand toggle, indented by depth
+  const isTreeCell =
+    !!table._tanstackTable.options.getSubRows &&
+    getTreeColumnId(row) === cell.column.id;
+  const content = children ?? (
+    <SeizenTablePlugins.Cell cell={cell} column={cell.column} row={row}>
+      {flexRender(cell.column.columnDef.cell, context)}
+    </SeizenTablePlugins.Cell>
+  );
 
   return (
     <td
       className={cellClassName}
+      role="gridcell"
+      tabIndex={tabIndex}
+      data-column-id={cell.column.id}
+      data-editable={isEditable || undefined}
+      data-editing={isEditing || undefined}
+      {...getColumnPinningAttributes(cell.column)}
+      style={getColumnPinningStyle(
+        cell.column,
+        table._tanstackTable,
+        table.getColumnSizing()
+      )}
       onContextMenu={(e) => {
         handleCellContextMenu(e, cell, cell.column, row);
       }}
+      onDoubleClick={
+        isEditable
+          ? () => table.startCellEdit(row.id, cell.column.id)
+          : undefined
+      }
     >
-      {children ?? (
-        <SeizenTablePlugins.Cell cell={cell} column={cell.column} row={row}>
-          {flexRender(cell.column.columnDef.cell, cell.getContext())}
-        </SeizenTablePlugins.Cell>
+      {isEditing ? (
+        <TableCellEditor cell={cell} row={row} editingCell={editingCell} />
+      ) : isTreeCell ? (
+        <span
+          className={styles.treeCell}
+          style={{ paddingLeft: `${row.depth * ROW_INDENT_WIDTH}px` }}
+        >
+          <TableRowExpandToggle row={row} />
+          {content}
+        </span>
+      ) : (
+        content
       )}
     </td>
   );
@@ -0,0 +1,219 @@
+import { useRef } from "react";
+import type { Cell, Row } from "@tanstack/react-table";
+import type { CellEditorType } from "../../plugin/columnMeta";
+import type { EditingCell } from "../cellEditing";
+import { useSeizenTableContext } from "./Root";
+import * as styles from "../styles.css";
+
+export interface TableCellEditorProps<TData> {
+  /**
+   * The TanStack Table Cell object being edited
+   */
+  cell: Cell<TData, unknown>;
+
+  /**
+   * The TanStack Table Row object (parent row)
+   */
+  row: Row<TData>;
+
+  /**
+   * Editing state of the cell
+   */
+  editingCell: EditingCell;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getBuiltinEditorType<TData>(
+  cell: Cell<TData, unknown>
+): CellEditorType {
+  const meta = cell.column.columnDef.meta;
+  if (typeof meta?.editor === "string") return meta.editor;
+  switch (meta?.filterType) {
+    case "number":
+    case "date":
+    case "enum":
+      return meta.filterType;
+    default:
+      return "text";
+  }
+}
+
+function toDateInputValue(value: unknown): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    const month = String(value.getMonth() + 1).padStart(2, "0");
+    const day = String(value.getDate()).padStart(2, "0");
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return typeof value === "string" ? value.slice(0, 10) : "";
+}
+
+function getEditorLabel<TData>(cell: Cell<TData, unknown>): string {
+  const header = cell.column.columnDef.header;
+  return `Edit ${typeof header === "string" ? header : cell.column.id}`;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Editor rendered in place of the content of the cell being edited.
+ *
+ * - Enter commits the draft, Escape cancels
+ * - Moving focus out of the editor commits the draft
+ * - Validation errors keep the editor open and are shown below it
+ *
+ * Uses the column's custom `editor` if provided, otherwise a built-in
+ * input matching the editor type.
+ */
+export function TableCellEditor<TData>({
+  cell,
+  row,
+  editingCell,
+}: TableCellEditorProps<TData>) {
+  const table = useSeizenTableContext<TData>();
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Set while the editor closes itself, so the blur caused by moving
+  // focus back to the cell does not commit again
+  const closingRef = useRef(false);
+  const { draft, error } = editingCell;
+  const meta = cell.column.columnDef.meta;
+
+  // Move focus back to the cell so that keyboard navigation continues
+  const focusCell = () => {
+    closingRef.current = true;
+    containerRef.current?.closest("td")?.focus();
+  };
+
+  const commit = (...args: [value?: unknown]) => {
+    if (table.commitCellEdit(...args)) {
+      focusCell();
+    }
+  };
+
+  const cancel = () => {
+    table.cancelCellEdit();
+    focusCell();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      cancel();
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (closingRef.current) return;
+    if (containerRef.current?.contains(e.relatedTarget as Node | null)) return;
+    table.commitCellEdit();
+  };
+
+  const renderEditor = () => {
+    if (typeof meta?.editor === "function") {
+      return meta.editor({
+        value: draft,
+        onChange: table.setCellEditDraft,
+        onCommit: commit,
+        onCancel: cancel,
+        error,
+        row: row.original,
+      });
+    }
+
+    const inputProps = {
+      className: styles.cellEditorInput,
+      "aria-label": getEditorLabel(cell),
+      "aria-invalid": error ? true : undefined,
+      autoFocus: true,
+    };
+
+    switch (getBuiltinEditorType(cell)) {
+      case "number":
+        return (
+          <input
+            {...inputProps}
+            type="number"
+            value={
+              typeof draft === "number" && !Number.isNaN(draft)
+                ? String(draft)
+                : ""
+            }
+            onChange={(e) =>
+              table.setCellEditDraft(
+                e.target.value === "" ? null : Number(e.target.value)
+              )
+            }
+          />
+        );
+      case "date":
+        return (
+          <input
+            {...inputProps}
+            type="date"
+            value={toDateInputValue(draft)}
+            onChange={(e) => {
+              const value = e.target.value;
+              // Keep the type of the original value (Date or string)
+              if (row.getValue(cell.column.id) instanceof Date) {
+                table.setCellEditDraft(
+                  value === "" ? null : new Date(`${value}T00:00:00`)
+                );
+              } else {
+                table.setCellEditDraft(value);
+              }
+            }}
+          />
+        );
+      case "enum":
+        return (
+          <select
+            {...inputProps}
+            value={draft == null ? "" : String(draft)}
+            onChange={(e) => table.setCellEditDraft(e.target.value)}
+          >
+            {(meta?.filterEnumValues ?? []).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            {...inputProps}
+            type="text"
+            value={draft == null ? "" : String(draft)}
+            onChange={(e) => table.setCellEditDraft(e.target.value)}
+            onFocus={(e) => e.target.select()}
+          />
+        );
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={styles.cellEditor}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {renderEditor()}
+      {error && (
+        <div role="alert" className={styles.cellEditorError}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { useSeizenTable } from "../useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "../useSeizenTable";
+import { SeizenTable } from "../SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice" },
+  { id: 2, name: "Bob" },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID", size: 80 },
+  { accessorKey: "name", header: "Name", minSize: 100, maxSize: 300 },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      enableColumnResizing: true,
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getHeaderCell(columnId: string): HTMLElement {
+  return document.querySelector(
+    `th[data-column-id="${columnId}"]`
+  ) as HTMLElement;
+}
+
+function mockWidth(element: HTMLElement, width: number) {
+  vi.spyOn(element, "getBoundingClientRect").mockReturnValue({
+    width,
+  } as DOMRect);
+}
+
+function drag(handle: HTMLElement, from: number, to: number) {
+  fireEvent.pointerDown(handle, { button: 0, clientX: from });
+  fireEvent.pointerMove(document, { clientX: to });
+  fireEvent.pointerUp(document, { clientX: to });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// =============================================================================
+// TableColumnResizeHandle Tests
+// =============================================================================
+
+describe("TableColumnResizeHandle", () => {
+  it("renders a handle for each resizable column", () => {
+    renderTable();
+
+    expect(screen.getAllByRole("separator")).toHaveLength(2);
+  });
+
+  it("does not render handles when resizing is not enabled", () => {
+    renderTable({ enableColumnResizing: undefined });
+
+    expect(screen.queryByRole("separator")).not.toBeInTheDocument();
+  });
+
+  it("applies explicit column widths to header cells", () => {
+    renderTable();
+
+    expect(getHeaderCell("id").style.width).toBe("80px");
+    expect(getHeaderCell("name").style.width).toBe("");
+  });
+
+  it("resizes a column by dragging", () => {
+    const table = renderTable();
+    mockWidth(getHeaderCell("id"), 80);
+    mockWidth(getHeaderCell("name"), 150);
+
+    const handle = getHeaderCell("name").querySelector(
+      "[data-resize-handle]"
+    ) as HTMLElement;
+    drag(handle, 500, 560);
+
+    expect(table.current.getColumnSizing()).toEqual({ id: 80, name: 210 });
+    expect(getHeaderCell("name").style.width).toBe("210px");
+  });
+
+  it("clamps the size to minSize and maxSize", () => {
+    const table = renderTable();
+    mockWidth(getHeaderCell("name"), 150);
+    const handle = getHeaderCell("name").querySelector(
+      "[data-resize-handle]"
+    ) as HTMLElement;
+
+    drag(handle, 500, 300);
+    expect(table.current.getColumnSizing().name).toBe(100);
+
+    drag(handle, 500, 1000);
+    expect(table.current.getColumnSizing().name).toBe(300);
+  });
+
+  it("emits column-resize when a drag finishes", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("column-resize", listener);
+    mockWidth(getHeaderCell("id"), 80);
+
+    const handle = getHeaderCell("id").querySelector(
+      "[data-resize-handle]"
+    ) as HTMLElement;
+    drag(handle, 100, 120);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ columnId: "id", size: 100 })
+    );
+  });
+
+  it("stops listening when unmounted mid-drag", () => {
+    renderTable();
+    const removeListener = vi.spyOn(document, "removeEventListener");
+    const handle = getHeaderCell("name").querySelector(
+      "[data-resize-handle]"
+    ) as HTMLElement;
+
+    fireEvent.pointerDown(handle, { button: 0, clientX: 500 });
+    cleanup();
+
+    expect(removeListener).toHaveBeenCalledWith(
+      "pointermove",
+      expect.any(Function)
+    );
+    expect(removeListener).toHaveBeenCalledWith(
+      "pointerup",
+      expect.any(Function)
+    );
+  });
+
+  it("fits a column to its content on double-click", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("column-resize", listener);
+    vi.spyOn(Range.prototype, "getBoundingClientRect").mockReturnValue({
+      width: 150,
+    } as DOMRect);
+
+    const handle = getHeaderCell("name").querySelector(
+      "[data-resize-handle]"
+    ) as HTMLElement;
+    fireEvent.doubleClick(handle);
+
+    const size = table.current.getColumnSizing().name;
+    expect(size).toBeGreaterThanOrEqual(150);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ columnId: "name", size })
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import type { ColumnSizingState, Header } from "@tanstack/react-table";
+import { useSeizenTableContext } from "./Root";
+import {
+  clampColumnSize,
+  measureColumnContentWidth,
+  measureHeaderWidths,
+} from "../columnSizing";
+import * as styles from "../styles.css";
+
+export interface TableColumnResizeHandleProps<TData> {
+  /**
+   * The TanStack Table Header object of the column to resize
+   */
+  header: Header<TData, unknown>;
+}
+
+/**
+ * Drag handle for resizing a column, placed at the right edge of a header cell.
+ *
+ * - Drag to resize the column (clamped to `minSize`/`maxSize`)
+ * - Double-click to fit the column to its content
+ *
+ * Emits `column-resize` when a resize finishes.
+ * Rendered automatically by SeizenTable.Header; use it directly only in
+ * custom header implementations. The header cell must have
+ * `position: relative` and a `data-column-id` attribute.
+ *
+ * @example
+ * ```tsx
+ * <th data-column-id={header.column.id} style={{ position: "relative" }}>
+ *   {flexRender(header.column.columnDef.header, header.getContext())}
+ *   <SeizenTable.ColumnResizeHandle header={header} />
+ * </th>
+ * ```
+ */
+export function TableColumnResizeHandle<TData>({
+  header,
+}: TableColumnResizeHandleProps<TData>) {
+  const table = useSeizenTableContext<TData>();
+  const handleRef = useRef<HTMLDivElement>(null);
+  const [isResizing, setIsResizing] = useState(false);
+  // Removes the document listeners of the drag in progress
+  const removeListenersRef = useRef<(() => void) | null>(null);
+  const column = header.column;
+
+  // Stop listening if the header unmounts mid-drag
+  useEffect(() => () => removeListenersRef.current?.(), []);
+
+  if (!column.getCanResize()) {
+    return null;
+  }
+
+  /**
+   * Sizes of all visible columns as currently rendered.
+   * Pinning every width before changing one keeps the other columns
+   * from jumping when the table switches to a fixed layout.
+   */
+  const getBaseSizing = (tableEl: HTMLTableElement): ColumnSizingState => {
+    const current = table.getColumnSizing();
+    const measured = measureHeaderWidths(tableEl);
+    const base: ColumnSizingState = {};
+    for (const leaf of table._tanstackTable.getVisibleLeafColumns()) {
+      const size =
+        current[leaf.id] ?? leaf.columnDef.size ?? measured[leaf.id];
+      if (size !== undefined) {
+        base[leaf.id] = clampColumnSize(leaf, size);
+      }
+    }
+    return { ...current, ...base };
+  };
+
+  const commit = (columnSizing: ColumnSizingState) => {
+    table.eventBus.emit("column-resize", {
+      columnId: column.id,
+      size: columnSizing[column.id],
+      columnSizing,
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const th = handleRef.current?.parentElement;
+    const tableEl = th?.closest("table");
+    if (!th || !tableEl || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startWidth = th.getBoundingClientRect().width;
+    const base = getBaseSizing(tableEl);
+    let sizing: ColumnSizingState = {
+      ...base,
+      [column.id]: clampColumnSize(column, startWidth),
+    };
+    setIsResizing(true);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      sizing = {
+        ...base,
+        [column.id]: clampColumnSize(
+          column,
+          startWidth + moveEvent.clientX - startX
+        ),
+      };
+      table.setColumnSizing(sizing);
+    };
+
+    const handleUp = () => {
+      removeListeners();
+      setIsResizing(false);
+      table.setColumnSizing(sizing);
+      commit(sizing);
+    };
+
+    const removeListeners = () => {
+      document.removeEventListener("pointermove", handleMove);
+      document.removeEventListener("pointerup", handleUp);
+      removeListenersRef.current = null;
+    };
+
+    document.addEventListener("pointermove", handleMove);
+    document.addEventListener("pointerup", handleUp);
+    removeListenersRef.current = removeListeners;
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const tableEl = handleRef.current?.closest("table");
+    if (!tableEl) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const sizing: ColumnSizingState = {
+      ...getBaseSizing(tableEl),
+      [column.id]: clampColumnSize(
+        column,
+        measureColumnContentWidth(tableEl, column.id)
+      ),
+    };
+    table.setColumnSizing(sizing);
+    commit(sizing);
+  };
+
+  return (
+    <div
+      ref={handleRef}
+      role="separator"
+      aria-orientation="vertical"
+      aria-label="Resize column"
+      data-resize-handle=""
+      data-resizing={isResizing || undefined}
+      className={styles.resizeHandle}
+      onPointerDown={handlePointerDown}
+      onDoubleClick={handleDoubleClick}
+      onClick={(e) => e.stopPropagation()}
+    />
+  );
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { render, act } from "@testing-library/react";
+import { useSeizenTable } from "../useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "../useSeizenTable";
+import { SeizenTable } from "../SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  item: string;
+  category: string;
+  amount: number;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, item: "Rent", category: "fixed", amount: 1000 },
+  { id: 2, item: "Food", category: "variable", amount: 300 },
+  { id: 3, item: "Power", category: "fixed", amount: 100 },
+];
+
+const formatCurrency = (value: unknown) => `$${Number(value).toFixed(2)}`;
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "item", header: "Item", meta: { aggregate: "count" } },
+  { accessorKey: "category", header: "Category" },
+  {
+    accessorKey: "amount",
+    header: "Amount",
+    meta: { aggregate: "sum", format: formatCurrency },
+  },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getFooterCell(columnId: string): HTMLElement | null {
+  return document.querySelector(`tfoot td[data-column-id="${columnId}"]`);
+}
+
+// =============================================================================
+// TableFooter Tests
+// =============================================================================
+
+describe("TableFooter", () => {
+  it("renders aggregates formatted with the column's format", () => {
+    renderTable();
+
+    expect(getFooterCell("item")).toHaveTextContent("Count3");
+    expect(getFooterCell("category")).toBeEmptyDOMElement();
+    expect(getFooterCell("amount")).toHaveTextContent("Sum$1400.00");
+  });
+
+  it("formats cell values with the column's format", () => {
+    renderTable();
+
+    expect(
+      document.querySelector(
+        'tbody tr[data-row-id="1"] td[data-column-id="amount"]'
+      )
+    ).toHaveTextContent("$1000.00");
+  });
+
+  it("aggregates all rows matching the filters by default", () => {
+    const table = renderTable({
+      initialState: { pagination: { pageIndex: 0, pageSize: 2 } },
+    });
+
+    expect(getFooterCell("amount")).toHaveTextContent("$1400.00");
+
+    act(() =>
+      table.current.setFilter([
+        { id: "category", value: { operator: "equals", value: "fixed" } },
+      ])
+    );
+
+    expect(getFooterCell("amount")).toHaveTextContent("$1100.00");
+    expect(table.current.getColumnAggregates()).toEqual({
+      item: 2,
+      amount: 1100,
+    });
+  });
+
+  it("aggregates the current page with the page scope", () => {
+    const table = renderTable({
+      footerAggregateScope: "page",
+      initialState: { pagination: { pageIndex: 0, pageSize: 2 } },
+    });
+
+    expect(getFooterCell("amount")).toHaveTextContent("$1300.00");
+
+    act(() => table.current.setPageIndex(1));
+
+    expect(getFooterCell("amount")).toHaveTextContent("$100.00");
+  });
+
+  it("renders nothing when no visible column has an aggregate", () => {
+    renderTable({
+      initialState: { columnVisibility: { item: false, amount: false } },
+    });
+
+    expect(document.querySelector("tfoot")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,70 @@
+import { useSeizenTableContext } from "./Root";
+import {
+  getColumnPinningAttributes,
+  getColumnPinningStyle,
+} from "../columnPinning";
+import { AGGREGATE_LABELS, formatAggregateValue } from "../aggregation";
+import * as styles from "../styles.css";
+
+/**
+ * Table footer component rendering a summary row (`<tfoot>`).
+ *
+ * Columns with `aggregate` in their meta show the value aggregated over
+ * the rows of `footerAggregateScope` (all filtered rows or the current
+ * page), formatted with the column's `format`. Renders nothing when no
+ * visible column has an aggregate.
+ *
+ * @example
+ * ```tsx
+ * <SeizenTable.Table>
+ *   <SeizenTable.Header />
+ *   <SeizenTable.Body />
+ *   <SeizenTable.Footer />
+ * </SeizenTable.Table>
+ * ```
+ */
+export function TableFooter() {
+  const table = useSeizenTableContext();
+  const tanstack = table._tanstackTable;
+  const columns = tanstack.getVisibleLeafColumns();
+
+  if (!columns.some((column) => column.columnDef.meta?.aggregate)) {
+    return null;
+  }
+
+  const aggregates = table.getColumnAggregates();
+
+  return (
+    <tfoot className={styles.tfoot}>
+      <tr>
+        {columns.map((column) => {
+          const aggregate = column.columnDef.meta?.aggregate;
+          return (
+            <td
+              key={column.id}
+              className={styles.tfootCell}
+              data-column-id={column.id}
+              {...getColumnPinningAttributes(column)}
+              style={getColumnPinningStyle(
+                column,
+                tanstack,
+                table.getColumnSizing()
+              )}
+            >
+              {aggregate && (
+                <>
+                  {typeof aggregate === "string" && (
+                    <span className={styles.aggregateLabel}>
+                      {AGGREGATE_LABELS[aggregate]}
+                    </span>
+                  )}
+                  {formatAggregateValue(column, aggregates[column.id])}
+                </>
+              )}
+            </td>
+          );
+        })}
+      </tr>
+    </tfoot>
+  );
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent, act } from "@testing-library/react";
+import { useSeizenTable } from "../useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "../useSeizenTable";
+import { SeizenTable } from "../SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  department: string;
+  status: string;
+  salary: number;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice", department: "Sales", status: "active", salary: 100 },
+  { id: 2, name: "Bob", department: "Sales", status: "inactive", salary: 200 },
+  { id: 3, name: "Carol", department: "Dev", status: "active", salary: 300 },
+  { id: 4, name: "Dave", department: "Sales", status: "active", salary: 400 },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "name", header: "Name", meta: { aggregate: "countDistinct" } },
+  { accessorKey: "department", header: "Department" },
+  { accessorKey: "status", header: "Status" },
+  { accessorKey: "salary", header: "Salary", meta: { aggregate: "sum" } },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getGroupRows(): HTMLElement[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>("tr[data-group-row]")
+  );
+}
+
+function getDataRowIds(): string[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>("tbody tr[data-row-id]")
+  )
+    .filter((row) => !row.hasAttribute("data-group-row"))
+    .map((row) => row.getAttribute("data-row-id") ?? "");
+}
+
+// =============================================================================
+// TableGroupRow Tests
+// =============================================================================
+
+describe("TableGroupRow", () => {
+  it("renders a group row per value with the row count", () => {
+    renderTable({ initialState: { grouping: ["department"] } });
+
+    const groupRows = getGroupRows();
+    expect(groupRows).toHaveLength(2);
+    expect(groupRows[0]).toHaveTextContent("Department: Sales(3)");
+    expect(groupRows[1]).toHaveTextContent("Department: Dev(1)");
+    expect(getDataRowIds()).toEqual(["1", "2", "4", "3"]);
+  });
+
+  it("shows aggregations from column meta", () => {
+    renderTable({ initialState: { grouping: ["department"] } });
+
+    const salesRow = getGroupRows()[0];
+    expect(
+      salesRow.querySelector('td[data-column-id="salary"]')
+    ).toHaveTextContent("Sum700");
+  });
+
+  it("nests groups for multiple grouping columns", () => {
+    renderTable({ initialState: { grouping: ["department", "status"] } });
+
+    expect(getGroupRows().map((row) => row.textContent)).toEqual([
+      expect.stringContaining("Department: Sales(3)"),
+      expect.stringContaining("Status: active(2)"),
+      expect.stringContaining("Status: inactive(1)"),
+      expect.stringContaining("Department: Dev(1)"),
+      expect.stringContaining("Status: active(1)"),
+    ]);
+  });
+
+  it("collapses and expands a group on click", () => {
+    renderTable({ initialState: { grouping: ["department"] } });
+
+    fireEvent.click(getGroupRows()[0]);
+    expect(getGroupRows()[0]).toHaveAttribute("aria-expanded", "false");
+    expect(getDataRowIds()).toEqual(["3"]);
+
+    fireEvent.click(getGroupRows()[0]);
+    expect(getDataRowIds()).toEqual(["1", "2", "4", "3"]);
+  });
+
+  it("groups rows with setGrouping and emits grouping-change", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("grouping-change", listener);
+
+    act(() => table.current.setGrouping(["status"]));
+
+    expect(table.current.getGrouping()).toEqual(["status"]);
+    expect(getGroupRows()).toHaveLength(2);
+    expect(listener).toHaveBeenCalledWith(["status"]);
+  });
+
+  it("only emits grouping-change in Remote Mode", () => {
+    const table = renderTable({ remote: true });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("grouping-change", listener);
+
+    act(() => table.current.setGrouping(["department"]));
+
+    expect(listener).toHaveBeenCalledWith(["department"]);
+    expect(getGroupRows()).toHaveLength(0);
+    expect(getDataRowIds()).toEqual(["1", "2", "3", "4"]);
+  });
+});
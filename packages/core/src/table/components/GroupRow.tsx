@@ -0,0 +1,123 @@
+import { useContext } from "react";
+import type { Row } from "@tanstack/react-table";
+import { useSeizenTableContext } from "./Root";
+import { GridNavigationContext, getCellTabIndex } from "../gridNavigation";
+import {
+  getColumnPinningAttributes,
+  getColumnPinningStyle,
+} from "../columnPinning";
+import { ROW_INDENT_WIDTH, getTreeColumnId } from "../treeData";
+import {
+  AGGREGATE_LABELS,
+  aggregateColumn,
+  formatAggregateValue,
+} from "../aggregation";
+import * as styles from "../styles.css";
+
+export interface TableGroupRowProps<TData> {
+  /**
+   * The TanStack Table Row object of the group
+   */
+  row: Row<TData>;
+
+  /**
+   * Additional CSS class name for the row
+   */
+  className?: string;
+}
+
+/**
+ * Header row of a row group, rendered by SeizenTable.Row for grouped rows.
+ *
+ * - The first cell shows the grouped column, the group value and the number
+ *   of rows, with a toggle to collapse or expand the group
+ * - Columns with `aggregate` in their meta show the aggregated value of the
+ *   rows in the group
+ */
+export function TableGroupRow<TData>({
+  row,
+  className,
+}: TableGroupRowProps<TData>) {
+  const table = useSeizenTableContext<TData>();
+  const activeCell = useContext(GridNavigationContext);
+  const tanstack = table._tanstackTable;
+  const rowClassName = className
+    ? `${styles.tr} ${styles.groupRow} ${className}`
+    : `${styles.tr} ${styles.groupRow}`;
+
+  const cells = row.getVisibleCells();
+  const labelColumnId = getTreeColumnId(row);
+  const groupingColumn = row.groupingColumnId
+    ? tanstack.getColumn(row.groupingColumnId)
+    : undefined;
+  const groupingHeader = groupingColumn?.columnDef.header;
+  const groupLabel =
+    typeof groupingHeader === "string" ? groupingHeader : row.groupingColumnId;
+  const leafRows = row.getLeafRows().filter((leaf) => !leaf.getIsGrouped());
+  const isExpanded = row.getIsExpanded();
+
+  return (
+    <tr
+      className={rowClassName}
+      data-row-id={row.id}
+      data-group-row=""
+      aria-expanded={isExpanded}
+      onClick={() => row.toggleExpanded()}
+    >
+      {cells.map((cell) => {
+        const column = cell.column;
+        const aggregate = column.columnDef.meta?.aggregate;
+
+        let content: React.ReactNode = null;
+        if (column.id === labelColumnId) {
+          content = (
+            <span
+              className={styles.groupLabel}
+              style={{ paddingLeft: `${row.depth * ROW_INDENT_WIDTH}px` }}
+            >
+              <span className={styles.groupToggle} aria-hidden="true">
+                {isExpanded ? "▾" : "▸"}
+              </span>
+              <span>
+                {groupLabel}: {String(row.groupingValue ?? "")}
+              </span>
+              <span className={styles.groupCount}>({leafRows.length})</span>
+            </span>
+          );
+        } else if (aggregate) {
+          content = (
+            <span>
+              {typeof aggregate === "string" && (
+                <span className={styles.aggregateLabel}>
+                  {AGGREGATE_LABELS[aggregate]}
+                </span>
+              )}
+              {formatAggregateValue(
+                column,
+                aggregateColumn(column, leafRows)
+              )}
+            </span>
+          );
+        }
+
+        return (
+          <td
+            key={cell.id}
+            className={styles.td}
+            role="gridcell"
+            tabIndex={getCellTabIndex(activeCell, row.id, column.id)}
+            data-column-id={column.id}
+            {...getColumnPinningAttributes(column)}
+            style={getColumnPinningStyle(
+              column,
+              tanstack,
+              table.getColumnSizing()
+            )}
+          >
+            {content}
+          </td>
+        );
+      })}
+    </tr>
+  );
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { useSeizenTable } from "../useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "../useSeizenTable";
+import { SeizenTable } from "../SeizenTable";
+import type { SeizenTablePlugin } from "../../plugin/definePlugin";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  age: number;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Bob", age: 25 },
+  { id: 2, name: "Alice", age: 30 },
+  { id: 3, name: "Charlie", age: 35 },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID", enableSorting: false },
+  { accessorKey: "name", header: "Name" },
+  { accessorKey: "age", header: "Age" },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({ data, columns, ...options });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getHeader(name: string): HTMLElement {
+  return screen.getByRole("columnheader", { name: new RegExp(name) });
+}
+
+function getNames(): string[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>('td[data-column-id="name"]')
+  ).map((cell) => cell.textContent ?? "");
+}
+
+// =============================================================================
+// TableHeader Sorting Tests
+// =============================================================================
+
+describe("TableHeader sorting", () => {
+  it("cycles ascending, descending and unsorted on click", () => {
+    const table = renderTable();
+
+    fireEvent.click(getHeader("Name"));
+    expect(table.current.getSortingState()).toEqual([
+      { id: "name", desc: false },
+    ]);
+    expect(getNames()).toEqual(["Alice", "Bob", "Charlie"]);
+
+    fireEvent.click(getHeader("Name"));
+    expect(table.current.getSortingState()).toEqual([
+      { id: "name", desc: true },
+    ]);
+    expect(getNames()).toEqual(["Charlie", "Bob", "Alice"]);
+
+    fireEvent.click(getHeader("Name"));
+    expect(table.current.getSortingState()).toEqual([]);
+  });
+
+  it("sorts number columns ascending first", () => {
+    const table = renderTable();
+
+    fireEvent.click(getHeader("Age"));
+
+    expect(table.current.getSortingState()).toEqual([
+      { id: "age", desc: false },
+    ]);
+  });
+
+  it("replaces the sort on click and adds to it on shift-click", () => {
+    const table = renderTable();
+
+    fireEvent.click(getHeader("Name"));
+    fireEvent.click(getHeader("Age"));
+    expect(table.current.getSortingState()).toEqual([
+      { id: "age", desc: false },
+    ]);
+
+    fireEvent.click(getHeader("Name"), { shiftKey: true });
+    expect(table.current.getSortingState()).toEqual([
+      { id: "age", desc: false },
+      { id: "name", desc: false },
+    ]);
+  });
+
+  it("sets aria-sort on sortable headers", () => {
+    renderTable({ initialState: { sorting: [{ id: "age", desc: true }] } });
+
+    expect(getHeader("Name")).toHaveAttribute("aria-sort", "none");
+    expect(getHeader("Age")).toHaveAttribute("aria-sort", "descending");
+    expect(getHeader("ID")).not.toHaveAttribute("aria-sort");
+  });
+
+  it("shows the sort priority when sorting by multiple columns", () => {
+    renderTable({
+      initialState: {
+        sorting: [
+          { id: "age", desc: false },
+          { id: "name", desc: true },
+        ],
+      },
+    });
+
+    expect(getHeader("Age")).toHaveTextContent("1");
+    expect(getHeader("Name")).toHaveTextContent("2");
+  });
+
+  it("ignores clicks on columns with enableSorting: false", () => {
+    const table = renderTable();
+
+    fireEvent.click(getHeader("ID"));
+
+    expect(table.current.getSortingState()).toEqual([]);
+  });
+
+  it("toggles sorting with the keyboard", () => {
+    const table = renderTable();
+
+    fireEvent.keyDown(getHeader("Name"), { key: "Enter" });
+
+    expect(table.current.getSortingState()).toEqual([
+      { id: "name", desc: false },
+    ]);
+  });
+
+  it("emits sorting-change without sorting rows in Remote Mode", () => {
+    const table = renderTable({ remote: true });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("sorting-change", listener);
+
+    fireEvent.click(getHeader("Name"));
+
+    expect(listener).toHaveBeenCalledWith([{ id: "name", desc: false }]);
+    expect(getNames()).toEqual(["Bob", "Alice", "Charlie"]);
+  });
+});
+
+// =============================================================================
+// Column Header Slot Tests
+// =============================================================================
+
+describe("TableHeader column header slots", () => {
+  const badgePlugin: SeizenTablePlugin = {
+    id: "badge",
+    name: "Badge",
+    slots: {
+      columnHeader: {
+        render: (column) => (
+          <button type="button">{`Badge ${column.id}`}</button>
+        ),
+      },
+    },
+  };
+
+  it("renders the slot of each column", () => {
+    renderTable({ plugins: [badgePlugin] });
+
+    expect(getHeader("Name")).toContainElement(
+      screen.getByRole("button", { name: "Badge name" })
+    );
+    expect(screen.getAllByRole("button", { name: /^Badge/ })).toHaveLength(3);
+  });
+
+  it("doesn't sort on clicks and keys inside the slot", () => {
+    const table = renderTable({ plugins: [badgePlugin] });
+    const button = screen.getByRole("button", { name: "Badge name" });
+
+    fireEvent.click(button);
+    fireEvent.keyDown(button, { key: "Enter" });
+
+    expect(table.current.getSortingState()).toEqual([]);
+  });
+});
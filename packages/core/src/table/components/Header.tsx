@@ -1,14 +1,142 @@
-import { flexRender } from "@tanstack/react-table";
+import {
+  flexRender,
+  type Header,
+  type SortDirection,
+} from "@tanstack/react-table";
 import { useSeizenTableContext } from "./Root";
 import { useContextMenuHandlers } from "../../plugin/contextMenu";
+import { SeizenTablePlugins } from "../../plugin/SeizenTablePlugins";
+import { TableColumnResizeHandle } from "./ColumnResizeHandle";
+import { getColumnWidth } from "../columnSizing";
+import {
+  getColumnPinningAttributes,
+  getColumnPinningStyle,
+} from "../columnPinning";
+import { hasSelectionColumn } from "../selectionColumn";
+import type { SeizenTableInstance } from "../useSeizenTable";
 import * as styles from "../styles.css";
 
+/**
+ * Arrow icon showing the sort direction of a column.
+ * Unsorted columns show a faint double arrow.
+ */
+function SortIndicator({
+  direction,
+  index,
+}: {
+  direction: SortDirection | false;
+  index?: number;
+}) {
+  return (
+    <span
+      className={styles.sortIndicator}
+      data-sorted={direction || undefined}
+      aria-hidden="true"
+    >
+      <svg viewBox="0 0 10 14" width="8" height="12" fill="currentColor">
+        {direction !== "desc" && <path d="M5 0 L10 5 H0 Z" />}
+        {direction !== "asc" && <path d="M5 14 L0 9 H10 Z" />}
+      </svg>
+      {index !== undefined && (
+        <span className={styles.sortIndex}>{index}</span>
+      )}
+    </span>
+  );
+}
+
+function getAriaSort<TData>(
+  header: Header<TData, unknown>
+): "ascending" | "descending" | "none" {
+  const direction = header.column.getIsSorted();
+  return direction === "asc"
+    ? "ascending"
+    : direction === "desc"
+    ? "descending"
+    : "none";
+}
+
+/**
+ * Prompt shown below the headers when the whole page is selected,
+ * offering to extend the selection to all rows matching the filters.
+ */
+function SelectAllBanner<TData>({
+  table,
+}: {
+  table: SeizenTableInstance<TData>;
+}) {
+  const tanstack = table._tanstackTable;
+  if (
+    !tanstack.options.enableMultiRowSelection ||
+    !hasSelectionColumn(tanstack)
+  ) {
+    return null;
+  }
+
+  const pageRowCount = tanstack.getRowModel().rows.length;
+  const totalRowCount =
+    typeof table.remote === "object"
+      ? table.remote.totalRowCount
+      : table.remote
+      ? undefined
+      : tanstack.getFilteredRowModel().rows.length;
+  const isAllRowsSelected = table.getIsAllRowsSelected();
+  const hasMoreRows =
+    totalRowCount === undefined || totalRowCount > pageRowCount;
+  if (
+    !hasMoreRows ||
+    (!isAllRowsSelected && !tanstack.getIsAllPageRowsSelected())
+  ) {
+    return null;
+  }
+
+  const total = totalRowCount === undefined ? "matching" : totalRowCount;
+
+  return (
+    <tr>
+      <th
+        className={styles.selectAllBanner}
+        colSpan={tanstack.getVisibleLeafColumns().length}
+      >
+        {isAllRowsSelected ? (
+          <>
+            All {total} rows are selected.
+            <button
+              type="button"
+              className={styles.selectAllBannerButton}
+              onClick={() => table.clearSelection()}
+            >
+              Clear selection
+            </button>
+          </>
+        ) : (
+          <>
+            All {pageRowCount} rows on this page are selected.
+            <button
+              type="button"
+              className={styles.selectAllBannerButton}
+              onClick={() => table.selectAllRows()}
+            >
+              Select all {total} rows
+            </button>
+          </>
+        )}
+      </th>
+    </tr>
+  );
+}
+
 /**
  * Default table header component.
  *
  * Renders:
- * - Column headers with sorting support
+ * - Column headers with click-to-sort (shift-click to add to a multi-sort)
+ *   and sort indicators
  * - Context menu on right-click
+ * - Plugin column header slots (e.g., filter buttons)
+ * - Column resize handles (drag to resize, double-click to auto-fit)
+ * - Sticky pinned columns
+ * - A prompt to select all matching rows when the built-in selection
+ *   column has selected a whole page
  *
  * @example
  * ```tsx
@@ -34,27 +162,85 @@ export function TableHeader() {
   const table = useSeizenTableContext();
   const tanstack = table._tanstackTable;
   const { handleColumnContextMenu } = useContextMenuHandlers();
+  const columnSizing = table.getColumnSizing();
+  const isMultiSorted = table.getSortingState().length > 1;
 
   return (
     <thead>
       {tanstack.getHeaderGroups().map((headerGroup) => (
         <tr key={headerGroup.id}>
-          {headerGroup.headers.map((header) => (
-            <th
-              key={header.id}
-              className={styles.th}
-              onContextMenu={(e) => handleColumnContextMenu(e, header.column)}
-            >
-              {header.isPlaceholder
-                ? null
-                : flexRender(
-                    header.column.columnDef.header,
-                    header.getContext()
-                  )}
-            </th>
-          ))}
+          {headerGroup.headers.map((header) => {
+            const isLeaf = header.subHeaders.length === 0;
+            const column = header.column;
+            const canSort =
+              isLeaf && !header.isPlaceholder && column.getCanSort();
+            const direction = column.getIsSorted();
+
+            return (
+              <th
+                key={header.id}
+                className={styles.th}
+                data-column-id={isLeaf ? header.column.id : undefined}
+                {...(isLeaf ? getColumnPinningAttributes(header.column) : {})}
+                style={
+                  isLeaf
+                    ? {
+                        width: getColumnWidth(header.column, columnSizing),
+                        ...getColumnPinningStyle(
+                          header.column,
+                          tanstack,
+                          columnSizing
+                        ),
+                      }
+                    : undefined
+                }
+                aria-sort={canSort ? getAriaSort(header) : undefined}
+                data-sortable={canSort || undefined}
+                tabIndex={canSort ? 0 : undefined}
+                onClick={
+                  canSort ? column.getToggleSortingHandler() : undefined
+                }
+                onKeyDown={
+                  canSort
+                    ? (e) => {
+                        if (e.key !== "Enter" && e.key !== " ") return;
+                        e.preventDefault();
+                        column.toggleSorting(
+                          undefined,
+                          column.getCanMultiSort() && e.shiftKey
+                        );
+                      }
+                    : undefined
+                }
+                onContextMenu={(e) => handleColumnContextMenu(e, header.column)}
+              >
+                {header.isPlaceholder ? null : canSort ? (
+                  <span className={styles.thContent}>
+                    {flexRender(column.columnDef.header, header.getContext())}
+                    <SortIndicator
+                      direction={direction}
+                      index={
+                        isMultiSorted && direction
+                          ? column.getSortIndex() + 1
+                          : undefined
+                      }
+                    />
+                  </span>
+                ) : (
+                  flexRender(column.columnDef.header, header.getContext())
+                )}
+                {isLeaf && !header.isPlaceholder && (
+                  <>
+                    <SeizenTablePlugins.ColumnHeader column={column} />
+                    <TableColumnResizeHandle header={header} />
+                  </>
+                )}
+              </th>
+            );
+          })}
         </tr>
       ))}
+      <SelectAllBanner table={table} />
     </thead>
   );
 }
@@ -1,6 +1,7 @@
 import type { Row } from "@tanstack/react-table";
 import { useSeizenTableContext } from "./Root";
 import { TableCell } from "./Cell";
+import { TableGroupRow } from "./GroupRow";
 import * as styles from "../styles.css";
 
 export interface TableRowProps<TData> {
@@ -31,6 +32,7 @@ export interface TableRowProps<TData> {
  * - Visual selection state (data-selected attribute)
  * - Cell rendering with context menu support
  * - Inline row slot support (for expandable rows)
+ * - Group header rows when rows are grouped (see TableGroupRow)
  *
  * @example Default usage
  * ```tsx
@@ -68,10 +70,17 @@ export function TableRow<TData>({
   const table = tableFromContext;
   const rowClassName = className ? `${styles.tr} ${className}` : styles.tr;
 
+  if (row.getIsGrouped()) {
+    return <TableGroupRow row={row} className={className} />;
+  }
+
   return (
     <tr
       className={rowClassName}
-      data-selected={row.getIsSelected() || undefined}
+      data-row-id={row.id}
+      data-selected={
+        row.getIsSelected() || table.getIsAllRowsSelected() || undefined
+      }
       onClick={() => {
         table.eventBus.emit("row-click", row.original);
       }}
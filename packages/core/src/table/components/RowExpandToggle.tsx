@@ -0,0 +1,74 @@
+import type { Row } from "@tanstack/react-table";
+import { useSeizenTableContext } from "./Root";
+import * as styles from "../styles.css";
+
+export interface TableRowExpandToggleProps<TData> {
+  /**
+   * The TanStack Table Row object to expand or collapse
+   */
+  row: Row<TData>;
+}
+
+/**
+ * Expand/collapse button of a row with sub rows, rendered by SeizenTable.Cell
+ * in the first column when `getSubRows` is set.
+ *
+ * Shows a spinner while the children of the row are loading (Remote Mode),
+ * and an empty placeholder for rows without sub rows so that cells align.
+ */
+export function TableRowExpandToggle<TData>({
+  row,
+}: TableRowExpandToggleProps<TData>) {
+  const table = useSeizenTableContext<TData>();
+
+  if (table.getIsRowLoading(row.id)) {
+    return (
+      <span
+        className={styles.rowExpandToggle}
+        role="status"
+        aria-label="Loading"
+      >
+        <svg
+          className={styles.rowLoadingSpinner}
+          viewBox="0 0 24 24"
+          fill="none"
+          xmlns="http://www.w3.org/2000/svg"
+        >
+          <circle
+            cx="12"
+            cy="12"
+            r="10"
+            stroke="currentColor"
+            strokeWidth="3"
+            strokeLinecap="round"
+            strokeDasharray="31.4 31.4"
+          />
+        </svg>
+      </span>
+    );
+  }
+
+  if (!row.getCanExpand()) {
+    return <span className={styles.rowExpandToggle} aria-hidden="true" />;
+  }
+
+  const isExpanded = row.getIsExpanded();
+
+  return (
+    <button
+      type="button"
+      className={styles.rowExpandToggle}
+      // Keyboard users move between cells; the toggle is not a tab stop
+      tabIndex={-1}
+      aria-expanded={isExpanded}
+      aria-label={isExpanded ? "Collapse row" : "Expand row"}
+      onClick={(e) => {
+        // Toggling a row does not count as a row click
+        e.stopPropagation();
+        row.toggleExpanded();
+      }}
+    >
+      {isExpanded ? "▾" : "▸"}
+    </button>
+  );
+}
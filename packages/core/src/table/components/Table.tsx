@@ -1,3 +1,10 @@
+import { useSeizenTableContext } from "./Root";
+import { getColumnWidth } from "../columnSizing";
+import {
+  GridNavigationContext,
+  GridRowScrollerContext,
+  useGridNavigation,
+} from "../gridNavigation";
 import * as styles from "../styles.css";
 
 export interface TableTableProps {
@@ -14,6 +21,15 @@ export interface TableTableProps {
  * This component should be used inside SeizenTable.Content to handle
  * the layout with side panels.
  *
+ * The table follows the ARIA grid pattern: body cells use a roving
+ * tabindex and can be navigated with the keyboard (arrow keys, Home/End,
+ * PageUp/PageDown). Enter emits `row-click`, Space toggles selection and
+ * Shift+F10 opens the cell context menu.
+ *
+ * Once any visible column has an explicit width (via `size` on the column
+ * def or by resizing), the table switches to a fixed layout so that the
+ * widths are honored exactly.
+ *
  * @example Basic usage
  * ```tsx
  * <TableTable>
@@ -34,10 +50,31 @@ export function TableTable({
   children,
   before,
 }: React.PropsWithChildren<TableTableProps>) {
+  const table = useSeizenTableContext();
+  const { activeCell, rowScrollerRef, gridProps } = useGridNavigation(table);
+  const columnSizing = table.getColumnSizing();
+  const widths = table._tanstackTable
+    .getVisibleLeafColumns()
+    .map((column) => getColumnWidth(column, columnSizing));
+  const isFixed = widths.some((width) => width !== undefined);
+  const minWidth = widths.reduce<number>((sum, width) => sum + (width ?? 0), 0);
+
   return (
     <div className={styles.tableWrapper}>
       {before}
-      <table className={styles.table}>{children}</table>
+      <table
+        {...gridProps}
+        className={
+          isFixed ? `${styles.table} ${styles.tableFixed}` : styles.table
+        }
+        style={isFixed ? { minWidth } : undefined}
+      >
+        <GridNavigationContext.Provider value={activeCell}>
+          <GridRowScrollerContext.Provider value={rowScrollerRef}>
+            {children}
+          </GridRowScrollerContext.Provider>
+        </GridNavigationContext.Provider>
+      </table>
     </div>
   );
 }
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, fireEvent, act } from "@testing-library/react";
+import { useSeizenTable } from "../useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "../useSeizenTable";
+import { SeizenTable } from "../SeizenTable";
+import type { SeizenTablePlugin } from "../../plugin/definePlugin";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const ROW_COUNT = 100;
+const ROW_HEIGHT = 40;
+
+const data: TestRow[] = Array.from({ length: ROW_COUNT }, (_, index) => ({
+  id: index + 1,
+  name: `User ${index + 1}`,
+}));
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID" },
+  { accessorKey: "name", header: "Name" },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      ...options,
+    });
+    ref.current = table;
+    return (
+      <SeizenTable
+        table={table}
+        paginate={{ enable: false }}
+        virtualize={{ enable: true, rowHeight: ROW_HEIGHT, overscan: 2 }}
+      />
+    );
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getBodyRows(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>("tbody > tr"));
+}
+
+function getMountedRowIds(): string[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>("tbody tr[data-row-id]")
+  ).map((row) => row.getAttribute("data-row-id") ?? "");
+}
+
+function getSpacerHeights(): string[] {
+  return Array.from(
+    document.querySelectorAll<HTMLElement>("tr[data-virtual-spacer] > td")
+  ).map((cell) => cell.style.height);
+}
+
+/**
+ * Scroll the window so that the table body starts `scrollTop` pixels
+ * above the viewport
+ */
+function scrollBodyTo(scrollTop: number) {
+  vi.spyOn(
+    HTMLTableSectionElement.prototype,
+    "getBoundingClientRect"
+  ).mockReturnValue(new DOMRect(0, -scrollTop, 0, ROW_COUNT * ROW_HEIGHT));
+  fireEvent.scroll(window);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// =============================================================================
+// TableVirtualBody Tests
+// =============================================================================
+
+describe("TableVirtualBody", () => {
+  it("renders rows past the first page", () => {
+    const table = renderTable();
+
+    // The default page size of 10 doesn't limit the rows
+    expect(table.current.getPaginationState().pageSize).toBe(10);
+    expect(getMountedRowIds()).toContain("11");
+
+    scrollBodyTo(3600);
+    expect(getMountedRowIds()).toContain("100");
+  });
+
+  it("mounts only the rows in the viewport and overscan", () => {
+    renderTable();
+
+    // 768px viewport: rows 1-20 visible, plus 2 overscan rows below
+    const ids = getMountedRowIds();
+    expect(ids).toHaveLength(22);
+    expect(ids[0]).toBe("1");
+    expect(ids[21]).toBe("22");
+    expect(getSpacerHeights()).toEqual([
+      `${(ROW_COUNT - 22) * ROW_HEIGHT}px`,
+    ]);
+  });
+
+  it("renders spacer rows around the window after scrolling", () => {
+    renderTable();
+
+    scrollBodyTo(2000);
+
+    // Rows 51-70 visible, plus 2 overscan rows on each side
+    const ids = getMountedRowIds();
+    expect(ids[0]).toBe("49");
+    expect(ids[ids.length - 1]).toBe("72");
+    expect(getSpacerHeights()).toEqual([
+      `${48 * ROW_HEIGHT}px`,
+      `${(ROW_COUNT - 72) * ROW_HEIGHT}px`,
+    ]);
+
+    const rows = getBodyRows();
+    expect(rows[0]).toHaveAttribute("data-virtual-spacer");
+    expect(rows[rows.length - 1]).toHaveAttribute("data-virtual-spacer");
+  });
+
+  it("renders the inline row below its row", () => {
+    const detailPlugin: SeizenTablePlugin = {
+      id: "detail",
+      name: "Detail",
+      slots: {
+        inlineRow: {
+          render: (row) => `Details of ${row.id}`,
+        },
+      },
+    };
+    const table = renderTable({ plugins: [detailPlugin] });
+
+    act(() => {
+      table.current.plugin.open("detail" as never, { id: 2 } as never);
+    });
+
+    const inlineRow = document.querySelector<HTMLElement>(
+      'tr[data-plugin-id="detail"]'
+    );
+    expect(inlineRow).toHaveTextContent("Details of 2");
+    expect(inlineRow?.previousElementSibling).toHaveAttribute(
+      "data-row-id",
+      "2"
+    );
+    expect(inlineRow?.querySelector("td")).toHaveAttribute("colspan", "2");
+  });
+
+  it("renders cells through a cell slot plugin", () => {
+    const cellPlugin: SeizenTablePlugin = {
+      id: "cell",
+      name: "Cell",
+      slots: {
+        cell: {
+          render: (cell) => `[${String(cell.getValue())}]`,
+        },
+      },
+    };
+    renderTable({ plugins: [cellPlugin] });
+
+    const firstRow = document.querySelector('tr[data-row-id="1"]');
+    expect(firstRow).toHaveTextContent("[1][User 1]");
+    expect(document.body).not.toHaveTextContent("[User 23]");
+  });
+});
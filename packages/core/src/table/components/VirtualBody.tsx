@@ -0,0 +1,309 @@
+import {
+  Fragment,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import type { Row } from "@tanstack/react-table";
+import { useSeizenTableContext } from "./Root";
+import { TableRow } from "./Row";
+import { InlineRow } from "../../plugin/SeizenTablePlugins";
+import { GridRowScrollerContext } from "../gridNavigation";
+import {
+  computeRowOffsets,
+  getScrollParent,
+  getVirtualRange,
+} from "../virtualize";
+import * as styles from "../styles.css";
+import * as pluginStyles from "../../plugin/styles.css";
+
+export interface TableVirtualBodyProps<TData = unknown> {
+  /**
+   * Row height in pixels.
+   * Used as the fixed height of every row, or as the estimate for rows
+   * that have not been rendered yet when `measureRows` is enabled.
+   * @default 41
+   */
+  rowHeight?: number;
+
+  /**
+   * Number of rows to render above and below the visible area.
+   * @default 10
+   */
+  overscan?: number;
+
+  /**
+   * Measure rendered rows and use their actual height.
+   * Enable this when rows have variable height or when plugins render
+   * inline rows (e.g. row details) below a row.
+   * @default true
+   */
+  measureRows?: boolean;
+
+  /**
+   * Custom row renderer function (render props pattern).
+   * If not provided, uses default SeizenTable.Row rendering with InlineRow support.
+   *
+   * @param row - The TanStack Table Row object
+   * @returns ReactNode to render for this row
+   */
+  children?: (row: Row<TData>) => ReactNode;
+}
+
+interface ViewportState {
+  /** Scroll position relative to the top of the body */
+  scrollTop: number;
+  /** Height of the visible area */
+  height: number;
+}
+
+/**
+ * Virtualized table body component.
+ *
+ * Only mounts the rows inside the visible area of the nearest scroll
+ * container (plus `overscan` rows), which keeps large unpaginated tables
+ * responsive. The table needs a bounded height to scroll, e.g. by giving
+ * SeizenTable.Root a fixed height via `className`.
+ *
+ * Renders every row, regardless of pagination, so the paginator should be
+ * hidden. Supports the same render props and InlineRow behavior as
+ * SeizenTable.Body.
+ * Keyboard navigation scrolls rows outside the window into view.
+ *
+ * @example Default usage
+ * ```tsx
+ * <SeizenTable.Root table={table} className="h-[600px]">
+ *   <SeizenTable.Content>
+ *     <SeizenTable.Table>
+ *       <SeizenTable.Header />
+ *       <SeizenTable.VirtualBody rowHeight={40} />
+ *     </SeizenTable.Table>
+ *   </SeizenTable.Content>
+ * </SeizenTable.Root>
+ * ```
+ *
+ * @example Fixed row height (no measurement)
+ * ```tsx
+ * <SeizenTable.VirtualBody rowHeight={32} measureRows={false} />
+ * ```
+ */
+export function TableVirtualBody<TData>({
+  rowHeight = 41,
+  overscan = 10,
+  measureRows = true,
+  children,
+}: TableVirtualBodyProps<TData>) {
+  const table = useSeizenTableContext<TData>();
+  const tanstack = table._tanstackTable;
+  // Every row is rendered, regardless of pagination
+  const rows = tanstack.getPrePaginationRowModel().rows;
+  const columnCount = tanstack.getVisibleLeafColumns().length;
+
+  const tbodyRef = useRef<HTMLTableSectionElement>(null);
+  const scrollParentRef = useRef<HTMLElement | null>(null);
+  const rowScrollerRef = useContext(GridRowScrollerContext);
+  const pendingScrollRef = useRef<{
+    rowIndex: number;
+    onRendered: () => void;
+  } | null>(null);
+  const measuredHeightsRef = useRef<Map<string, number>>(new Map());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState<ViewportState>({
+    scrollTop: 0,
+    height: 0,
+  });
+
+  // Track the scroll position and size of the nearest scroll container
+  useEffect(() => {
+    const tbody = tbodyRef.current;
+    if (!tbody) return;
+
+    const scrollParent = getScrollParent(tbody);
+    scrollParentRef.current = scrollParent;
+
+    const update = () => {
+      const bodyRect = tbody.getBoundingClientRect();
+      const next: ViewportState = scrollParent
+        ? {
+            scrollTop:
+              scrollParent.getBoundingClientRect().top - bodyRect.top,
+            height: scrollParent.clientHeight,
+          }
+        : {
+            scrollTop: -bodyRect.top,
+            height: window.innerHeight,
+          };
+      setViewport((prev) =>
+        prev.scrollTop === next.scrollTop && prev.height === next.height
+          ? prev
+          : next
+      );
+    };
+
+    update();
+    const scrollTarget = scrollParent ?? window;
+    scrollTarget.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+
+    const resizeObserver =
+      scrollParent && typeof ResizeObserver !== "undefined"
+        ? new ResizeObserver(update)
+        : null;
+    if (scrollParent) {
+      resizeObserver?.observe(scrollParent);
+    }
+
+    return () => {
+      scrollTarget.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+      resizeObserver?.disconnect();
+    };
+  }, []);
+
+  const offsets = useMemo(
+    () =>
+      computeRowOffsets(
+        rows.map((row) => row.id),
+        (rowId) =>
+          (measureRows ? measuredHeightsRef.current.get(rowId) : undefined) ??
+          rowHeight
+      ),
+    // measureVersion invalidates offsets after new measurements
+    [rows, rowHeight, measureRows, measureVersion]
+  );
+
+  const { start, end } = getVirtualRange(
+    offsets,
+    viewport.scrollTop,
+    viewport.height,
+    overscan
+  );
+  const visibleRows = rows.slice(start, end);
+
+  const layoutRef = useRef({ offsets, viewport });
+  layoutRef.current = { offsets, viewport };
+
+  // Let keyboard navigation scroll to rows outside the window
+  useEffect(() => {
+    if (!rowScrollerRef) return;
+    rowScrollerRef.current = {
+      getRows: () => tanstack.getPrePaginationRowModel().rows,
+      scrollToRow: (rowIndex, onRendered) => {
+        const { offsets, viewport } = layoutRef.current;
+        const top = offsets[rowIndex];
+        const bottom = offsets[rowIndex + 1];
+        if (top === undefined || bottom === undefined) return;
+
+        // Align the row with the nearest edge of the visible area
+        const scrollTop =
+          top < viewport.scrollTop
+            ? top
+            : Math.max(bottom - viewport.height, viewport.scrollTop);
+        const delta = scrollTop - viewport.scrollTop;
+        if (scrollParentRef.current) {
+          scrollParentRef.current.scrollTop += delta;
+        } else {
+          window.scrollBy(0, delta);
+        }
+
+        pendingScrollRef.current = { rowIndex, onRendered };
+        // Render the new window right away rather than on the scroll event
+        setViewport((prev) => ({ ...prev, scrollTop }));
+      },
+    };
+    return () => {
+      rowScrollerRef.current = null;
+    };
+  }, [rowScrollerRef, tanstack]);
+
+  // Notify once the row scrolled to is mounted
+  useEffect(() => {
+    const pending = pendingScrollRef.current;
+    if (!pending || pending.rowIndex < start || pending.rowIndex >= end) {
+      return;
+    }
+    pendingScrollRef.current = null;
+    pending.onRendered();
+  });
+  const paddingTop = offsets[start] ?? 0;
+  const paddingBottom = (offsets[rows.length] ?? 0) - (offsets[end] ?? 0);
+
+  // Measure rendered rows. Inline rows are counted towards the row above them.
+  useLayoutEffect(() => {
+    const tbody = tbodyRef.current;
+    if (!measureRows || !tbody) return;
+
+    const itemHeights: number[] = [];
+    const trs = tbody.querySelectorAll<HTMLTableRowElement>(":scope > tr");
+    for (const tr of Array.from(trs)) {
+      if (tr.dataset.virtualSpacer !== undefined) continue;
+      const height = tr.getBoundingClientRect().height;
+      if (
+        tr.classList.contains(pluginStyles.inlineRow) &&
+        itemHeights.length > 0
+      ) {
+        itemHeights[itemHeights.length - 1] += height;
+      } else {
+        itemHeights.push(height);
+      }
+    }
+
+    // Custom renderers may not map one-to-one to rows; skip measuring then
+    if (itemHeights.length !== visibleRows.length) return;
+
+    let changed = false;
+    visibleRows.forEach((row, index) => {
+      const height = itemHeights[index];
+      if (height <= 0) return;
+      const previous = measuredHeightsRef.current.get(row.id) ?? rowHeight;
+      if (Math.abs(previous - height) > 0.5) {
+        measuredHeightsRef.current.set(row.id, height);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      setMeasureVersion((version) => version + 1);
+    }
+  });
+
+  const renderRow = (row: Row<TData>) =>
+    children ? (
+      children(row)
+    ) : (
+      <>
+        <TableRow row={row} />
+        <InlineRow row={row} colSpan={row.getVisibleCells().length} />
+      </>
+    );
+
+  return (
+    <tbody ref={tbodyRef}>
+      {paddingTop > 0 && (
+        <tr data-virtual-spacer="" aria-hidden="true">
+          <td
+            colSpan={columnCount}
+            className={styles.virtualSpacer}
+            style={{ height: paddingTop }}
+          />
+        </tr>
+      )}
+      {visibleRows.map((row) => (
+        <Fragment key={row.id}>{renderRow(row)}</Fragment>
+      ))}
+      {paddingBottom > 0 && (
+        <tr data-virtual-spacer="" aria-hidden="true">
+          <td
+            colSpan={columnCount}
+            className={styles.virtualSpacer}
+            style={{ height: paddingBottom }}
+          />
+        </tr>
+      )}
+    </tbody>
+  );
+}
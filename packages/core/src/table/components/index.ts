@@ -3,5 +3,11 @@ export { TableContent } from "./Content";
 export { TableTable, type TableTableProps } from "./Table";
 export { TableHeader } from "./Header";
 export { TableBody } from "./Body";
+export { TableFooter } from "./Footer";
+export { TableVirtualBody, type TableVirtualBodyProps } from "./VirtualBody";
 export { TableRow, type TableRowProps } from "./Row";
 export { TableCell, type TableCellProps } from "./Cell";
+export {
+  TableColumnResizeHandle,
+  type TableColumnResizeHandleProps,
+} from "./ColumnResizeHandle";
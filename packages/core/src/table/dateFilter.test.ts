@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { matchesDateFilter, toDayNumber } from "./dateFilter";
+import type { FilterRange } from "../plugin/columnMeta";
+
+// =============================================================================
+// toDayNumber
+// =============================================================================
+
+describe("toDayNumber", () => {
+  it("takes date-only strings as calendar days", () => {
+    expect(toDayNumber("1970-01-02")).toBe(1);
+    expect(toDayNumber("1970-01-02", "Pacific/Honolulu")).toBe(1);
+  });
+
+  it("uses the day of a date in the given time zone", () => {
+    const date = "2024-03-10T23:30:00Z";
+    expect(toDayNumber(date, "UTC")).toBe(toDayNumber("2024-03-10"));
+    expect(toDayNumber(date, "Asia/Tokyo")).toBe(toDayNumber("2024-03-11"));
+    expect(toDayNumber(Date.parse(date), "Asia/Tokyo")).toBe(
+      toDayNumber("2024-03-11")
+    );
+  });
+
+  it("uses the local day of dates without a time zone", () => {
+    expect(toDayNumber(new Date(2024, 2, 10, 23, 59))).toBe(
+      toDayNumber("2024-03-10")
+    );
+  });
+
+  it("returns undefined for empty and invalid values", () => {
+    expect(toDayNumber(null)).toBeUndefined();
+    expect(toDayNumber("")).toBeUndefined();
+    expect(toDayNumber("not a date")).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// matchesDateFilter
+// =============================================================================
+
+describe("matchesDateFilter", () => {
+  it("compares on, before and after by day", () => {
+    const cell = new Date(2024, 5, 1, 18, 30);
+    expect(matchesDateFilter(cell, "on", "2024-06-01")).toBe(true);
+    expect(matchesDateFilter(cell, "before", "2024-06-01")).toBe(false);
+    expect(matchesDateFilter(cell, "after", "2024-05-31")).toBe(true);
+  });
+
+  it("compares in the given time zone", () => {
+    const cell = "2024-06-01T20:00:00Z";
+    expect(matchesDateFilter(cell, "on", "2024-06-01", "UTC")).toBe(true);
+    expect(matchesDateFilter(cell, "on", "2024-06-02", "Asia/Tokyo")).toBe(
+      true
+    );
+  });
+
+  it("matches inclusive ranges with between and not_between", () => {
+    const range: FilterRange = ["2024-01-10", "2024-01-20"];
+    expect(matchesDateFilter("2024-01-10", "between", range)).toBe(true);
+    expect(matchesDateFilter("2024-01-20", "between", range)).toBe(true);
+    expect(matchesDateFilter("2024-01-21", "between", range)).toBe(false);
+    expect(matchesDateFilter("2024-01-21", "not_between", range)).toBe(true);
+    expect(matchesDateFilter("2024-01-15", "not_between", range)).toBe(false);
+  });
+
+  it("leaves ranges open when an end is empty", () => {
+    expect(
+      matchesDateFilter("2030-01-01", "between", ["2024-01-10", ""])
+    ).toBe(true);
+    expect(
+      matchesDateFilter("2000-01-01", "between", ["", "2024-01-10"])
+    ).toBe(true);
+    expect(matchesDateFilter("2024-01-01", "between", ["", ""])).toBe(false);
+  });
+
+  it("returns false for invalid cell or filter values", () => {
+    expect(matchesDateFilter("not a date", "on", "2024-01-01")).toBe(false);
+    expect(matchesDateFilter("2024-01-01", "on", "invalid")).toBe(false);
+    expect(matchesDateFilter("2024-01-01", "in_last", "0")).toBe(false);
+    expect(matchesDateFilter("2024-01-01", "in_this", "decade")).toBe(false);
+  });
+
+  describe("relative ranges", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      // Wednesday
+      vi.setSystemTime(new Date(2024, 4, 15, 12));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("matches the last and next N days including today", () => {
+      expect(matchesDateFilter("2024-05-09", "in_last", "7")).toBe(true);
+      expect(matchesDateFilter("2024-05-08", "in_last", "7")).toBe(false);
+      expect(matchesDateFilter("2024-05-16", "in_last", "7")).toBe(false);
+      expect(matchesDateFilter("2024-05-15", "in_next", "3")).toBe(true);
+      expect(matchesDateFilter("2024-05-17", "in_next", "3")).toBe(true);
+      expect(matchesDateFilter("2024-05-18", "in_next", "3")).toBe(false);
+    });
+
+    it("matches the current day, week, month and year", () => {
+      expect(matchesDateFilter("2024-05-15", "in_this", "day")).toBe(true);
+      expect(matchesDateFilter("2024-05-13", "in_this", "week")).toBe(true);
+      expect(matchesDateFilter("2024-05-19", "in_this", "week")).toBe(true);
+      expect(matchesDateFilter("2024-05-20", "in_this", "week")).toBe(false);
+      expect(matchesDateFilter("2024-05-31", "in_this", "month")).toBe(true);
+      expect(matchesDateFilter("2024-06-01", "in_this", "month")).toBe(false);
+      expect(matchesDateFilter("2024-12-31", "in_this", "year")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Date filter evaluation.
+ *
+ * Dates are compared by calendar day in a time zone. Cell values can be
+ * Date objects, timestamps or date strings. Date-only strings such as
+ * "2024-01-31" are taken as calendar days as is, in any time zone.
+ */
+
+import type {
+  DateFilterOperator,
+  DatePeriod,
+  FilterValue,
+} from "../plugin/columnMeta";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const DATE_FILTER_OPERATORS: readonly string[] = [
+  "on",
+  "before",
+  "after",
+  "between",
+  "not_between",
+  "in_last",
+  "in_next",
+  "in_this",
+] satisfies DateFilterOperator[];
+
+const DATE_PERIODS: readonly string[] = [
+  "day",
+  "week",
+  "month",
+  "year",
+] satisfies DatePeriod[];
+
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getDateTimeFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = dateTimeFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    });
+    dateTimeFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+function toDay(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+/**
+ * Type guard to check if an operator is a date filter operator. The
+ * deprecated `eq` alias is left out, as number columns share it.
+ */
+export function isDateFilterOperator(
+  operator: string
+): operator is Exclude<DateFilterOperator, "eq"> {
+  return DATE_FILTER_OPERATORS.includes(operator);
+}
+
+/**
+ * Calendar day of a value as the number of days since 1970-01-01, in the
+ * given time zone (the local time zone if omitted).
+ * Returns undefined for empty and invalid values.
+ */
+export function toDayNumber(
+  value: unknown,
+  timeZone?: string
+): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+
+  if (typeof value === "string") {
+    const match = DATE_ONLY_PATTERN.exec(value);
+    if (match) {
+      return toDay(Number(match[1]), Number(match[2]), Number(match[3]));
+    }
+  }
+
+  const date =
+    value instanceof Date ? value : new Date(value as string | number);
+  if (isNaN(date.getTime())) return undefined;
+
+  if (!timeZone) {
+    return toDay(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  const parts = getDateTimeFormat(timeZone).formatToParts(date);
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return toDay(getPart("year"), getPart("month"), getPart("day"));
+}
+
+/**
+ * First and last day of the period containing `day`
+ */
+function getPeriodRange(day: number, period: DatePeriod): [number, number] {
+  const date = new Date(day * DAY_MS);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (period) {
+    case "day":
+      return [day, day];
+    case "week": {
+      // 1970-01-01 was a Thursday; weeks start on Monday
+      const start = day - ((((day + 3) % 7) + 7) % 7);
+      return [start, start + 6];
+    }
+    case "month":
+      return [
+        Date.UTC(year, month, 1) / DAY_MS,
+        Date.UTC(year, month + 1, 0) / DAY_MS,
+      ];
+    case "year":
+      return [Date.UTC(year, 0, 1) / DAY_MS, Date.UTC(year, 11, 31) / DAY_MS];
+  }
+}
+
+/**
+ * Days covered by a date filter value, as an inclusive range.
+ * Open ends are undefined. Returns undefined for invalid values.
+ */
+function getFilterRange(
+  operator: DateFilterOperator,
+  value: FilterValue,
+  timeZone: string | undefined
+): [number | undefined, number | undefined] | undefined {
+  if (operator === "between" || operator === "not_between") {
+    if (!Array.isArray(value)) return undefined;
+    const [start = "", end = ""] = value;
+    const startDay = toDayNumber(start, timeZone);
+    const endDay = toDayNumber(end, timeZone);
+    if (startDay === undefined && endDay === undefined) return undefined;
+    if (start !== "" && startDay === undefined) return undefined;
+    if (end !== "" && endDay === undefined) return undefined;
+    return [startDay, endDay];
+  }
+
+  if (typeof value !== "string") return undefined;
+
+  switch (operator) {
+    case "eq":
+    case "on":
+    case "before":
+    case "after": {
+      const day = toDayNumber(value, timeZone);
+      return day === undefined ? undefined : [day, day];
+    }
+    case "in_last":
+    case "in_next": {
+      const days = Number(value);
+      if (!Number.isInteger(days) || days < 1) return undefined;
+      const today = toDayNumber(new Date(), timeZone)!;
+      return operator === "in_last"
+        ? [today - days + 1, today]
+        : [today, today + days - 1];
+    }
+    case "in_this": {
+      if (!DATE_PERIODS.includes(value)) return undefined;
+      const today = toDayNumber(new Date(), timeZone)!;
+      return getPeriodRange(today, value as DatePeriod);
+    }
+  }
+}
+
+/**
+ * Check whether a cell value matches a date filter, comparing by day
+ */
+export function matchesDateFilter(
+  cellValue: unknown,
+  operator: DateFilterOperator,
+  value: FilterValue,
+  timeZone?: string
+): boolean {
+  const day = toDayNumber(cellValue, timeZone);
+  const range = getFilterRange(operator, value, timeZone);
+  if (day === undefined || range === undefined) return false;
+
+  const [start, end] = range;
+  switch (operator) {
+    case "before":
+      return day < start!;
+    case "after":
+      return day > end!;
+    case "not_between":
+      return (
+        (start !== undefined && day < start) ||
+        (end !== undefined && day > end)
+      );
+    default:
+      return (
+        (start === undefined || day >= start) &&
+        (end === undefined || day <= end)
+      );
+  }
+}
@@ -0,0 +1,126 @@
+import type { Column, Row, Table } from "@tanstack/react-table";
+import {
+  aggregateColumns,
+  formatAggregateValue,
+  type AggregateScope,
+} from "./aggregation";
+
+/**
+ * A column of exported data
+ */
+export interface ExportDataColumn {
+  /** Column ID, the key of the column's values in exported rows */
+  id: string;
+  /** Header text */
+  header: string;
+}
+
+/**
+ * Data to export: the visible columns and the rows matching the filters
+ */
+export interface ExportData {
+  /** Visible columns with values, in display order */
+  columns: ExportDataColumn[];
+  /** Values of the rows keyed by column ID, in sorted order */
+  rows: Record<string, unknown>[];
+  /** Number of rows to export, including rows left out by `maxRows` */
+  rowCount: number;
+  /**
+   * Values of the footer row keyed by column ID, formatted as in the
+   * footer. Undefined if no exported column has an `aggregate`.
+   */
+  totals?: Record<string, string>;
+}
+
+/**
+ * Options of `getExportData`
+ */
+export interface ExportDataOptions {
+  /** Resolve the values of the first rows only, e.g. for a preview */
+  maxRows?: number;
+}
+
+/**
+ * Rows matching the filters, in sorted order. Sub rows follow their parent;
+ * group rows are left out, as their rows are exported.
+ */
+function getExportRows<TData>(table: Table<TData>): Row<TData>[] {
+  const rows: Row<TData>[] = [];
+  const collect = (level: Row<TData>[]) => {
+    for (const row of level) {
+      if (!row.getIsGrouped()) rows.push(row);
+      collect(row.subRows);
+    }
+  };
+  collect(table.getSortedRowModel().rows);
+  return rows;
+}
+
+/**
+ * Value of a cell for export: the column's value, read by its accessor and
+ * converted with its `exportValue` meta if set
+ */
+function getExportValue<TData>(
+  row: Row<TData>,
+  column: Column<TData, unknown>
+): unknown {
+  const value = row.getValue(column.id);
+  const exportValue = column.columnDef.meta?.exportValue;
+  return exportValue ? exportValue(value, row.original) : value;
+}
+
+/**
+ * Values of the footer row for the exported columns, formatted as in the
+ * footer
+ */
+function getExportTotals<TData>(
+  table: Table<TData>,
+  columns: Column<TData, unknown>[],
+  aggregateScope: AggregateScope
+): Record<string, string> | undefined {
+  const aggregates = aggregateColumns(table, aggregateScope);
+  const aggregatedColumns = columns.filter((column) => column.id in aggregates);
+  if (aggregatedColumns.length === 0) return undefined;
+
+  return Object.fromEntries(
+    aggregatedColumns.map((column) => [
+      column.id,
+      formatAggregateValue(column, aggregates[column.id]),
+    ])
+  );
+}
+
+/**
+ * Get the data to export from a table. Columns without values, such as the
+ * selection column, are left out. Totals are aggregated over the rows of
+ * `aggregateScope`, like the footer row.
+ */
+export function getExportData<TData>(
+  table: Table<TData>,
+  options: ExportDataOptions = {},
+  aggregateScope: AggregateScope = "filtered"
+): ExportData {
+  const columns = table
+    .getVisibleLeafColumns()
+    .filter((column) => column.accessorFn);
+  const rows = getExportRows(table);
+  const exportedRows =
+    options.maxRows === undefined ? rows : rows.slice(0, options.maxRows);
+
+  return {
+    columns: columns.map((column) => {
+      const header = column.columnDef.header;
+      return {
+        id: column.id,
+        header: typeof header === "string" ? header : column.id,
+      };
+    }),
+    rows: exportedRows.map((row) =>
+      Object.fromEntries(
+        columns.map((column) => [column.id, getExportValue(row, column)])
+      )
+    ),
+    rowCount: rows.length,
+    totals: getExportTotals(table, columns, aggregateScope),
+  };
+}
@@ -0,0 +1,53 @@
+import type { Column } from "@tanstack/react-table";
+
+/**
+ * A distinct value of a column and the number of rows with it
+ */
+export interface FacetValue {
+  /** The value as compared by filters */
+  value: string;
+  count: number;
+}
+
+/**
+ * Distinct values of a column with their counts, and the range of its
+ * numbers, over the rows matching the filters of the other columns and
+ * the global filter
+ */
+export interface ColumnFacets {
+  /** Distinct non-empty values, sorted by value */
+  values: FacetValue[];
+  /** Smallest number of the column, if it has numbers */
+  min?: number;
+  /** Largest number of the column, if it has numbers */
+  max?: number;
+}
+
+/**
+ * Compute the facets of a column from TanStack's faceted row model, which
+ * leaves out the column's own filter so that other values stay selectable.
+ * Values are compared as strings, like filters do; empty values are skipped.
+ */
+export function computeColumnFacets<TData>(
+  column: Column<TData, unknown>
+): ColumnFacets {
+  const counts = new Map<string, number>();
+  let min: number | undefined;
+  let max: number | undefined;
+
+  for (const [value, count] of column.getFacetedUniqueValues()) {
+    if (value === null || value === undefined || value === "") continue;
+    if (typeof value === "number" && !Number.isNaN(value)) {
+      if (min === undefined || value < min) min = value;
+      if (max === undefined || value > max) max = value;
+    }
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + count);
+  }
+
+  const values = Array.from(counts, ([value, count]) => ({ value, count }));
+  values.sort((a, b) =>
+    a.value.localeCompare(b.value, undefined, { numeric: true })
+  );
+  return min === undefined ? { values } : { values, min, max };
+}
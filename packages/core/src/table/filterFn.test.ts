@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { pluginFilterFn, type PluginFilterValue } from "./filterFn";
+import {
+  createPluginFilterFn,
+  pluginFilterFn,
+  type PluginFilterValue,
+} from "./filterFn";
+import type { FilterValue } from "../plugin/columnMeta";
+import type { FilterGroup } from "../plugin/filterExpression";
 
 // =============================================================================
 // Test Helpers
@@ -11,15 +17,20 @@ import { pluginFilterFn, type PluginFilterValue } from "./filterFn";
 function createMockRow(values: Record<string, unknown>) {
   return {
     getValue: (columnId: string) => values[columnId],
-  } as Parameters<typeof pluginFilterFn>[0];
+  } as unknown as Parameters<typeof pluginFilterFn>[0];
 }
 
+/**
+ * Filter function on date columns
+ */
+const dateFilterFn = createPluginFilterFn({ getFilterType: () => "date" });
+
 /**
  * Create a plugin filter value
  */
 function filter(
   operator: PluginFilterValue["operator"],
-  value: string
+  value: FilterValue
 ): PluginFilterValue {
   return { operator, value };
 }
@@ -450,6 +461,18 @@ describe("pluginFilterFn - after operator", () => {
   });
 });
 
+describe("pluginFilterFn - eq operator on date columns", () => {
+  it("matches dates on the filter day like the on operator", () => {
+    const row = createMockRow({ date: new Date(2024, 5, 1, 18) });
+    expect(
+      dateFilterFn(row, "date", filter("eq", "2024-06-01"), () => {})
+    ).toBe(true);
+    expect(
+      dateFilterFn(row, "date", filter("eq", "2024-06-02"), () => {})
+    ).toBe(false);
+  });
+});
+
 // =============================================================================
 // Enum Operators
 // =============================================================================
@@ -560,3 +583,189 @@ describe("pluginFilterFn - edge cases", () => {
     ).toBe(true);
   });
 });
+
+// =============================================================================
+// Range Operators
+// =============================================================================
+
+describe("pluginFilterFn - between operator", () => {
+  const matches = (
+    cellValue: unknown,
+    value: FilterValue,
+    operator: "between" | "not_between" = "between"
+  ) =>
+    pluginFilterFn(
+      createMockRow({ age: cellValue }),
+      "age",
+      filter(operator, value),
+      () => {}
+    );
+
+  it("matches numbers within the range, inclusive", () => {
+    expect(matches(20, ["20", "30"])).toBe(true);
+    expect(matches(30, ["20", "30"])).toBe(true);
+    expect(matches(31, ["20", "30"])).toBe(false);
+    expect(matches(31, ["20", "30"], "not_between")).toBe(true);
+    expect(matches(25, ["20", "30"], "not_between")).toBe(false);
+  });
+
+  it("leaves the range open when an end is empty", () => {
+    expect(matches(1000, ["20", ""])).toBe(true);
+    expect(matches(-5, ["", "30"])).toBe(true);
+  });
+
+  it("returns false for invalid values", () => {
+    expect(matches(null, ["20", "30"])).toBe(false);
+    expect(matches("abc", ["20", "30"])).toBe(false);
+    expect(matches(25, ["a", "30"])).toBe(false);
+    expect(matches(25, "20")).toBe(false);
+  });
+
+  it("compares dates by day on date columns", () => {
+    const row = createMockRow({ createdAt: new Date(2024, 0, 20, 18) });
+    expect(
+      dateFilterFn(
+        row,
+        "createdAt",
+        filter("between", ["2024-01-10", "2024-01-20"]),
+        () => {}
+      )
+    ).toBe(true);
+  });
+});
+
+// =============================================================================
+// Set Membership Operators
+// =============================================================================
+
+describe("pluginFilterFn - in operator", () => {
+  it("matches when cell equals any of the values (case-insensitive)", () => {
+    const row = createMockRow({ status: "Active" });
+    const value = filter("in", ["pending", "active"]);
+    expect(pluginFilterFn(row, "status", value, () => {})).toBe(true);
+    expect(
+      pluginFilterFn(row, "status", filter("in", ["pending"]), () => {})
+    ).toBe(false);
+  });
+
+  it("not_in matches when cell equals none of the values", () => {
+    const row = createMockRow({ status: "Active" });
+    expect(
+      pluginFilterFn(row, "status", filter("not_in", ["pending"]), () => {})
+    ).toBe(true);
+    expect(
+      pluginFilterFn(row, "status", filter("not_in", ["active"]), () => {})
+    ).toBe(false);
+  });
+
+  it("coerces values that are not strings", () => {
+    const row = createMockRow({ age: 30 });
+    // e.g. decoded from `f.age=in:~[1,null,30]`
+    const values = [1, null, 30] as unknown as FilterValue;
+    expect(pluginFilterFn(row, "age", filter("in", values), () => {})).toBe(
+      true
+    );
+    expect(
+      pluginFilterFn(row, "age", filter("not_in", values), () => {})
+    ).toBe(false);
+  });
+
+  it("auto-removes empty lists and ranges", () => {
+    expect(pluginFilterFn.autoRemove!(filter("in", []), {} as never)).toBe(
+      true
+    );
+    expect(
+      pluginFilterFn.autoRemove!(filter("between", ["", ""]), {} as never)
+    ).toBe(true);
+    expect(
+      pluginFilterFn.autoRemove!(filter("between", ["1", ""]), {} as never)
+    ).toBe(false);
+  });
+});
+
+// =============================================================================
+// Filter Groups
+// =============================================================================
+
+describe("pluginFilterFn - filter groups", () => {
+  const statusIsActiveOrTrial: FilterGroup = {
+    combinator: "or",
+    filters: [
+      { columnId: "status", operator: "is", value: "active" },
+      { columnId: "status", operator: "is", value: "trial" },
+    ],
+  };
+
+  it("matches rows matching any filter of an OR group", () => {
+    expect(
+      pluginFilterFn(
+        createMockRow({ status: "trial" }),
+        "status",
+        statusIsActiveOrTrial,
+        () => {}
+      )
+    ).toBe(true);
+    expect(
+      pluginFilterFn(
+        createMockRow({ status: "churned" }),
+        "status",
+        statusIsActiveOrTrial,
+        () => {}
+      )
+    ).toBe(false);
+  });
+
+  it("evaluates nested groups across columns", () => {
+    // status is active OR (status is trial AND age > 30)
+    const group: FilterGroup = {
+      combinator: "or",
+      filters: [
+        { columnId: "status", operator: "is", value: "active" },
+        {
+          combinator: "and",
+          filters: [
+            { columnId: "status", operator: "is", value: "trial" },
+            { columnId: "age", operator: "gt", value: "30" },
+          ],
+        },
+      ],
+    };
+    const matches = (values: Record<string, unknown>) =>
+      pluginFilterFn(createMockRow(values), "status", group, () => {});
+
+    expect(matches({ status: "active", age: 20 })).toBe(true);
+    expect(matches({ status: "trial", age: 40 })).toBe(true);
+    expect(matches({ status: "trial", age: 20 })).toBe(false);
+  });
+
+  it("auto-removes empty groups", () => {
+    expect(
+      pluginFilterFn.autoRemove!(
+        { combinator: "or", filters: [] },
+        {} as never
+      )
+    ).toBe(true);
+    expect(
+      pluginFilterFn.autoRemove!(statusIsActiveOrTrial, {} as never)
+    ).toBe(false);
+  });
+});
+
+// =============================================================================
+// Filter Options
+// =============================================================================
+
+describe("createPluginFilterFn", () => {
+  it("compares dates by day in the configured time zone", () => {
+    const row = createMockRow({ date: "2024-06-01T20:00:00Z" });
+    const utcFilterFn = createPluginFilterFn({ timeZone: "UTC" });
+    const tokyoFilterFn = createPluginFilterFn({ timeZone: "Asia/Tokyo" });
+
+    expect(utcFilterFn(row, "date", filter("on", "2024-06-01"), () => {})).toBe(
+      true
+    );
+    expect(
+      tokyoFilterFn(row, "date", filter("on", "2024-06-02"), () => {})
+    ).toBe(true);
+  });
+});
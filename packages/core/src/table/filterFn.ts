@@ -1,17 +1,47 @@
 /**
  * Custom filter function for TanStack Table.
- * Handles filter values in the format { operator, value } from FilterPlugin.
+ * Handles filter values in the format { operator, value } from FilterPlugin,
+ * and filter groups combining conditions with AND/OR.
  */
 
-import type { FilterFn } from "@tanstack/react-table";
-import type { FilterOperator } from "../plugin/columnMeta";
+import type { Column, FilterFn, Row } from "@tanstack/react-table";
+import type {
+  FilterOperator,
+  FilterType,
+  FilterValue,
+} from "../plugin/columnMeta";
+import {
+  isFilterGroup,
+  type FilterExpression,
+} from "../plugin/filterExpression";
+import {
+  filterOperatorRequiresValue,
+  getFilterTypeDefinition,
+} from "../plugin/filterRegistry";
+import { isDateFilterOperator, matchesDateFilter } from "./dateFilter";
 
 /**
  * Filter value format used by FilterPlugin
  */
 export interface PluginFilterValue {
   operator: FilterOperator;
-  value: string;
+  value: FilterValue;
+}
+
+/**
+ * Options of the plugin filter function
+ */
+export interface PluginFilterOptions {
+  /**
+   * IANA time zone in which dates are compared by day, e.g. "Asia/Tokyo".
+   * Defaults to the local time zone.
+   */
+  timeZone?: string;
+  /**
+   * Look up the filter type of a column by ID.
+   * Without it, filters are evaluated with the built-in types only.
+   */
+  getFilterType?: (columnId: string) => FilterType | undefined;
 }
 
 /**
@@ -27,24 +57,39 @@ function isPluginFilterValue(value: unknown): value is PluginFilterValue {
 }
 
 /**
- * Custom filter function that handles FilterPlugin's operator-based filtering.
- * Falls back to default includes behavior for non-plugin filter values.
+ * Check whether a filter value is empty: an empty string, or a list or
+ * range without any non-empty value
  */
-export const pluginFilterFn: FilterFn<unknown> = (
-  row,
-  columnId,
-  filterValue
-) => {
-  // If not a plugin filter value, fall back to default includes behavior
-  if (!isPluginFilterValue(filterValue)) {
-    const cellValue = row.getValue(columnId);
-    return String(cellValue ?? "")
-      .toLowerCase()
-      .includes(String(filterValue).toLowerCase());
-  }
+function isEmptyFilterValue(value: FilterValue): boolean {
+  return Array.isArray(value) ? value.every((v) => v === "") : value === "";
+}
+
+/**
+ * Check whether a number is within a `[min, max]` range.
+ * Empty ends are open; returns undefined for invalid ranges.
+ */
+function isInNumberRange(
+  cellNum: number,
+  range: FilterValue
+): boolean | undefined {
+  if (!Array.isArray(range) || isEmptyFilterValue(range)) return undefined;
+  const [min = "", max = ""] = range;
+  const minNum = min === "" ? -Infinity : Number(min);
+  const maxNum = max === "" ? Infinity : Number(max);
+  if (isNaN(minNum) || isNaN(maxNum)) return undefined;
+  return cellNum >= minNum && cellNum <= maxNum;
+}
 
+/**
+ * Check whether a cell value matches an operator-based filter value
+ */
+function matchesFilterValue(
+  cellValue: unknown,
+  filterValue: PluginFilterValue,
+  filterType: FilterType | undefined,
+  options: PluginFilterOptions
+): boolean {
   const { operator, value } = filterValue;
-  const cellValue = row.getValue(columnId);
 
   // Handle empty check operators (no value needed)
   if (operator === "is_empty") {
@@ -54,6 +99,54 @@ export const pluginFilterFn: FilterFn<unknown> = (
     return cellValue !== null && cellValue !== undefined && cellValue !== "";
   }
 
+  // Custom filter types - evaluated by their registered predicate
+  const definition = filterType && getFilterTypeDefinition(filterType);
+  if (definition) {
+    return definition.predicate(cellValue, filterValue, {
+      timeZone: options.timeZone,
+    });
+  }
+
+  // Set membership operators - case-insensitive comparison. Values are
+  // coerced, as restored state may hold numbers or null.
+  if (operator === "in" || operator === "not_in") {
+    const cellStr = String(cellValue ?? "").toLowerCase();
+    const isIn = (Array.isArray(value) ? value : [value]).some(
+      (v: unknown) => String(v ?? "").toLowerCase() === cellStr
+    );
+    return operator === "in" ? isIn : !isIn;
+  }
+
+  // Range operators - dates on date columns, numbers otherwise
+  if (operator === "between" || operator === "not_between") {
+    if (filterType === "date") {
+      return matchesDateFilter(cellValue, operator, value, options.timeZone);
+    }
+
+    const cellNum = Number(cellValue);
+    if (cellValue === null || cellValue === "" || isNaN(cellNum)) {
+      return false;
+    }
+    const isInRange = isInNumberRange(cellNum, value);
+    if (isInRange === undefined) return false;
+    return operator === "between" ? isInRange : !isInRange;
+  }
+
+  // Deprecated alias of the `on` date operator
+  if (operator === "eq" && filterType === "date") {
+    return matchesDateFilter(cellValue, operator, value, options.timeZone);
+  }
+
+  // Date operators - compared by day
+  if (isDateFilterOperator(operator)) {
+    return matchesDateFilter(cellValue, operator, value, options.timeZone);
+  }
+
+  // Other operators take a single value
+  if (typeof value !== "string") {
+    return false;
+  }
+
   // String operators
   if (
     operator === "contains" ||
@@ -114,23 +207,6 @@ export const pluginFilterFn: FilterFn<unknown> = (
     }
   }
 
-  // Date operators
-  if (operator === "before" || operator === "after") {
-    const cellDate = new Date(cellValue as string);
-    const filterDate = new Date(value);
-
-    if (isNaN(cellDate.getTime()) || isNaN(filterDate.getTime())) {
-      return false;
-    }
-
-    switch (operator) {
-      case "before":
-        return cellDate < filterDate;
-      case "after":
-        return cellDate > filterDate;
-    }
-  }
-
   // Enum operators (is/is_not) - case-insensitive comparison
   if (operator === "is" || operator === "is_not") {
     const cellStr = String(cellValue ?? "").toLowerCase();
@@ -146,16 +222,92 @@ export const pluginFilterFn: FilterFn<unknown> = (
 
   // Default: no match
   return false;
-};
+}
+
+/**
+ * Evaluate a filter expression against a row.
+ * Empty groups match every row.
+ */
+export function evaluateFilterExpression<TData>(
+  row: Row<TData>,
+  expression: FilterExpression,
+  options: PluginFilterOptions = {}
+): boolean {
+  if (isFilterGroup(expression)) {
+    if (expression.filters.length === 0) return true;
+    return expression.combinator === "or"
+      ? expression.filters.some((filter) =>
+          evaluateFilterExpression(row, filter, options)
+        )
+      : expression.filters.every((filter) =>
+          evaluateFilterExpression(row, filter, options)
+        );
+  }
+  return matchesFilterValue(
+    row.getValue(expression.columnId),
+    expression,
+    options.getFilterType?.(expression.columnId),
+    options
+  );
+}
 
-// Make it auto-removable when filter value is empty
-pluginFilterFn.autoRemove = (val) => {
+/**
+ * Create the custom filter function that handles FilterPlugin's
+ * operator-based filtering.
+ * Filter groups are evaluated as a whole, and may refer to other columns.
+ * Falls back to default includes behavior for other filter values.
+ */
+export function createPluginFilterFn(
+  options: PluginFilterOptions = {}
+): FilterFn<unknown> {
+  const filterFn: FilterFn<unknown> = (row, columnId, filterValue) => {
+    if (isFilterGroup(filterValue)) {
+      return evaluateFilterExpression(row, filterValue, options);
+    }
+
+    // If not a plugin filter value, fall back to default includes behavior
+    if (!isPluginFilterValue(filterValue)) {
+      const cellValue = row.getValue(columnId);
+      return String(cellValue ?? "")
+        .toLowerCase()
+        .includes(String(filterValue).toLowerCase());
+    }
+
+    return matchesFilterValue(
+      row.getValue(columnId),
+      filterValue,
+      options.getFilterType?.(columnId),
+      options
+    );
+  };
+  filterFn.autoRemove = autoRemovePluginFilterValue;
+  return filterFn;
+}
+
+// Auto-remove filters when the filter value is empty
+function autoRemovePluginFilterValue(
+  val: unknown,
+  column?: Column<unknown, unknown>
+): boolean {
+  if (isFilterGroup(val)) {
+    return val.filters.length === 0;
+  }
   if (!isPluginFilterValue(val)) {
     return !val || val === "";
   }
-  // Don't auto-remove for is_empty/is_not_empty operators
-  if (val.operator === "is_empty" || val.operator === "is_not_empty") {
+  // Don't auto-remove for operators without a value, e.g. is_empty
+  if (
+    !filterOperatorRequiresValue(
+      val.operator,
+      column?.columnDef?.meta?.filterType
+    )
+  ) {
     return false;
   }
-  return !val.value || val.value === "";
-};
+  return !val.value || isEmptyFilterValue(val.value);
+}
+
+/**
+ * Plugin filter function comparing dates in the local time zone
+ */
+export const pluginFilterFn = createPluginFilterFn();
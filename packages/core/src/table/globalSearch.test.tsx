@@ -0,0 +1,257 @@
+import { describe, it, expect } from "vitest";
+import { render, act } from "@testing-library/react";
+import { useSeizenTable } from "./useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "./useSeizenTable";
+import { SeizenTable } from "./SeizenTable";
+import { highlightSearchMatches, matchSearchText } from "./globalSearch";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  email: string;
+  note: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice Johnson", email: "alice.smith@example.com", note: "" },
+  { id: 2, name: "John Smith", email: "john@example.com", note: "" },
+  { id: 3, name: "Bob Smithers", email: "bob@example.com", note: "smith" },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "name", header: "Name" },
+  { accessorKey: "email", header: "Email" },
+  { accessorKey: "note", header: "Note" },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getRowIds(): string[] {
+  return Array.from(document.querySelectorAll("tbody tr")).map(
+    (tr) => tr.getAttribute("data-row-id") ?? ""
+  );
+}
+
+// =============================================================================
+// matchSearchText
+// =============================================================================
+
+describe("matchSearchText", () => {
+  it("matches substrings ignoring case in contains mode", () => {
+    expect(matchSearchText("John Smith", "SMI")).toEqual({
+      score: 2.5,
+      ranges: [[5, 8]],
+    });
+    expect(matchSearchText("John Smith", "jsmth")).toBeNull();
+  });
+
+  it("scores substrings at the start of the text or a word higher", () => {
+    const score = (text: string) => matchSearchText(text, "smith")?.score;
+
+    expect(score("smith")).toBeGreaterThan(score("smithers")!);
+    expect(score("smithers")).toBeGreaterThan(score("john smith")!);
+    expect(score("john smith")).toBeGreaterThan(score("blacksmith")!);
+  });
+
+  it("matches characters in order and typos in fuzzy mode", () => {
+    expect(matchSearchText("John Smith", "jsmth", "fuzzy")?.ranges).toEqual([
+      [0, 1],
+      [5, 7],
+      [8, 10],
+    ]);
+    expect(matchSearchText("John Smith", "smtih", "fuzzy")?.ranges).toEqual([
+      [5, 10],
+    ]);
+    expect(matchSearchText("John Smith", "xyz", "fuzzy")).toBeNull();
+  });
+
+  it("matches each word of the search in fuzzy mode", () => {
+    expect(matchSearchText("John Smith", "smith jo", "fuzzy")?.ranges).toEqual(
+      [
+        [0, 2],
+        [5, 10],
+      ]
+    );
+  });
+
+  it("returns ranges in the text when lower-casing changes its length", () => {
+    // "İ" is lower-cased to "i̇", two characters
+    expect(matchSearchText("İzmir Ankara", "ankara")?.ranges).toEqual([
+      [6, 12],
+    ]);
+    expect(matchSearchText("İzmir", "i̇z")?.ranges).toEqual([[0, 2]]);
+  });
+});
+
+// =============================================================================
+// highlightSearchMatches
+// =============================================================================
+
+describe("highlightSearchMatches", () => {
+  it("wraps matches in mark elements", () => {
+    const { container } = render(
+      <span>{highlightSearchMatches("John Smith", "smi")}</span>
+    );
+
+    expect(container.querySelector("mark")).toHaveTextContent("Smi");
+    expect(container).toHaveTextContent("John Smith");
+  });
+
+  it("wraps matches after non-ASCII characters", () => {
+    const { container } = render(
+      <span>{highlightSearchMatches("İzmir Ankara", "ank")}</span>
+    );
+
+    expect(container.querySelector("mark")).toHaveTextContent(/^Ank$/);
+    expect(container).toHaveTextContent("İzmir Ankara");
+  });
+
+  it("returns the text as is without matches", () => {
+    expect(highlightSearchMatches("John Smith", "xyz")).toBe("John Smith");
+  });
+});
+
+// =============================================================================
+// Global Search Tests
+// =============================================================================
+
+describe("global search", () => {
+  it("keeps substring matching by default", () => {
+    const table = renderTable();
+
+    act(() => table.current.setGlobalFilter("smth"));
+
+    expect(getRowIds()).toEqual([]);
+  });
+
+  it("matches rows on every word in fuzzy mode", () => {
+    const table = renderTable({ globalSearch: { mode: "fuzzy" } });
+
+    act(() => table.current.setGlobalFilter("jon smth"));
+    expect(getRowIds()).toEqual(["1", "2"]);
+
+    act(() => table.current.setGlobalFilter("bob smth"));
+    expect(getRowIds()).toEqual(["3"]);
+  });
+
+  it("sorts rows by relevance unless a column is sorted", () => {
+    const table = renderTable({
+      globalSearch: { mode: "fuzzy", sortByRelevance: true },
+    });
+
+    act(() => table.current.setGlobalFilter("smith"));
+    expect(getRowIds()).toEqual(["3", "1", "2"]);
+
+    act(() => table.current.setSorting([{ id: "name", desc: true }]));
+    expect(getRowIds()).toEqual(["2", "3", "1"]);
+  });
+
+  it("searches only columns marked globalSearchable", () => {
+    const table = renderTable({
+      columns: [
+        { accessorKey: "name", header: "Name" },
+        {
+          accessorKey: "email",
+          header: "Email",
+          meta: { globalSearchable: true },
+        },
+        { accessorKey: "note", header: "Note" },
+      ],
+    });
+
+    act(() => table.current.setGlobalFilter("smith"));
+    expect(getRowIds()).toEqual(["1"]);
+
+    act(() => table.current.setGlobalFilter("bob@"));
+    expect(getRowIds()).toEqual(["3"]);
+  });
+
+  it("excludes columns with globalSearchable set to false", () => {
+    const table = renderTable({
+      columns: [
+        { accessorKey: "name", header: "Name" },
+        { accessorKey: "email", meta: { globalSearchable: false } },
+      ],
+    });
+
+    act(() => table.current.setGlobalFilter("example"));
+    expect(getRowIds()).toEqual([]);
+
+    act(() => table.current.setGlobalFilter("bob"));
+    expect(getRowIds()).toEqual(["3"]);
+  });
+
+  it("highlights matches in searched cells", () => {
+    const table = renderTable({
+      globalSearch: { highlight: true },
+      columns: [
+        { accessorKey: "name", header: "Name" },
+        { accessorKey: "note", meta: { globalSearchable: false } },
+      ],
+    });
+
+    act(() => table.current.setGlobalFilter("smith"));
+
+    const marks = Array.from(document.querySelectorAll("tbody mark"));
+    expect(marks.map((mark) => mark.textContent)).toEqual(["Smith", "Smith"]);
+    expect(
+      marks.map((mark) => mark.closest("td")?.getAttribute("data-column-id"))
+    ).toEqual(["name", "name"]);
+  });
+
+  it("highlights with the current search mode after it changes", () => {
+    const ref = {} as { current: SeizenTableInstance<TestRow> };
+    // Stable options, so the instance is only updated on dependency changes
+    const plugins: UseSeizenTableOptions<TestRow>["plugins"] = [];
+    function TestTable({ mode }: { mode: "contains" | "fuzzy" }) {
+      ref.current = useSeizenTable({
+        data,
+        columns,
+        plugins,
+        globalSearch: { mode },
+        initialState: { globalFilter: "smth" },
+      });
+      return null;
+    }
+
+    const { rerender } = render(<TestTable mode="contains" />);
+    expect(ref.current.highlightSearchMatches("John Smith")).toBe(
+      "John Smith"
+    );
+
+    rerender(<TestTable mode="fuzzy" />);
+    expect(ref.current.highlightSearchMatches("John Smith")).not.toBe(
+      "John Smith"
+    );
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Global search: matching rows against the global filter, sorting them by
+ * relevance and highlighting matches in cells.
+ */
+
+import { Fragment, type ReactNode } from "react";
+import {
+  getSortedRowModel,
+  memo,
+  type FilterFn,
+  type Row,
+  type RowModel,
+  type Table,
+} from "@tanstack/react-table";
+import * as styles from "./styles.css";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How the global filter text is matched against cells:
+ * - `"contains"` - Cells containing the text, ignoring case
+ * - `"fuzzy"` - Each word of the text is matched as a substring, by its
+ *   characters in order, or with a typo (two for words of 8+ characters).
+ *   Rows match when every word matches one of their cells.
+ */
+export type GlobalSearchMode = "contains" | "fuzzy";
+
+/**
+ * Options of the global search
+ */
+export interface GlobalSearchOptions {
+  /**
+   * How the text is matched against cells
+   * @default "contains"
+   */
+  mode?: GlobalSearchMode;
+  /**
+   * Sort matching rows by relevance while searching, as long as no column
+   * is sorted. Top-level rows are sorted.
+   * @default false
+   */
+  sortByRelevance?: boolean;
+  /**
+   * Highlight matches in cells without a custom `cell` renderer.
+   * Custom cells can use `table.highlightSearchMatches`.
+   * @default false
+   */
+  highlight?: boolean;
+}
+
+/**
+ * Range of matched characters in a text, end exclusive
+ */
+export type SearchMatchRange = [start: number, end: number];
+
+/**
+ * Result of matching a text against the search
+ */
+export interface SearchMatch {
+  /** Relevance of the match, higher is better */
+  score: number;
+  /** Matched ranges, sorted and without overlaps */
+  ranges: SearchMatchRange[];
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Terms of a search text: the whole text in contains mode, its words in
+ * fuzzy mode
+ */
+function getSearchTerms(query: string, mode: GlobalSearchMode): string[] {
+  const lower = query.toLowerCase();
+  if (mode === "contains") return lower === "" ? [] : [lower];
+  return lower.split(/\s+/).filter((term) => term !== "");
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[^a-z0-9]/.test(text[index - 1]);
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and
+ * transpositions of adjacent characters
+ */
+function getEditDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Match the characters of a term in order, e.g. "jsmth" in "John Smith".
+ * Scattered matches spanning more than three times the term are ignored.
+ */
+function matchSubsequence(text: string, term: string): SearchMatch | null {
+  const positions: number[] = [];
+  let from = text.indexOf(term[0]);
+  if (from < 0) return null;
+  for (const char of term) {
+    const index = text.indexOf(char, from);
+    if (index < 0) return null;
+    positions.push(index);
+    from = index + 1;
+  }
+
+  const span = positions[positions.length - 1] - positions[0] + 1;
+  if (span > term.length * 3) return null;
+  return {
+    score: term.length / span,
+    ranges: positions.map((index) => [index, index + 1]),
+  };
+}
+
+/**
+ * Match a term against the words of a text, allowing typos
+ */
+function matchWithTypos(text: string, term: string): SearchMatch | null {
+  const maxTypos = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (maxTypos === 0) return null;
+
+  let best: SearchMatch | null = null;
+  for (const word of text.matchAll(/[a-z0-9]+/g)) {
+    const start = word.index ?? 0;
+    const prefix = word[0].slice(0, term.length);
+    const distance = Math.min(
+      getEditDistance(term, word[0]),
+      getEditDistance(term, prefix)
+    );
+    if (distance > maxTypos) continue;
+    const score = 0.5 * (1 - distance / term.length);
+    if (!best || score > best.score) {
+      best = {
+        score,
+        ranges: [[start, start + Math.min(word[0].length, term.length)]],
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Match a term against a lower-cased text. Substrings score highest,
+ * especially at the start of the text or of a word.
+ */
+function matchTerm(
+  text: string,
+  term: string,
+  mode: GlobalSearchMode
+): SearchMatch | null {
+  const index = text.indexOf(term);
+  if (index >= 0) {
+    const score =
+      text === term ? 4 : index === 0 ? 3 : isWordStart(text, index) ? 2.5 : 2;
+    return { score, ranges: [[index, index + term.length]] };
+  }
+  if (mode === "contains") return null;
+
+  const subsequence = matchSubsequence(text, term);
+  const typo = matchWithTypos(text, term);
+  if (subsequence && typo) {
+    return subsequence.score >= typo.score ? subsequence : typo;
+  }
+  return subsequence ?? typo;
+}
+
+function mergeRanges(ranges: SearchMatchRange[]): SearchMatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: SearchMatchRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Lower-case a text, with the range in the text of each character of the
+ * result. Lower-casing can change the length, e.g. "İ" becomes "i̇".
+ */
+function toLowerCaseWithRanges(text: string): {
+  lower: string;
+  ranges: SearchMatchRange[];
+} {
+  const lower = text.toLowerCase();
+  const ranges: SearchMatchRange[] = [];
+  let index = 0;
+  for (const char of text) {
+    const range: SearchMatchRange = [index, index + char.length];
+    for (let i = 0; i < char.toLowerCase().length; i++) ranges.push(range);
+    index += char.length;
+  }
+  // Keep the positions if lower-casing in context changed the length
+  if (ranges.length !== lower.length) {
+    return {
+      lower,
+      ranges: Array.from(lower, (_, i): SearchMatchRange => [i, i + 1]),
+    };
+  }
+  return { lower, ranges };
+}
+
+/**
+ * Match a text against a search. In fuzzy mode, the words of the search
+ * that match are highlighted even if others don't.
+ * Returns null if nothing matches.
+ */
+export function matchSearchText(
+  text: string,
+  query: string,
+  mode: GlobalSearchMode = "contains"
+): SearchMatch | null {
+  const { lower, ranges: charRanges } = toLowerCaseWithRanges(text);
+  let score = 0;
+  const ranges: SearchMatchRange[] = [];
+  for (const term of getSearchTerms(query, mode)) {
+    const match = matchTerm(lower, term, mode);
+    if (!match) continue;
+    score += match.score;
+    // Map the ranges of the lower-cased text back to the text
+    ranges.push(
+      ...match.ranges.map(
+        ([start, end]): SearchMatchRange => [
+          charRanges[start][0],
+          charRanges[end - 1][1],
+        ]
+      )
+    );
+  }
+  return ranges.length > 0 ? { score, ranges: mergeRanges(ranges) } : null;
+}
+
+// =============================================================================
+// Rows
+// =============================================================================
+
+const rowScoreCache = new WeakMap<
+  Row<unknown>,
+  { query: string; mode: GlobalSearchMode; score: number | null }
+>();
+
+/**
+ * Relevance of a row for a search, from its globally filterable cells:
+ * the sum of the best score of each term. Returns null if a term matches
+ * none of the cells.
+ */
+export function getRowSearchScore<TData>(
+  row: Row<TData>,
+  query: string,
+  mode: GlobalSearchMode
+): number | null {
+  const cached = rowScoreCache.get(row as Row<unknown>);
+  if (cached && cached.query === query && cached.mode === mode) {
+    return cached.score;
+  }
+
+  const texts = row
+    .getAllCells()
+    .filter((cell) => cell.column.getCanGlobalFilter())
+    .map((cell) => String(cell.getValue() ?? "").toLowerCase());
+
+  let score: number | null = 0;
+  for (const term of getSearchTerms(query, mode)) {
+    let best = 0;
+    for (const text of texts) {
+      best = Math.max(best, matchTerm(text, term, mode)?.score ?? 0);
+    }
+    if (best === 0) {
+      score = null;
+      break;
+    }
+    score += best;
+  }
+
+  rowScoreCache.set(row as Row<unknown>, { query, mode, score });
+  return score;
+}
+
+/**
+ * Global filter function of the fuzzy mode. Rows are matched as a whole,
+ * so the result is the same for all columns.
+ */
+export function createFuzzyGlobalFilterFn<TData>(): FilterFn<TData> {
+  const filterFn: FilterFn<TData> = (row, _columnId, filterValue) =>
+    getRowSearchScore(row, String(filterValue), "fuzzy") !== null;
+  filterFn.autoRemove = (val) => !val;
+  return filterFn;
+}
+
+function getRelevance<TData>(
+  row: Row<TData>,
+  query: string,
+  mode: GlobalSearchMode
+): number {
+  // Group rows and ancestors of matching rows score by their sub rows
+  return Math.max(
+    getRowSearchScore(row, query, mode) ?? 0,
+    ...row.subRows.map((subRow) => getRelevance(subRow, query, mode))
+  );
+}
+
+/**
+ * Sorted row model that sorts rows by relevance while the global filter is
+ * set and no column is sorted
+ */
+export function getRelevanceSortedRowModel<TData>(
+  mode: GlobalSearchMode
+): (table: Table<TData>) => () => RowModel<TData> {
+  return (table) => {
+    const getBaseRowModel = getSortedRowModel<TData>()(table);
+    return memo(
+      () => [
+        getBaseRowModel(),
+        table.getState().sorting,
+        table.getState().globalFilter as unknown,
+      ],
+      (rowModel, sorting, globalFilter) => {
+        const query = typeof globalFilter === "string" ? globalFilter : "";
+        if (sorting.length > 0 || query.trim() === "") return rowModel;
+
+        const scores = new Map(
+          rowModel.rows.map((row) => [row.id, getRelevance(row, query, mode)])
+        );
+        return {
+          ...rowModel,
+          // Array#sort is stable, so rows of equal relevance keep their order
+          rows: [...rowModel.rows].sort(
+            (a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0)
+          ),
+        };
+      },
+      { key: "getRelevanceSortedRowModel" }
+    );
+  };
+}
+
+// =============================================================================
+// Highlighting
+// =============================================================================
+
+/**
+ * Highlight the matches of a search in a text with `<mark>` elements.
+ * Returns the text as is if nothing matches.
+ *
+ * @example
+ * ```tsx
+ * highlightSearchMatches("John Smith", "smi");
+ * // => <>John <mark>Smi</mark>th</>
+ * ```
+ */
+export function highlightSearchMatches(
+  text: string,
+  query: string,
+  mode: GlobalSearchMode = "contains"
+): ReactNode {
+  const match = matchSearchText(text, query, mode);
+  if (!match) return text;
+
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const [start, end] of match.ranges) {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} className={styles.searchMatch}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return <Fragment>{parts}</Fragment>;
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { useSeizenTable } from "./useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "./useSeizenTable";
+import { SeizenTable } from "./SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  age: number;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice", age: 25 },
+  { id: 2, name: "Bob", age: 30 },
+  { id: 3, name: "Charlie", age: 35 },
+  { id: 4, name: "Diana", age: 28 },
+  { id: 5, name: "Eve", age: 22 },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID" },
+  { accessorKey: "name", header: "Name" },
+  { accessorKey: "age", header: "Age" },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getCell(rowId: string, columnId: string): HTMLElement {
+  return document.querySelector(
+    `tr[data-row-id="${rowId}"] > td[data-column-id="${columnId}"]`
+  ) as HTMLElement;
+}
+
+function press(key: string, init: Partial<KeyboardEventInit> = {}) {
+  fireEvent.keyDown(document.activeElement as HTMLElement, { key, ...init });
+}
+
+// =============================================================================
+// Grid Navigation Tests
+// =============================================================================
+
+describe("grid navigation", () => {
+  it("uses grid semantics with a single tabbable cell", () => {
+    renderTable();
+
+    expect(screen.getByRole("grid")).toBeInTheDocument();
+    expect(screen.getAllByRole("gridcell")).toHaveLength(15);
+    expect(document.querySelectorAll('td[tabindex="0"]')).toHaveLength(1);
+    expect(getCell("1", "id")).toHaveAttribute("tabindex", "0");
+  });
+
+  it("moves focus with arrow keys, Home and End", () => {
+    renderTable();
+    act(() => getCell("1", "id").focus());
+
+    press("ArrowDown");
+    expect(getCell("2", "id")).toHaveFocus();
+
+    press("ArrowRight");
+    expect(getCell("2", "name")).toHaveFocus();
+    expect(getCell("2", "name")).toHaveAttribute("tabindex", "0");
+    expect(getCell("1", "id")).toHaveAttribute("tabindex", "-1");
+
+    press("End");
+    expect(getCell("2", "age")).toHaveFocus();
+
+    press("Home", { ctrlKey: true });
+    expect(getCell("1", "id")).toHaveFocus();
+
+    press("End", { ctrlKey: true });
+    expect(getCell("5", "age")).toHaveFocus();
+
+    press("ArrowDown");
+    expect(getCell("5", "age")).toHaveFocus();
+  });
+
+  it("makes a clicked cell the active cell", () => {
+    renderTable();
+
+    act(() => getCell("3", "name").focus());
+
+    expect(getCell("3", "name")).toHaveAttribute("tabindex", "0");
+    expect(getCell("1", "id")).toHaveAttribute("tabindex", "-1");
+  });
+
+  it("moves across pages with PageDown and PageUp", () => {
+    const table = renderTable({
+      initialState: { pagination: { pageIndex: 0, pageSize: 2 } },
+    });
+    act(() => getCell("2", "name").focus());
+
+    press("PageDown");
+    expect(table.current.getPaginationState().pageIndex).toBe(1);
+    expect(getCell("4", "name")).toHaveFocus();
+
+    press("PageDown");
+    expect(table.current.getPaginationState().pageIndex).toBe(2);
+    expect(getCell("5", "name")).toHaveFocus();
+
+    press("PageUp");
+    expect(table.current.getPaginationState().pageIndex).toBe(1);
+    expect(getCell("3", "name")).toHaveFocus();
+  });
+
+  it("emits row-click on Enter", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("row-click", listener);
+    act(() => getCell("2", "id").focus());
+
+    press("Enter");
+
+    expect(listener).toHaveBeenCalledWith(data[1]);
+  });
+
+  it("toggles the row selection on Space", () => {
+    const table = renderTable();
+    act(() => getCell("2", "id").focus());
+
+    press(" ");
+    expect(table.current.getSelectedRows()).toEqual([data[1]]);
+
+    press(" ");
+    expect(table.current.getSelectedRows()).toEqual([]);
+  });
+
+  it("opens the cell context menu on Shift+F10", () => {
+    renderTable();
+    act(() => getCell("1", "name").focus());
+
+    press("F10");
+    expect(screen.queryByText("Copy")).not.toBeInTheDocument();
+
+    press("F10", { shiftKey: true });
+    expect(screen.getByText("Copy")).toBeInTheDocument();
+  });
+
+  it("emits active-cell-change when the active cell moves", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("active-cell-change", listener);
+    act(() => getCell("1", "id").focus());
+
+    press("ArrowDown");
+
+    expect(listener).toHaveBeenLastCalledWith({
+      rowIndex: 1,
+      rowId: "2",
+      columnId: "id",
+      row: data[1],
+    });
+  });
+
+  it("ignores keys pressed inside interactive cell content", () => {
+    const table = renderTable({ enableSelectionColumn: true });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("row-click", listener);
+    const checkbox = screen.getAllByRole("checkbox", {
+      name: "Select row",
+    })[0];
+    act(() => checkbox.focus());
+
+    fireEvent.keyDown(checkbox, { key: "Enter" });
+    fireEvent.keyDown(checkbox, { key: "ArrowDown" });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(checkbox).toHaveFocus();
+  });
+
+  it("scrolls rows outside the window of a virtual body into view", () => {
+    const manyRows = Array.from({ length: 200 }, (_, i) => ({
+      id: i + 1,
+      name: `User ${i + 1}`,
+      age: 20 + (i % 50),
+    }));
+
+    function VirtualTable() {
+      const table = useSeizenTable({
+        data: manyRows,
+        columns,
+        getRowId: (row) => String(row.id),
+      });
+      return (
+        <SeizenTable
+          table={table}
+          paginate={{ enable: false }}
+          virtualize={{ enable: true, rowHeight: 40, overscan: 2 }}
+        />
+      );
+    }
+
+    render(<VirtualTable />);
+    expect(getCell("200", "name")).toBeNull();
+    act(() => getCell("1", "name").focus());
+
+    press("End", { ctrlKey: true });
+    expect(getCell("200", "age")).toHaveFocus();
+    expect(getCell("200", "age")).toHaveAttribute("tabindex", "0");
+
+    press("Home", { ctrlKey: true });
+    expect(getCell("1", "id")).toHaveFocus();
+
+    // Every row is shown, regardless of the default page size
+    press("ArrowDown");
+    expect(getCell("2", "id")).toHaveFocus();
+
+    press("PageDown");
+    expect(getCell("200", "id")).toHaveFocus();
+    expect(document.querySelectorAll('td[tabindex="0"]')).toHaveLength(1);
+  });
+});
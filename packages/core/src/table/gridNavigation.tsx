@@ -0,0 +1,389 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type RefObject,
+} from "react";
+import type { Row } from "@tanstack/react-table";
+import type { SeizenTableInstance } from "./useSeizenTable";
+import { ContextMenuContext } from "../plugin/contextMenu";
+import { getEffectiveSelection } from "./selectionColumn";
+import { isCellEditable } from "./cellEditing";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Position of the active cell.
+ * The row is stored by its position on the current page, so that the
+ * active cell stays in place when the page changes (e.g. PageDown).
+ */
+interface ActiveCellPosition {
+  rowIndex: number;
+  columnId: string;
+}
+
+/**
+ * Active cell resolved against the rows currently displayed
+ */
+export interface ActiveCell<TData = unknown> {
+  rowIndex: number;
+  rowId: string;
+  columnId: string;
+  row: Row<TData>;
+}
+
+// =============================================================================
+// Context
+// =============================================================================
+
+/**
+ * Active cell of the enclosing grid, used by cells for roving tabindex.
+ * `undefined` outside SeizenTable.Table, `null` when there are no rows.
+ */
+export const GridNavigationContext = createContext<
+  ActiveCell<any> | null | undefined
+>(undefined);
+
+/**
+ * Lets a virtualized body bring rows that are not mounted into view
+ */
+export interface GridRowScroller<TData = any> {
+  /**
+   * Rows of the body. A virtualized body shows every row, regardless of
+   * pagination.
+   */
+  getRows: () => Row<TData>[];
+  /**
+   * Scroll the row at the index (in `getRows()`) into view,
+   * then call `onRendered` once the row is mounted
+   */
+  scrollToRow: (rowIndex: number, onRendered: () => void) => void;
+}
+
+/**
+ * Slot for the row scroller of the enclosing grid, registered by
+ * SeizenTable.VirtualBody. `null` outside SeizenTable.Table.
+ */
+export const GridRowScrollerContext = createContext<RefObject<
+  GridRowScroller | null
+> | null>(null);
+
+/**
+ * Tab index of a body cell under the roving tabindex model.
+ * Only the active cell is reachable with Tab; the others are focused
+ * with arrow keys or by clicking.
+ */
+export function getCellTabIndex(
+  activeCell: ActiveCell<unknown> | null | undefined,
+  rowId: string,
+  columnId: string
+): number | undefined {
+  if (activeCell === undefined) return undefined;
+  return activeCell?.rowId === rowId && activeCell.columnId === columnId
+    ? 0
+    : -1;
+}
+
+/**
+ * Tab index of a body cell in the enclosing grid
+ */
+export function useCellTabIndex(
+  rowId: string,
+  columnId: string
+): number | undefined {
+  return getCellTabIndex(useContext(GridNavigationContext), rowId, columnId);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function resolveActiveCell<TData>(
+  rows: Row<TData>[],
+  position: ActiveCellPosition | null
+): ActiveCell<TData> | null {
+  if (rows.length === 0) return null;
+
+  const rowIndex = Math.min(position?.rowIndex ?? 0, rows.length - 1);
+  const row = rows[rowIndex];
+  const columnIds = row.getVisibleCells().map((cell) => cell.column.id);
+  if (columnIds.length === 0) return null;
+
+  const columnId =
+    position && columnIds.includes(position.columnId)
+      ? position.columnId
+      : columnIds[0];
+  return { rowIndex, rowId: row.id, columnId, row };
+}
+
+/**
+ * Find the body cell element for a row and column
+ */
+function findCellElement(
+  tableEl: HTMLTableElement,
+  rowId: string,
+  columnId: string
+): HTMLElement | null {
+  const rowEl = Array.from(
+    tableEl.querySelectorAll<HTMLElement>("tbody tr[data-row-id]")
+  ).find((el) => el.getAttribute("data-row-id") === rowId);
+  if (!rowEl) return null;
+  return (
+    Array.from(
+      rowEl.querySelectorAll<HTMLElement>(":scope > td[data-column-id]")
+    ).find((el) => el.getAttribute("data-column-id") === columnId) ?? null
+  );
+}
+
+/**
+ * Find the row and column of a body cell containing the element
+ */
+function getCellLocation(
+  tableEl: HTMLTableElement,
+  target: HTMLElement
+): { cellEl: HTMLElement; rowId: string; columnId: string } | null {
+  const cellEl = target.closest<HTMLElement>("td[data-column-id]");
+  const rowEl = cellEl?.parentElement;
+  const rowId = rowEl?.getAttribute("data-row-id");
+  if (!cellEl || !rowId || cellEl.closest("table") !== tableEl) return null;
+  return {
+    cellEl,
+    rowId,
+    columnId: cellEl.getAttribute("data-column-id") as string,
+  };
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Keyboard navigation for the table body, following the ARIA grid pattern.
+ *
+ * - Arrow keys move between cells; Home/End move to the first/last cell in
+ *   the row, and with Ctrl to the first/last cell in the page
+ * - PageUp/PageDown move to the previous/next page, keeping the position
+ * - Enter or F2 edits `editable` cells; otherwise Enter emits `row-click`
+ * - Space toggles the row's selection
+ * - Enter or Space on a group row expands or collapses it
+ * - Shift+F10 or the ContextMenu key opens the cell context menu
+ *
+ * Keys pressed inside interactive content of a cell (inputs, buttons, etc.)
+ * are left to that content.
+ */
+export function useGridNavigation<TData>(table: SeizenTableInstance<TData>) {
+  const tanstack = table._tanstackTable;
+  const contextMenu = useContext(ContextMenuContext);
+  const tableRef = useRef<HTMLTableElement>(null);
+  const [position, setPosition] = useState<ActiveCellPosition | null>(null);
+  const rowScrollerRef = useRef<GridRowScroller | null>(null);
+
+  // Focus requested by keyboard navigation, applied after rendering.
+  // After a page change, `waitForRows` holds the previous rows so that
+  // focus moves only once the new page is rendered (Remote Mode loads it
+  // asynchronously).
+  const focusRequestRef = useRef<{ waitForRows: Row<TData>[] | null } | null>(
+    null
+  );
+
+  // Rows of the body: all rows of a virtualized body, else the current page.
+  // Read when handling events too, as the body registers its scroller after
+  // the first render.
+  const getRows = () =>
+    rowScrollerRef.current?.getRows() ?? tanstack.getRowModel().rows;
+  const rows = getRows();
+  const activeCell = resolveActiveCell(rows, position);
+
+  useEffect(() => {
+    const request = focusRequestRef.current;
+    const tableEl = tableRef.current;
+    if (!request || !tableEl || !activeCell) return;
+    if (request.waitForRows === rows) return;
+
+    focusRequestRef.current = null;
+    const { rowIndex, rowId, columnId } = activeCell;
+    const focusCell = () => findCellElement(tableEl, rowId, columnId)?.focus();
+    if (findCellElement(tableEl, rowId, columnId)) {
+      focusCell();
+    } else {
+      // The row is outside the window of a virtualized body
+      rowScrollerRef.current?.scrollToRow(rowIndex, focusCell);
+    }
+  });
+
+  // Emit only once the user has moved into the grid, not for the
+  // default active cell
+  const hasPosition = position !== null;
+  const activeRowId = activeCell?.rowId;
+  const activeColumnId = activeCell?.columnId;
+  const activeCellRef = useRef(activeCell);
+  activeCellRef.current = activeCell;
+
+  useEffect(() => {
+    const current = activeCellRef.current;
+    if (!hasPosition || !current) return;
+    table.eventBus.emit("active-cell-change", {
+      rowIndex: current.rowIndex,
+      rowId: current.rowId,
+      columnId: current.columnId,
+      row: current.row.original,
+    });
+  }, [table.eventBus, hasPosition, activeRowId, activeColumnId]);
+
+  const moveTo = useCallback(
+    (next: ActiveCellPosition, waitForRows: Row<TData>[] | null = null) => {
+      focusRequestRef.current = { waitForRows };
+      setPosition(next);
+    },
+    []
+  );
+
+  const handleFocus = (e: React.FocusEvent<HTMLTableElement>) => {
+    const location = getCellLocation(e.currentTarget, e.target);
+    if (!location) return;
+    const rowIndex = getRows().findIndex((row) => row.id === location.rowId);
+    if (rowIndex === -1) return;
+    if (
+      position?.rowIndex !== rowIndex ||
+      position.columnId !== location.columnId
+    ) {
+      setPosition({ rowIndex, columnId: location.columnId });
+    }
+  };
+
+  const toggleSelection = (row: Row<TData>) => {
+    if (!row.getCanSelect()) return;
+    if (!tanstack.options.enableMultiRowSelection) {
+      row.toggleSelected();
+      return;
+    }
+    const isAllRowsSelected = table.getIsAllRowsSelected();
+    const selection = getEffectiveSelection(tanstack, isAllRowsSelected);
+    if (selection[row.id]) {
+      delete selection[row.id];
+    } else {
+      selection[row.id] = true;
+    }
+    tanstack.setRowSelection(selection);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTableElement>) => {
+    const location = getCellLocation(e.currentTarget, e.target as HTMLElement);
+    const rows = getRows();
+    const activeCell = resolveActiveCell(rows, position);
+    // Only handle keys on the cell itself, not on its interactive content
+    if (!location || location.cellEl !== e.target || !activeCell) return;
+
+    const { rowIndex, columnId, row } = activeCell;
+    const cells = row.getVisibleCells();
+    const columnIndex = cells.findIndex((cell) => cell.column.id === columnId);
+    const cell = cells[columnIndex];
+    const lastColumnIndex = cells.length - 1;
+    const firstColumnId = cells[0].column.id;
+    const lastColumnId = cells[lastColumnIndex].column.id;
+    const lastRowIndex = rows.length - 1;
+    const isCtrl = e.ctrlKey || e.metaKey;
+    // A virtualized body shows every row, so there are no pages to turn
+    const isPaginated = !rowScrollerRef.current;
+
+    // Group rows expand and collapse instead of acting as data rows
+    if (row.getIsGrouped() && (e.key === "Enter" || e.key === " ")) {
+      e.preventDefault();
+      row.toggleExpanded();
+      return;
+    }
+
+    switch (e.key) {
+      case "ArrowUp":
+        moveTo({ rowIndex: Math.max(rowIndex - 1, 0), columnId });
+        break;
+      case "ArrowDown":
+        moveTo({ rowIndex: Math.min(rowIndex + 1, lastRowIndex), columnId });
+        break;
+      case "ArrowLeft":
+        moveTo({
+          rowIndex,
+          columnId: cells[Math.max(columnIndex - 1, 0)].column.id,
+        });
+        break;
+      case "ArrowRight":
+        moveTo({
+          rowIndex,
+          columnId: cells[Math.min(columnIndex + 1, lastColumnIndex)].column.id,
+        });
+        break;
+      case "Home":
+        moveTo({ rowIndex: isCtrl ? 0 : rowIndex, columnId: firstColumnId });
+        break;
+      case "End":
+        moveTo({
+          rowIndex: isCtrl ? lastRowIndex : rowIndex,
+          columnId: lastColumnId,
+        });
+        break;
+      case "PageUp":
+        if (isPaginated && tanstack.getCanPreviousPage()) {
+          tanstack.previousPage();
+          moveTo({ rowIndex, columnId }, rows);
+        } else {
+          moveTo({ rowIndex: 0, columnId });
+        }
+        break;
+      case "PageDown":
+        if (isPaginated && tanstack.getCanNextPage()) {
+          tanstack.nextPage();
+          moveTo({ rowIndex, columnId }, rows);
+        } else {
+          moveTo({ rowIndex: lastRowIndex, columnId });
+        }
+        break;
+      case "Enter":
+      case "F2":
+        if (cell && isCellEditable(row, cell.column)) {
+          table.startCellEdit(row.id, cell.column.id);
+        } else if (e.key === "Enter") {
+          table.eventBus.emit("row-click", row.original);
+        } else {
+          return;
+        }
+        break;
+      case " ":
+        toggleSelection(row);
+        break;
+      case "F10":
+      case "ContextMenu": {
+        if (e.key === "F10" && !e.shiftKey) return;
+        if (!contextMenu || !cell) return;
+        contextMenu.openCellMenu(
+          cell,
+          cell.column,
+          row,
+          location.cellEl.getBoundingClientRect()
+        );
+        break;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return {
+    activeCell,
+    rowScrollerRef,
+    gridProps: {
+      ref: tableRef,
+      role: "grid",
+      "aria-multiselectable": tanstack.options.enableMultiRowSelection
+        ? true
+        : undefined,
+      onFocus: handleFocus,
+      onKeyDown: handleKeyDown,
+    },
+  };
+}
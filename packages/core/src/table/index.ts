@@ -2,10 +2,22 @@ export { SeizenTable } from "./SeizenTable";
 export { Paginator } from "./components/Paginator";
 export { useSeizenTable } from "./useSeizenTable";
 export { useSeizenTableEvent } from "./useSeizenTableEvent";
+export { useSeizenTableUrlState } from "./useSeizenTableUrlState";
+export { historyUrlAdapter } from "./urlState";
+export {
+  localStorageAdapter,
+  getColumnIds,
+  sanitizePersistedState,
+} from "./persistence";
 export { useSeizenTableContext } from "./components/Root";
+export { SELECTION_COLUMN_ID } from "./selectionColumn";
+export { toFilterExpression } from "../plugin/filterExpression";
+export { registerFilterType } from "../plugin/filterRegistry";
+export { highlightSearchMatches, matchSearchText } from "./globalSearch";
 export type {
   SeizenTableProps,
   PaginateOptions,
+  VirtualizeOptions,
   LoaderProps,
 } from "./SeizenTable";
 export type { PaginatorProps } from "./components/Paginator";
@@ -16,6 +28,8 @@ export type {
   TableRowProps,
   TableCellProps,
   TableTableProps,
+  TableVirtualBodyProps,
+  TableColumnResizeHandleProps,
 } from "./components";
 
 // Hooks - re-export from plugin for convenience
@@ -25,14 +39,51 @@ export { useContextMenuHandlers } from "../plugin/contextMenu";
 export type {
   SeizenTableColumn,
   SeizenTableInstance,
+  ColumnPinPosition,
   UseSeizenTableOptions,
   RemoteOptions,
 } from "./useSeizenTable";
+export type { SeizenTableState } from "./useSeizenTableState";
+export type { EditingCell } from "./cellEditing";
+export type { AggregateScope } from "./aggregation";
+export type { ColumnFacets, FacetValue } from "./faceting";
+export type {
+  ExportData,
+  ExportDataColumn,
+  ExportDataOptions,
+} from "./exportData";
+export type {
+  GlobalSearchMode,
+  GlobalSearchOptions,
+  SearchMatch,
+  SearchMatchRange,
+} from "./globalSearch";
+export type { CellEditorProps } from "../plugin/columnMeta";
+export type {
+  FilterCombinator,
+  FilterCondition,
+  FilterGroup,
+  FilterExpression,
+} from "../plugin/filterExpression";
+export type {
+  FilterTypeDefinition,
+  FilterInputProps,
+  FilterPredicateContext,
+} from "../plugin/filterRegistry";
+export type { UseSeizenTableUrlStateOptions } from "./useSeizenTableUrlState";
+export type { UrlStateAdapter, UrlStateKey } from "./urlState";
+export type {
+  PersistOptions,
+  PersistStorage,
+  PersistedTableState,
+  PersistedStateKey,
+} from "./persistence";
 
 // Re-export PluginArgsRegistry for module augmentation
 // This ensures that module augmentation on "@izumisy/seizen-table/plugin"
 // also affects types imported from "@izumisy/seizen-table"
 export type { PluginArgsRegistry } from "../plugin/usePluginControl";
+export type { FilterTypeRegistry } from "../plugin/columnMeta";
 
 // Re-export useful types from TanStack Table
 export type {
@@ -46,5 +97,7 @@ export type {
   SortingState,
   ColumnFiltersState,
   PaginationState,
+  ColumnSizingState,
+  ColumnPinningState,
 } from "@tanstack/react-table";
 export { flexRender } from "@tanstack/react-table";
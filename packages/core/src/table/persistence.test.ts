@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  deserializePersistedState,
+  getColumnIds,
+  sanitizePersistedState,
+  serializePersistedState,
+} from "./persistence";
+
+// =============================================================================
+// getColumnIds
+// =============================================================================
+
+describe("getColumnIds", () => {
+  it("resolves IDs from id, accessorKey and header", () => {
+    expect(
+      getColumnIds([
+        { id: "custom", header: "Custom" },
+        { accessorKey: "name" },
+        { accessorKey: "address.city" },
+        { header: "Actions" },
+      ])
+    ).toEqual(["custom", "name", "address_city", "Actions"]);
+  });
+
+  it("resolves leaf columns of column groups", () => {
+    expect(
+      getColumnIds([
+        {
+          header: "Person",
+          columns: [{ accessorKey: "name" }, { accessorKey: "age" }],
+        },
+      ])
+    ).toEqual(["name", "age"]);
+  });
+});
+
+// =============================================================================
+// sanitizePersistedState
+// =============================================================================
+
+describe("sanitizePersistedState", () => {
+  const columnIds = ["name", "age"];
+
+  it("drops unknown column IDs", () => {
+    expect(
+      sanitizePersistedState(
+        {
+          columnVisibility: { name: false, removed: false },
+          columnOrder: ["removed", "age", "name"],
+          columnSizing: { removed: 120, name: 200, age: -10 },
+          sorting: [
+            { id: "removed", desc: true },
+            { id: "age", desc: false },
+          ],
+          columnFilters: [
+            { id: "removed", value: "x" },
+            { id: "name", value: { operator: "contains", value: "a" } },
+          ],
+        },
+        columnIds
+      )
+    ).toEqual({
+      columnVisibility: { name: false },
+      columnOrder: ["age", "name"],
+      columnSizing: { name: 200 },
+      sorting: [{ id: "age", desc: false }],
+      columnFilters: [
+        { id: "name", value: { operator: "contains", value: "a" } },
+      ],
+    });
+  });
+
+  it("drops malformed values", () => {
+    expect(
+      sanitizePersistedState(
+        {
+          columnVisibility: ["name"],
+          columnOrder: "name",
+          sorting: [{ id: "name" }],
+          pageSize: -1,
+        },
+        columnIds
+      )
+    ).toEqual({ sorting: [] });
+  });
+
+  it("returns an empty state for non-objects", () => {
+    expect(sanitizePersistedState("broken", columnIds)).toEqual({});
+  });
+});
+
+// =============================================================================
+// deserializePersistedState
+// =============================================================================
+
+describe("deserializePersistedState", () => {
+  const columnIds = ["name", "age"];
+
+  it("round-trips serialized state", () => {
+    const state = { sorting: [{ id: "name", desc: true }], pageSize: 50 };
+    expect(
+      deserializePersistedState(serializePersistedState(state, 1), {
+        columnIds,
+      })
+    ).toEqual(state);
+  });
+
+  it("returns null for missing or invalid JSON", () => {
+    expect(deserializePersistedState(null, { columnIds })).toBeNull();
+    expect(deserializePersistedState("{broken", { columnIds })).toBeNull();
+    expect(deserializePersistedState('{"state":{}}', { columnIds })).toBeNull();
+  });
+
+  it("discards state stored with another version without migrate", () => {
+    const raw = serializePersistedState({ pageSize: 50 }, 1);
+    expect(
+      deserializePersistedState(raw, { version: 2, columnIds })
+    ).toBeNull();
+  });
+
+  it("migrates state stored with another version", () => {
+    const raw = serializePersistedState(
+      { sorting: [{ id: "fullName", desc: false }] },
+      1
+    );
+    const migrate = vi.fn((state: unknown) => {
+      const { sorting } = state as { sorting: { id: string; desc: boolean }[] };
+      return {
+        sorting: sorting.map((s) =>
+          s.id === "fullName" ? { ...s, id: "name" } : s
+        ),
+      };
+    });
+
+    expect(
+      deserializePersistedState(raw, { version: 2, migrate, columnIds })
+    ).toEqual({ sorting: [{ id: "name", desc: false }] });
+    expect(migrate).toHaveBeenCalledWith(
+      { sorting: [{ id: "fullName", desc: false }] },
+      1
+    );
+  });
+
+  it("discards state when migrate returns null", () => {
+    const raw = serializePersistedState({ pageSize: 50 }, 1);
+    expect(
+      deserializePersistedState(raw, {
+        version: 2,
+        migrate: () => null,
+        columnIds,
+      })
+    ).toBeNull();
+  });
+});
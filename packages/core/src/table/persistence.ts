@@ -0,0 +1,310 @@
+/**
+ * Persistence of table view state (column visibility, order, sizes,
+ * sorting, page size and filters) to a storage adapter.
+ *
+ * Stored format: `{ "version": <number>, "state": PersistedTableState }`
+ * under the key `seizen-table:<id>`.
+ */
+
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnSizingState,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Table state persisted between sessions
+ */
+export interface PersistedTableState {
+  columnVisibility?: VisibilityState;
+  columnOrder?: ColumnOrderState;
+  columnSizing?: ColumnSizingState;
+  sorting?: SortingState;
+  pageSize?: number;
+  columnFilters?: ColumnFiltersState;
+}
+
+/**
+ * State slices that can be persisted
+ */
+export type PersistedStateKey = keyof PersistedTableState;
+
+/**
+ * Storage adapter for persisted table state.
+ * `window.localStorage` and `window.sessionStorage` satisfy this interface,
+ * and async storages (IndexedDB wrappers, server APIs) can return promises.
+ */
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+}
+
+/**
+ * Persistence options for useSeizenTable
+ */
+export interface PersistOptions {
+  /**
+   * Unique ID of the table. Used as the storage key.
+   */
+  id: string;
+
+  /**
+   * Storage adapter.
+   * @default localStorage
+   */
+  storage?: PersistStorage;
+
+  /**
+   * Version of the persisted state. Bump this when the stored state is no
+   * longer compatible (e.g. columns were renamed), and provide `migrate`
+   * to convert state stored by older versions.
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * Convert state stored with another version.
+   * Return null to discard the stored state.
+   * Without this option, state stored with another version is discarded.
+   *
+   * @param state - The stored state (unvalidated)
+   * @param version - The version the state was stored with
+   */
+  migrate?: (state: unknown, version: number) => PersistedTableState | null;
+
+  /**
+   * State slices to persist.
+   * @default ["columnVisibility", "columnOrder", "columnSizing", "sorting", "pageSize", "columnFilters"]
+   */
+  include?: PersistedStateKey[];
+}
+
+interface StoredTableState {
+  version: number;
+  state: unknown;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const PERSIST_KEY_PREFIX = "seizen-table:";
+
+export const ALL_PERSISTED_STATE_KEYS: PersistedStateKey[] = [
+  "columnVisibility",
+  "columnOrder",
+  "columnSizing",
+  "sorting",
+  "pageSize",
+  "columnFilters",
+];
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Default storage backed by `window.localStorage`.
+ * Reads and writes are no-ops when localStorage is unavailable
+ * (server rendering, disabled storage, exceeded quota).
+ */
+export const localStorageAdapter: PersistStorage = {
+  getItem: (key) => {
+    try {
+      return typeof window === "undefined"
+        ? null
+        : window.localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  setItem: (key, value) => {
+    try {
+      if (typeof window !== "undefined") {
+        window.localStorage.setItem(key, value);
+      }
+    } catch {
+      // Persistence is best-effort
+    }
+  },
+};
+
+// =============================================================================
+// Column IDs
+// =============================================================================
+
+/**
+ * Resolve leaf column IDs from column definitions,
+ * the same way TanStack Table does.
+ */
+export function getColumnIds<TData>(
+  columns: ColumnDef<TData, unknown>[]
+): string[] {
+  const ids: string[] = [];
+  for (const column of columns) {
+    if ("columns" in column && column.columns) {
+      ids.push(...getColumnIds(column.columns));
+      continue;
+    }
+    const accessorKey =
+      "accessorKey" in column && typeof column.accessorKey === "string"
+        ? column.accessorKey.replace(/\./g, "_")
+        : undefined;
+    const id =
+      column.id ??
+      accessorKey ??
+      (typeof column.header === "string" ? column.header : undefined);
+    if (id) ids.push(id);
+  }
+  return ids;
+}
+
+// =============================================================================
+// Serialize / Deserialize
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate persisted state and drop entries for unknown columns
+ */
+export function sanitizePersistedState(
+  state: unknown,
+  columnIds: string[]
+): PersistedTableState {
+  if (!isRecord(state)) return {};
+  const known = new Set(columnIds);
+  const result: PersistedTableState = {};
+
+  if (isRecord(state.columnVisibility)) {
+    const visibility: VisibilityState = {};
+    for (const [id, visible] of Object.entries(state.columnVisibility)) {
+      if (known.has(id) && typeof visible === "boolean") {
+        visibility[id] = visible;
+      }
+    }
+    result.columnVisibility = visibility;
+  }
+
+  if (Array.isArray(state.columnOrder)) {
+    result.columnOrder = Array.from(
+      new Set(
+        state.columnOrder.filter(
+          (id): id is string => typeof id === "string" && known.has(id)
+        )
+      )
+    );
+  }
+
+  if (isRecord(state.columnSizing)) {
+    const sizing: ColumnSizingState = {};
+    for (const [id, size] of Object.entries(state.columnSizing)) {
+      if (known.has(id) && typeof size === "number" && size > 0) {
+        sizing[id] = size;
+      }
+    }
+    result.columnSizing = sizing;
+  }
+
+  if (Array.isArray(state.sorting)) {
+    result.sorting = state.sorting.flatMap((sort) =>
+      isRecord(sort) &&
+      typeof sort.id === "string" &&
+      known.has(sort.id) &&
+      typeof sort.desc === "boolean"
+        ? [{ id: sort.id, desc: sort.desc }]
+        : []
+    );
+  }
+
+  if (
+    typeof state.pageSize === "number" &&
+    Number.isInteger(state.pageSize) &&
+    state.pageSize > 0
+  ) {
+    result.pageSize = state.pageSize;
+  }
+
+  if (Array.isArray(state.columnFilters)) {
+    result.columnFilters = state.columnFilters.flatMap((filter) =>
+      isRecord(filter) &&
+      typeof filter.id === "string" &&
+      known.has(filter.id) &&
+      filter.value !== undefined
+        ? [{ id: filter.id, value: filter.value }]
+        : []
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Serialize state for storage
+ */
+export function serializePersistedState(
+  state: PersistedTableState,
+  version: number
+): string {
+  const stored: StoredTableState = { version, state };
+  return JSON.stringify(stored);
+}
+
+/**
+ * Parse stored state, migrating it from older versions when needed.
+ * Returns null when nothing usable is stored.
+ */
+export function deserializePersistedState(
+  raw: string | null,
+  {
+    version = 1,
+    migrate,
+    columnIds,
+  }: Pick<PersistOptions, "version" | "migrate"> & { columnIds: string[] }
+): PersistedTableState | null {
+  if (raw === null) return null;
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(stored) || typeof stored.version !== "number") {
+    return null;
+  }
+
+  let state: unknown = stored.state;
+  if (stored.version !== version) {
+    if (!migrate) return null;
+    state = migrate(state, stored.version);
+    if (state === null) return null;
+  }
+
+  return sanitizePersistedState(state, columnIds);
+}
+
+/**
+ * Pick the persisted slices
+ */
+export function pickPersistedState(
+  state: PersistedTableState,
+  include: PersistedStateKey[]
+): PersistedTableState {
+  const picked: PersistedTableState = {};
+  for (const key of include) {
+    if (state[key] !== undefined) {
+      (picked as Record<string, unknown>)[key] = state[key];
+    }
+  }
+  return picked;
+}
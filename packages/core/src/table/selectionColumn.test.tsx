@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { useSeizenTable } from "./useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "./useSeizenTable";
+import { SeizenTable } from "./SeizenTable";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  { id: 1, name: "Alice" },
+  { id: 2, name: "Bob" },
+  { id: 3, name: "Charlie" },
+  { id: 4, name: "Diana" },
+  { id: 5, name: "Eve" },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID" },
+  { accessorKey: "name", header: "Name" },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): { current: SeizenTableInstance<TestRow> } {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => String(row.id),
+      enableSelectionColumn: true,
+      ...options,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  render(<TestTable />);
+  return ref;
+}
+
+function getRowCheckboxes(): HTMLInputElement[] {
+  return screen.getAllByRole("checkbox", {
+    name: "Select row",
+  }) as HTMLInputElement[];
+}
+
+function getHeaderCheckbox(): HTMLInputElement {
+  return screen.getByRole("checkbox", {
+    name: "Select all rows on this page",
+  }) as HTMLInputElement;
+}
+
+function getSelectedIds(table: { current: SeizenTableInstance<TestRow> }) {
+  return table.current.getSelectedRows().map((row) => row.id);
+}
+
+// =============================================================================
+// Selection Column Tests
+// =============================================================================
+
+describe("selection column", () => {
+  it("is not rendered by default", () => {
+    renderTable({ enableSelectionColumn: false });
+
+    expect(screen.queryByRole("checkbox")).not.toBeInTheDocument();
+  });
+
+  it("toggles a row without emitting row-click", () => {
+    const table = renderTable();
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("row-click", listener);
+
+    fireEvent.click(getRowCheckboxes()[1]);
+
+    expect(getSelectedIds(table)).toEqual([2]);
+    expect(getRowCheckboxes()[1]).toBeChecked();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("selects a range of rows with shift-click", () => {
+    const table = renderTable();
+
+    fireEvent.click(getRowCheckboxes()[1]);
+    fireEvent.click(getRowCheckboxes()[3], { shiftKey: true });
+    expect(getSelectedIds(table)).toEqual([2, 3, 4]);
+
+    // Shift-clicking a selected row deselects the range
+    fireEvent.click(getRowCheckboxes()[3]);
+    fireEvent.click(getRowCheckboxes()[2], { shiftKey: true });
+    expect(getSelectedIds(table)).toEqual([2]);
+  });
+
+  it("selects all rows on the page from the header checkbox", () => {
+    const table = renderTable();
+
+    fireEvent.click(getRowCheckboxes()[0]);
+    expect(getHeaderCheckbox().indeterminate).toBe(true);
+
+    fireEvent.click(getHeaderCheckbox());
+    expect(getSelectedIds(table)).toEqual([1, 2, 3, 4, 5]);
+    expect(getHeaderCheckbox()).toBeChecked();
+
+    fireEvent.click(getHeaderCheckbox());
+    expect(getSelectedIds(table)).toEqual([]);
+  });
+
+  it("selects one row at a time when multi-select is disabled", () => {
+    const table = renderTable({ enableMultiSelect: false });
+
+    expect(
+      screen.queryByRole("checkbox", { name: "Select all rows on this page" })
+    ).not.toBeInTheDocument();
+
+    fireEvent.click(getRowCheckboxes()[0]);
+    fireEvent.click(getRowCheckboxes()[2], { shiftKey: true });
+
+    expect(getSelectedIds(table)).toEqual([3]);
+  });
+
+  it("stays first when columns are reordered", () => {
+    const table = renderTable({
+      initialState: { columnOrder: ["name", "id"] },
+    });
+
+    const headers = table.current._tanstackTable
+      .getVisibleLeafColumns()
+      .map((column) => column.id);
+    expect(headers).toEqual(["__selection__", "name", "id"]);
+  });
+
+  it("can't be pinned by users", () => {
+    const table = renderTable();
+    const getPinning = () =>
+      table.current._tanstackTable.getState().columnPinning;
+
+    act(() => table.current.pinColumn("__selection__", "right"));
+    expect(getPinning()).toEqual({ left: [], right: [] });
+    expect(table.current.getColumnPinning()).toEqual({ left: [], right: [] });
+    expect(
+      table.current._tanstackTable.getColumn("__selection__")?.getCanPin()
+    ).toBe(false);
+
+    // Pinned left with the other left pinned columns
+    act(() => table.current.pinColumn("name", "left"));
+    expect(getPinning()).toEqual({
+      left: ["__selection__", "name"],
+      right: [],
+    });
+  });
+
+  it("offers to select all filtered rows when a page is selected", () => {
+    const table = renderTable({
+      initialState: { pagination: { pageIndex: 0, pageSize: 2 } },
+    });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("select-all-change", listener);
+
+    fireEvent.click(getHeaderCheckbox());
+    expect(
+      screen.getByText("All 2 rows on this page are selected.")
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Select all 5 rows" }));
+
+    expect(getSelectedIds(table)).toEqual([1, 2, 3, 4, 5]);
+    expect(table.current.getIsAllRowsSelected()).toBe(true);
+    expect(listener).toHaveBeenCalledWith({ selected: true, totalRowCount: 5 });
+    expect(screen.getByText("All 5 rows are selected.")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Clear selection" }));
+    expect(getSelectedIds(table)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Remote Mode Tests
+// =============================================================================
+
+describe("selection column in Remote Mode", () => {
+  const page = data.slice(0, 2);
+
+  it("selects all matching rows without loading them", () => {
+    const table = renderTable({ data: page, remote: { totalRowCount: 50 } });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("select-all-change", listener);
+
+    fireEvent.click(getHeaderCheckbox());
+    fireEvent.click(
+      screen.getByRole("button", { name: "Select all 50 rows" })
+    );
+
+    expect(table.current.getIsAllRowsSelected()).toBe(true);
+    expect(getSelectedIds(table)).toEqual([1, 2]);
+    expect(listener).toHaveBeenCalledWith({
+      selected: true,
+      totalRowCount: 50,
+    });
+    expect(screen.getByText("All 50 rows are selected.")).toBeInTheDocument();
+  });
+
+  it("ends the all-rows selection when a row is deselected", () => {
+    const table = renderTable({ data: page, remote: { totalRowCount: 50 } });
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("select-all-change", listener);
+
+    fireEvent.click(getHeaderCheckbox());
+    fireEvent.click(
+      screen.getByRole("button", { name: "Select all 50 rows" })
+    );
+    fireEvent.click(getRowCheckboxes()[0]);
+
+    expect(table.current.getIsAllRowsSelected()).toBe(false);
+    expect(getSelectedIds(table)).toEqual([2]);
+    expect(listener).toHaveBeenLastCalledWith({
+      selected: false,
+      totalRowCount: 50,
+    });
+  });
+
+  it("ends the all-rows selection when the filters change", () => {
+    const table = renderTable({ data: page, remote: { totalRowCount: 50 } });
+
+    fireEvent.click(getHeaderCheckbox());
+    fireEvent.click(
+      screen.getByRole("button", { name: "Select all 50 rows" })
+    );
+    expect(table.current.getIsAllRowsSelected()).toBe(true);
+
+    act(() => {
+      table.current.setGlobalFilter("Alice");
+    });
+    expect(table.current.getIsAllRowsSelected()).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import type {
+  ColumnDef,
+  Row,
+  RowSelectionState,
+  Table,
+} from "@tanstack/react-table";
+import { useSeizenTableContext } from "./components/Root";
+import * as styles from "./styles.css";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Column ID of the built-in selection column */
+export const SELECTION_COLUMN_ID = "__selection__";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether the table renders the built-in selection column
+ */
+export function hasSelectionColumn<TData>(table: Table<TData>): boolean {
+  return table
+    .getVisibleLeafColumns()
+    .some((column) => column.id === SELECTION_COLUMN_ID);
+}
+
+/**
+ * Selection state including the rows on the current page, which are
+ * selected implicitly while all matching rows are selected in Remote Mode.
+ */
+export function getEffectiveSelection<TData>(
+  table: Table<TData>,
+  isAllRowsSelected: boolean
+): RowSelectionState {
+  const selection = { ...table.getState().rowSelection };
+  if (isAllRowsSelected) {
+    for (const row of table.getRowModel().rows) {
+      selection[row.id] = true;
+    }
+  }
+  return selection;
+}
+
+// =============================================================================
+// Checkbox
+// =============================================================================
+
+function SelectionCheckbox({
+  indeterminate = false,
+  ...props
+}: React.InputHTMLAttributes<HTMLInputElement> & {
+  indeterminate?: boolean;
+}) {
+  return (
+    <input
+      type="checkbox"
+      ref={(el) => {
+        if (el) el.indeterminate = indeterminate;
+      }}
+      className={styles.selectionCheckbox}
+      {...props}
+    />
+  );
+}
+
+// =============================================================================
+// Column Definition
+// =============================================================================
+
+/**
+ * Create the built-in selection column.
+ *
+ * - Row checkboxes toggle a single row; shift-click selects or deselects
+ *   the range from the previously toggled row
+ * - The header checkbox toggles all rows on the current page
+ *
+ * Each table gets its own column, since the range anchor is kept
+ * in the column's closure.
+ */
+export function createSelectionColumn<TData>(): ColumnDef<TData, unknown> {
+  // Row toggled last, used as the start of shift-click ranges
+  let anchorRowId: string | null = null;
+
+  function SelectionHeader() {
+    const table = useSeizenTableContext<TData>();
+    const tanstack = table._tanstackTable;
+    if (!tanstack.options.enableMultiRowSelection) {
+      return null;
+    }
+
+    const isAllRowsSelected = table.getIsAllRowsSelected();
+    const checked = isAllRowsSelected || tanstack.getIsAllPageRowsSelected();
+    const indeterminate =
+      !checked &&
+      (tanstack.getIsSomePageRowsSelected() ||
+        tanstack.getIsSomeRowsSelected());
+
+    return (
+      <SelectionCheckbox
+        aria-label="Select all rows on this page"
+        checked={checked}
+        indeterminate={indeterminate}
+        onChange={() => {
+          anchorRowId = null;
+          if (!checked) {
+            tanstack.toggleAllPageRowsSelected(true);
+          } else if (isAllRowsSelected) {
+            table.clearSelection();
+          } else {
+            tanstack.toggleAllPageRowsSelected(false);
+          }
+        }}
+        onClick={(e) => e.stopPropagation()}
+      />
+    );
+  }
+
+  function SelectionCell({ row }: { row: Row<TData> }) {
+    const table = useSeizenTableContext<TData>();
+    const tanstack = table._tanstackTable;
+    const isAllRowsSelected = table.getIsAllRowsSelected();
+    const isSelected = isAllRowsSelected || row.getIsSelected();
+
+    const toggle = (shiftKey: boolean) => {
+      const value = !isSelected;
+
+      if (!tanstack.options.enableMultiRowSelection) {
+        row.toggleSelected(value);
+        anchorRowId = row.id;
+        return;
+      }
+
+      const rows = tanstack.getRowModel().rows;
+      const anchorIndex = rows.findIndex((r) => r.id === anchorRowId);
+      const index = rows.findIndex((r) => r.id === row.id);
+      const range =
+        shiftKey && anchorIndex !== -1 && index !== -1
+          ? rows.slice(
+              Math.min(anchorIndex, index),
+              Math.max(anchorIndex, index) + 1
+            )
+          : [row];
+
+      const selection = getEffectiveSelection(tanstack, isAllRowsSelected);
+      for (const target of range) {
+        if (!target.getCanSelect()) continue;
+        if (value) {
+          selection[target.id] = true;
+        } else {
+          delete selection[target.id];
+        }
+      }
+      tanstack.setRowSelection(selection);
+      anchorRowId = row.id;
+    };
+
+    return (
+      <SelectionCheckbox
+        aria-label="Select row"
+        checked={isSelected}
+        disabled={!row.getCanSelect()}
+        onChange={(e) =>
+          toggle((e.nativeEvent as MouseEvent).shiftKey ?? false)
+        }
+        onClick={(e) => e.stopPropagation()}
+      />
+    );
+  }
+
+  return {
+    id: SELECTION_COLUMN_ID,
+    header: () => <SelectionHeader />,
+    cell: ({ row }) => <SelectionCell row={row} />,
+    enableSorting: false,
+    enableHiding: false,
+    enableResizing: false,
+    enablePinning: false,
+    enableColumnFilter: false,
+    enableGlobalFilter: false,
+  };
+}
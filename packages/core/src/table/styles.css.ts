@@ -28,6 +28,13 @@ const fallback = {
   cellPaddingY: "10px",
   rowHoverBg: "#f3f4f6",
   rowSelectedBg: "#eff6ff",
+  resizeHandleColor: "#3b82f6",
+  sortIconColor: "#d1d5db",
+  sortIconActiveColor: "#3b82f6",
+  checkboxColor: "#3b82f6",
+  focusRingColor: "#3b82f6",
+  errorColor: "#dc2626",
+  searchMatchBg: "#fef08a",
 };
 
 // Container for the entire SeizenTable with side panels
@@ -65,11 +72,17 @@ export const table = style({
   borderSpacing: 0,
 });
 
+// Applied once columns have explicit widths, so that they are honored exactly
+export const tableFixed = style({
+  tableLayout: "fixed",
+});
+
 export const thead = style({
   backgroundColor: `var(--szui-header-bg, ${fallback.headerBg})`,
 });
 
 export const th = style({
+  position: "relative",
   padding: `var(--szui-cell-padding-y, ${fallback.cellPaddingY}) var(--szui-cell-padding-x, ${fallback.cellPaddingX})`,
   textAlign: "left",
   fontSize: `var(--szui-header-font-size, ${fallback.headerFontSize})`,
@@ -83,6 +96,15 @@ export const th = style({
 export const td = style({
   padding: `var(--szui-cell-padding-y, ${fallback.cellPaddingY}) var(--szui-cell-padding-x, ${fallback.cellPaddingX})`,
   borderBottom: `var(--szui-border-width, ${fallback.borderWidth}) solid var(--szui-border-color, ${fallback.borderColor})`,
+  selectors: {
+    "&:focus": {
+      outline: "none",
+    },
+    "&:focus-visible": {
+      outline: `2px solid var(--szui-focus-ring-color, ${fallback.focusRingColor})`,
+      outlineOffset: "-2px",
+    },
+  },
 });
 
 export const tr = style({
@@ -98,11 +120,303 @@ export const tr = style({
 
 export const trLast = style({});
 
+// Sortable header cells toggle sorting on click
+globalStyle(`${th}[data-sortable]`, {
+  cursor: "pointer",
+  userSelect: "none",
+});
+
+export const thContent = style({
+  display: "inline-flex",
+  alignItems: "center",
+  gap: "4px",
+  maxWidth: "100%",
+});
+
+export const sortIndicator = style({
+  display: "inline-flex",
+  alignItems: "center",
+  gap: "2px",
+  flexShrink: 0,
+  color: `var(--szui-sort-icon-color, ${fallback.sortIconColor})`,
+  selectors: {
+    "&[data-sorted]": {
+      color: `var(--szui-sort-icon-active-color, ${fallback.sortIconActiveColor})`,
+    },
+  },
+});
+
+export const sortIndex = style({
+  fontSize: "10px",
+  fontWeight: 600,
+  letterSpacing: 0,
+});
+
+// Built-in selection column ("__selection__" is SELECTION_COLUMN_ID),
+// shrunk to the checkbox width in the automatic table layout
+globalStyle(
+  `${th}[data-column-id="__selection__"], ${td}[data-column-id="__selection__"]`,
+  {
+    width: "1%",
+    whiteSpace: "nowrap",
+  }
+);
+
+export const selectionCheckbox = style({
+  display: "block",
+  width: "16px",
+  height: "16px",
+  margin: 0,
+  cursor: "pointer",
+  accentColor: `var(--szui-checkbox-color, ${fallback.checkboxColor})`,
+  selectors: {
+    "&:disabled": {
+      cursor: "not-allowed",
+    },
+  },
+});
+
+// Prompt to extend a page selection to all matching rows
+export const selectAllBanner = style({
+  padding: `8px var(--szui-cell-padding-x, ${fallback.cellPaddingX})`,
+  textAlign: "center",
+  fontSize: `var(--szui-font-size, ${fallback.fontSize})`,
+  fontWeight: "normal",
+  textTransform: "none",
+  letterSpacing: "normal",
+  color: `var(--szui-color-text, ${fallback.colorText})`,
+  backgroundColor: `var(--szui-row-selected-bg, ${fallback.rowSelectedBg})`,
+  borderBottom: `var(--szui-border-width, ${fallback.borderWidth}) solid var(--szui-border-color, ${fallback.borderColor})`,
+});
+
+export const selectAllBannerButton = style({
+  marginLeft: "8px",
+  padding: 0,
+  fontSize: "inherit",
+  fontWeight: 600,
+  color: `var(--szui-checkbox-color, ${fallback.checkboxColor})`,
+  background: "none",
+  border: "none",
+  cursor: "pointer",
+  selectors: {
+    "&:hover": {
+      textDecoration: "underline",
+    },
+  },
+});
+
+// Column resize handle at the right edge of header cells
+export const resizeHandle = style({
+  position: "absolute",
+  top: 0,
+  right: 0,
+  bottom: 0,
+  width: "6px",
+  cursor: "col-resize",
+  userSelect: "none",
+  touchAction: "none",
+  zIndex: 1,
+  selectors: {
+    "&:hover, &[data-resizing]": {
+      backgroundColor: `var(--szui-resize-handle-color, ${fallback.resizeHandleColor})`,
+    },
+  },
+});
+
+// Pinned columns stick to the table edges while scrolling horizontally.
+// They need an opaque background to cover the columns scrolling beneath.
+globalStyle(`${th}[data-pinned]`, {
+  position: "sticky",
+  zIndex: 2,
+  backgroundColor: `var(--szui-header-bg, ${fallback.headerBg})`,
+});
+
+globalStyle(`${td}[data-pinned]`, {
+  position: "sticky",
+  zIndex: 1,
+  backgroundColor: `var(--szui-color-bg, ${fallback.colorBg})`,
+});
+
+globalStyle(`${tr}:hover > ${td}[data-pinned]`, {
+  backgroundColor: `var(--szui-row-hover-bg, ${fallback.rowHoverBg})`,
+});
+
+globalStyle(`${tr}[data-selected] > ${td}[data-pinned]`, {
+  backgroundColor: `var(--szui-row-selected-bg, ${fallback.rowSelectedBg})`,
+});
+
+// Separator between pinned and scrolling columns
+globalStyle(`${table} [data-pinned="left"][data-pinned-edge]`, {
+  boxShadow: `inset -1px 0 0 var(--szui-border-color, ${fallback.borderColor})`,
+});
+
+globalStyle(`${table} [data-pinned="right"][data-pinned-edge]`, {
+  boxShadow: `inset 1px 0 0 var(--szui-border-color, ${fallback.borderColor})`,
+});
+
+// Truncate cell content that does not fit a fixed column width
+globalStyle(`${tableFixed} th, ${tableFixed} td`, {
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+});
+
+// Spacer cell that reserves the height of rows not mounted by VirtualBody
+export const virtualSpacer = style({
+  padding: 0,
+  border: "none",
+});
+
 // Remove bottom border from last row
 globalStyle(`${tr}:last-child ${td}`, {
   borderBottom: "none",
 });
 
+// =============================================================================
+// Group Row Styles
+// =============================================================================
+
+export const groupRow = style({
+  cursor: "pointer",
+  backgroundColor: `var(--szui-group-row-bg, ${fallback.headerBg})`,
+  fontWeight: "500",
+});
+
+export const groupLabel = style({
+  display: "inline-flex",
+  alignItems: "center",
+  gap: "6px",
+});
+
+export const groupToggle = style({
+  display: "inline-block",
+  width: "12px",
+  color: `var(--szui-header-color, ${fallback.headerColor})`,
+});
+
+export const groupCount = style({
+  color: `var(--szui-header-color, ${fallback.headerColor})`,
+  fontWeight: "400",
+});
+
+export const aggregateLabel = style({
+  marginRight: "4px",
+  fontSize: "11px",
+  fontWeight: "400",
+  textTransform: "uppercase",
+  color: `var(--szui-header-color, ${fallback.headerColor})`,
+});
+
+// =============================================================================
+// Footer Styles
+// =============================================================================
+
+export const tfoot = style({
+  backgroundColor: `var(--szui-footer-bg, ${fallback.headerBg})`,
+  fontWeight: "600",
+});
+
+export const tfootCell = style({
+  padding: `var(--szui-cell-padding-y, ${fallback.cellPaddingY}) var(--szui-cell-padding-x, ${fallback.cellPaddingX})`,
+  borderTop: `var(--szui-border-width, ${fallback.borderWidth}) solid var(--szui-border-color, ${fallback.borderColor})`,
+});
+
+globalStyle(`${tfootCell}[data-pinned]`, {
+  position: "sticky",
+  zIndex: 1,
+  backgroundColor: `var(--szui-footer-bg, ${fallback.headerBg})`,
+});
+
+// =============================================================================
+// Global Search Styles
+// =============================================================================
+
+export const searchMatch = style({
+  padding: 0,
+  color: "inherit",
+  backgroundColor: `var(--szui-search-match-bg, ${fallback.searchMatchBg})`,
+  borderRadius: "2px",
+});
+
+// =============================================================================
+// Tree Data Styles
+// =============================================================================
+
+export const treeCell = style({
+  display: "inline-flex",
+  alignItems: "center",
+  gap: "4px",
+});
+
+export const rowExpandToggle = style({
+  display: "inline-flex",
+  alignItems: "center",
+  justifyContent: "center",
+  flexShrink: 0,
+  width: "16px",
+  height: "16px",
+  padding: 0,
+  border: "none",
+  background: "none",
+  cursor: "pointer",
+  fontSize: "12px",
+  color: `var(--szui-header-color, ${fallback.headerColor})`,
+  selectors: {
+    "&:disabled": {
+      cursor: "default",
+    },
+  },
+});
+
+// =============================================================================
+// Cell Editor Styles
+// =============================================================================
+
+globalStyle(`${td}[data-editable]`, {
+  cursor: "text",
+});
+
+// Keep validation errors visible in fixed layout tables
+globalStyle(`${td}[data-editing]`, {
+  overflow: "visible",
+});
+
+export const cellEditor = style({
+  position: "relative",
+});
+
+export const cellEditorInput = style({
+  width: "100%",
+  boxSizing: "border-box",
+  padding: "2px 6px",
+  margin: "-3px 0",
+  font: "inherit",
+  color: "inherit",
+  backgroundColor: `var(--szui-color-bg, ${fallback.colorBg})`,
+  border: `1px solid var(--szui-focus-ring-color, ${fallback.focusRingColor})`,
+  borderRadius: "4px",
+  outline: "none",
+  selectors: {
+    '&[aria-invalid="true"]': {
+      borderColor: `var(--szui-error-color, ${fallback.errorColor})`,
+    },
+  },
+});
+
+export const cellEditorError = style({
+  position: "absolute",
+  top: "100%",
+  left: 0,
+  zIndex: 2,
+  marginTop: "4px",
+  padding: "2px 6px",
+  fontSize: "12px",
+  whiteSpace: "nowrap",
+  color: `var(--szui-color-bg, ${fallback.colorBg})`,
+  backgroundColor: `var(--szui-error-color, ${fallback.errorColor})`,
+  borderRadius: "4px",
+});
+
 // =============================================================================
 // Paginator Styles
 // =============================================================================
@@ -260,3 +574,10 @@ export const spinner = style({
 globalStyle(`${spinner} svg`, {
   animation: `${spinAnimation} 1s linear infinite`,
 });
+
+export const rowLoadingSpinner = style({
+  width: "12px",
+  height: "12px",
+  color: `var(--szui-spinner-color, #3b82f6)`,
+  animation: `${spinAnimation} 1s linear infinite`,
+});
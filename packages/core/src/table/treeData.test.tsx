@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { useSeizenTable } from "./useSeizenTable";
+import type {
+  SeizenTableColumn,
+  SeizenTableInstance,
+  UseSeizenTableOptions,
+} from "./useSeizenTable";
+import { SeizenTable } from "./SeizenTable";
+import { getNewlyExpandedRowIds } from "./treeData";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: string;
+  name: string;
+  hasChildren?: boolean;
+  children?: TestRow[];
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = [
+  {
+    id: "eng",
+    name: "Engineering",
+    children: [
+      { id: "alice", name: "Alice" },
+      {
+        id: "bob",
+        name: "Bob",
+        children: [{ id: "carol", name: "Carol" }],
+      },
+    ],
+  },
+  { id: "sales", name: "Sales", children: [{ id: "dave", name: "Dave" }] },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "name", header: "Name" },
+];
+
+function renderTable(
+  options: Partial<UseSeizenTableOptions<TestRow>> = {}
+): {
+  current: SeizenTableInstance<TestRow>;
+  rerender: (options: Partial<UseSeizenTableOptions<TestRow>>) => void;
+} {
+  const ref = {} as {
+    current: SeizenTableInstance<TestRow>;
+    rerender: (options: Partial<UseSeizenTableOptions<TestRow>>) => void;
+  };
+
+  function TestTable(props: Partial<UseSeizenTableOptions<TestRow>>) {
+    const table = useSeizenTable({
+      data,
+      columns,
+      getRowId: (row) => row.id,
+      getSubRows: (row) => row.children,
+      ...props,
+    });
+    ref.current = table;
+    return <SeizenTable table={table} paginate={{ enable: false }} />;
+  }
+
+  const { rerender } = render(<TestTable {...options} />);
+  ref.rerender = (next) => rerender(<TestTable {...next} />);
+  return ref;
+}
+
+function getRowIds(): string[] {
+  return Array.from(document.querySelectorAll("tbody tr")).map(
+    (tr) => tr.getAttribute("data-row-id") ?? ""
+  );
+}
+
+function getToggle(rowId: string): HTMLElement {
+  return document.querySelector(
+    `tr[data-row-id="${rowId}"] button[aria-expanded]`
+  ) as HTMLElement;
+}
+
+// =============================================================================
+// Tree Data Tests
+// =============================================================================
+
+describe("tree data", () => {
+  it("shows top-level rows collapsed", () => {
+    renderTable();
+
+    expect(getRowIds()).toEqual(["eng", "sales"]);
+    expect(getToggle("eng")).toHaveAttribute("aria-expanded", "false");
+  });
+
+  it("expands and collapses rows with the toggle", () => {
+    renderTable();
+
+    fireEvent.click(getToggle("eng"));
+    expect(getRowIds()).toEqual(["eng", "alice", "bob", "sales"]);
+    expect(getToggle("eng")).toHaveAttribute("aria-expanded", "true");
+
+    fireEvent.click(getToggle("bob"));
+    expect(getRowIds()).toEqual(["eng", "alice", "bob", "carol", "sales"]);
+
+    fireEvent.click(getToggle("eng"));
+    expect(getRowIds()).toEqual(["eng", "sales"]);
+  });
+
+  it("indents sub rows by depth and omits the toggle for leaf rows", () => {
+    renderTable();
+
+    fireEvent.click(getToggle("eng"));
+
+    const getIndent = (rowId: string) =>
+      (
+        document.querySelector(
+          `tr[data-row-id="${rowId}"] td span`
+        ) as HTMLElement
+      ).style.paddingLeft;
+    expect(getIndent("eng")).toBe("0px");
+    expect(getIndent("alice")).toBe("20px");
+    expect(getToggle("alice")).toBeNull();
+  });
+
+  it("emits row-expand instead of row-click when a row is expanded", () => {
+    const table = renderTable();
+    const expandListener = vi.fn();
+    const clickListener = vi.fn();
+    table.current.eventBus.subscribe("row-expand", expandListener);
+    table.current.eventBus.subscribe("row-click", clickListener);
+
+    fireEvent.click(getToggle("sales"));
+    fireEvent.click(getToggle("sales"));
+
+    expect(expandListener).toHaveBeenCalledTimes(1);
+    expect(expandListener).toHaveBeenCalledWith({
+      row: data[1],
+      rowId: "sales",
+    });
+    expect(clickListener).not.toHaveBeenCalled();
+  });
+
+  it("keeps ancestors of rows matching the filters", () => {
+    const table = renderTable();
+
+    act(() =>
+      table.current.setFilter([
+        { id: "name", value: { operator: "equals", value: "Carol" } },
+      ])
+    );
+    expect(getRowIds()).toEqual(["eng"]);
+
+    fireEvent.click(getToggle("eng"));
+    fireEvent.click(getToggle("bob"));
+    expect(getRowIds()).toEqual(["eng", "bob", "carol"]);
+  });
+
+  it("shows a loading indicator until children are loaded in Remote Mode", () => {
+    const remoteData: TestRow[] = [
+      { id: "eng", name: "Engineering", hasChildren: true },
+      { id: "sales", name: "Sales" },
+    ];
+    const options: Partial<UseSeizenTableOptions<TestRow>> = {
+      data: remoteData,
+      remote: true,
+      getRowCanExpand: (row) => row.hasChildren === true,
+    };
+    const table = renderTable(options);
+    const listener = vi.fn();
+    table.current.eventBus.subscribe("row-expand", listener);
+
+    expect(getToggle("sales")).toBeNull();
+    fireEvent.click(getToggle("eng"));
+
+    expect(listener).toHaveBeenCalledWith({ row: remoteData[0], rowId: "eng" });
+    expect(table.current.getIsRowLoading("eng")).toBe(true);
+    expect(
+      screen.getByRole("status", { name: "Loading" })
+    ).toBeInTheDocument();
+
+    table.rerender({
+      ...options,
+      data: [
+        { ...remoteData[0], children: [{ id: "alice", name: "Alice" }] },
+        remoteData[1],
+      ],
+    });
+
+    expect(table.current.getIsRowLoading("eng")).toBe(false);
+    expect(getRowIds()).toEqual(["eng", "alice", "sales"]);
+  });
+});
+
+describe("getNewlyExpandedRowIds", () => {
+  it("returns rows expanded in the next state only", () => {
+    expect(
+      getNewlyExpandedRowIds({ a: true }, { a: true, b: true, c: false })
+    ).toEqual(["b"]);
+    expect(getNewlyExpandedRowIds(true, { a: true })).toEqual([]);
+    expect(getNewlyExpandedRowIds({ a: true }, true)).toEqual([]);
+  });
+});
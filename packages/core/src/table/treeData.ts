@@ -0,0 +1,34 @@
+import type { ExpandedState, Row } from "@tanstack/react-table";
+import { SELECTION_COLUMN_ID } from "./selectionColumn";
+
+/**
+ * Width of one level of indentation of sub rows and nested groups, in pixels
+ */
+export const ROW_INDENT_WIDTH = 20;
+
+function isRowExpanded(expanded: ExpandedState, rowId: string): boolean {
+  return expanded === true || !!expanded[rowId];
+}
+
+/**
+ * IDs of rows that are expanded in `next` but were not in `prev`
+ */
+export function getNewlyExpandedRowIds(
+  prev: ExpandedState,
+  next: ExpandedState
+): string[] {
+  if (next === true) return [];
+  return Object.keys(next).filter(
+    (rowId) => next[rowId] && !isRowExpanded(prev, rowId)
+  );
+}
+
+/**
+ * ID of the column that shows the expand toggle and indentation of a row:
+ * the first visible column other than the selection column
+ */
+export function getTreeColumnId<TData>(row: Row<TData>): string | undefined {
+  return row
+    .getVisibleCells()
+    .find((cell) => cell.column.id !== SELECTION_COLUMN_ID)?.column.id;
+}
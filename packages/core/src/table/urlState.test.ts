@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeUrlState,
+  encodeUrlState,
+  getUrlStateSlice,
+  type SeizenTableUrlState,
+} from "./urlState";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const defaults: SeizenTableUrlState = {
+  columnFilters: [],
+  globalFilter: "",
+  sorting: [],
+  pagination: { pageIndex: 0, pageSize: 10 },
+  columnVisibility: {},
+  columnOrder: [],
+};
+
+function roundTrip(state: Partial<SeizenTableUrlState>, prefix?: string) {
+  const params = encodeUrlState(state, { prefix, defaults });
+  return decodeUrlState(new URLSearchParams(params.toString()), {
+    prefix,
+    defaults,
+  });
+}
+
+// =============================================================================
+// encodeUrlState
+// =============================================================================
+
+describe("encodeUrlState", () => {
+  it("returns no params when the state equals the defaults", () => {
+    expect(encodeUrlState(defaults, { defaults }).toString()).toBe("");
+  });
+
+  it("encodes each slice in a readable form", () => {
+    const params = encodeUrlState(
+      {
+        ...defaults,
+        globalFilter: "alice",
+        sorting: [
+          { id: "name", desc: false },
+          { id: "age", desc: true },
+        ],
+        pagination: { pageIndex: 2, pageSize: 50 },
+        columnVisibility: { email: false, name: true },
+        columnOrder: ["name", "age"],
+        columnFilters: [
+          { id: "status", value: { operator: "equals", value: "active" } },
+        ],
+      },
+      { defaults }
+    );
+
+    expect(params.get("v")).toBe("1");
+    expect(params.get("q")).toBe("alice");
+    expect(params.get("sort")).toBe("name,-age");
+    expect(params.get("page")).toBe("3");
+    expect(params.get("size")).toBe("50");
+    expect(params.get("hide")).toBe("email");
+    expect(params.get("order")).toBe("name,age");
+    expect(params.get("f.status")).toBe("equals:active");
+  });
+
+  it("prefixes all keys", () => {
+    const params = encodeUrlState(
+      { ...defaults, globalFilter: "alice" },
+      { prefix: "users.", defaults }
+    );
+    expect(Array.from(params.keys()).sort()).toEqual(["users.q", "users.v"]);
+  });
+});
+
+// =============================================================================
+// decodeUrlState
+// =============================================================================
+
+describe("decodeUrlState", () => {
+  it("returns null without a version", () => {
+    expect(
+      decodeUrlState(new URLSearchParams("sort=name"), { defaults })
+    ).toBeNull();
+  });
+
+  it("returns null for an unsupported version", () => {
+    expect(
+      decodeUrlState(new URLSearchParams("v=99&sort=name"), { defaults })
+    ).toBeNull();
+  });
+
+  it("fills missing slices from the defaults", () => {
+    expect(
+      decodeUrlState(new URLSearchParams("v=1&sort=-age"), { defaults })
+    ).toEqual({ ...defaults, sorting: [{ id: "age", desc: true }] });
+  });
+
+  it("ignores invalid page numbers", () => {
+    const state = decodeUrlState(new URLSearchParams("v=1&page=0&size=abc"), {
+      defaults,
+    });
+    expect(state?.pagination).toEqual(defaults.pagination);
+  });
+
+  it("round-trips operator filter values of any type", () => {
+    const columnFilters = [
+      { id: "name", value: { operator: "contains", value: "a:b" } },
+      { id: "age", value: { operator: "gt", value: 30 } },
+      { id: "score", value: { operator: "between", value: [1, 5] } },
+      { id: "active", value: { operator: "is_true", value: "" } },
+    ];
+    expect(roundTrip({ ...defaults, columnFilters })?.columnFilters).toEqual(
+      columnFilters
+    );
+  });
+
+  it("round-trips raw filter values", () => {
+    const columnFilters = [
+      { id: "name", value: "alice" },
+      { id: "tags", value: ["a", "b"] },
+    ];
+    expect(roundTrip({ ...defaults, columnFilters })?.columnFilters).toEqual(
+      columnFilters
+    );
+  });
+
+  it("escapes string values that look like encoded JSON", () => {
+    const columnFilters = [
+      { id: "name", value: { operator: "equals", value: "~[1]" } },
+    ];
+    expect(roundTrip({ ...defaults, columnFilters })?.columnFilters).toEqual(
+      columnFilters
+    );
+  });
+
+  it("round-trips column IDs containing list separators", () => {
+    const state = {
+      ...defaults,
+      sorting: [
+        { id: "a,b", desc: true },
+        { id: "-c", desc: false },
+      ],
+      columnVisibility: { "50%": false },
+      columnOrder: ["a,b", "-c", "50%"],
+    };
+
+    const params = encodeUrlState(state, { defaults });
+    expect(params.get("sort")).toBe("-a%2Cb,%2Dc");
+    expect(roundTrip(state)).toEqual(state);
+  });
+
+  it("skips malformed filter params", () => {
+    const state = decodeUrlState(
+      new URLSearchParams("v=1&f.a=nocolon&f.b=equals:~{broken"),
+      { defaults }
+    );
+    expect(state?.columnFilters).toEqual([]);
+  });
+
+  it("round-trips state that differs from non-empty defaults", () => {
+    const initial: SeizenTableUrlState = {
+      columnFilters: [
+        { id: "status", value: { operator: "equals", value: "active" } },
+      ],
+      globalFilter: "alice",
+      sorting: [{ id: "name", desc: false }],
+      pagination: { pageIndex: 0, pageSize: 10 },
+      columnVisibility: { email: false },
+      columnOrder: ["name", "email"],
+    };
+    const cleared: SeizenTableUrlState = {
+      columnFilters: [],
+      globalFilter: "",
+      sorting: [],
+      pagination: { pageIndex: 0, pageSize: 10 },
+      columnVisibility: { email: true },
+      columnOrder: [],
+    };
+
+    const params = encodeUrlState(cleared, { defaults: initial });
+    expect(params.toString()).toBe("q=&sort=&hide=&order=&f=&v=1");
+    expect(
+      decodeUrlState(new URLSearchParams(params.toString()), {
+        defaults: initial,
+      })
+    ).toEqual({ ...cleared, columnVisibility: {} });
+    expect(encodeUrlState(initial, { defaults: initial }).toString()).toBe("");
+  });
+
+  it("only reads keys with the given prefix", () => {
+    const state = decodeUrlState(
+      new URLSearchParams("v=1&q=other&users.v=1&users.q=alice"),
+      { prefix: "users.", defaults }
+    );
+    expect(state?.globalFilter).toBe("alice");
+  });
+});
+
+// =============================================================================
+// getUrlStateSlice
+// =============================================================================
+
+describe("getUrlStateSlice", () => {
+  it("resolves managed keys to their slice", () => {
+    expect(getUrlStateSlice("v")).toBe("version");
+    expect(getUrlStateSlice("sort")).toBe("sorting");
+    expect(getUrlStateSlice("size")).toBe("pagination");
+    expect(getUrlStateSlice("f.name")).toBe("columnFilters");
+    expect(getUrlStateSlice("f")).toBe("columnFilters");
+    expect(getUrlStateSlice("users.sort", "users.")).toBe("sorting");
+  });
+
+  it("returns null for unrelated keys", () => {
+    expect(getUrlStateSlice("tab")).toBeNull();
+    expect(getUrlStateSlice("sort", "users.")).toBeNull();
+  });
+});
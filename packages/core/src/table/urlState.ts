@@ -0,0 +1,356 @@
+/**
+ * Query string encoding for SeizenTable state.
+ *
+ * Encoding (version 1), with an optional key prefix:
+ * - `v=1`                      Encoding version (present whenever state is encoded)
+ * - `q=<text>`                 Global filter
+ * - `sort=name,-age`           Sorting (`-` prefix = descending), in priority order
+ * - `page=2`                   Page number (1-based)
+ * - `size=50`                  Page size
+ * - `hide=email,phone`         Hidden columns
+ * - `order=name,age,email`     Column order
+ * - Column IDs in `sort`, `hide` and `order` have `%`, `,` and a leading `-`
+ *   percent-encoded, e.g. `a%2Cb` for the column `a,b`
+ * - `f.<columnId>=<op>:<value>` Column filter. `op` is empty for raw (non-operator) values.
+ *   String values are written as-is; other values are JSON encoded behind a `~` marker
+ *   (a string value starting with `~` is escaped as `~~`).
+ * - `f=`                       No column filters
+ *
+ * Slices equal to the defaults are omitted. A slice that is empty but differs
+ * from the defaults is written with an empty value (e.g. `sort=`), so that it
+ * is not restored to the defaults when decoded.
+ */
+
+import type {
+  ColumnFiltersState,
+  ColumnOrderState,
+  PaginationState,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Current version of the URL encoding
+ */
+export const URL_STATE_VERSION = 1;
+
+/**
+ * State slices that can be synchronized with the URL
+ */
+export type UrlStateKey =
+  | "columnFilters"
+  | "globalFilter"
+  | "sorting"
+  | "pagination"
+  | "columnVisibility"
+  | "columnOrder";
+
+/**
+ * Table state as stored in the URL
+ */
+export interface SeizenTableUrlState {
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  sorting: SortingState;
+  pagination: PaginationState;
+  columnVisibility: VisibilityState;
+  columnOrder: ColumnOrderState;
+}
+
+export interface UrlStateCodecOptions {
+  /** Prefix for all query parameter keys (e.g. "users." for multiple tables on a page) */
+  prefix?: string;
+  /** Default state. Values equal to the defaults are omitted from the URL. */
+  defaults: SeizenTableUrlState;
+}
+
+/**
+ * Adapter for reading and writing the URL query string.
+ * Use this to integrate with a router instead of the History API.
+ */
+export interface UrlStateAdapter {
+  /** Read the current query string (with or without leading "?") */
+  read: () => string;
+  /** Write a new query string (without leading "?") */
+  write: (search: string, options: { replace: boolean }) => void;
+  /** Subscribe to external URL changes (e.g. back/forward navigation) */
+  subscribe?: (callback: () => void) => () => void;
+}
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+/**
+ * Default adapter backed by `window.location` and the History API
+ */
+export const historyUrlAdapter: UrlStateAdapter = {
+  read: () => window.location.search,
+  write: (search, { replace }) => {
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}${
+      window.location.hash
+    }`;
+    if (replace) {
+      window.history.replaceState(window.history.state, "", url);
+    } else {
+      window.history.pushState(window.history.state, "", url);
+    }
+  },
+  subscribe: (callback) => {
+    window.addEventListener("popstate", callback);
+    return () => window.removeEventListener("popstate", callback);
+  },
+};
+
+// =============================================================================
+// Value Encoding
+// =============================================================================
+
+const JSON_MARKER = "~";
+
+function encodeValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value.startsWith(JSON_MARKER) ? `${JSON_MARKER}${value}` : value;
+  }
+  return `${JSON_MARKER}${JSON.stringify(value)}`;
+}
+
+function decodeValue(encoded: string): unknown {
+  if (!encoded.startsWith(JSON_MARKER)) {
+    return encoded;
+  }
+  const rest = encoded.slice(JSON_MARKER.length);
+  if (rest.startsWith(JSON_MARKER)) {
+    return rest;
+  }
+  try {
+    return JSON.parse(rest);
+  } catch {
+    return undefined;
+  }
+}
+
+function isOperatorFilterValue(
+  value: unknown
+): value is { operator: string; value: unknown } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "operator" in value &&
+    "value" in value
+  );
+}
+
+function encodeListItem(columnId: string): string {
+  return columnId
+    .replace(/[%,]/g, (char) => encodeURIComponent(char))
+    .replace(/^-/, "%2D");
+}
+
+function decodeListItem(item: string): string {
+  try {
+    return decodeURIComponent(item);
+  } catch {
+    return item;
+  }
+}
+
+function joinList(columnIds: string[]): string {
+  return columnIds.map(encodeListItem).join(",");
+}
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(",").filter((item) => item !== "") : [];
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getHiddenColumns(visibility: VisibilityState): string[] {
+  return Object.entries(visibility)
+    .filter(([, visible]) => visible === false)
+    .map(([columnId]) => columnId)
+    .sort();
+}
+
+// =============================================================================
+// Encode / Decode
+// =============================================================================
+
+const SLICE_PARAM_NAMES: Record<string, UrlStateKey> = {
+  q: "globalFilter",
+  sort: "sorting",
+  page: "pagination",
+  size: "pagination",
+  hide: "columnVisibility",
+  order: "columnOrder",
+  f: "columnFilters",
+};
+
+/**
+ * Resolve the state slice a query parameter key belongs to.
+ * Returns "version" for the version key and null for unrelated keys.
+ */
+export function getUrlStateSlice(
+  key: string,
+  prefix = ""
+): UrlStateKey | "version" | null {
+  if (!key.startsWith(prefix)) return null;
+  const name = key.slice(prefix.length);
+  if (name === "v") return "version";
+  if (name.startsWith("f.")) return "columnFilters";
+  return SLICE_PARAM_NAMES[name] ?? null;
+}
+
+/**
+ * Encode table state into query parameters.
+ * Slices equal to the defaults are omitted; returns no parameters at all
+ * when the whole state equals the defaults.
+ */
+export function encodeUrlState(
+  state: Partial<SeizenTableUrlState>,
+  { prefix = "", defaults }: UrlStateCodecOptions
+): URLSearchParams {
+  const params = new URLSearchParams();
+  const key = (name: string) => `${prefix}${name}`;
+
+  if (
+    state.globalFilter !== undefined &&
+    state.globalFilter !== defaults.globalFilter
+  ) {
+    params.set(key("q"), state.globalFilter);
+  }
+
+  if (state.sorting && !isSameValue(state.sorting, defaults.sorting)) {
+    params.set(
+      key("sort"),
+      state.sorting
+        .map((s) => `${s.desc ? "-" : ""}${encodeListItem(s.id)}`)
+        .join(",")
+    );
+  }
+
+  if (state.pagination) {
+    if (state.pagination.pageIndex !== defaults.pagination.pageIndex) {
+      params.set(key("page"), String(state.pagination.pageIndex + 1));
+    }
+    if (state.pagination.pageSize !== defaults.pagination.pageSize) {
+      params.set(key("size"), String(state.pagination.pageSize));
+    }
+  }
+
+  if (state.columnVisibility) {
+    const hidden = getHiddenColumns(state.columnVisibility);
+    if (!isSameValue(hidden, getHiddenColumns(defaults.columnVisibility))) {
+      params.set(key("hide"), joinList(hidden));
+    }
+  }
+
+  if (
+    state.columnOrder &&
+    !isSameValue(state.columnOrder, defaults.columnOrder)
+  ) {
+    params.set(key("order"), joinList(state.columnOrder));
+  }
+
+  if (
+    state.columnFilters &&
+    !isSameValue(state.columnFilters, defaults.columnFilters)
+  ) {
+    if (state.columnFilters.length === 0) {
+      params.set(key("f"), "");
+    }
+    for (const filter of state.columnFilters) {
+      const encoded = isOperatorFilterValue(filter.value)
+        ? `${filter.value.operator}:${encodeValue(filter.value.value)}`
+        : `:${encodeValue(filter.value)}`;
+      params.set(key(`f.${filter.id}`), encoded);
+    }
+  }
+
+  if (Array.from(params.keys()).length > 0) {
+    params.set(key("v"), String(URL_STATE_VERSION));
+  }
+
+  return params;
+}
+
+/**
+ * Decode table state from query parameters.
+ * Returns null when the parameters contain no state or an unsupported version.
+ * Slices missing from the parameters are filled in from the defaults.
+ */
+export function decodeUrlState(
+  params: URLSearchParams,
+  { prefix = "", defaults }: UrlStateCodecOptions
+): SeizenTableUrlState | null {
+  const key = (name: string) => `${prefix}${name}`;
+
+  const version = params.get(key("v"));
+  if (version === null || Number(version) !== URL_STATE_VERSION) {
+    return null;
+  }
+
+  const sorting: SortingState = params.has(key("sort"))
+    ? splitList(params.get(key("sort"))).map((item) =>
+        item.startsWith("-")
+          ? { id: decodeListItem(item.slice(1)), desc: true }
+          : { id: decodeListItem(item), desc: false }
+      )
+    : defaults.sorting;
+
+  const page = Number(params.get(key("page")));
+  const size = Number(params.get(key("size")));
+  const pagination: PaginationState = {
+    pageIndex:
+      Number.isInteger(page) && page >= 1
+        ? page - 1
+        : defaults.pagination.pageIndex,
+    pageSize:
+      Number.isInteger(size) && size >= 1 ? size : defaults.pagination.pageSize,
+  };
+
+  let columnVisibility: VisibilityState = defaults.columnVisibility;
+  if (params.has(key("hide"))) {
+    columnVisibility = {};
+    for (const item of splitList(params.get(key("hide")))) {
+      columnVisibility[decodeListItem(item)] = false;
+    }
+  }
+
+  const columnFilters: ColumnFiltersState = [];
+  let hasFilterParams = params.has(key("f"));
+  const filterPrefix = key("f.");
+  params.forEach((encoded, paramKey) => {
+    if (!paramKey.startsWith(filterPrefix)) return;
+    const columnId = paramKey.slice(filterPrefix.length);
+    const separatorIndex = encoded.indexOf(":");
+    if (!columnId || separatorIndex === -1) return;
+    hasFilterParams = true;
+
+    const operator = encoded.slice(0, separatorIndex);
+    const value = decodeValue(encoded.slice(separatorIndex + 1));
+    if (value === undefined) return;
+
+    columnFilters.push({
+      id: columnId,
+      value: operator ? { operator, value } : value,
+    });
+  });
+
+  return {
+    columnFilters: hasFilterParams ? columnFilters : defaults.columnFilters,
+    globalFilter: params.get(key("q")) ?? defaults.globalFilter,
+    sorting,
+    pagination,
+    columnVisibility,
+    columnOrder: params.has(key("order"))
+      ? splitList(params.get(key("order"))).map(decodeListItem)
+      : defaults.columnOrder,
+  };
+}
@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ALL_PERSISTED_STATE_KEYS,
+  PERSIST_KEY_PREFIX,
+  deserializePersistedState,
+  getColumnIds,
+  localStorageAdapter,
+  pickPersistedState,
+  serializePersistedState,
+  type PersistOptions,
+  type PersistedTableState,
+} from "./persistence";
+import type { SeizenTableColumn } from "./useSeizenTable";
+import {
+  DEFAULT_TABLE_STATE,
+  type SeizenTableState,
+  type SeizenTableStateSetters,
+} from "./useSeizenTableState";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of reading persisted state on mount
+ */
+export interface PersistedHydration {
+  /** State read synchronously from the storage */
+  persisted: PersistedTableState | null;
+  /** Pending read from an async storage */
+  pending: Promise<string | null> | null;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isPromiseLike<T>(value: unknown): value is Promise<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Promise<T>).then === "function"
+  );
+}
+
+function toPersistedState(state: SeizenTableState): PersistedTableState {
+  return {
+    columnVisibility: state.columnVisibility,
+    columnOrder: state.columnOrder,
+    columnSizing: state.columnSizing,
+    sorting: state.sorting,
+    pageSize: state.pagination.pageSize,
+    columnFilters: state.columnFilters,
+  };
+}
+
+function readPersistedState<TData>(
+  raw: string | null,
+  persist: PersistOptions,
+  columns: SeizenTableColumn<TData>[]
+): PersistedTableState | null {
+  const persisted = deserializePersistedState(raw, {
+    version: persist.version,
+    migrate: persist.migrate,
+    columnIds: getColumnIds(columns),
+  });
+  return persisted
+    ? pickPersistedState(
+        persisted,
+        persist.include ?? ALL_PERSISTED_STATE_KEYS
+      )
+    : null;
+}
+
+/**
+ * Overlay persisted state onto table state
+ */
+export function mergePersistedState(
+  state: Partial<SeizenTableState>,
+  persisted: PersistedTableState | null
+): Partial<SeizenTableState> {
+  if (!persisted) return state;
+  const { pageSize, ...rest } = persisted;
+  return {
+    ...state,
+    ...rest,
+    ...(pageSize !== undefined
+      ? {
+          pagination: {
+            ...(state.pagination ?? DEFAULT_TABLE_STATE.pagination),
+            pageSize,
+          },
+        }
+      : {}),
+  };
+}
+
+// =============================================================================
+// Hooks
+// =============================================================================
+
+/**
+ * Internal hook to read persisted state once on mount.
+ * Used by useSeizenTable to seed the initial state.
+ *
+ * @internal
+ */
+export function usePersistedHydration<TData>(
+  persist: PersistOptions | undefined,
+  columns: SeizenTableColumn<TData>[]
+): PersistedHydration {
+  const [hydration] = useState<PersistedHydration>(() => {
+    if (!persist) return { persisted: null, pending: null };
+
+    const storage = persist.storage ?? localStorageAdapter;
+    const raw = storage.getItem(`${PERSIST_KEY_PREFIX}${persist.id}`);
+    if (isPromiseLike<string | null>(raw)) {
+      return { persisted: null, pending: raw };
+    }
+    return {
+      persisted: readPersistedState(raw, persist, columns),
+      pending: null,
+    };
+  });
+  return hydration;
+}
+
+/**
+ * Internal hook to apply state from async storages and to save state changes.
+ * Saving starts once the stored state has been read, so that the stored
+ * state is never overwritten by the defaults.
+ *
+ * @internal
+ */
+export function usePersistTableState<TData>(
+  persist: PersistOptions | undefined,
+  hydration: PersistedHydration,
+  columns: SeizenTableColumn<TData>[],
+  state: SeizenTableState,
+  setters: SeizenTableStateSetters
+): void {
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+  const columnsRef = useRef(columns);
+  columnsRef.current = columns;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const settersRef = useRef(setters);
+  settersRef.current = setters;
+
+  const hydratedRef = useRef(hydration.pending === null);
+  // Last saved (or loaded) state, as JSON of the persisted slices
+  const lastSavedRef = useRef<string | null>(null);
+
+  // Apply state read from an async storage
+  useEffect(() => {
+    if (!hydration.pending) return;
+    let cancelled = false;
+
+    const finish = (persisted: PersistedTableState | null) => {
+      if (cancelled) return;
+      const current = persistRef.current;
+      const include = current?.include ?? ALL_PERSISTED_STATE_KEYS;
+      const setters = settersRef.current;
+
+      if (persisted) {
+        const {
+          columnVisibility,
+          columnOrder,
+          columnSizing,
+          sorting,
+          pageSize,
+          columnFilters,
+        } = persisted;
+        if (columnVisibility) setters.setColumnVisibility(columnVisibility);
+        if (columnOrder) setters.setColumnOrder(columnOrder);
+        if (columnSizing) setters.setColumnSizing(columnSizing);
+        if (sorting) setters.setSorting(sorting);
+        if (columnFilters) setters.setColumnFilters(columnFilters);
+        if (pageSize !== undefined) {
+          setters.setPagination((prev) => ({ ...prev, pageSize }));
+        }
+      }
+
+      lastSavedRef.current = JSON.stringify(
+        pickPersistedState(
+          { ...toPersistedState(stateRef.current), ...persisted },
+          include
+        )
+      );
+      hydratedRef.current = true;
+    };
+
+    hydration.pending.then(
+      (raw) => {
+        const current = persistRef.current;
+        finish(
+          current ? readPersistedState(raw, current, columnsRef.current) : null
+        );
+      },
+      () => finish(null)
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hydration]);
+
+  const persistedJson = persist
+    ? JSON.stringify(
+        pickPersistedState(
+          toPersistedState(state),
+          persist.include ?? ALL_PERSISTED_STATE_KEYS
+        )
+      )
+    : null;
+
+  // Save state changes
+  useEffect(() => {
+    const current = persistRef.current;
+    if (!current || persistedJson === null || !hydratedRef.current) return;
+
+    // The state on mount equals the stored state (or the defaults)
+    if (lastSavedRef.current === null) {
+      lastSavedRef.current = persistedJson;
+      return;
+    }
+    if (persistedJson === lastSavedRef.current) return;
+    lastSavedRef.current = persistedJson;
+
+    const storage = current.storage ?? localStorageAdapter;
+    const result = storage.setItem(
+      `${PERSIST_KEY_PREFIX}${current.id}`,
+      serializePersistedState(JSON.parse(persistedJson), current.version ?? 1)
+    );
+    if (isPromiseLike<void>(result)) {
+      result.catch(() => {
+        // Persistence is best-effort
+      });
+    }
+  }, [persistedJson]);
+}
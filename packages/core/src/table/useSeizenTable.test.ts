@@ -170,6 +170,177 @@ describe("useSeizenTable", () => {
     });
   });
 
+  // ===========================================================================
+  // Row Identity Tests
+  // ===========================================================================
+
+  describe("getRowId", () => {
+    const getRowId = (row: TestRow) => String(row.id);
+
+    it("should key selection state by row ID", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, getRowId })
+      );
+
+      act(() => {
+        result.current.setSelectedRows([data[1], data[3]]);
+      });
+
+      expect(
+        result.current._tanstackTable.getState().rowSelection
+      ).toEqual({ "2": true, "4": true });
+    });
+
+    it("should respect initialSelection keyed by row ID", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          getRowId,
+          initialSelection: { "3": true },
+        })
+      );
+
+      expect(result.current.getSelectedRows()).toEqual([data[2]]);
+    });
+
+    it("should keep selection when data is refetched with new objects", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result, rerender } = renderHook(
+        ({ data }) => useSeizenTable({ data, columns, getRowId }),
+        { initialProps: { data } }
+      );
+
+      act(() => {
+        result.current.setSelectedRows([data[0]]);
+      });
+
+      // Refetched data: new identities, different order
+      const refetched = createTestData().reverse();
+      rerender({ data: refetched });
+
+      expect(result.current.getSelectedRows()).toEqual([refetched[4]]);
+      expect(result.current.getSelectedRows()[0]).toBe(refetched[4]);
+    });
+
+    it("should select rows by ID even when passed new object identities", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, getRowId })
+      );
+
+      act(() => {
+        result.current.setSelectedRows([{ ...data[2] }]);
+      });
+
+      expect(result.current.getSelectedRows()).toEqual([data[2]]);
+    });
+
+    it("should keep selection stable when sorting", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, getRowId })
+      );
+
+      act(() => {
+        result.current.setSelectedRows([data[0]]);
+      });
+      act(() => {
+        result.current.setSorting([{ id: "age", desc: true }]);
+      });
+
+      expect(result.current.getSelectedRows()).toEqual([data[0]]);
+    });
+
+    it("should resolve selected rows from other pages in Remote Mode", () => {
+      const allData = createTestData();
+      const columns = createTestColumns();
+      const page1 = allData.slice(0, 2);
+      const page2 = allData.slice(2, 4);
+
+      const { result, rerender } = renderHook(
+        ({ data }) =>
+          useSeizenTable({
+            data,
+            columns,
+            getRowId,
+            remote: { totalRowCount: allData.length },
+          }),
+        { initialProps: { data: page1 } }
+      );
+
+      act(() => {
+        result.current.setSelectedRows([page1[1]]);
+      });
+
+      // Navigate to the next page and select a row there as well
+      rerender({ data: page2 });
+      act(() => {
+        result.current._tanstackTable.getRow("3").toggleSelected(true);
+      });
+
+      const selectedRows = result.current.getSelectedRows();
+      expect(selectedRows).toHaveLength(2);
+      expect(selectedRows).toContainEqual(page2[0]);
+      expect(selectedRows).toContainEqual(page1[1]);
+    });
+
+    it("should forget deselected rows from other pages", () => {
+      const allData = createTestData();
+      const columns = createTestColumns();
+
+      const { result, rerender } = renderHook(
+        ({ data }) =>
+          useSeizenTable({
+            data,
+            columns,
+            getRowId,
+            remote: { totalRowCount: allData.length },
+          }),
+        { initialProps: { data: allData.slice(0, 2) } }
+      );
+
+      act(() => {
+        result.current.setSelectedRows([allData[1]]);
+      });
+      rerender({ data: allData.slice(2, 4) });
+      act(() => {
+        result.current.clearSelection();
+      });
+
+      // The row's data is unknown once it was deselected on another page
+      act(() => {
+        result.current._tanstackTable.setRowSelection({ "2": true });
+      });
+      expect(result.current.getSelectedRows()).toEqual([]);
+    });
+
+    it("should return the same selected rows array until selection changes", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result, rerender } = renderHook(() =>
+        useSeizenTable({ data, columns, getRowId })
+      );
+
+      const before = result.current.getSelectedRows();
+      rerender();
+      expect(result.current.getSelectedRows()).toBe(before);
+    });
+  });
+
   // ===========================================================================
   // Filtering Tests
   // ===========================================================================
@@ -220,6 +391,215 @@ describe("useSeizenTable", () => {
 
       expect(result.current.getGlobalFilter()).toBe("search term");
     });
+
+    it("filters by the filter type of the column", () => {
+      const data = createTestData();
+      const columns: SeizenTableColumn<TestRow>[] = [
+        ...createTestColumns(),
+        {
+          id: "joinedAt",
+          accessorFn: (row) => new Date(2024, 0, row.id * 5, 18),
+          meta: { filterType: "date" },
+        },
+      ];
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      act(() => {
+        result.current.setFilter([
+          {
+            id: "joinedAt",
+            value: { operator: "between", value: ["2024-01-10", "2024-01-20"] },
+          },
+        ]);
+      });
+
+      const ids = result.current._tanstackTable
+        .getRowModel()
+        .rows.map((row) => row.original.id);
+      expect(ids).toEqual([2, 3, 4]);
+    });
+  });
+
+  // ===========================================================================
+  // Faceting Tests
+  // ===========================================================================
+
+  describe("faceting", () => {
+    it("counts the distinct values of a column", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      expect(result.current.getColumnFacets("status")).toEqual({
+        values: [
+          { value: "active", count: 3 },
+          { value: "inactive", count: 1 },
+          { value: "pending", count: 1 },
+        ],
+      });
+    });
+
+    it("returns the range of numbers", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      expect(result.current.getColumnFacets("age")).toMatchObject({
+        min: 25,
+        max: 35,
+      });
+    });
+
+    it("counts rows matching the filters of other columns only", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      act(() => {
+        result.current.setFilter([
+          { id: "status", value: { operator: "is", value: "active" } },
+          { id: "age", value: { operator: "gt", value: "30" } },
+        ]);
+      });
+
+      expect(result.current.getColumnFacets("status")?.values).toEqual([
+        { value: "active", count: 2 },
+      ]);
+      expect(result.current.getColumnFacets("age")).toMatchObject({
+        min: 30,
+        max: 35,
+      });
+    });
+
+    it("uses facets provided by getColumnFacets", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const facets = { values: [{ value: "active", count: 120 }] };
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          getColumnFacets: (columnId) =>
+            columnId === "status" ? facets : undefined,
+        })
+      );
+
+      expect(result.current.getColumnFacets("status")).toBe(facets);
+      expect(result.current.getColumnFacets("name")?.values).toHaveLength(5);
+    });
+  });
+
+  // ===========================================================================
+  // Export Tests
+  // ===========================================================================
+
+  describe("export data", () => {
+    it("resolves values with accessors and exportValue", () => {
+      const data = [
+        { id: 1, name: "Alice", address: { city: "Tokyo" } },
+        { id: 2, name: "Bob", address: { city: "Osaka" } },
+      ];
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns: [
+            {
+              accessorKey: "name",
+              header: "Name",
+              meta: { exportValue: (value) => String(value).toUpperCase() },
+            },
+            { accessorKey: "address.city", header: "City" },
+            { id: "label", accessorFn: (row) => `#${row.id} ${row.name}` },
+            { id: "actions", header: "Actions", cell: () => "Edit" },
+          ],
+        })
+      );
+
+      expect(result.current.getExportData()).toEqual({
+        columns: [
+          { id: "name", header: "Name" },
+          { id: "address_city", header: "City" },
+          { id: "label", header: "label" },
+        ],
+        rows: [
+          { name: "ALICE", address_city: "Tokyo", label: "#1 Alice" },
+          { name: "BOB", address_city: "Osaka", label: "#2 Bob" },
+        ],
+        rowCount: 2,
+      });
+    });
+
+    it("exports the filtered and sorted rows of visible columns in order", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      act(() => {
+        result.current.setFilter([
+          { id: "status", value: { operator: "is", value: "active" } },
+        ]);
+        result.current.setSorting([{ id: "age", desc: true }]);
+        result.current.setColumnVisibility({ id: false });
+        result.current.setColumnOrder(["status", "name", "age"]);
+      });
+
+      const exportData = result.current.getExportData({ maxRows: 2 });
+      expect(exportData.columns.map((column) => column.id)).toEqual([
+        "status",
+        "name",
+        "age",
+      ]);
+      expect(exportData.rows.map((row) => row.name)).toEqual([
+        "Charlie",
+        "Eve",
+      ]);
+      expect(exportData.rowCount).toBe(3);
+    });
+
+    it("formats the totals of exported columns as in the footer", () => {
+      const data = [
+        { name: "Alice", salary: 1000.125 },
+        { name: "Bob", salary: 2000 },
+      ];
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns: [
+            {
+              accessorKey: "name",
+              header: "Name",
+              meta: { aggregate: "count" },
+            },
+            {
+              accessorKey: "salary",
+              header: "Salary",
+              meta: {
+                aggregate: "sum",
+                format: (value) => `$${Number(value).toFixed(2)}`,
+              },
+            },
+          ],
+        })
+      );
+
+      expect(result.current.getExportData().totals).toEqual({
+        name: "2",
+        salary: "$3000.13",
+      });
+
+      act(() => {
+        result.current.setColumnVisibility({ name: false, salary: false });
+      });
+      expect(result.current.getExportData().totals).toBeUndefined();
+    });
   });
 
   // ===========================================================================
@@ -547,95 +927,251 @@ describe("useSeizenTable", () => {
   });
 
   // ===========================================================================
-  // Plugin Control Tests
+  // Column Sizing Tests
   // ===========================================================================
 
-  describe("plugin control", () => {
-    it("should have plugin control interface", () => {
+  describe("column sizing", () => {
+    it("should have empty column sizing initially", () => {
       const data = createTestData();
       const columns = createTestColumns();
 
       const { result } = renderHook(() => useSeizenTable({ data, columns }));
 
-      expect(result.current.plugin).toBeDefined();
-      expect(result.current.plugin.open).toBeDefined();
-      expect(result.current.plugin.close).toBeDefined();
-      expect(result.current.plugin.isOpen).toBeDefined();
-      expect(result.current.plugin.getActiveId).toBeDefined();
+      expect(result.current.getColumnSizing()).toEqual({});
     });
 
-    it("should have no active plugin initially", () => {
+    it("should set column sizing", () => {
       const data = createTestData();
       const columns = createTestColumns();
 
       const { result } = renderHook(() => useSeizenTable({ data, columns }));
 
-      expect(result.current.plugin.getActiveId()).toBeNull();
-    });
-  });
+      act(() => {
+        result.current.setColumnSizing({ name: 240 });
+      });
 
-  // ===========================================================================
-  // Event Bus Tests
-  // ===========================================================================
+      expect(result.current.getColumnSizing()).toEqual({ name: 240 });
+      expect(
+        result.current._tanstackTable.getColumn("name")?.getSize()
+      ).toBe(240);
+    });
 
-  describe("event bus", () => {
-    it("should have event bus interface", () => {
+    it("should not allow resizing by default", () => {
       const data = createTestData();
       const columns = createTestColumns();
 
       const { result } = renderHook(() => useSeizenTable({ data, columns }));
 
-      expect(result.current.eventBus).toBeDefined();
-      expect(result.current.eventBus.emit).toBeDefined();
-      expect(result.current.eventBus.subscribe).toBeDefined();
+      expect(
+        result.current._tanstackTable.getColumn("name")?.getCanResize()
+      ).toBe(false);
     });
 
-    it("should allow subscribing to custom events", () => {
+    it("should enable resizing with enableColumnResizing: true", () => {
       const data = createTestData();
       const columns = createTestColumns();
-      const callback = vi.fn();
 
-      const { result } = renderHook(() => useSeizenTable({ data, columns }));
-
-      result.current.eventBus.subscribe("custom-event", callback);
-
-      act(() => {
-        result.current.eventBus.emit("custom-event", { data: "test" });
-      });
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, enableColumnResizing: true })
+      );
 
-      expect(callback).toHaveBeenCalledWith({ data: "test" });
+      expect(
+        result.current._tanstackTable.getColumn("name")?.getCanResize()
+      ).toBe(true);
     });
   });
 
   // ===========================================================================
-  // TanStack Table Instance Tests
+  // Column Pinning Tests
   // ===========================================================================
 
-  describe("TanStack Table instance", () => {
-    it("should expose underlying TanStack Table instance", () => {
+  describe("column pinning", () => {
+    it("should have no pinned columns initially", () => {
       const data = createTestData();
       const columns = createTestColumns();
 
       const { result } = renderHook(() => useSeizenTable({ data, columns }));
 
-      expect(result.current._tanstackTable).toBeDefined();
-      expect(result.current._tanstackTable.getRowModel).toBeDefined();
+      expect(result.current.getColumnPinning()).toEqual({
+        left: [],
+        right: [],
+      });
     });
-  });
-
-  // ===========================================================================
-  // Multi-Select Tests
-  // ===========================================================================
 
-  describe("multi-select", () => {
-    it("should enable multi-select by default", () => {
+    it("should pin columns to the left and right", () => {
       const data = createTestData();
       const columns = createTestColumns();
 
       const { result } = renderHook(() => useSeizenTable({ data, columns }));
 
       act(() => {
-        result.current.setSelectedRows([data[0], data[1], data[2]]);
+        result.current.pinColumn("name", "left");
+        result.current.pinColumn("id", "left");
+        result.current.pinColumn("status", "right");
+      });
+
+      expect(result.current.getColumnPinning()).toEqual({
+        left: ["name", "id"],
+        right: ["status"],
+      });
+      expect(
+        result.current._tanstackTable.getColumn("status")?.getIsPinned()
+      ).toBe("right");
+    });
+
+    it("should move a pinned column to the other side", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      act(() => {
+        result.current.pinColumn("name", "left");
+      });
+      act(() => {
+        result.current.pinColumn("name", "right");
+      });
+
+      expect(result.current.getColumnPinning()).toEqual({
+        left: [],
+        right: ["name"],
+      });
+    });
+
+    it("should unpin a column", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          initialState: { columnPinning: { left: ["id", "name"], right: [] } },
+        })
+      );
+
+      act(() => {
+        result.current.pinColumn("id", false);
+      });
+
+      expect(result.current.getColumnPinning()).toEqual({
+        left: ["name"],
+        right: [],
+      });
+    });
+
+    it("should render pinned columns first", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      act(() => {
+        result.current.pinColumn("status", "left");
+      });
+
+      const cells = result.current._tanstackTable
+        .getRowModel()
+        .rows[0].getVisibleCells();
+      expect(cells.map((cell) => cell.column.id)).toEqual([
+        "status",
+        "id",
+        "name",
+        "age",
+      ]);
+    });
+  });
+
+  // ===========================================================================
+  // Plugin Control Tests
+  // ===========================================================================
+
+  describe("plugin control", () => {
+    it("should have plugin control interface", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      expect(result.current.plugin).toBeDefined();
+      expect(result.current.plugin.open).toBeDefined();
+      expect(result.current.plugin.close).toBeDefined();
+      expect(result.current.plugin.isOpen).toBeDefined();
+      expect(result.current.plugin.getActiveId).toBeDefined();
+    });
+
+    it("should have no active plugin initially", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      expect(result.current.plugin.getActiveId()).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // Event Bus Tests
+  // ===========================================================================
+
+  describe("event bus", () => {
+    it("should have event bus interface", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      expect(result.current.eventBus).toBeDefined();
+      expect(result.current.eventBus.emit).toBeDefined();
+      expect(result.current.eventBus.subscribe).toBeDefined();
+    });
+
+    it("should allow subscribing to custom events", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const callback = vi.fn();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      result.current.eventBus.subscribe("custom-event", callback);
+
+      act(() => {
+        result.current.eventBus.emit("custom-event", { data: "test" });
+      });
+
+      expect(callback).toHaveBeenCalledWith({ data: "test" });
+    });
+  });
+
+  // ===========================================================================
+  // TanStack Table Instance Tests
+  // ===========================================================================
+
+  describe("TanStack Table instance", () => {
+    it("should expose underlying TanStack Table instance", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      expect(result.current._tanstackTable).toBeDefined();
+      expect(result.current._tanstackTable.getRowModel).toBeDefined();
+    });
+  });
+
+  // ===========================================================================
+  // Multi-Select Tests
+  // ===========================================================================
+
+  describe("multi-select", () => {
+    it("should enable multi-select by default", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() => useSeizenTable({ data, columns }));
+
+      act(() => {
+        result.current.setSelectedRows([data[0], data[1], data[2]]);
       });
 
       expect(result.current.getSelectedRows()).toHaveLength(3);
@@ -660,10 +1196,358 @@ describe("useSeizenTable", () => {
     });
   });
 
+  // ===========================================================================
+  // Controlled State Tests
+  // ===========================================================================
+
+  describe("controlled state", () => {
+    it("should seed uncontrolled slices from initialState", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          initialState: {
+            sorting: [{ id: "age", desc: true }],
+            pagination: { pageIndex: 0, pageSize: 2 },
+          },
+        })
+      );
+
+      expect(result.current.getSortingState()).toEqual([
+        { id: "age", desc: true },
+      ]);
+      expect(result.current.getPaginationState()).toEqual({
+        pageIndex: 0,
+        pageSize: 2,
+      });
+    });
+
+    it("should read controlled slices from state", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          state: { globalFilter: "alice", columnVisibility: { age: false } },
+        })
+      );
+
+      expect(result.current.getGlobalFilter()).toBe("alice");
+      expect(result.current.getColumnVisibility()).toEqual({ age: false });
+      expect(
+        result.current._tanstackTable.getRowModel().rows.map((r) => r.original)
+      ).toEqual([data[0]]);
+    });
+
+    it("should report changes to controlled slices without updating them", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const onStateChange = vi.fn();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          state: { sorting: [] },
+          onStateChange,
+        })
+      );
+
+      act(() => {
+        result.current.setSorting([{ id: "name", desc: false }]);
+      });
+
+      expect(onStateChange).toHaveBeenCalledTimes(1);
+      expect(onStateChange.mock.calls[0][0].sorting).toEqual([
+        { id: "name", desc: false },
+      ]);
+      // Still owned by the application
+      expect(result.current.getSortingState()).toEqual([]);
+    });
+
+    it("should apply controlled state updates from the application", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+
+      const { result, rerender } = renderHook(
+        ({ sorting }) =>
+          useSeizenTable({ data, columns, state: { sorting } }),
+        { initialProps: { sorting: [] as { id: string; desc: boolean }[] } }
+      );
+
+      rerender({ sorting: [{ id: "age", desc: false }] });
+
+      expect(result.current.getSortingState()).toEqual([
+        { id: "age", desc: false },
+      ]);
+      expect(
+        result.current._tanstackTable.getRowModel().rows[0].original
+      ).toEqual(data[1]);
+    });
+
+    it("should pass the full next state to onStateChange for uncontrolled slices", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const onStateChange = vi.fn();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, onStateChange })
+      );
+
+      act(() => {
+        result.current.setPageIndex(1);
+      });
+
+      expect(onStateChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pagination: { pageIndex: 1, pageSize: 10 },
+          sorting: [],
+          columnFilters: [],
+          globalFilter: "",
+          rowSelection: {},
+        })
+      );
+      expect(result.current.getPaginationState().pageIndex).toBe(1);
+    });
+
+    it("should chain consecutive updates to a controlled slice", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const onStateChange = vi.fn();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          state: { pagination: { pageIndex: 0, pageSize: 10 } },
+          onStateChange,
+        })
+      );
+
+      act(() => {
+        result.current.setPageIndex(2);
+        result.current.setPageSize(50);
+      });
+
+      expect(onStateChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          pagination: { pageIndex: 2, pageSize: 50 },
+        })
+      );
+    });
+
+    it("should report row selection changes from TanStack Table", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const onStateChange = vi.fn();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          state: { rowSelection: {} },
+          onStateChange,
+        })
+      );
+
+      act(() => {
+        result.current._tanstackTable.getRow("1").toggleSelected(true);
+      });
+
+      expect(onStateChange).toHaveBeenCalledWith(
+        expect.objectContaining({ rowSelection: { "1": true } })
+      );
+      expect(result.current.getSelectedRows()).toEqual([]);
+    });
+  });
+
   // ===========================================================================
   // Data Updates Tests
   // ===========================================================================
 
+  describe("persist", () => {
+    function createMemoryStorage(initial: Record<string, string> = {}) {
+      const items = new Map(Object.entries(initial));
+      return {
+        getItem: vi.fn((key: string) => items.get(key) ?? null),
+        setItem: vi.fn((key: string, value: string) => {
+          items.set(key, value);
+        }),
+        items,
+      };
+    }
+
+    function stored(state: unknown, version = 1) {
+      return JSON.stringify({ version, state });
+    }
+
+    it("should restore stored state on mount", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const storage = createMemoryStorage({
+        "seizen-table:users": stored({
+          columnVisibility: { age: false },
+          columnOrder: ["name", "id"],
+          sorting: [{ id: "age", desc: true }],
+          pageSize: 2,
+        }),
+      });
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, persist: { id: "users", storage } })
+      );
+
+      expect(result.current.getColumnVisibility()).toEqual({ age: false });
+      expect(result.current.getColumnOrder()).toEqual(["name", "id"]);
+      expect(result.current.getSortingState()).toEqual([
+        { id: "age", desc: true },
+      ]);
+      expect(result.current.getPaginationState().pageSize).toBe(2);
+    });
+
+    it("should take precedence over initialState", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const storage = createMemoryStorage({
+        "seizen-table:users": stored({ pageSize: 2 }),
+      });
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          initialState: {
+            sorting: [{ id: "name", desc: false }],
+            pagination: { pageIndex: 1, pageSize: 50 },
+          },
+          persist: { id: "users", storage },
+        })
+      );
+
+      expect(result.current.getPaginationState()).toEqual({
+        pageIndex: 1,
+        pageSize: 2,
+      });
+      expect(result.current.getSortingState()).toEqual([
+        { id: "name", desc: false },
+      ]);
+    });
+
+    it("should drop stored state for unknown columns", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const storage = createMemoryStorage({
+        "seizen-table:users": stored({
+          columnVisibility: { removed: false, age: false },
+          sorting: [{ id: "removed", desc: true }],
+        }),
+      });
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, persist: { id: "users", storage } })
+      );
+
+      expect(result.current.getColumnVisibility()).toEqual({ age: false });
+      expect(result.current.getSortingState()).toEqual([]);
+    });
+
+    it("should save state changes but not the state on mount", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const storage = createMemoryStorage();
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, persist: { id: "users", storage } })
+      );
+      expect(storage.setItem).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.toggleColumnVisibility("age");
+      });
+
+      expect(storage.setItem).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(storage.items.get("seizen-table:users")!)).toEqual({
+        version: 1,
+        state: {
+          columnVisibility: { age: false },
+          columnOrder: [],
+          columnSizing: {},
+          sorting: [],
+          pageSize: 10,
+          columnFilters: [],
+        },
+      });
+    });
+
+    it("should only persist included slices", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const storage = createMemoryStorage({
+        "seizen-table:users": stored({ sorting: [{ id: "age", desc: true }] }),
+      });
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          persist: { id: "users", storage, include: ["columnVisibility"] },
+        })
+      );
+      expect(result.current.getSortingState()).toEqual([]);
+
+      act(() => {
+        result.current.setSorting([{ id: "name", desc: false }]);
+      });
+      expect(storage.setItem).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.toggleColumnVisibility("age");
+      });
+      expect(JSON.parse(storage.items.get("seizen-table:users")!).state).toEqual(
+        { columnVisibility: { age: false } }
+      );
+    });
+
+    it("should apply state from an async storage once loaded", async () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      let resolveItem: (value: string | null) => void = () => {};
+      const storage = {
+        getItem: vi.fn(
+          () =>
+            new Promise<string | null>((resolve) => {
+              resolveItem = resolve;
+            })
+        ),
+        setItem: vi.fn(() => Promise.resolve()),
+      };
+
+      const { result } = renderHook(() =>
+        useSeizenTable({ data, columns, persist: { id: "users", storage } })
+      );
+      expect(result.current.getSortingState()).toEqual([]);
+
+      await act(async () => {
+        resolveItem(stored({ sorting: [{ id: "age", desc: true }] }));
+      });
+
+      expect(result.current.getSortingState()).toEqual([
+        { id: "age", desc: true },
+      ]);
+      expect(storage.setItem).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.setSorting([]);
+      });
+      expect(storage.setItem).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("data updates", () => {
     it("should reflect new data when props change", () => {
       const initialData = createTestData();
@@ -720,6 +1604,25 @@ describe("useSeizenTable", () => {
       expect(result.current.remote).toEqual({ totalRowCount: 100 });
     });
 
+    it("should only provide facets from getColumnFacets in Remote Mode", () => {
+      const data = createTestData();
+      const columns = createTestColumns();
+      const facets = { values: [], min: 18, max: 65 };
+
+      const { result } = renderHook(() =>
+        useSeizenTable({
+          data,
+          columns,
+          remote: true,
+          getColumnFacets: (columnId) =>
+            columnId === "age" ? facets : undefined,
+        })
+      );
+
+      expect(result.current.getColumnFacets("age")).toBe(facets);
+      expect(result.current.getColumnFacets("status")).toBeUndefined();
+    });
+
     it("should calculate pageCount from totalRowCount in Remote Mode", () => {
       const data = createTestData();
       const columns = createTestColumns();
@@ -1,10 +1,22 @@
-import { useMemo, useState, useCallback } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
 import {
   getCoreRowModel,
+  getExpandedRowModel,
+  getFacetedRowModel,
+  getFacetedUniqueValues,
   getFilteredRowModel,
+  getGroupedRowModel,
   getSortedRowModel,
   getPaginationRowModel,
   useReactTable,
+  type Column,
   type ColumnDef,
   type RowSelectionState,
   type SortingState,
@@ -12,15 +24,49 @@ import {
   type PaginationState,
   type VisibilityState,
   type ColumnOrderState,
+  type ColumnSizingState,
+  type ColumnPinningState,
+  type ExpandedState,
+  type GroupingState,
+  type Row,
   type Table,
+  type Updater,
 } from "@tanstack/react-table";
 import type { SeizenTablePlugin } from "../plugin";
+import type { FilterType } from "../plugin/columnMeta";
 import { useEventBus, type EventBus } from "../plugin/useEventBus";
 import {
   usePluginControl,
   type PluginControl,
 } from "../plugin/usePluginControl";
-import { pluginFilterFn } from "./filterFn";
+import { createPluginFilterFn } from "./filterFn";
+import {
+  useSeizenTableState,
+  type SeizenTableState,
+} from "./useSeizenTableState";
+import type { PersistOptions } from "./persistence";
+import { SELECTION_COLUMN_ID, createSelectionColumn } from "./selectionColumn";
+import { useCellEditing, type EditingCell } from "./cellEditing";
+import { getNewlyExpandedRowIds } from "./treeData";
+import { aggregateColumns, type AggregateScope } from "./aggregation";
+import {
+  getExportData,
+  type ExportData,
+  type ExportDataOptions,
+} from "./exportData";
+import { formatColumnValue } from "./columnFormat";
+import { computeColumnFacets, type ColumnFacets } from "./faceting";
+import {
+  createFuzzyGlobalFilterFn,
+  getRelevanceSortedRowModel,
+  highlightSearchMatches,
+  type GlobalSearchOptions,
+} from "./globalSearch";
+import {
+  mergePersistedState,
+  usePersistTableState,
+  usePersistedHydration,
+} from "./usePersistedTableState";
 
 // =============================================================================
 // Column Types
@@ -28,6 +74,11 @@ import { pluginFilterFn } from "./filterFn";
 
 export type SeizenTableColumn<TData> = ColumnDef<TData, unknown>;
 
+/**
+ * Edge a column is pinned to, or false for unpinned columns
+ */
+export type ColumnPinPosition = "left" | "right" | false;
+
 // =============================================================================
 // useSeizenTable Types
 // =============================================================================
@@ -52,13 +103,227 @@ export interface UseSeizenTableOptions<TData> {
   columns: SeizenTableColumn<TData>[];
   /** Plugins to use. Plugins that don't use context menu can be SeizenTablePlugin<any>. */
   plugins?: SeizenTablePlugin<any>[];
+  /**
+   * Derive a stable row ID from row data (e.g. a primary key).
+   *
+   * Row IDs are used as keys of the row selection state, so selection
+   * survives data refetches, sorting and page changes in Remote Mode.
+   * `initialSelection` must be keyed by these IDs as well.
+   *
+   * When omitted, the row index in `data` is used as the row ID.
+   *
+   * @example
+   * ```tsx
+   * useSeizenTable({ data, columns, getRowId: (row) => String(row.id) });
+   * ```
+   */
+  getRowId?: (originalRow: TData, index: number, parent?: Row<TData>) => string;
+  /**
+   * Return the child rows of a row to display hierarchical data (tree data).
+   *
+   * Rows with children get an expand toggle in the first column, and
+   * sub rows are indented by depth. Rows start collapsed.
+   * Filtering keeps rows whose descendants match, so matching rows are
+   * shown together with their ancestors.
+   *
+   * @example
+   * ```tsx
+   * useSeizenTable({ data, columns, getSubRows: (row) => row.children });
+   * ```
+   */
+  getSubRows?: (originalRow: TData, index: number) => TData[] | undefined;
+  /**
+   * Whether a row can be expanded, for rows whose children are not loaded
+   * yet (Remote Mode).
+   * Expanding such a row emits `row-expand` and shows a loading indicator
+   * until `data` changes.
+   *
+   * When omitted, rows can be expanded if `getSubRows` returns children.
+   *
+   * @example
+   * ```tsx
+   * useSeizenTable({
+   *   data,
+   *   columns,
+   *   remote: true,
+   *   getSubRows: (row) => row.children,
+   *   getRowCanExpand: (row) => row.hasChildren,
+   * });
+   * ```
+   */
+  getRowCanExpand?: (originalRow: TData) => boolean;
+  /**
+   * Initial row selection.
+   * Shorthand for `initialState.rowSelection`.
+   */
   initialSelection?: RowSelectionState;
   enableMultiSelect?: boolean;
+  /**
+   * Render a built-in checkbox column as the first column.
+   *
+   * - Row checkboxes toggle rows; shift-click selects a range of rows
+   * - The header checkbox selects all rows on the current page, and a prompt
+   *   offers to extend the selection to all rows matching the filters
+   *
+   * With `enableMultiSelect: false`, rows are selected one at a time and
+   * the header checkbox is omitted.
+   *
+   * @default false
+   */
+  enableSelectionColumn?: boolean;
+  /**
+   * Allow users to resize columns by dragging the edge of header cells.
+   *
+   * Column widths honor `size`, `minSize` and `maxSize` on column defs.
+   * Set `enableResizing: false` on a column def to disable resizing
+   * for that column only.
+   *
+   * @default false
+   */
+  enableColumnResizing?: boolean;
+  /**
+   * Show committed cell edits immediately, before the app updates `data`.
+   *
+   * The edited value is displayed until `data` changes. If the app fails
+   * to persist the change, it calls `rollbackCellEdit` to restore the
+   * original value.
+   *
+   * @example
+   * ```tsx
+   * const table = useSeizenTable({ data, columns, optimisticEdits: true });
+   *
+   * useSeizenTableEvent(table, "cell-edit-commit", async (edit) => {
+   *   try {
+   *     await saveUser(edit.rowId, { [edit.columnId]: edit.value });
+   *   } catch {
+   *     table.rollbackCellEdit(edit.rowId, edit.columnId);
+   *   }
+   * });
+   * ```
+   *
+   * @default false
+   */
+  optimisticEdits?: boolean;
+  /**
+   * Rows aggregated by the footer row (see `aggregate` in column meta):
+   * - `"filtered"` - All rows matching the filters, across pages
+   * - `"page"` - Rows on the current page
+   *
+   * In Remote Mode, only the rows in `data` are available to aggregate.
+   *
+   * @default "filtered"
+   */
+  footerAggregateScope?: AggregateScope;
+  /**
+   * IANA time zone in which date filters compare dates by day,
+   * e.g. `"Asia/Tokyo"`. Relative ranges such as "in the last 7 days"
+   * are also based on today in this time zone.
+   *
+   * Defaults to the local time zone.
+   */
+  filterTimeZone?: string;
+  /**
+   * Global search (global filter) behavior: fuzzy matching, sorting by
+   * relevance and highlighting matches. Use `globalSearchable` in column
+   * meta to choose the searched columns.
+   *
+   * In Remote Mode, only highlighting applies.
+   *
+   * @example
+   * ```tsx
+   * const table = useSeizenTable({
+   *   data,
+   *   columns,
+   *   globalSearch: { mode: "fuzzy", sortByRelevance: true, highlight: true },
+   * });
+   * ```
+   */
+  globalSearch?: GlobalSearchOptions;
+  /**
+   * Provide the facets of a column (see `getColumnFacets` on the instance),
+   * e.g. counts fetched from the server in Remote Mode, where `data` only
+   * holds the current page.
+   *
+   * Return undefined to compute the facets from `data`, which Remote Mode
+   * doesn't do.
+   *
+   * @example
+   * ```tsx
+   * const { data: facets } = useQuery(["facets", filters], fetchFacets);
+   * const table = useSeizenTable({
+   *   data,
+   *   columns,
+   *   remote: true,
+   *   getColumnFacets: (columnId) => facets?.[columnId],
+   * });
+   * ```
+   */
+  getColumnFacets?: (columnId: string) => ColumnFacets | undefined;
+  /**
+   * Initial values for uncontrolled state slices.
+   *
+   * @example
+   * ```tsx
+   * useSeizenTable({
+   *   data,
+   *   columns,
+   *   initialState: { pagination: { pageIndex: 0, pageSize: 50 } },
+   * });
+   * ```
+   */
+  initialState?: Partial<SeizenTableState>;
+  /**
+   * Controlled state slices.
+   *
+   * Slices provided here are owned by the application (e.g. a Redux store):
+   * the table reads them from this object and reports changes through
+   * `onStateChange` instead of updating them internally.
+   * Slices left out remain managed by the table.
+   *
+   * EventBus events (`filter-change`, `sorting-change`, etc.) are emitted
+   * for controlled slices as well.
+   *
+   * @example
+   * ```tsx
+   * const tableState = useSelector(selectTableState);
+   * const table = useSeizenTable({
+   *   data,
+   *   columns,
+   *   state: { sorting: tableState.sorting, columnFilters: tableState.columnFilters },
+   *   onStateChange: (next) => dispatch(tableStateChanged(next)),
+   * });
+   * ```
+   */
+  state?: Partial<SeizenTableState>;
+  /**
+   * Called with the next full table state whenever any slice changes,
+   * for both controlled and uncontrolled slices.
+   */
+  onStateChange?: (state: SeizenTableState) => void;
+  /**
+   * Persist column visibility, column order, column sizes, sorting,
+   * page size and filters across sessions, keyed by a table ID.
+   *
+   * Stored state is restored on mount and takes precedence over
+   * `initialState`. Entries for columns that no longer exist in `columns`
+   * are dropped. With an async storage, the stored state is applied once
+   * it has been read.
+   *
+   * @example
+   * ```tsx
+   * useSeizenTable({
+   *   data,
+   *   columns,
+   *   persist: { id: "users-table" },
+   * });
+   * ```
+   */
+  persist?: PersistOptions;
   /**
    * Enable Remote Mode.
    *
    * When enabled:
-   * - Internal filtering/sorting/pagination is disabled (TanStack Table manual* options)
+   * - Internal filtering/sorting/grouping/pagination is disabled (TanStack Table manual* options)
    * - `data` is expected to be pre-filtered/sorted/paginated by external source
    * - `setFilter()`, `setSorting()`, `setPageIndex()` etc. emit events AND update internal state
    * - Internal state is maintained for plugin UI synchronization
@@ -68,6 +333,8 @@ export interface UseSeizenTableOptions<TData> {
    * - `filter-change`: Emitted when filter state changes
    * - `sorting-change`: Emitted when sorting changes
    * - `pagination-change`: Emitted when pagination changes
+   * - `grouping-change`: Emitted when grouping changes
+   * - `row-expand`: Emitted when a row is expanded, to lazy-load its children
    *
    * Usage:
    * - `remote: true` - Enable without pagination support
@@ -88,6 +355,8 @@ export interface SeizenTableInstance<TData> {
 
   /**
    * Get the currently selected rows.
+   * When `getRowId` is provided, rows selected on other pages (Remote Mode)
+   * or before a refetch are included as well.
    * @returns Array of selected row data
    */
   getSelectedRows: () => TData[];
@@ -103,6 +372,21 @@ export interface SeizenTableInstance<TData> {
    */
   clearSelection: () => void;
 
+  /**
+   * Select all rows matching the current filters.
+   * In Remote Mode, rows on other pages are not loaded: the selection is
+   * marked as "all matching rows" instead, which can be checked with
+   * `getIsAllRowsSelected` and is reported via the `select-all-change` event.
+   * It ends when the selection or the filters change.
+   */
+  selectAllRows: () => void;
+
+  /**
+   * Check whether all rows matching the current filters are selected.
+   * @returns true if all matching rows are selected
+   */
+  getIsAllRowsSelected: () => boolean;
+
   // ===========================================================================
   // Filtering
   // ===========================================================================
@@ -131,6 +415,32 @@ export interface SeizenTableInstance<TData> {
    */
   setGlobalFilter: (value: string) => void;
 
+  /**
+   * Highlight matches of the global filter in a text, e.g. in custom cells.
+   * Returns the text as is if the column isn't searched.
+   * @param text - Text displayed in the cell
+   * @param columnId - Column of the cell
+   *
+   * @example
+   * ```tsx
+   * cell: ({ getValue, column }) => {
+   *   const table = useSeizenTableContext();
+   *   return <b>{table.highlightSearchMatches(getValue(), column.id)}</b>;
+   * }
+   * ```
+   */
+  highlightSearchMatches: (text: string, columnId?: string) => ReactNode;
+
+  /**
+   * Get the distinct values of a column with their counts, and the range of
+   * its numbers, over the rows matching the other filters.
+   * In Remote Mode, facets are only available from the `getColumnFacets`
+   * option.
+   * @param columnId - The column ID
+   * @returns Facets of the column, or undefined if not available
+   */
+  getColumnFacets: (columnId: string) => ColumnFacets | undefined;
+
   // ===========================================================================
   // Sorting
   // ===========================================================================
@@ -230,6 +540,155 @@ export interface SeizenTableInstance<TData> {
    */
   moveColumn: (columnId: string, toIndex: number) => void;
 
+  // ===========================================================================
+  // Column Sizing
+  // ===========================================================================
+
+  /**
+   * Get the current column sizes.
+   * Only contains columns that have been resized.
+   * @returns Object mapping column IDs to widths in pixels
+   */
+  getColumnSizing: () => ColumnSizingState;
+
+  /**
+   * Set column sizes.
+   * Rendered widths are clamped to the column's `minSize`/`maxSize`.
+   * @param sizing - Object mapping column IDs to widths in pixels
+   */
+  setColumnSizing: (sizing: ColumnSizingState) => void;
+
+  // ===========================================================================
+  // Column Pinning
+  // ===========================================================================
+
+  /**
+   * Get the current column pinning state
+   * @returns Column IDs pinned to the left and right edges
+   */
+  getColumnPinning: () => ColumnPinningState;
+
+  /**
+   * Pin a column to the left or right edge of the table, or unpin it.
+   * Pinned columns stay visible while scrolling horizontally.
+   * The selection column can't be pinned: it stays first.
+   * @param columnId - The column ID to pin
+   * @param position - "left", "right", or false to unpin
+   */
+  pinColumn: (columnId: string, position: ColumnPinPosition) => void;
+
+  // ===========================================================================
+  // Grouping
+  // ===========================================================================
+
+  /**
+   * Get the current grouping state.
+   * @returns Array of column IDs rows are grouped by, outermost first
+   */
+  getGrouping: () => GroupingState;
+
+  /**
+   * Group rows by one or more columns.
+   * Group rows show the row count and the aggregations set by `aggregate`
+   * in column meta, and can be collapsed.
+   * In Remote Mode, only the state is updated and `grouping-change` is
+   * emitted, so the server can group the data.
+   * @param grouping - Column IDs to group by, outermost first
+   */
+  setGrouping: (grouping: GroupingState) => void;
+
+  // ===========================================================================
+  // Aggregation
+  // ===========================================================================
+
+  /**
+   * Get the values of the footer row: the columns with `aggregate` in their
+   * meta, aggregated over the rows of `footerAggregateScope`.
+   * @returns Aggregated values keyed by column ID
+   */
+  getColumnAggregates: () => Record<string, unknown>;
+
+  // ===========================================================================
+  // Export
+  // ===========================================================================
+
+  /**
+   * Get the data to export: the rows matching the filters in their sorted
+   * order, with the values of the visible columns in display order.
+   * Values are read by the columns' accessors (`accessorKey`, nested paths
+   * and `accessorFn`) and converted with their `exportValue` meta.
+   * `totals` holds the footer row, formatted as in the footer.
+   */
+  getExportData: (options?: ExportDataOptions) => ExportData;
+
+  // ===========================================================================
+  // Tree Data
+  // ===========================================================================
+
+  /**
+   * Check whether the children of a row are loading.
+   * In Remote Mode, a row expanded without loaded children is loading until
+   * `data` changes or the row is collapsed.
+   * @param rowId - The row ID to check
+   * @returns true if the row shows a loading indicator
+   */
+  getIsRowLoading: (rowId: string) => boolean;
+
+  // ===========================================================================
+  // Cell Editing
+  // ===========================================================================
+
+  /**
+   * Get the cell being edited.
+   * @returns The editing cell with its draft value, or null
+   */
+  getEditingCell: () => EditingCell | null;
+
+  /**
+   * Open the editor of a cell.
+   * Does nothing if the column is not `editable` for the row.
+   * @param rowId - The row ID of the cell
+   * @param columnId - The column ID of the cell
+   */
+  startCellEdit: (rowId: string, columnId: string) => void;
+
+  /**
+   * Update the draft value of the cell being edited.
+   * @param value - The new draft value
+   */
+  setCellEditDraft: (value: unknown) => void;
+
+  /**
+   * Validate the draft against the column's `editSchema` and commit it,
+   * emitting `cell-edit-commit` if the value changed.
+   * On validation failure the editor stays open with the error.
+   * @param value - Value to commit instead of the draft
+   * @returns true if the editor was closed
+   */
+  commitCellEdit: (value?: unknown) => boolean;
+
+  /**
+   * Discard the draft and close the editor, emitting `cell-edit-cancel`.
+   */
+  cancelCellEdit: () => void;
+
+  /**
+   * Get the value committed optimistically for a cell (see `optimisticEdits`).
+   * @returns The pending value, or undefined if the cell has none
+   */
+  getPendingCellEdit: (
+    rowId: string,
+    columnId: string
+  ) => { value: unknown } | undefined;
+
+  /**
+   * Discard the value committed optimistically for a cell,
+   * e.g. when the app failed to persist it.
+   * @param rowId - The row ID of the cell
+   * @param columnId - The column ID of the cell
+   */
+  rollbackCellEdit: (rowId: string, columnId: string) => void;
+
   // ===========================================================================
   // Plugins
   // ===========================================================================
@@ -304,8 +763,22 @@ export function useSeizenTable<TData>({
   data,
   columns,
   plugins = [],
-  initialSelection = {},
+  getRowId,
+  getSubRows,
+  getRowCanExpand,
+  initialSelection,
   enableMultiSelect = true,
+  enableSelectionColumn = false,
+  enableColumnResizing = false,
+  optimisticEdits = false,
+  footerAggregateScope = "filtered",
+  filterTimeZone,
+  globalSearch,
+  getColumnFacets,
+  initialState,
+  state,
+  onStateChange,
+  persist,
   remote = false,
 }: UseSeizenTableOptions<TData>): SeizenTableInstance<TData> {
   // Remote Mode flags
@@ -313,18 +786,174 @@ export function useSeizenTable<TData>({
   const totalRowCount =
     typeof remote === "object" ? remote.totalRowCount : undefined;
 
-  // Table state
-  const [rowSelection, setRowSelection] =
-    useState<RowSelectionState>(initialSelection);
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [globalFilter, setGlobalFilter] = useState<string>("");
-  const [pagination, setPagination] = useState<PaginationState>({
-    pageIndex: 0,
-    pageSize: 10,
+  // Persisted state read on mount
+  const hydration = usePersistedHydration(persist, columns);
+
+  // Table state (controlled or uncontrolled)
+  const [tableState, stateSetters] = useSeizenTableState({
+    state,
+    initialState: mergePersistedState(
+      {
+        ...(initialSelection ? { rowSelection: initialSelection } : {}),
+        ...initialState,
+      },
+      hydration.persisted
+    ),
+    onStateChange,
   });
-  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
-  const [columnOrder, setColumnOrder] = useState<ColumnOrderState>([]);
+  usePersistTableState(persist, hydration, columns, tableState, stateSetters);
+  const {
+    rowSelection,
+    sorting,
+    columnFilters,
+    globalFilter,
+    pagination,
+    columnVisibility,
+    columnOrder,
+    columnSizing,
+    columnPinning,
+    grouping,
+  } = tableState;
+  const {
+    setRowSelection,
+    setSorting,
+    setColumnFilters,
+    setGlobalFilter,
+    setPagination,
+    setColumnVisibility,
+    setColumnOrder,
+    setColumnSizing,
+    setColumnPinning,
+    setGrouping,
+  } = stateSetters;
+
+  // Expanded rows. Without tree data, groups start expanded and collapsing
+  // one records the expanded state of every row. Tree rows start collapsed.
+  const [expanded, setExpanded] = useState<ExpandedState>(
+    getSubRows ? {} : true
+  );
+
+  // Rows whose children are being loaded (Remote Mode), keyed by row ID
+  const [loadingRowIds, setLoadingRowIds] = useState<Record<string, boolean>>(
+    {}
+  );
+
+  // New data from the app ends loading of children
+  useEffect(() => {
+    setLoadingRowIds((prev) => (Object.keys(prev).length === 0 ? prev : {}));
+  }, [data]);
+
+  // Expanding a row emits row-expand; in Remote Mode, rows without loaded
+  // children show a loading indicator
+  const handleExpandedChange = (updater: Updater<ExpandedState>) => {
+    const next = typeof updater === "function" ? updater(expanded) : updater;
+    const { rowsById } = tanstackTable.getCoreRowModel();
+
+    for (const rowId of getNewlyExpandedRowIds(expanded, next)) {
+      const row = rowsById[rowId];
+      if (!row) continue;
+      if (isRemote && row.subRows.length === 0) {
+        setLoadingRowIds((prev) => ({ ...prev, [rowId]: true }));
+      }
+      eventBus.emit("row-expand", { row: row.original, rowId });
+    }
+
+    setLoadingRowIds((prev) => {
+      const stillExpanded = Object.keys(prev).filter(
+        (rowId) => next === true || next[rowId]
+      );
+      if (stillExpanded.length === Object.keys(prev).length) return prev;
+      return Object.fromEntries(stillExpanded.map((rowId) => [rowId, true]));
+    });
+    setExpanded(next);
+  };
+
+  // Remote Mode "all matching rows" selection, keyed by the filters it was
+  // made with, so that it ends when the filters change
+  const [allRowsSelectedQuery, setAllRowsSelectedQuery] = useState<
+    string | null
+  >(null);
+  const filterQuery = JSON.stringify([columnFilters, globalFilter]);
+  const isAllMatchingSelected =
+    isRemote && allRowsSelectedQuery === filterQuery;
+
+  // Any change to the row selection ends the "all matching rows" selection
+  const handleRowSelectionChange: typeof setRowSelection = (updater) => {
+    setAllRowsSelectedQuery(null);
+    setRowSelection(updater);
+  };
+
+  // Built-in selection column, placed before all other columns
+  const selectionColumn = useMemo(() => createSelectionColumn<TData>(), []);
+  const tableColumns = useMemo(
+    () => (enableSelectionColumn ? [selectionColumn, ...columns] : columns),
+    [enableSelectionColumn, selectionColumn, columns]
+  );
+  const tableColumnOrder =
+    enableSelectionColumn && columnOrder.length > 0
+      ? [SELECTION_COLUMN_ID, ...columnOrder]
+      : columnOrder;
+  // The selection column can't be pinned by users. It is pinned left with
+  // the left pinned columns, so that it stays first.
+  const pinnedLeft = (columnPinning.left ?? []).filter(
+    (id) => id !== SELECTION_COLUMN_ID
+  );
+  const tableColumnPinning = enableSelectionColumn
+    ? {
+        left: pinnedLeft.length > 0 ? [SELECTION_COLUMN_ID, ...pinnedLeft] : [],
+        right: (columnPinning.right ?? []).filter(
+          (id) => id !== SELECTION_COLUMN_ID
+        ),
+      }
+    : columnPinning;
+
+  // Filter function used by all columns and the global filter.
+  // Filter types are read from the table's column map, which TanStack
+  // builds once per column set, rather than from the cells of each row.
+  const pluginFilterFn = useMemo(
+    () =>
+      createPluginFilterFn({
+        timeZone: filterTimeZone,
+        getFilterType: (columnId): FilterType | undefined =>
+          tanstackTable.getColumn(columnId)?.columnDef.meta?.filterType,
+      }),
+    [filterTimeZone]
+  );
+
+  // Global search
+  const searchMode = globalSearch?.mode ?? "contains";
+  const fuzzyGlobalFilterFn = useMemo(
+    () => createFuzzyGlobalFilterFn<TData>(),
+    []
+  );
+  const sortByRelevance = !!globalSearch?.sortByRelevance && !isRemote;
+  const getTableSortedRowModel = useMemo(
+    () =>
+      sortByRelevance
+        ? getRelevanceSortedRowModel<TData>(searchMode)
+        : getSortedRowModel<TData>(),
+    [sortByRelevance, searchMode]
+  );
+  // The TanStack Table instance is created below and stays the same
+  const highlightMatches = useCallback(
+    (text: string, columnId?: string): ReactNode => {
+      const column =
+        columnId === undefined ? undefined : tanstackTable.getColumn(columnId);
+      if (!globalFilter || (column && !column.getCanGlobalFilter())) {
+        return text;
+      }
+      return highlightSearchMatches(text, globalFilter, searchMode);
+    },
+    [globalFilter, searchMode]
+  );
+  // Default cells are created once, so they read the latest highlighting
+  // through a ref
+  const highlightCellRef = useRef<typeof highlightMatches | null>(null);
+  highlightCellRef.current = globalSearch?.highlight ? highlightMatches : null;
+
+  // Last known data of selected rows, keyed by row ID.
+  // Allows resolving selected rows that are no longer in `data`.
+  const selectedRowCacheRef = useRef<Map<string, TData>>(new Map());
 
   // Plugin control
   const plugin = usePluginControl();
@@ -332,26 +961,15 @@ export function useSeizenTable<TData>({
   // Event bus for plugin communication
   const eventBus = useEventBus();
 
-  // Handle selection change callback
-  const handleRowSelectionChange = useCallback(
-    (
-      updater:
-        | RowSelectionState
-        | ((old: RowSelectionState) => RowSelectionState)
-    ) => {
-      setRowSelection((old) => {
-        const newSelection =
-          typeof updater === "function" ? updater(old) : updater;
-        return newSelection;
-      });
-    },
-    []
-  );
-
   // Create TanStack Table instance
   const tanstackTable = useReactTable({
     data,
-    columns,
+    columns: tableColumns,
+    getRowId,
+    getSubRows,
+    getRowCanExpand: getRowCanExpand
+      ? (row) => row.subRows.length > 0 || getRowCanExpand(row.original)
+      : undefined,
     state: {
       rowSelection,
       sorting,
@@ -359,30 +977,76 @@ export function useSeizenTable<TData>({
       globalFilter,
       pagination,
       columnVisibility,
-      columnOrder,
+      columnOrder: tableColumnOrder,
+      columnSizing,
+      columnPinning: tableColumnPinning,
+      grouping,
+      expanded,
     },
     filterFns: {
       plugin: pluginFilterFn,
     },
     defaultColumn: {
       filterFn: "plugin",
+      // Leave `size` unset so that only explicitly sized columns get a width
+      size: undefined,
+      cell: ({ column, renderValue }) => {
+        const text = formatColumnValue(column, renderValue());
+        return highlightCellRef.current?.(text, column.id) ?? text;
+      },
+    },
+    globalFilterFn: searchMode === "fuzzy" ? fuzzyGlobalFilterFn : "plugin",
+    // Columns with `globalSearchable` set, or else columns whose values are
+    // strings or numbers (TanStack's default)
+    getColumnCanGlobalFilter: (column): boolean => {
+      const searchable = column.columnDef.meta?.globalSearchable;
+      if (searchable !== undefined) return searchable;
+      const hasSearchableColumns = tanstackTable
+        .getAllLeafColumns()
+        .some(
+          (c: Column<TData, unknown>) => c.columnDef.meta?.globalSearchable
+        );
+      if (hasSearchableColumns) return false;
+      const value: unknown = tanstackTable
+        .getCoreRowModel()
+        .flatRows[0]?.getValue(column.id);
+      return typeof value === "string" || typeof value === "number";
     },
-    globalFilterFn: "plugin",
-    enableRowSelection: true,
+    // Group rows are not selectable themselves, but select their rows
+    enableRowSelection: (row) => !row.getIsGrouped(),
     enableMultiRowSelection: enableMultiSelect,
     onRowSelectionChange: handleRowSelectionChange,
     onSortingChange: setSorting,
+    // Header clicks cycle ascending -> descending -> unsorted for all types
+    sortDescFirst: false,
     onColumnFiltersChange: setColumnFilters,
     onGlobalFilterChange: setGlobalFilter,
     onPaginationChange: setPagination,
     onColumnVisibilityChange: setColumnVisibility,
     onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    onColumnPinningChange: setColumnPinning,
+    onGroupingChange: setGrouping,
+    onExpandedChange: handleExpandedChange,
+    // Keep grouped columns in place instead of moving them first
+    groupedColumnMode: false,
+    autoResetExpanded: false,
+    enableColumnResizing,
+    columnResizeMode: "onChange",
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
-    getSortedRowModel: getSortedRowModel(),
+    // Facets of a column leave out its own filter
+    getFacetedRowModel: getFacetedRowModel(),
+    getFacetedUniqueValues: getFacetedUniqueValues(),
+    // Keep ancestors of matching sub rows
+    filterFromLeafRows: true,
+    getSortedRowModel: getTableSortedRowModel,
+    getGroupedRowModel: getGroupedRowModel(),
+    getExpandedRowModel: getExpandedRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
     // Remote Mode: disable internal processing
     manualFiltering: isRemote,
+    manualGrouping: isRemote,
     manualSorting: isRemote,
     manualPagination: isRemote,
     // For pagination in Remote Mode
@@ -392,34 +1056,107 @@ export function useSeizenTable<TData>({
         : undefined,
   });
 
+  // Cell editing state
+  const cellEditing = useCellEditing({
+    table: tanstackTable,
+    eventBus,
+    data,
+    optimistic: optimisticEdits,
+  });
+
+  // Resolve selected rows from the selection state.
+  // Rows in the current data keep their data order; rows that are only known
+  // from the cache (other pages, previous fetches) are appended after them.
+  const coreRows = tanstackTable.getCoreRowModel().flatRows;
+  const selectedRows = useMemo(() => {
+    const cache = selectedRowCacheRef.current;
+    const resolved: TData[] = [];
+    const resolvedIds = new Set<string>();
+
+    for (const row of coreRows) {
+      if (!rowSelection[row.id]) continue;
+      resolved.push(row.original);
+      resolvedIds.add(row.id);
+      if (getRowId) {
+        cache.set(row.id, row.original);
+      }
+    }
+
+    if (getRowId) {
+      // Forget rows that are no longer selected
+      for (const rowId of cache.keys()) {
+        if (!rowSelection[rowId]) cache.delete(rowId);
+      }
+      for (const [rowId, isSelected] of Object.entries(rowSelection)) {
+        if (!isSelected || resolvedIds.has(rowId)) continue;
+        if (cache.has(rowId)) {
+          resolved.push(cache.get(rowId)!);
+        }
+      }
+    }
+
+    return resolved;
+  }, [coreRows, rowSelection, getRowId]);
+
+  const isAllRowsSelected = isRemote
+    ? isAllMatchingSelected
+    : tanstackTable.getIsAllRowsSelected();
+
   // Create SeizenTableInstance with helper methods
   const instance = useMemo<SeizenTableInstance<TData>>(() => {
-    const getSelectedRows = () => {
-      return tanstackTable
-        .getSelectedRowModel()
-        .rows.map((row) => row.original);
+    const resolveRowId = (row: TData): string | undefined => {
+      const index = data.indexOf(row);
+      if (getRowId) {
+        return getRowId(row, index);
+      }
+      return index !== -1 ? String(index) : undefined;
     };
 
     return {
       // Selection
-      getSelectedRows,
+      getSelectedRows: () => selectedRows,
       setSelectedRows: (rows: TData[]) => {
         const newSelection: RowSelectionState = {};
         rows.forEach((row) => {
-          const index = data.indexOf(row);
-          if (index !== -1) {
-            newSelection[index] = true;
+          const rowId = resolveRowId(row);
+          if (rowId !== undefined) {
+            newSelection[rowId] = true;
+            if (getRowId) {
+              selectedRowCacheRef.current.set(rowId, row);
+            }
           }
         });
-        setRowSelection(newSelection);
+        handleRowSelectionChange(newSelection);
       },
-      clearSelection: () => setRowSelection({}),
+      clearSelection: () => handleRowSelectionChange({}),
+      selectAllRows: () => {
+        if (!isRemote) {
+          tanstackTable.toggleAllRowsSelected(true);
+          return;
+        }
+        // Rows on other pages are not loaded, so select the current page
+        // and mark the selection as covering all matching rows
+        const selection: RowSelectionState = {};
+        for (const row of tanstackTable.getRowModel().rows) {
+          selection[row.id] = true;
+        }
+        setRowSelection((prev) => ({ ...prev, ...selection }));
+        setAllRowsSelectedQuery(filterQuery);
+      },
+      getIsAllRowsSelected: () => isAllRowsSelected,
 
       // Filtering
       getFilterState: () => columnFilters,
       setFilter: setColumnFilters,
       getGlobalFilter: () => globalFilter,
       setGlobalFilter,
+      highlightSearchMatches: highlightMatches,
+      getColumnFacets: (columnId: string) => {
+        const facets = getColumnFacets?.(columnId);
+        if (facets || isRemote) return facets;
+        const column = tanstackTable.getColumn(columnId);
+        return column && computeColumnFacets(column);
+      },
 
       // Sorting
       getSortingState: () => sorting,
@@ -469,6 +1206,41 @@ export function useSeizenTable<TData>({
         });
       },
 
+      // Column Sizing
+      getColumnSizing: () => columnSizing,
+      setColumnSizing,
+
+      // Column Pinning
+      getColumnPinning: () => columnPinning,
+      pinColumn: (columnId: string, position: ColumnPinPosition) => {
+        if (columnId === SELECTION_COLUMN_ID) return;
+        setColumnPinning((prev) => {
+          const left = (prev.left ?? []).filter((id) => id !== columnId);
+          const right = (prev.right ?? []).filter((id) => id !== columnId);
+          if (position === "left") left.push(columnId);
+          if (position === "right") right.push(columnId);
+          return { left, right };
+        });
+      },
+
+      // Grouping
+      getGrouping: () => grouping,
+      setGrouping,
+
+      // Aggregation
+      getColumnAggregates: () =>
+        aggregateColumns(tanstackTable, footerAggregateScope),
+
+      // Export
+      getExportData: (options?: ExportDataOptions) =>
+        getExportData(tanstackTable, options, footerAggregateScope),
+
+      // Tree Data
+      getIsRowLoading: (rowId: string) => !!loadingRowIds[rowId],
+
+      // Cell Editing
+      ...cellEditing,
+
       // Plugins
       plugins,
       plugin,
@@ -490,13 +1262,26 @@ export function useSeizenTable<TData>({
     tanstackTable,
     data,
     columns,
+    getRowId,
+    getColumnFacets,
+    selectedRows,
+    isAllRowsSelected,
+    filterQuery,
     plugins,
     columnFilters,
     globalFilter,
+    searchMode,
+    highlightMatches,
     sorting,
     pagination,
     columnVisibility,
     columnOrder,
+    columnSizing,
+    columnPinning,
+    grouping,
+    footerAggregateScope,
+    loadingRowIds,
+    cellEditing,
     plugin,
     eventBus,
     isRemote,
@@ -0,0 +1,169 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import type {
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  GroupingState,
+  PaginationState,
+  RowSelectionState,
+  SortingState,
+  Updater,
+  VisibilityState,
+} from "@tanstack/react-table";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Table state managed by useSeizenTable.
+ * Each slice can be controlled by the application via the `state` option.
+ */
+export interface SeizenTableState {
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  pagination: PaginationState;
+  columnVisibility: VisibilityState;
+  columnOrder: ColumnOrderState;
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  grouping: GroupingState;
+  rowSelection: RowSelectionState;
+}
+
+/**
+ * Setters for each state slice. Accept a value or an updater function,
+ * like TanStack Table's `on*Change` handlers.
+ */
+export interface SeizenTableStateSetters {
+  setSorting: (updater: Updater<SortingState>) => void;
+  setColumnFilters: (updater: Updater<ColumnFiltersState>) => void;
+  setGlobalFilter: (updater: Updater<string>) => void;
+  setPagination: (updater: Updater<PaginationState>) => void;
+  setColumnVisibility: (updater: Updater<VisibilityState>) => void;
+  setColumnOrder: (updater: Updater<ColumnOrderState>) => void;
+  setColumnSizing: (updater: Updater<ColumnSizingState>) => void;
+  setColumnPinning: (updater: Updater<ColumnPinningState>) => void;
+  setGrouping: (updater: Updater<GroupingState>) => void;
+  setRowSelection: (updater: Updater<RowSelectionState>) => void;
+}
+
+export interface UseSeizenTableStateOptions {
+  /** Controlled state slices. Slices set here are owned by the application. */
+  state?: Partial<SeizenTableState>;
+  /** Initial values for uncontrolled state slices. */
+  initialState?: Partial<SeizenTableState>;
+  /** Called with the next full state whenever any slice changes. */
+  onStateChange?: (state: SeizenTableState) => void;
+}
+
+/**
+ * Default state used when neither `state` nor `initialState` provide a slice
+ */
+export const DEFAULT_TABLE_STATE: SeizenTableState = {
+  sorting: [],
+  columnFilters: [],
+  globalFilter: "",
+  pagination: { pageIndex: 0, pageSize: 10 },
+  columnVisibility: {},
+  columnOrder: [],
+  columnSizing: {},
+  columnPinning: { left: [], right: [] },
+  grouping: [],
+  rowSelection: {},
+};
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Internal hook for managing table state in controlled or uncontrolled mode.
+ * Used by useSeizenTable.
+ *
+ * Mirrors TanStack Table's controlled pattern: a slice present in `state`
+ * is read from there and changes are only reported via `onStateChange`.
+ * Other slices are kept in internal state, seeded from `initialState`.
+ *
+ * @internal
+ */
+export function useSeizenTableState({
+  state: controlledState,
+  initialState,
+  onStateChange,
+}: UseSeizenTableStateOptions): [SeizenTableState, SeizenTableStateSetters] {
+  const [internalState, setInternalState] = useState<SeizenTableState>(() => ({
+    ...DEFAULT_TABLE_STATE,
+    ...initialState,
+  }));
+
+  const state = useMemo<SeizenTableState>(() => {
+    const merged = { ...internalState };
+    if (controlledState) {
+      for (const key of Object.keys(controlledState) as Array<
+        keyof SeizenTableState
+      >) {
+        if (controlledState[key] !== undefined) {
+          (merged as Record<string, unknown>)[key] = controlledState[key];
+        }
+      }
+    }
+    return merged;
+  }, [internalState, controlledState]);
+
+  // Latest state for updaters. Updated synchronously on every change so that
+  // consecutive updates in the same tick build on each other.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const controlledStateRef = useRef(controlledState);
+  controlledStateRef.current = controlledState;
+  const onStateChangeRef = useRef(onStateChange);
+  onStateChangeRef.current = onStateChange;
+
+  const updateSlice = useCallback(
+    <K extends keyof SeizenTableState>(
+      key: K,
+      updater: Updater<SeizenTableState[K]>
+    ) => {
+      const current = stateRef.current;
+      const nextValue =
+        typeof updater === "function"
+          ? (updater as (old: SeizenTableState[K]) => SeizenTableState[K])(
+              current[key]
+            )
+          : updater;
+      if (Object.is(nextValue, current[key])) return;
+
+      const nextState = { ...current, [key]: nextValue };
+      stateRef.current = nextState;
+
+      if (controlledStateRef.current?.[key] === undefined) {
+        setInternalState((prev) => ({ ...prev, [key]: nextValue }));
+      }
+      onStateChangeRef.current?.(nextState);
+    },
+    []
+  );
+
+  const setters = useMemo<SeizenTableStateSetters>(
+    () => ({
+      setSorting: (updater) => updateSlice("sorting", updater),
+      setColumnFilters: (updater) => updateSlice("columnFilters", updater),
+      setGlobalFilter: (updater) => updateSlice("globalFilter", updater),
+      setPagination: (updater) => updateSlice("pagination", updater),
+      setColumnVisibility: (updater) =>
+        updateSlice("columnVisibility", updater),
+      setColumnOrder: (updater) => updateSlice("columnOrder", updater),
+      setColumnSizing: (updater) => updateSlice("columnSizing", updater),
+      setColumnPinning: (updater) => updateSlice("columnPinning", updater),
+      setGrouping: (updater) => updateSlice("grouping", updater),
+      setRowSelection: (updater) => updateSlice("rowSelection", updater),
+    }),
+    [updateSlice]
+  );
+
+  return [state, setters];
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useSeizenTable } from "./useSeizenTable";
+import type { SeizenTableColumn } from "./useSeizenTable";
+import { useSeizenTableUrlState } from "./useSeizenTableUrlState";
+import type { UseSeizenTableUrlStateOptions } from "./useSeizenTableUrlState";
+import type { UrlStateAdapter } from "./urlState";
+
+// =============================================================================
+// Test Data Types
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  name: string;
+  status: string;
+}
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const data: TestRow[] = Array.from({ length: 30 }, (_, i) => ({
+  id: i + 1,
+  name: `User ${i + 1}`,
+  status: i % 2 === 0 ? "active" : "inactive",
+}));
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  { accessorKey: "id", header: "ID" },
+  { accessorKey: "name", header: "Name" },
+  { accessorKey: "status", header: "Status" },
+];
+
+function createMemoryAdapter(initialSearch = "") {
+  let search = initialSearch;
+  const listeners = new Set<() => void>();
+  const adapter = {
+    read: () => search,
+    write: vi.fn((next: string) => {
+      search = next;
+    }),
+    subscribe: (callback: () => void) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+  } satisfies UrlStateAdapter;
+
+  return {
+    adapter,
+    getSearch: () => search,
+    navigate: (next: string) => {
+      search = next;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+function renderUrlState(options: UseSeizenTableUrlStateOptions) {
+  return renderHook(() => {
+    const table = useSeizenTable({ data, columns });
+    useSeizenTableUrlState(table, options);
+    return table;
+  });
+}
+
+// =============================================================================
+// useSeizenTableUrlState Hook Tests
+// =============================================================================
+
+describe("useSeizenTableUrlState", () => {
+  it("restores state from the URL on mount", async () => {
+    const { adapter } = createMemoryAdapter(
+      "v=1&sort=-name&page=2&f.status=equals:active"
+    );
+    const { result } = renderUrlState({ adapter });
+
+    await waitFor(() => {
+      expect(result.current.getPaginationState().pageIndex).toBe(1);
+    });
+    expect(result.current.getSortingState()).toEqual([
+      { id: "name", desc: true },
+    ]);
+    expect(result.current.getFilterState()).toEqual([
+      { id: "status", value: { operator: "equals", value: "active" } },
+    ]);
+    expect(adapter.write).not.toHaveBeenCalled();
+  });
+
+  it("does not write the URL when the state is unchanged", () => {
+    const { adapter } = createMemoryAdapter("tab=users");
+    renderUrlState({ adapter });
+
+    expect(adapter.write).not.toHaveBeenCalled();
+  });
+
+  it("writes state changes to the URL and keeps unrelated params", () => {
+    const { adapter, getSearch } = createMemoryAdapter("tab=users");
+    const { result } = renderUrlState({ adapter });
+
+    act(() => {
+      result.current.setSorting([{ id: "name", desc: false }]);
+    });
+
+    const params = new URLSearchParams(getSearch());
+    expect(params.get("tab")).toBe("users");
+    expect(params.get("sort")).toBe("name");
+    expect(params.get("v")).toBe("1");
+    expect(adapter.write).toHaveBeenLastCalledWith(getSearch(), {
+      replace: true,
+    });
+  });
+
+  it("removes params when the state returns to the defaults", () => {
+    const { adapter, getSearch } = createMemoryAdapter("tab=users");
+    const { result } = renderUrlState({ adapter });
+
+    act(() => {
+      result.current.setGlobalFilter("user");
+    });
+    act(() => {
+      result.current.setGlobalFilter("");
+    });
+
+    expect(getSearch()).toBe("tab=users");
+  });
+
+  it("keeps state cleared from a non-empty initial state on reload", async () => {
+    const { adapter, getSearch } = createMemoryAdapter();
+    const renderWithInitialSort = () =>
+      renderHook(() => {
+        const table = useSeizenTable({
+          data,
+          columns,
+          initialState: { sorting: [{ id: "name", desc: false }] },
+        });
+        useSeizenTableUrlState(table, { adapter });
+        return table;
+      });
+
+    const first = renderWithInitialSort();
+    act(() => {
+      first.result.current.setSorting([]);
+    });
+    expect(getSearch()).toBe("sort=&v=1");
+    first.unmount();
+
+    const { result } = renderWithInitialSort();
+    await waitFor(() => {
+      expect(result.current.getSortingState()).toEqual([]);
+    });
+  });
+
+  it("writes state changes made while the URL is being restored", async () => {
+    const { adapter, getSearch } = createMemoryAdapter("v=1&q=user");
+    const { result } = renderUrlState({ adapter });
+
+    act(() => {
+      result.current.setSorting([{ id: "name", desc: false }]);
+    });
+
+    await waitFor(() => {
+      expect(getSearch()).toBe("q=user&sort=name&v=1");
+    });
+  });
+
+  it("pushes history entries in push mode", () => {
+    const { adapter } = createMemoryAdapter();
+    const { result } = renderUrlState({ adapter, history: "push" });
+
+    act(() => {
+      result.current.setPageIndex(2);
+    });
+
+    expect(adapter.write).toHaveBeenCalledWith("page=3&v=1", {
+      replace: false,
+    });
+  });
+
+  it("applies back/forward navigation to the table", async () => {
+    const { adapter, navigate } = createMemoryAdapter();
+    const { result } = renderUrlState({ adapter });
+
+    act(() => {
+      navigate("v=1&q=user");
+    });
+    expect(result.current.getGlobalFilter()).toBe("user");
+
+    act(() => {
+      navigate("");
+    });
+    expect(result.current.getGlobalFilter()).toBe("");
+
+    await waitFor(() => {
+      expect(adapter.write).not.toHaveBeenCalled();
+    });
+  });
+
+  it("only syncs included slices", () => {
+    const { adapter, getSearch } = createMemoryAdapter("v=1&q=user");
+    const { result } = renderUrlState({ adapter, include: ["sorting"] });
+
+    expect(result.current.getGlobalFilter()).toBe("");
+
+    act(() => {
+      result.current.setSorting([{ id: "name", desc: false }]);
+    });
+    expect(getSearch()).toBe("q=user&sort=name&v=1");
+  });
+});
@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SeizenTableInstance } from "./useSeizenTable";
+import {
+  decodeUrlState,
+  encodeUrlState,
+  getUrlStateSlice,
+  historyUrlAdapter,
+  URL_STATE_VERSION,
+  type SeizenTableUrlState,
+  type UrlStateAdapter,
+  type UrlStateKey,
+} from "./urlState";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UseSeizenTableUrlStateOptions {
+  /**
+   * State slices to synchronize with the URL.
+   * @default all slices except row selection
+   */
+  include?: UrlStateKey[];
+
+  /**
+   * Prefix for query parameter keys.
+   * Set this when more than one table on the page syncs its state.
+   * @default ""
+   */
+  prefix?: string;
+
+  /**
+   * Adapter for reading and writing the query string.
+   * @default History API adapter
+   */
+  adapter?: UrlStateAdapter;
+
+  /**
+   * How state changes are recorded in the browser history.
+   * - "replace": Update the current history entry
+   * - "push": Add a new history entry for every change
+   * @default "replace"
+   */
+  history?: "replace" | "push";
+}
+
+const ALL_URL_STATE_KEYS: UrlStateKey[] = [
+  "columnFilters",
+  "globalFilter",
+  "sorting",
+  "pagination",
+  "columnVisibility",
+  "columnOrder",
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function readTableState<TData>(
+  table: SeizenTableInstance<TData>
+): SeizenTableUrlState {
+  return {
+    columnFilters: table.getFilterState(),
+    globalFilter: table.getGlobalFilter(),
+    sorting: table.getSortingState(),
+    pagination: table.getPaginationState(),
+    columnVisibility: table.getColumnVisibility(),
+    columnOrder: table.getColumnOrder(),
+  };
+}
+
+function pickSlices(
+  state: SeizenTableUrlState,
+  include: UrlStateKey[]
+): Partial<SeizenTableUrlState> {
+  const picked: Partial<SeizenTableUrlState> = {};
+  for (const key of include) {
+    (picked as Record<string, unknown>)[key] = state[key];
+  }
+  return picked;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Replace the parameters of the synchronized slices in a query string,
+ * keeping unrelated parameters and those of other slices
+ */
+function mergeSearch(
+  currentSearch: string,
+  encoded: URLSearchParams,
+  prefix: string,
+  include: UrlStateKey[]
+): string {
+  const params = new URLSearchParams(currentSearch);
+  for (const key of Array.from(new Set(params.keys()))) {
+    const slice = getUrlStateSlice(key, prefix);
+    if (slice === "version" || (slice !== null && include.includes(slice))) {
+      params.delete(key);
+    }
+  }
+  encoded.forEach((value, key) => {
+    if (getUrlStateSlice(key, prefix) !== "version") {
+      params.append(key, value);
+    }
+  });
+
+  const hasState = Array.from(params.keys()).some(
+    (key) => getUrlStateSlice(key, prefix) !== null
+  );
+  if (hasState) {
+    params.set(`${prefix}v`, String(URL_STATE_VERSION));
+  }
+  return params.toString();
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Hook to synchronize SeizenTable state with the URL query string.
+ *
+ * Restores filters, sorting, pagination, column visibility and column order
+ * from the URL on mount, and writes them back whenever they change, so that
+ * table views can be bookmarked and shared. Back/forward navigation is
+ * applied to the table as well.
+ *
+ * Values equal to the table's initial state are omitted from the URL, and
+ * query parameters not managed by the hook are left untouched.
+ *
+ * @param table - The SeizenTable instance from useSeizenTable
+ * @param options - Sync options
+ *
+ * @example
+ * ```tsx
+ * function UsersTable() {
+ *   const table = useSeizenTable({ data, columns });
+ *
+ *   // ?v=1&sort=-createdAt&page=2&f.status=equals:active
+ *   useSeizenTableUrlState(table, { history: "push" });
+ *
+ *   return <SeizenTable table={table} />;
+ * }
+ * ```
+ *
+ * @example Router integration
+ * ```tsx
+ * useSeizenTableUrlState(table, {
+ *   adapter: {
+ *     read: () => searchParams.toString(),
+ *     write: (search) => router.replace(`${pathname}?${search}`),
+ *   },
+ * });
+ * ```
+ */
+export function useSeizenTableUrlState<TData>(
+  table: SeizenTableInstance<TData>,
+  options: UseSeizenTableUrlStateOptions = {}
+): void {
+  const {
+    include = ALL_URL_STATE_KEYS,
+    prefix = "",
+    adapter = historyUrlAdapter,
+    history = "replace",
+  } = options;
+
+  const tableRef = useRef(table);
+  tableRef.current = table;
+  const includeRef = useRef(include);
+  includeRef.current = include;
+  const adapterRef = useRef(adapter);
+  adapterRef.current = adapter;
+
+  // State before restoring from the URL; values equal to it are omitted
+  const defaultsRef = useRef<SeizenTableUrlState | null>(null);
+  if (defaultsRef.current === null) {
+    defaultsRef.current = readTableState(table);
+  }
+  const defaults = defaultsRef.current;
+
+  // True while restored state is being applied; URL writes are queued
+  // until the restore finishes
+  const restoringRef = useRef(false);
+  const restoreTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [writeRequest, setWriteRequest] = useState(0);
+
+  const applyFromUrl = useCallback(
+    (resetMissing: boolean) => {
+      const decoded = decodeUrlState(
+        new URLSearchParams(adapterRef.current.read()),
+        { prefix, defaults }
+      );
+      if (!decoded && !resetMissing) return;
+
+      const target = decoded ?? defaults;
+      const current = tableRef.current;
+      const currentState = readTableState(current);
+      const keys = includeRef.current;
+
+      const changedKeys = ALL_URL_STATE_KEYS.filter(
+        (key) =>
+          keys.includes(key) && !isSameValue(currentState[key], target[key])
+      );
+      if (changedKeys.length === 0) return;
+
+      for (const key of changedKeys) {
+        switch (key) {
+          case "columnFilters":
+            current.setFilter(target.columnFilters);
+            break;
+          case "globalFilter":
+            current.setGlobalFilter(target.globalFilter);
+            break;
+          case "sorting":
+            current.setSorting(target.sorting);
+            break;
+          case "pagination":
+            current.setPageSize(target.pagination.pageSize);
+            current.setPageIndex(target.pagination.pageIndex);
+            break;
+          case "columnVisibility":
+            current.setColumnVisibility(target.columnVisibility);
+            break;
+          case "columnOrder":
+            current.setColumnOrder(target.columnOrder);
+            break;
+        }
+      }
+
+      restoringRef.current = true;
+
+      // Filter and sorting changes reset the page index after the next
+      // render, so the restored page is applied again once that has happened
+      if (restoreTimerRef.current) clearTimeout(restoreTimerRef.current);
+      restoreTimerRef.current = setTimeout(() => {
+        restoreTimerRef.current = null;
+        restoringRef.current = false;
+        // Write the changes made while restoring, after the next render
+        setWriteRequest((request) => request + 1);
+        const latest = tableRef.current;
+        if (
+          keys.includes("pagination") &&
+          !isSameValue(latest.getPaginationState(), target.pagination)
+        ) {
+          latest.setPageSize(target.pagination.pageSize);
+          latest.setPageIndex(target.pagination.pageIndex);
+        }
+      }, 0);
+    },
+    [prefix, defaults]
+  );
+
+  // Restore on mount and on back/forward navigation
+  useEffect(() => {
+    applyFromUrl(false);
+    const unsubscribe = adapterRef.current.subscribe?.(() =>
+      applyFromUrl(true)
+    );
+    return () => {
+      unsubscribe?.();
+      if (restoreTimerRef.current) {
+        clearTimeout(restoreTimerRef.current);
+        restoreTimerRef.current = null;
+      }
+      restoringRef.current = false;
+    };
+  }, [applyFromUrl]);
+
+  const search = encodeUrlState(pickSlices(readTableState(table), include), {
+    prefix,
+    defaults,
+  }).toString();
+
+  // Write state changes to the URL
+  useEffect(() => {
+    if (restoringRef.current) return;
+
+    const currentSearch = adapterRef.current.read();
+    const nextSearch = mergeSearch(
+      currentSearch,
+      new URLSearchParams(search),
+      prefix,
+      includeRef.current
+    );
+    if (nextSearch === new URLSearchParams(currentSearch).toString()) return;
+
+    adapterRef.current.write(nextSearch, { replace: history === "replace" });
+  }, [search, prefix, history, writeRequest]);
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { computeRowOffsets, getVirtualRange } from "./virtualize";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createRowIds(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => String(i));
+}
+
+// =============================================================================
+// computeRowOffsets
+// =============================================================================
+
+describe("computeRowOffsets", () => {
+  it("returns prefix sums with total height as the last entry", () => {
+    const offsets = computeRowOffsets(createRowIds(3), () => 40);
+    expect(offsets).toEqual([0, 40, 80, 120]);
+  });
+
+  it("uses per-row heights", () => {
+    const heights: Record<string, number> = { a: 10, b: 30, c: 20 };
+    const offsets = computeRowOffsets(["a", "b", "c"], (id) => heights[id]);
+    expect(offsets).toEqual([0, 10, 40, 60]);
+  });
+
+  it("returns a single zero offset for empty rows", () => {
+    expect(computeRowOffsets([], () => 40)).toEqual([0]);
+  });
+});
+
+// =============================================================================
+// getVirtualRange
+// =============================================================================
+
+describe("getVirtualRange", () => {
+  const offsets = computeRowOffsets(createRowIds(1000), () => 40);
+
+  it("returns an empty range when there are no rows", () => {
+    expect(getVirtualRange([0], 0, 400, 5)).toEqual({ start: 0, end: 0 });
+  });
+
+  it("renders visible rows plus overscan at the top", () => {
+    // 400px viewport shows rows 0-10 (row 10 starts exactly at the bottom edge)
+    expect(getVirtualRange(offsets, 0, 400, 5)).toEqual({ start: 0, end: 16 });
+  });
+
+  it("renders visible rows plus overscan in the middle", () => {
+    // scrollTop 4000 => first visible row 100, last visible row 110
+    expect(getVirtualRange(offsets, 4000, 400, 5)).toEqual({
+      start: 95,
+      end: 116,
+    });
+  });
+
+  it("handles partially visible rows", () => {
+    expect(getVirtualRange(offsets, 4020, 400, 0)).toEqual({
+      start: 100,
+      end: 111,
+    });
+  });
+
+  it("clamps the range at the end of the rows", () => {
+    expect(getVirtualRange(offsets, 39_800, 400, 5)).toEqual({
+      start: 990,
+      end: 1000,
+    });
+  });
+
+  it("treats negative scroll positions as the top", () => {
+    expect(getVirtualRange(offsets, -100, 400, 0)).toEqual({
+      start: 0,
+      end: 11,
+    });
+  });
+
+  it("respects variable row heights", () => {
+    const heights = [100, 10, 10, 10, 100];
+    const variableOffsets = computeRowOffsets(
+      createRowIds(5),
+      (id) => heights[Number(id)]
+    );
+    // 105-125px covers rows 1 (100-110), 2 (110-120) and 3 (120-130)
+    expect(getVirtualRange(variableOffsets, 105, 20, 0)).toEqual({
+      start: 1,
+      end: 4,
+    });
+  });
+});
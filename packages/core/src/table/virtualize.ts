@@ -0,0 +1,93 @@
+/**
+ * Row virtualization helpers used by SeizenTable.VirtualBody.
+ * Kept free of React so the range math can be tested in isolation.
+ */
+
+/**
+ * Visible row range (end is exclusive)
+ */
+export interface VirtualRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Build prefix-sum offsets for a list of rows.
+ *
+ * The returned array has `rowIds.length + 1` entries: `offsets[i]` is the top
+ * of row `i` and the last entry is the total height of all rows.
+ */
+export function computeRowOffsets(
+  rowIds: string[],
+  getRowHeight: (rowId: string) => number
+): number[] {
+  const offsets = new Array<number>(rowIds.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < rowIds.length; i++) {
+    offsets[i + 1] = offsets[i] + getRowHeight(rowIds[i]);
+  }
+  return offsets;
+}
+
+/**
+ * Find the index of the row that contains the given vertical position.
+ */
+function findRowIndex(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >>> 1;
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(low, 0);
+}
+
+/**
+ * Calculate which rows should be mounted for the current scroll position.
+ *
+ * @param offsets - Prefix-sum offsets from computeRowOffsets
+ * @param scrollTop - Scroll position relative to the top of the first row
+ * @param viewportHeight - Height of the visible area
+ * @param overscan - Number of extra rows to mount above and below the viewport
+ */
+export function getVirtualRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number
+): VirtualRange {
+  const rowCount = offsets.length - 1;
+  if (rowCount <= 0) {
+    return { start: 0, end: 0 };
+  }
+
+  const top = Math.max(scrollTop, 0);
+  const bottom = top + Math.max(viewportHeight, 0);
+  const firstVisible = findRowIndex(offsets, top);
+  const lastVisible = findRowIndex(offsets, bottom);
+
+  return {
+    start: Math.max(firstVisible - overscan, 0),
+    end: Math.min(lastVisible + overscan + 1, rowCount),
+  };
+}
+
+/**
+ * Find the nearest ancestor that scrolls vertically.
+ * Returns null when the document itself is the scroll container.
+ */
+export function getScrollParent(element: HTMLElement): HTMLElement | null {
+  let parent = element.parentElement;
+  while (parent) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === "auto" || overflowY === "scroll") {
+      return parent;
+    }
+    parent = parent.parentElement;
+  }
+  return null;
+}
@@ -76,10 +76,14 @@ export function createMockTableInstance(
     getSelectedRows: () => [],
     setSelectedRows: vi.fn(),
     clearSelection: vi.fn(),
+    selectAllRows: vi.fn(),
+    getIsAllRowsSelected: () => false,
     getFilterState: () => [],
     setFilter: vi.fn(),
     getGlobalFilter: () => "",
     setGlobalFilter: vi.fn(),
+    highlightSearchMatches: (text: string) => text,
+    getColumnFacets: () => undefined,
     getSortingState: () => [],
     setSorting: vi.fn(),
     getPaginationState: () => ({ pageIndex: 0, pageSize: 10 }),
@@ -91,6 +95,22 @@ export function createMockTableInstance(
     getColumnOrder: () => [],
     setColumnOrder: vi.fn(),
     moveColumn: vi.fn(),
+    getColumnSizing: () => ({}),
+    setColumnSizing: vi.fn(),
+    getColumnPinning: () => ({ left: [], right: [] }),
+    pinColumn: vi.fn(),
+    getGrouping: () => [],
+    setGrouping: vi.fn(),
+    getColumnAggregates: () => ({}),
+    getExportData: () => ({ columns: [], rows: [], rowCount: 0 }),
+    getIsRowLoading: () => false,
+    getEditingCell: () => null,
+    startCellEdit: vi.fn(),
+    setCellEditDraft: vi.fn(),
+    commitCellEdit: vi.fn(() => true),
+    cancelCellEdit: vi.fn(),
+    getPendingCellEdit: () => undefined,
+    rollbackCellEdit: vi.fn(),
     plugins: [],
     plugin: mockPlugin as SeizenTableInstance<TestRow>["plugin"],
     eventBus: eventBus as SeizenTableInstance<TestRow>["eventBus"],
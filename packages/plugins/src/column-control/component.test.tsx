@@ -137,6 +137,38 @@ describe("VisibilityTab", () => {
     expect(screen.getByText("Email")).toBeInTheDocument();
   });
 
+  it("shows pin state for pinned columns", () => {
+    setupMocks({
+      table: createMockTable({
+        columnPinning: { left: ["name"], right: ["email"] },
+      }),
+    });
+
+    render(<VisibilityTab />);
+
+    expect(
+      screen.getByRole("button", { name: "Unpin Name" })
+    ).toHaveTextContent("Pinned left");
+    expect(
+      screen.getByRole("button", { name: "Unpin Email" })
+    ).toHaveTextContent("Pinned right");
+    expect(
+      screen.queryByRole("button", { name: "Unpin Age" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("unpins a column when the pin badge is clicked", async () => {
+    const user = userEvent.setup();
+    const { table } = setupMocks({
+      table: createMockTable({ columnPinning: { left: ["name"] } }),
+    });
+
+    render(<VisibilityTab />);
+    await user.click(screen.getByRole("button", { name: "Unpin Name" }));
+
+    expect(table.pinColumn).toHaveBeenCalledWith("name", false);
+  });
+
   it("shows all columns when search is cleared", async () => {
     const user = userEvent.setup();
     render(<VisibilityTab />);
@@ -569,4 +601,5 @@ describe("useColumnControlEvents", () => {
       ]);
     });
   });
+
 });
@@ -56,6 +56,7 @@ export function TabButton({
 export function VisibilityTab() {
   const { columns, table } = usePluginContext();
   const columnVisibility = table.getColumnVisibility();
+  const columnPinning = table.getColumnPinning();
   const [searchQuery, setSearchQuery] = useState("");
   const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<string | null>(null);
@@ -63,6 +64,13 @@ export function VisibilityTab() {
   const isColumnVisible = (columnKey: string) =>
     columnVisibility[columnKey] !== false;
 
+  const getPinPosition = (columnKey: string) =>
+    columnPinning.left?.includes(columnKey)
+      ? "left"
+      : columnPinning.right?.includes(columnKey)
+      ? "right"
+      : false;
+
   const filteredColumns = columns.filter(
     (column) =>
       column.header.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -140,6 +148,7 @@ export function VisibilityTab() {
         {filteredColumns.map((column) => {
           const isDragging = draggedColumn === column.key;
           const isDragOver = dragOverColumn === column.key;
+          const pinPosition = getPinPosition(column.key);
 
           return (
             <div
@@ -211,6 +220,27 @@ export function VisibilityTab() {
                   {column.header}
                 </span>
               </label>
+
+              {pinPosition && (
+                <button
+                  onClick={() => table.pinColumn(column.key, false)}
+                  aria-label={`Unpin ${column.header}`}
+                  title="Unpin column"
+                  style={{
+                    padding: "2px 6px",
+                    fontSize: "11px",
+                    fontWeight: 500,
+                    color: "#3b82f6",
+                    backgroundColor: "#eff6ff",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {pinPosition === "left" ? "Pinned left" : "Pinned right"} ×
+                </button>
+              )}
             </div>
           );
         })}
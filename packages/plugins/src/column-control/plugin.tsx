@@ -45,7 +45,8 @@ const ColumnControlSchema = z.object({
  * ColumnControl Plugin
  *
  * Provides a side panel with two tabs:
- * - Visibility: Toggle column visibility and reorder columns via drag & drop
+ * - Visibility: Toggle column visibility, reorder columns via drag & drop
+ *   and see which columns are pinned
  * - Sorter: Add/remove sorting per column with asc/desc control and drag & drop priority
  *
  * @example
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  CsvExporter,
+  XlsxExporter,
+  createXlsxExporter,
+  type ExportColumn,
+} from "./exporters";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const columns: ExportColumn[] = [
+  { key: "code", header: "Code" },
+  { key: "name", header: "Name" },
+  { key: "salary", header: "Salary" },
+  { key: "joinedAt", header: "Joined At" },
+];
+
+const data = [
+  { code: "007", name: "Alice <A&B>", salary: 85000, joinedAt: "2024-06-01" },
+  { code: "042", name: "Bob", salary: 72000.5, joinedAt: null },
+];
+
+/**
+ * Read the files of a ZIP archive stored without compression
+ */
+function readZip(zip: Uint8Array): Record<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    const name = decoder.decode(zip.subarray(offset + 30, start));
+    files[name] = decoder.decode(zip.subarray(start, start + size));
+    offset = start + size;
+  }
+  return files;
+}
+
+function getSheetXml(content: string | Uint8Array | Blob): string {
+  if (!(content instanceof Uint8Array)) throw new Error("Expected binary");
+  return readZip(content)["xl/worksheets/sheet1.xml"];
+}
+
+// =============================================================================
+// XlsxExporter
+// =============================================================================
+
+describe("XlsxExporter", () => {
+  it("writes a workbook package", () => {
+    const content = XlsxExporter.convert(data, columns, {
+      includeHeaders: true,
+    });
+
+    expect(content).toBeInstanceOf(Uint8Array);
+    expect(Object.keys(readZip(content as Uint8Array))).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+  });
+
+  it("keeps numbers and dates as native cells", () => {
+    const sheet = getSheetXml(
+      XlsxExporter.convert(data, columns, { includeHeaders: false })
+    );
+
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t');
+    expect(sheet).toContain(">007</t>");
+    expect(sheet).toContain(">Alice &lt;A&amp;B&gt;</t>");
+    expect(sheet).toContain('<c r="C1"><v>85000</v></c>');
+    expect(sheet).toContain('<c r="C2"><v>72000.5</v></c>');
+    // 2024-06-01 as an Excel serial date
+    expect(sheet).toContain('<c r="D1" s="2"><v>45444</v></c>');
+    expect(sheet).not.toContain('r="D2"');
+  });
+
+  it("writes a bold, frozen header row and sizes columns", () => {
+    const sheet = getSheetXml(
+      XlsxExporter.convert(data, columns, { includeHeaders: true })
+    );
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr">');
+    expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2"');
+    expect(sheet).toContain('<col min="1" max="1" width="8" customWidth="1"/>');
+    expect(sheet).toContain(
+      '<col min="2" max="2" width="13" customWidth="1"/>'
+    );
+  });
+
+  it("appends the totals row", () => {
+    const sheet = getSheetXml(
+      XlsxExporter.convert(data, columns, {
+        includeHeaders: true,
+        totals: { salary: 157000.5 },
+      })
+    );
+
+    expect(sheet).toContain('<row r="4"><c r="C4"><v>157000.5</v></c></row>');
+  });
+
+  it("applies the exporter options", () => {
+    const exporter = createXlsxExporter({
+      sheetName: "Users",
+      freezeHeader: false,
+      autoWidth: false,
+    });
+    const content = exporter.convert(data, columns, { includeHeaders: true });
+    const files = readZip(content as Uint8Array);
+
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="Users"');
+    expect(files["xl/worksheets/sheet1.xml"]).not.toContain("<pane");
+    expect(files["xl/worksheets/sheet1.xml"]).not.toContain("<cols>");
+  });
+});
+
+// =============================================================================
+// CsvExporter
+// =============================================================================
+
+describe("CsvExporter", () => {
+  it("writes headers, rows and totals", () => {
+    expect(
+      CsvExporter.convert(data, columns, {
+        includeHeaders: true,
+        totals: { salary: 157000.5 },
+      })
+    ).toBe(
+      [
+        "Code,Name,Salary,Joined At",
+        "007,Alice <A&B>,85000,2024-06-01",
+        "042,Bob,72000.5,",
+        ",,157000.5,",
+      ].join("\n")
+    );
+  });
+});
@@ -1,3 +1,5 @@
+import { createXlsxWorkbook, type XlsxCellValue } from "./xlsx";
+
 // =============================================================================
 // Exporter Interface
 // =============================================================================
@@ -22,12 +24,12 @@ export interface Exporter {
   extension: string;
   /** MIME type for the file */
   mimeType: string;
-  /** Convert data to string */
+  /** Convert data to the file content, as text or binary */
   convert: (
     data: unknown[],
     columns: ExportColumn[],
     options: ExportOptions
-  ) => string;
+  ) => string | Uint8Array | Blob;
 }
 
 /**
@@ -36,6 +38,12 @@ export interface Exporter {
 export interface ExportOptions {
   /** Whether to include headers (for formats that support it) */
   includeHeaders: boolean;
+  /**
+   * Values of the table's footer row keyed by column key, to append as a
+   * totals row (for formats that support it). Omitted when totals are not
+   * included.
+   */
+  totals?: Record<string, unknown>;
 }
 
 // =============================================================================
@@ -82,8 +90,9 @@ export const CsvExporter: Exporter = {
       lines.push(headerRow.join(","));
     }
 
-    // Add data rows
-    for (const row of data) {
+    // Add data rows, followed by the totals row
+    const rows = options.totals ? [...data, options.totals] : data;
+    for (const row of rows) {
       const rowData = row as Record<string, unknown>;
       const values = columns.map((col) => {
         const value = rowData[col.key];
@@ -137,8 +146,9 @@ export const TsvExporter: Exporter = {
       lines.push(headerRow.join("\t"));
     }
 
-    // Add data rows
-    for (const row of data) {
+    // Add data rows, followed by the totals row
+    const rows = options.totals ? [...data, options.totals] : data;
+    for (const row of rows) {
       const rowData = row as Record<string, unknown>;
       const values = columns.map((col) => {
         const value = rowData[col.key];
@@ -151,3 +161,91 @@ export const TsvExporter: Exporter = {
     return lines.join("\n");
   },
 };
+
+/**
+ * Options of the XLSX exporter
+ */
+export interface XlsxExporterOptions {
+  /**
+   * Name of the worksheet
+   * @default "Sheet1"
+   */
+  sheetName?: string;
+  /**
+   * Freeze the header row so that it stays visible while scrolling
+   * @default true
+   */
+  freezeHeader?: boolean;
+  /**
+   * Size columns to fit their content
+   * @default true
+   */
+  autoWidth?: boolean;
+}
+
+/**
+ * Value of an XLSX cell. Numbers, booleans, dates and ISO 8601 date strings
+ * keep their native types; other strings stay text, e.g. "007".
+ */
+function toXlsxCellValue(value: unknown): XlsxCellValue {
+  if (value === null || value === undefined) return null;
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  return formatValue(value);
+}
+
+/**
+ * Creates an XLSX (Excel) exporter. The workbook is generated in the
+ * browser, with a bold header row.
+ *
+ * @example
+ * ```tsx
+ * FileExportPlugin.configure({
+ *   exporters: [CsvExporter, createXlsxExporter({ sheetName: "Users" })],
+ * });
+ * ```
+ */
+export function createXlsxExporter(
+  xlsxOptions: XlsxExporterOptions = {}
+): Exporter {
+  const {
+    sheetName = "Sheet1",
+    freezeHeader = true,
+    autoWidth = true,
+  } = xlsxOptions;
+
+  return {
+    id: "xlsx",
+    name: "Excel",
+    extension: "xlsx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    convert: (data, columns, options) => {
+      // Data rows, followed by the totals row
+      const rows = options.totals ? [...data, options.totals] : data;
+      return createXlsxWorkbook({
+        name: sheetName,
+        header: options.includeHeaders
+          ? columns.map((col) => col.header)
+          : undefined,
+        rows: rows.map((row) => {
+          const rowData = row as Record<string, unknown>;
+          return columns.map((col) => toXlsxCellValue(rowData[col.key]));
+        }),
+        freezeHeader,
+        autoWidth,
+      });
+    },
+  };
+}
+
+/**
+ * XLSX (Excel) Exporter with a frozen header row and columns sized to fit
+ */
+export const XlsxExporter: Exporter = createXlsxExporter();
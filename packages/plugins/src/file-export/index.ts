@@ -1,3 +1,14 @@
 export { FileExportPlugin } from "./plugin";
-export type { Exporter, ExportColumn, ExportOptions } from "./exporters";
-export { CsvExporter, JsonlExporter, TsvExporter } from "./exporters";
+export type {
+  Exporter,
+  ExportColumn,
+  ExportOptions,
+  XlsxExporterOptions,
+} from "./exporters";
+export {
+  CsvExporter,
+  JsonlExporter,
+  TsvExporter,
+  XlsxExporter,
+  createXlsxExporter,
+} from "./exporters";
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, act } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {
+  SeizenTable,
+  useSeizenTable,
+  type SeizenTableColumn,
+  type SeizenTableInstance,
+} from "@izumisy/seizen-table";
+import { FileExportPlugin } from "./plugin";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+interface TestRow {
+  id: number;
+  firstName: string;
+  lastName: string;
+  joinedAt: Date;
+}
+
+const data: TestRow[] = [
+  {
+    id: 1,
+    firstName: "Alice",
+    lastName: "Smith",
+    joinedAt: new Date(2024, 5, 1),
+  },
+  {
+    id: 2,
+    firstName: "Bob",
+    lastName: "Jones",
+    joinedAt: new Date(2023, 0, 15),
+  },
+];
+
+const columns: SeizenTableColumn<TestRow>[] = [
+  {
+    id: "fullName",
+    header: "Full Name",
+    accessorFn: (row) => `${row.firstName} ${row.lastName}`,
+  },
+  {
+    accessorKey: "joinedAt",
+    header: "Joined",
+    cell: ({ getValue }) => getValue<Date>().toLocaleDateString(),
+    meta: {
+      exportValue: (value) => (value as Date).getFullYear(),
+    },
+  },
+];
+
+function renderTable(tableColumns = columns) {
+  const ref = {} as { current: SeizenTableInstance<TestRow> };
+
+  function TestTable() {
+    const table = useSeizenTable({
+      data,
+      columns: tableColumns,
+      plugins: [FileExportPlugin.configure({ filename: "users" })],
+    });
+    ref.current = table;
+    return <SeizenTable table={table} />;
+  }
+
+  render(<TestTable />);
+  act(() => ref.current.plugin.open("file-export", {}));
+  return ref;
+}
+
+/**
+ * Capture the files downloaded by the panel
+ */
+function captureDownloads(): Blob[] {
+  const blobs: Blob[] = [];
+  vi.spyOn(URL, "createObjectURL").mockImplementation((blob) => {
+    blobs.push(blob as Blob);
+    return "blob:export";
+  });
+  vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+  vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(
+    () => {}
+  );
+  return blobs;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// =============================================================================
+// FileExportPlugin Tests
+// =============================================================================
+
+describe("FileExportPlugin", () => {
+  it("exports values read by accessors and converted by exportValue", async () => {
+    const user = userEvent.setup();
+    const downloads = captureDownloads();
+    renderTable();
+
+    await user.click(screen.getByRole("button", { name: "Export CSV" }));
+
+    expect(downloads).toHaveLength(1);
+    expect(await downloads[0].text()).toBe(
+      ["Full Name,Joined", "Alice Smith,2024", "Bob Jones,2023"].join("\n")
+    );
+  });
+
+  it("exports the totals formatted as in the footer", async () => {
+    const user = userEvent.setup();
+    const downloads = captureDownloads();
+    renderTable([
+      ...columns,
+      {
+        accessorKey: "id",
+        header: "ID",
+        meta: { aggregate: "sum", format: (value) => `#${value}` },
+      },
+    ]);
+
+    await user.click(screen.getByRole("checkbox", { name: "Include totals" }));
+    await user.click(screen.getByRole("button", { name: "Export CSV" }));
+
+    expect(await downloads[0].text()).toMatch(/\n,,#3$/);
+  });
+
+  it("previews the exported values", () => {
+    renderTable();
+
+    expect(screen.getByText(/Alice Smith,2024/)).toBeInTheDocument();
+  });
+});
@@ -5,7 +5,8 @@ import {
   usePluginContext,
   usePluginArgs,
 } from "@izumisy/seizen-table/plugin";
-import { CsvExporter, type Exporter } from "./exporters";
+import type { ExportDataColumn } from "@izumisy/seizen-table";
+import { CsvExporter, type ExportColumn, type Exporter } from "./exporters";
 
 // =============================================================================
 // Module Augmentation for Type-Safe Plugin Args & Events
@@ -37,6 +38,8 @@ const FileExportSchema = z.object({
   filename: z.string().default("export"),
   /** Whether to include headers by default */
   includeHeaders: z.boolean().default(true),
+  /** Whether to include the table's footer row (totals) by default */
+  includeTotals: z.boolean().default(false),
   /** Available exporters */
   exporters: z.array(z.custom<Exporter>()).default([CsvExporter]),
 });
@@ -44,14 +47,15 @@ const FileExportSchema = z.object({
 type FileExportConfig = z.infer<typeof FileExportSchema>;
 
 /**
- * Download a string as a file
+ * Download text or binary content as a file
  */
 function downloadFile(
-  content: string,
+  content: string | Uint8Array | Blob,
   filename: string,
   mimeType: string
 ): void {
-  const blob = new Blob([content], { type: mimeType });
+  const blob =
+    content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
@@ -62,46 +66,69 @@ function downloadFile(
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Columns of the table's export data, keyed by column ID
+ */
+function toExportColumns(columns: ExportDataColumn[]): ExportColumn[] {
+  return columns.map((col) => ({ key: col.id, header: col.header }));
+}
+
 /**
  * FileExportPanel - Main panel component for the plugin
  */
 function FileExportPanel() {
   const args = usePluginArgs<FileExportConfig>();
-  const { data, columns, table } = usePluginContext();
+  const { table } = usePluginContext();
   const [filename, setFilename] = useState(args.filename);
   const [includeHeaders, setIncludeHeaders] = useState(args.includeHeaders);
+  const [includeTotals, setIncludeTotals] = useState(args.includeTotals);
   const [selectedExporterId, setSelectedExporterId] = useState(
     args.exporters[0]?.id ?? "csv"
   );
   const [exported, setExported] = useState(false);
 
-  // Filter columns based on visibility
-  const columnVisibility = table.getColumnVisibility();
-  const visibleColumns = columns.filter(
-    (col) => columnVisibility[col.key] !== false
-  );
+  // Visible columns in display order, and the first rows for the preview
+  const preview = table.getExportData({ maxRows: 3 });
+  const rowCount = preview.rowCount;
 
   const selectedExporter =
     args.exporters.find((e) => e.id === selectedExporterId) ??
     args.exporters[0];
+  // Headers and totals only apply to tabular formats
+  const isTabularFormat =
+    selectedExporter?.id === "csv" ||
+    selectedExporter?.id === "tsv" ||
+    selectedExporter?.id === "xlsx";
+
+  // Values of the footer row, if any exported column has an aggregate
+  const hasTotals = preview.totals !== undefined;
+  const shouldExportTotals = includeTotals && isTabularFormat;
 
   const handleExport = useCallback(() => {
     if (!selectedExporter) return;
 
-    const content = selectedExporter.convert(data, visibleColumns, {
+    const { columns, rows, totals } = table.getExportData();
+    const content = selectedExporter.convert(rows, toExportColumns(columns), {
       includeHeaders,
+      totals: shouldExportTotals ? totals : undefined,
     });
     const fullFilename = `${filename}.${selectedExporter.extension}`;
     downloadFile(content, fullFilename, selectedExporter.mimeType);
     setExported(true);
     setTimeout(() => setExported(false), 2000);
-  }, [data, visibleColumns, filename, includeHeaders, selectedExporter]);
+  }, [table, filename, includeHeaders, shouldExportTotals, selectedExporter]);
 
-  const previewContent = selectedExporter
-    ? selectedExporter.convert(data.slice(0, 3), visibleColumns, {
-        includeHeaders,
-      })
-    : "No exporter selected";
+  const previewOutput = selectedExporter?.convert(
+    preview.rows,
+    toExportColumns(preview.columns),
+    { includeHeaders }
+  );
+  // Binary formats such as XLSX can't be previewed as text
+  const previewContent = !selectedExporter
+    ? "No exporter selected"
+    : typeof previewOutput === "string"
+    ? previewOutput
+    : `Preview is not available for ${selectedExporter.name} files`;
 
   return (
     <div
@@ -128,7 +155,7 @@ function FileExportPanel() {
           Rows to export
         </div>
         <div style={{ fontSize: "24px", fontWeight: 600, color: "#111827" }}>
-          {data.length}
+          {rowCount}
         </div>
       </div>
 
@@ -212,7 +239,7 @@ function FileExportPanel() {
       </div>
 
       {/* Include headers checkbox (only for formats that support it) */}
-      {(selectedExporter?.id === "csv" || selectedExporter?.id === "tsv") && (
+      {isTabularFormat && (
         <div>
           <label
             style={{
@@ -235,10 +262,34 @@ function FileExportPanel() {
         </div>
       )}
 
+      {/* Include totals checkbox (only when the table has a footer row) */}
+      {isTabularFormat && hasTotals && (
+        <div>
+          <label
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              fontSize: "14px",
+              color: "#374151",
+              cursor: "pointer",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={includeTotals}
+              onChange={(e) => setIncludeTotals(e.target.checked)}
+              style={{ width: "16px", height: "16px" }}
+            />
+            Include totals
+          </label>
+        </div>
+      )}
+
       {/* Export button */}
       <button
         onClick={handleExport}
-        disabled={data.length === 0 || !selectedExporter}
+        disabled={rowCount === 0 || !selectedExporter}
         style={{
           padding: "10px 16px",
           fontSize: "14px",
@@ -246,12 +297,12 @@ function FileExportPanel() {
           color: "#fff",
           backgroundColor: exported
             ? "#10b981"
-            : data.length === 0
+            : rowCount === 0
             ? "#9ca3af"
             : "#3b82f6",
           border: "none",
           borderRadius: "6px",
-          cursor: data.length === 0 ? "not-allowed" : "pointer",
+          cursor: rowCount === 0 ? "not-allowed" : "pointer",
           transition: "background-color 0.2s",
         }}
       >
@@ -296,7 +347,7 @@ function FileExportPanel() {
  * File Export Plugin
  *
  * Provides a UI for exporting table data to various file formats.
- * Supports CSV, JSONL, JSON, TSV out of the box, and custom exporters.
+ * Supports CSV, JSONL, TSV and XLSX out of the box, and custom exporters.
  *
  * @example
  * ```tsx
@@ -304,6 +355,7 @@ function FileExportPanel() {
  *   FileExportPlugin,
  *   CsvExporter,
  *   JsonlExporter,
+ *   XlsxExporter,
  * } from "@izumisy/seizen-table-plugins/file-export";
  *
  * // Single format (CSV only - default)
@@ -316,7 +368,7 @@ function FileExportPanel() {
  *   plugins: [
  *     FileExportPlugin.configure({
  *       filename: "users",
- *       exporters: [CsvExporter, JsonlExporter],
+ *       exporters: [CsvExporter, XlsxExporter, JsonlExporter],
  *     }),
  *   ],
  * });
@@ -0,0 +1,387 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) writer.
+ *
+ * Writes a workbook with a single worksheet, packaged as an uncompressed
+ * ZIP archive, so that files can be generated in the browser without
+ * dependencies or a server.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A cell value. Numbers, booleans and dates are written as native cells,
+ * everything else as text.
+ */
+export type XlsxCellValue = string | number | boolean | Date | null;
+
+/**
+ * Content and layout of a worksheet
+ */
+export interface XlsxSheet {
+  /** Name of the worksheet tab */
+  name: string;
+  /** Header row, written in bold */
+  header?: string[];
+  rows: XlsxCellValue[][];
+  /** Freeze the header row so that it stays visible while scrolling */
+  freezeHeader: boolean;
+  /** Size columns to fit their content */
+  autoWidth: boolean;
+}
+
+// =============================================================================
+// ZIP Archive
+// =============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Fixed modification date (1980-01-01) for reproducible archives */
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * Package files into a ZIP archive, stored without compression
+ */
+function createZip(files: { path: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const content = encoder.encode(file.content);
+    const crc = crc32(content);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // Local file header signature
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, 0x0800, true); // Flags: UTF-8 names
+    localView.setUint16(8, 0, true); // Compression: stored
+    localView.setUint16(10, 0, true); // Modification time
+    localView.setUint16(12, DOS_DATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, content.length, true); // Compressed size
+    localView.setUint32(22, content.length, true); // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // Central header signature
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed to extract
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, 0, true);
+    centralView.setUint16(14, DOS_DATE, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, content.length, true);
+    centralView.setUint32(24, content.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // Offset of the local header
+    central.set(name, 46);
+
+    chunks.push(local, content);
+    centralDirectory.push(central);
+    offset += local.length + content.length;
+  }
+
+  const centralSize = centralDirectory.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory
+  endView.setUint16(8, files.length, true); // Entries on this disk
+  endView.setUint16(10, files.length, true); // Total entries
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true); // Offset of the central directory
+
+  const parts = [...chunks, ...centralDirectory, end];
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+// =============================================================================
+// Cells
+// =============================================================================
+
+/** Style indexes of `cellXfs` in styles.xml */
+const STYLE_DEFAULT = 0;
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATE_TIME = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+/** Days between the Excel epoch (1899-12-30) and the Unix epoch */
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Escape text for XML, dropping characters XML doesn't allow
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\x09\x0a\x0d\x20-\ud7ff\ue000-\ufffd\ud800-\udfff]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Excel serial number of a date, in the local time it's displayed in
+ */
+function toSerialDate(date: Date): number {
+  const localTime = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  return localTime / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+}
+
+/**
+ * Date of a value: Date objects and ISO 8601 dates such as "2024-06-01" or
+ * "2024-06-01T09:30:00Z"
+ */
+function toDate(
+  value: XlsxCellValue
+): { date: Date; hasTime: boolean } | undefined {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return undefined;
+    const hasTime =
+      value.getHours() !== 0 ||
+      value.getMinutes() !== 0 ||
+      value.getSeconds() !== 0 ||
+      value.getMilliseconds() !== 0;
+    return { date: value, hasTime };
+  }
+  if (typeof value !== "string") return undefined;
+
+  const dateOnly = DATE_PATTERN.exec(value);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const date = new Date(year, month - 1, day);
+    // Reject dates that roll over, e.g. "2024-02-31"
+    if (date.getMonth() !== month - 1) return undefined;
+    return { date, hasTime: false };
+  }
+  if (DATE_TIME_PATTERN.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : { date, hasTime: true };
+  }
+  return undefined;
+}
+
+/**
+ * Column letters of a zero-based column index, e.g. 27 as "AB"
+ */
+function toColumnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function renderCell(ref: string, value: XlsxCellValue, style: number): string {
+  const s = style === STYLE_DEFAULT ? "" : ` s="${style}"`;
+  if (value === null || value === "") {
+    return style === STYLE_DEFAULT ? "" : `<c r="${ref}"${s}/>`;
+  }
+  if (typeof value === "number" && isFinite(value)) {
+    return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const date = style === STYLE_HEADER ? undefined : toDate(value);
+  if (date) {
+    const dateStyle = date.hasTime ? STYLE_DATE_TIME : STYLE_DATE;
+    return `<c r="${ref}" s="${dateStyle}"><v>${toSerialDate(date.date)}</v></c>`;
+  }
+  const text = escapeXml(String(value));
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+/**
+ * Displayed width of a value in characters, for sizing columns
+ */
+function getDisplayWidth(value: XlsxCellValue): number {
+  if (value === null) return 0;
+  const date = toDate(value);
+  if (date) return date.hasTime ? 19 : 10;
+  const lines = String(value).split("\n");
+  return Math.max(...lines.map((line) => line.length));
+}
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+function getColumnWidths(sheet: XlsxSheet): number[] {
+  const rows = sheet.header ? [sheet.header, ...sheet.rows] : sheet.rows;
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  return Array.from({ length: columnCount }, (_, index) => {
+    const content = Math.max(
+      0,
+      ...rows.map((row) => getDisplayWidth(row[index] ?? null))
+    );
+    // Padding for the cell margins and the header's bold font
+    return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, content + 2));
+  });
+}
+
+// =============================================================================
+// Workbook Parts
+// =============================================================================
+
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+const CONTENT_TYPES = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>\
+<Default Extension="xml" ContentType="application/xml"/>\
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>\
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>\
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>\
+</Types>`;
+
+const ROOT_RELS = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">\
+<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>\
+</Relationships>`;
+
+const WORKBOOK_RELS = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">\
+<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>\
+<Relationship Id="rId2" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/>\
+</Relationships>`;
+
+/** Cell formats, in the order of the STYLE_* indexes */
+const STYLES = `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NS}">\
+<numFmts count="2">\
+<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>\
+<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/>\
+</numFmts>\
+<fonts count="2">\
+<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>\
+<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font>\
+</fonts>\
+<fills count="2">\
+<fill><patternFill patternType="none"/></fill>\
+<fill><patternFill patternType="gray125"/></fill>\
+</fills>\
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>\
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>\
+<cellXfs count="4">\
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>\
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>\
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>\
+</cellXfs>\
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>\
+</styleSheet>`;
+
+/**
+ * Worksheet name Excel accepts: at most 31 characters, without []:*?/\
+ */
+function toSheetName(name: string): string {
+  const sanitized = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31);
+  return sanitized || "Sheet1";
+}
+
+function renderWorkbook(sheetName: string): string {
+  return `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">\
+<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>\
+</workbook>`;
+}
+
+function renderWorksheet(sheet: XlsxSheet): string {
+  const rows: { cells: XlsxCellValue[]; style: number }[] = sheet.header
+    ? [{ cells: sheet.header, style: STYLE_HEADER }]
+    : [];
+  for (const cells of sheet.rows) rows.push({ cells, style: STYLE_DEFAULT });
+
+  const rowsXml = rows
+    .map(({ cells, style }, rowIndex) => {
+      const r = rowIndex + 1;
+      const cellsXml = cells
+        .map((value, index) =>
+          renderCell(`${toColumnName(index)}${r}`, value, style)
+        )
+        .join("");
+      return `<row r="${r}">${cellsXml}</row>`;
+    })
+    .join("");
+
+  const pane =
+    sheet.header && sheet.freezeHeader
+      ? '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+      : "";
+  const sheetViews = `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>`;
+
+  const widths = sheet.autoWidth ? getColumnWidths(sheet) : [];
+  const cols =
+    widths.length > 0
+      ? `<cols>${widths
+          .map(
+            (width, index) =>
+              `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+          )
+          .join("")}</cols>`
+      : "";
+
+  return `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">\
+${sheetViews}${cols}<sheetData>${rowsXml}</sheetData>\
+</worksheet>`;
+}
+
+/**
+ * Write a worksheet as an XLSX workbook
+ */
+export function createXlsxWorkbook(sheet: XlsxSheet): Uint8Array {
+  return createZip([
+    { path: "[Content_Types].xml", content: CONTENT_TYPES },
+    { path: "_rels/.rels", content: ROOT_RELS },
+    { path: "xl/workbook.xml", content: renderWorkbook(sheet.name) },
+    { path: "xl/_rels/workbook.xml.rels", content: WORKBOOK_RELS },
+    { path: "xl/styles.xml", content: STYLES },
+    { path: "xl/worksheets/sheet1.xml", content: renderWorksheet(sheet) },
+  ]);
+}
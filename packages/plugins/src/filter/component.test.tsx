@@ -1,5 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, within } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  render,
+  screen,
+  within,
+  fireEvent,
+  act,
+} from "@testing-library/react";
 import { renderHook } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { createMockTable } from "../../tests/utils/mocks";
@@ -10,7 +16,17 @@ import {
   getPluginContextValue,
   getPluginArgsValue,
 } from "../../tests/utils/mockState";
-import type { PluginColumnInfo } from "@izumisy/seizen-table/plugin";
+import {
+  registerFilterType,
+  type PluginColumnInfo,
+} from "@izumisy/seizen-table/plugin";
+import type { ColumnFiltersState } from "@izumisy/seizen-table";
+
+declare module "@izumisy/seizen-table/plugin" {
+  interface FilterTypeRegistry {
+    rating: "at_least" | "unrated";
+  }
+}
 
 // =============================================================================
 // Mock Setup
@@ -66,6 +82,7 @@ import {
   FilterPanel,
   FilterPluginPanel,
   GlobalSearchHeader,
+  HeaderFilter,
   FilterItemRow,
   ValueInput,
   useFilterEvents,
@@ -73,7 +90,10 @@ import {
   getOperatorsForColumn,
   getDefaultOperator,
   operatorRequiresValue,
+  createFilterGroup,
+  toFilterGroup,
   type FilterItem,
+  type FilterGroupItem,
 } from "./component";
 
 // =============================================================================
@@ -203,6 +223,62 @@ describe("Helper Functions", () => {
       expect(operatorRequiresValue("gt")).toBe(true);
     });
   });
+
+  describe("toFilterGroup", () => {
+    const item = (
+      columnKey: string,
+      operator: FilterItem["operator"],
+      value: string
+    ): FilterItem => ({
+      id: generateFilterId(),
+      columnKey,
+      columnHeader: columnKey,
+      operator,
+      value,
+    });
+
+    it("converts nested groups to a filter expression", () => {
+      const root: FilterGroupItem = {
+        ...createFilterGroup("or"),
+        items: [
+          item("name", "contains", "John"),
+          {
+            ...createFilterGroup("and"),
+            items: [item("age", "gt", "20"), item("name", "is_empty", "")],
+          },
+        ],
+      };
+
+      expect(toFilterGroup(root, defaultColumns)).toEqual({
+        combinator: "or",
+        filters: [
+          { columnId: "name", operator: "contains", value: "John" },
+          {
+            combinator: "and",
+            filters: [
+              { columnId: "age", operator: "gt", value: "20" },
+              { columnId: "name", operator: "is_empty", value: "" },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("skips filters without values and empty groups", () => {
+      const root: FilterGroupItem = {
+        ...createFilterGroup(),
+        items: [
+          item("name", "contains", ""),
+          { ...createFilterGroup("or"), items: [item("age", "gt", "")] },
+        ],
+      };
+
+      expect(toFilterGroup(root, defaultColumns)).toEqual({
+        combinator: "and",
+        filters: [],
+      });
+    });
+  });
 });
 
 // =============================================================================
@@ -355,6 +431,122 @@ describe("ValueInput", () => {
     await user.selectOptions(screen.getByRole("combobox"), "Active");
     expect(onChange).toHaveBeenCalledWith("Active");
   });
+
+  it("renders start and end dates for between operator", () => {
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={dateColumn}
+        operator="between"
+        value={["2024-01-01", ""]}
+        onChange={onChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Start date")).toHaveValue("2024-01-01");
+    expect(screen.getByLabelText("End date")).toHaveValue("");
+
+    fireEvent.change(screen.getByLabelText("End date"), {
+      target: { value: "2024-01-31" },
+    });
+    expect(onChange).toHaveBeenCalledWith(["2024-01-01", "2024-01-31"]);
+  });
+
+  it("renders min and max for number between operator", () => {
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={numberColumn}
+        operator="between"
+        value={["20", ""]}
+        onChange={onChange}
+      />
+    );
+
+    expect(screen.getByLabelText("Min")).toHaveValue(20);
+    fireEvent.change(screen.getByLabelText("Max"), {
+      target: { value: "30" },
+    });
+    expect(onChange).toHaveBeenCalledWith(["20", "30"]);
+  });
+
+  it("renders chips of enum values for in operator", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={enumColumn}
+        operator="in"
+        value={["Active"]}
+        onChange={onChange}
+      />
+    );
+
+    // Selected values are not offered again
+    const addSelect = screen.getByLabelText("Add value");
+    expect(within(addSelect).queryByText("Active")).not.toBeInTheDocument();
+
+    await user.selectOptions(addSelect, "Pending");
+    expect(onChange).toHaveBeenCalledWith(["Active", "Pending"]);
+
+    await user.click(screen.getByLabelText("Remove Active"));
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+
+  it("adds typed values as chips for string in operator", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={stringColumn}
+        operator="not_in"
+        value={["foo"]}
+        onChange={onChange}
+      />
+    );
+
+    await user.type(screen.getByLabelText("Add value"), " bar {Enter}");
+    expect(onChange).toHaveBeenCalledWith(["foo", "bar"]);
+  });
+
+  it("renders number of days for relative range operators", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={dateColumn}
+        operator="in_last"
+        value=""
+        onChange={onChange}
+      />
+    );
+
+    await user.type(screen.getByLabelText("Number of days"), "7");
+    expect(onChange).toHaveBeenCalledWith("7");
+    expect(screen.getByText("days")).toBeInTheDocument();
+  });
+
+  it("renders period select for in_this operator", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={dateColumn}
+        operator="in_this"
+        value=""
+        onChange={onChange}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText("Period"), "month");
+    expect(onChange).toHaveBeenCalledWith("month");
+  });
 });
 
 // =============================================================================
@@ -458,6 +650,236 @@ describe("FilterItemRow", () => {
   });
 });
 
+// =============================================================================
+// Custom Filter Type Tests
+// =============================================================================
+
+describe("custom filter types", () => {
+  registerFilterType("rating", {
+    operators: ["at_least", "unrated", "is_empty"],
+    labels: { at_least: "At least", unrated: "Is unrated" },
+    operatorsWithoutValue: ["unrated"],
+    predicate: (cellValue, { operator, value }) =>
+      operator === "unrated"
+        ? cellValue === 0
+        : Number(cellValue) >= Number(value),
+    input: ({ value, onChange }) => (
+      <button type="button" onClick={() => onChange("5")}>
+        {`Stars: ${String(value)}`}
+      </button>
+    ),
+  });
+
+  const ratingColumn: PluginColumnInfo = {
+    key: "rating",
+    header: "Rating",
+    filterMeta: { filterType: "rating" },
+  };
+
+  const ratingFilter: FilterItem = {
+    id: "filter-1",
+    columnKey: "rating",
+    columnHeader: "Rating",
+    operator: "at_least",
+    value: "3",
+  };
+
+  it("offers the registered operators with their labels", () => {
+    render(
+      <FilterItemRow
+        filter={ratingFilter}
+        column={ratingColumn}
+        onOperatorChange={vi.fn()}
+        onValueChange={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+
+    const options = within(screen.getByRole("combobox")).getAllByRole(
+      "option"
+    );
+    expect(options.map((option) => option.textContent)).toEqual([
+      "At least",
+      "Is unrated",
+      "Is empty",
+    ]);
+  });
+
+  it("renders the registered input", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={ratingColumn}
+        operator="at_least"
+        value="3"
+        onChange={onChange}
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Stars: 3" }));
+    expect(onChange).toHaveBeenCalledWith("5");
+  });
+
+  it("renders no input for operators registered without a value", () => {
+    const { container } = render(
+      <ValueInput
+        column={ratingColumn}
+        operator="unrated"
+        value=""
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+    expect(operatorRequiresValue("unrated", "rating")).toBe(false);
+    expect(operatorRequiresValue("unrated")).toBe(true);
+  });
+});
+
+// =============================================================================
+// Faceted Values Tests
+// =============================================================================
+
+describe("faceted values", () => {
+  const nameColumn: PluginColumnInfo = {
+    key: "name",
+    header: "Name",
+    filterMeta: { filterType: "string" },
+  };
+
+  const statusColumn: PluginColumnInfo = {
+    key: "status",
+    header: "Status",
+    filterMeta: { filterType: "enum" },
+  };
+
+  const facets = {
+    values: [
+      { value: "Active", count: 12 },
+      { value: "Inactive", count: 3 },
+    ],
+  };
+
+  it("shows a checklist of the values with their counts", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <ValueInput
+        column={nameColumn}
+        operator="in"
+        value={["Inactive"]}
+        onChange={onChange}
+        facets={facets}
+      />
+    );
+
+    const checklist = screen.getByRole("group", { name: "Values" });
+    expect(
+      within(checklist)
+        .getAllByRole("checkbox")
+        .map((checkbox) => checkbox.closest("label")?.textContent)
+    ).toEqual(["(Select all)", "Active12", "Inactive3"]);
+    expect(screen.getByRole("checkbox", { name: "Inactive 3" })).toBeChecked();
+
+    await user.click(screen.getByRole("checkbox", { name: "Active 12" }));
+    expect(onChange).toHaveBeenCalledWith(["Inactive", "Active"]);
+  });
+
+  it("selects all values matching the search", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    const manyFacets = {
+      values: Array.from({ length: 12 }, (_, i) => ({
+        value: `User ${i + 1}`,
+        count: 1,
+      })),
+    };
+
+    render(
+      <ValueInput
+        column={nameColumn}
+        operator="not_in"
+        value={[]}
+        onChange={onChange}
+        facets={manyFacets}
+      />
+    );
+
+    await user.type(screen.getByLabelText("Search values"), "user 1");
+    await user.click(screen.getByRole("checkbox", { name: "(Select all)" }));
+
+    expect(onChange).toHaveBeenCalledWith([
+      "User 1",
+      "User 10",
+      "User 11",
+      "User 12",
+    ]);
+  });
+
+  it("offers faceted values of enums without filterEnumValues", () => {
+    render(
+      <ValueInput
+        column={statusColumn}
+        operator="is"
+        value=""
+        onChange={vi.fn()}
+        facets={facets}
+      />
+    );
+
+    const options = within(screen.getByRole("combobox")).getAllByRole(
+      "option"
+    );
+    expect(options.map((option) => option.textContent)).toEqual([
+      "Select...",
+      "Active (12)",
+      "Inactive (3)",
+    ]);
+  });
+
+  it("shows the range of numbers", () => {
+    render(
+      <FilterItemRow
+        filter={{
+          id: "filter-1",
+          columnKey: "age",
+          columnHeader: "Age",
+          operator: "gt",
+          value: "",
+        }}
+        column={{
+          key: "age",
+          header: "Age",
+          filterMeta: { filterType: "number" },
+        }}
+        facets={{ values: [], min: 18, max: 65 }}
+        onOperatorChange={vi.fn()}
+        onValueChange={vi.fn()}
+        onRemove={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("Min 18 · Max 65")).toBeInTheDocument();
+  });
+
+  it("gets the facets of filtered columns from the table", async () => {
+    const user = userEvent.setup();
+    const table = createMockTable({ columnFacets: { status: facets } });
+    setupMocks({ table });
+    render(<FilterPanel />);
+
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "status");
+
+    expect(table.getColumnFacets).toHaveBeenCalledWith("status");
+    expect(
+      screen.getByRole("option", { name: "Active (12)" })
+    ).toBeInTheDocument();
+  });
+});
+
 // =============================================================================
 // FilterPanel Tests
 // =============================================================================
@@ -508,16 +930,16 @@ describe("FilterPanel", () => {
     expect(screen.getAllByText("Name").length).toBeGreaterThan(0);
   });
 
-  it("removes column from dropdown after adding filter", async () => {
+  it("keeps column in dropdown after adding filter", async () => {
     const user = userEvent.setup();
     render(<FilterPanel />);
 
     const select = screen.getByRole("combobox");
     await user.selectOptions(select, "name");
 
-    // Name should no longer be in dropdown options
+    // A column can be filtered by multiple conditions
     const options = within(select).getAllByRole("option");
-    expect(options.map((o) => o.textContent)).not.toContain("Name");
+    expect(options.map((o) => o.textContent)).toContain("Name");
   });
 
   it("shows Clear all button when filters exist", async () => {
@@ -623,6 +1045,46 @@ describe("FilterPanel", () => {
     ]);
   });
 
+  it("resets the value when switching to an operator taking another kind of value", async () => {
+    const user = userEvent.setup();
+    const { table } = setupMocks();
+    render(<FilterPanel />);
+
+    await user.selectOptions(screen.getByRole("combobox"), "createdAt");
+    fireEvent.change(document.querySelector('input[type="date"]')!, {
+      target: { value: "2024-06-01" },
+    });
+
+    // Keeps the date when switching between single date operators
+    const operatorSelect = screen.getAllByRole("combobox")[1];
+    await user.selectOptions(operatorSelect, "before");
+    expect(document.querySelector('input[type="date"]')).toHaveValue(
+      "2024-06-01"
+    );
+
+    await user.selectOptions(operatorSelect, "in_last");
+    expect(screen.getByLabelText("Number of days")).toHaveValue(null);
+
+    await user.click(screen.getByText("Apply Filters"));
+    expect(table.setFilter).toHaveBeenCalledWith([]);
+  });
+
+  it("applies in filters with the selected values", async () => {
+    const user = userEvent.setup();
+    const { table } = setupMocks();
+    render(<FilterPanel />);
+
+    await user.selectOptions(screen.getByRole("combobox"), "status");
+    await user.selectOptions(screen.getAllByRole("combobox")[1], "in");
+    await user.selectOptions(screen.getByLabelText("Add value"), "Active");
+    await user.selectOptions(screen.getByLabelText("Add value"), "Pending");
+    await user.click(screen.getByText("Apply Filters"));
+
+    expect(table.setFilter).toHaveBeenCalledWith([
+      { id: "status", value: { operator: "in", value: ["Active", "Pending"] } },
+    ]);
+  });
+
   it("removes filter when remove button is clicked", async () => {
     const user = userEvent.setup();
     render(<FilterPanel />);
@@ -654,22 +1116,283 @@ describe("FilterPanel", () => {
     expect(removeButtons).toHaveLength(2);
   });
 
-  it("disables dropdown when all filterable columns are used", async () => {
+  it("disables dropdown when no filterable columns exist", () => {
+    setupMocks({ columns: [{ key: "id", header: "ID" }] });
+    render(<FilterPanel />);
+
+    expect(screen.getByRole("combobox")).toBeDisabled();
+    expect(screen.getByTitle("Add group")).toBeDisabled();
+  });
+
+  it("applies multiple filters on the same column", async () => {
     const user = userEvent.setup();
-    setupMocks({
-      columns: [
-        { key: "name", header: "Name", filterMeta: { filterType: "string" } },
-      ],
-    });
+    const { table } = setupMocks();
     render(<FilterPanel />);
 
-    // Add the only filterable column
-    const addFilterSelect = screen.getByRole("combobox");
-    await user.selectOptions(addFilterSelect, "name");
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "age");
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "age");
+
+    const [gteInput, ltInput] = screen.getAllByPlaceholderText("Value...");
+    await user.type(gteInput, "20");
+    await user.type(ltInput, "30");
+    await user.click(screen.getByText("Apply Filters"));
+
+    expect(table.setFilter).toHaveBeenCalledWith([
+      {
+        id: "age",
+        value: {
+          combinator: "and",
+          filters: [
+            { columnId: "age", operator: "eq", value: "20" },
+            { columnId: "age", operator: "eq", value: "30" },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("combines filters with OR when switched", async () => {
+    const user = userEvent.setup();
+    const { table } = setupMocks();
+    render(<FilterPanel />);
 
-    // First combobox (add filter dropdown) should be disabled
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "status");
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "status");
+    await user.click(screen.getByText("Switch to OR"));
+    expect(screen.getByText("Active filters (OR)")).toBeInTheDocument();
+
+    // Each enum filter has an operator and a value select
     const comboboxes = screen.getAllByRole("combobox");
-    expect(comboboxes[0]).toBeDisabled();
+    await user.selectOptions(comboboxes[2], "Active");
+    await user.selectOptions(comboboxes[4], "Pending");
+    await user.click(screen.getByText("Apply Filters"));
+
+    expect(table.setFilter).toHaveBeenCalledWith([
+      {
+        id: "status",
+        value: {
+          combinator: "or",
+          filters: [
+            { columnId: "status", operator: "is", value: "Active" },
+            { columnId: "status", operator: "is", value: "Pending" },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("applies nested filter groups", async () => {
+    const user = userEvent.setup();
+    const { table } = setupMocks();
+    render(<FilterPanel />);
+
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "name");
+    await user.type(screen.getByPlaceholderText("Value..."), "John");
+
+    // Add a group and switch it to OR
+    await user.click(screen.getByTitle("Add group"));
+    const group = screen.getByRole("group", { name: "Filter group" });
+    await user.click(within(group).getByText("Switch to OR"));
+    expect(within(group).getByText("Group (OR)")).toBeInTheDocument();
+
+    // Add two conditions to the group
+    const groupAddSelect = () => {
+      const comboboxes = within(group).getAllByRole("combobox");
+      return comboboxes[comboboxes.length - 1];
+    };
+    await user.selectOptions(groupAddSelect(), "age");
+    await user.selectOptions(groupAddSelect(), "age");
+    const [ageInput1, ageInput2] = within(group).getAllByRole("spinbutton");
+    await user.type(ageInput1, "20");
+    await user.type(ageInput2, "30");
+
+    await user.click(screen.getByText("Apply Filters"));
+
+    expect(table.setFilter).toHaveBeenCalledWith([
+      { id: "name", value: { operator: "contains", value: "John" } },
+      {
+        id: "age",
+        value: {
+          combinator: "or",
+          filters: [
+            { columnId: "age", operator: "eq", value: "20" },
+            { columnId: "age", operator: "eq", value: "30" },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("removes a group with its filters", async () => {
+    const user = userEvent.setup();
+    const { table } = setupMocks();
+    render(<FilterPanel />);
+
+    await user.click(screen.getByTitle("Add group"));
+    const group = screen.getByRole("group", { name: "Filter group" });
+    await user.selectOptions(within(group).getAllByRole("combobox")[0], "name");
+
+    await user.click(screen.getByTitle("Remove group"));
+
+    expect(screen.getByText("No filters applied")).toBeInTheDocument();
+    expect(table.setFilter).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// FilterPanel Sync Tests
+// =============================================================================
+
+describe("FilterPanel sync with the column filters", () => {
+  it("shows the filters already applied to the table", () => {
+    const table = createMockTable();
+    table.getFilterState.mockReturnValue([
+      { id: "name", value: { operator: "contains", value: "john" } },
+    ]);
+    setupMocks({ table });
+    render(<FilterPanel />);
+
+    expect(screen.getByText("Active filters (AND)")).toBeInTheDocument();
+    expect(screen.getByDisplayValue("john")).toBeInTheDocument();
+  });
+
+  it("rebuilds the filters when they change elsewhere", () => {
+    const table = createMockTable();
+    setupMocks({ table });
+    const { rerender } = render(<FilterPanel />);
+    expect(screen.getByText("No filters applied")).toBeInTheDocument();
+
+    table.getFilterState.mockReturnValue([
+      { id: "age", value: { operator: "gt", value: "30" } },
+    ]);
+    rerender(<FilterPanel />);
+
+    expect(screen.getByText("Active filters (AND)")).toBeInTheDocument();
+    expect(screen.getByDisplayValue("30")).toBeInTheDocument();
+  });
+
+  it("keeps unapplied filters while the column filters don't change", async () => {
+    const user = userEvent.setup();
+    const table = createMockTable();
+    setupMocks({ table });
+    const { rerender } = render(<FilterPanel />);
+
+    await user.selectOptions(screen.getAllByRole("combobox")[0], "name");
+    rerender(<FilterPanel />);
+
+    expect(screen.getByText("Active filters (AND)")).toBeInTheDocument();
+  });
+});
+
+// =============================================================================
+// HeaderFilter Tests
+// =============================================================================
+
+describe("HeaderFilter", () => {
+  const headerFilterArgs = { ...defaultPluginArgs, enableHeaderFilters: true };
+
+  it("renders nothing unless enableHeaderFilters is set", () => {
+    const { container } = render(<HeaderFilter columnKey="name" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders nothing for columns without a filter type", () => {
+    setupMocks({ pluginArgs: headerFilterArgs });
+    const { container } = render(<HeaderFilter columnKey="id" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("applies the filter, replacing the column's filter only", async () => {
+    const user = userEvent.setup();
+    const table = createMockTable();
+    table.getFilterState.mockReturnValue([
+      { id: "name", value: { operator: "contains", value: "old" } },
+      { id: "age", value: { operator: "gt", value: "20" } },
+    ]);
+    setupMocks({ table, pluginArgs: headerFilterArgs });
+    render(<HeaderFilter columnKey="name" />);
+
+    await user.click(screen.getByRole("button", { name: "Filter Name" }));
+    const dialog = screen.getByRole("dialog", { name: "Filter Name" });
+    expect(within(dialog).getByLabelText("Operator")).toHaveValue("contains");
+
+    const input = within(dialog).getByPlaceholderText("Value...");
+    await user.selectOptions(
+      within(dialog).getByLabelText("Operator"),
+      "equals"
+    );
+    await user.clear(input);
+    await user.type(input, "john");
+    await user.click(within(dialog).getByRole("button", { name: "Apply" }));
+
+    expect(table.setFilter).toHaveBeenCalledWith([
+      { id: "age", value: { operator: "gt", value: "20" } },
+      { id: "name", value: { operator: "equals", value: "john" } },
+    ]);
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("clears the column's filter", async () => {
+    const user = userEvent.setup();
+    const table = createMockTable();
+    table.getFilterState.mockReturnValue([
+      { id: "status", value: { operator: "is", value: "Active" } },
+    ]);
+    setupMocks({ table, pluginArgs: headerFilterArgs });
+    render(<HeaderFilter columnKey="status" />);
+
+    await user.click(screen.getByRole("button", { name: "Filter Status" }));
+    await user.click(screen.getByRole("button", { name: "Clear" }));
+
+    expect(table.setFilter).toHaveBeenCalledWith([]);
+  });
+
+  it("indicates columns filtered here or in filter groups", () => {
+    const table = createMockTable();
+    table.getFilterState.mockReturnValue([
+      {
+        id: "name",
+        value: {
+          combinator: "or",
+          filters: [
+            { columnId: "name", operator: "contains", value: "a" },
+            { columnId: "age", operator: "gt", value: "30" },
+          ],
+        },
+      },
+    ]);
+    setupMocks({ table, pluginArgs: headerFilterArgs });
+    render(
+      <>
+        <HeaderFilter columnKey="age" />
+        <HeaderFilter columnKey="createdAt" />
+      </>
+    );
+
+    expect(
+      screen.getByRole("button", { name: "Filter Age" })
+    ).toHaveAttribute("data-active", "true");
+    expect(
+      screen.getByRole("button", { name: "Filter Created At" })
+    ).not.toHaveAttribute("data-active");
+  });
+
+  it("closes on Escape and outside clicks", async () => {
+    const user = userEvent.setup();
+    setupMocks({ pluginArgs: headerFilterArgs });
+    render(<HeaderFilter columnKey="name" />);
+    const button = screen.getByRole("button", { name: "Filter Name" });
+
+    await user.click(button);
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(button).toHaveFocus();
+
+    await user.click(button);
+    await user.click(document.body);
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
   });
 });
 
@@ -700,6 +1423,199 @@ describe("GlobalSearchHeader", () => {
 
     expect(container).toBeEmptyDOMElement();
   });
+
+  describe("with enableSearchQuery", () => {
+    const searchQueryArgs = {
+      width: 320,
+      disableGlobalSearch: false,
+      enableSearchQuery: true,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function typeQuery(query: string) {
+      fireEvent.change(screen.getByPlaceholderText("Search all columns..."), {
+        target: { value: query },
+      });
+      act(() => vi.advanceTimersByTime(300));
+    }
+
+    /**
+     * Mock table whose filter state is updated by setFilter
+     */
+    function createStatefulTable(filterState: ColumnFiltersState = []) {
+      const table = createMockTable();
+      const setFilterState = (filters: ColumnFiltersState) => {
+        filterState = filters;
+      };
+      table.getFilterState.mockImplementation(() => filterState);
+      table.setFilter.mockImplementation(setFilterState);
+      return { table, setFilterState };
+    }
+
+    it("applies column terms as filters and the rest as global filter", () => {
+      const table = createMockTable();
+      setupMocks({ table, pluginArgs: searchQueryArgs });
+      render(<GlobalSearchHeader />);
+      table.getFilterState.mockReturnValue([
+        { id: "name", value: { operator: "equals", value: "Jane" } },
+        { id: "age", value: { operator: "gt", value: "20" } },
+      ]);
+
+      typeQuery('name:john status:active "exact phrase"');
+
+      expect(table.setGlobalFilter).toHaveBeenLastCalledWith("exact phrase");
+      expect(table.setFilter).toHaveBeenLastCalledWith([
+        {
+          id: "name",
+          value: {
+            combinator: "and",
+            filters: [
+              { columnId: "name", operator: "equals", value: "Jane" },
+              { columnId: "name", operator: "contains", value: "john" },
+            ],
+          },
+        },
+        { id: "age", value: { operator: "gt", value: "20" } },
+        { id: "status", value: { operator: "is", value: "Active" } },
+      ]);
+      expect(screen.getByText("Name contains john")).toBeInTheDocument();
+      expect(screen.getByText("Status is Active")).toBeInTheDocument();
+    });
+
+    it("removes a term with its chip", () => {
+      const { table } = setupMocks({ pluginArgs: searchQueryArgs });
+      render(<GlobalSearchHeader />);
+
+      typeQuery("name:john hello");
+      fireEvent.click(
+        screen.getByRole("button", { name: "Remove Name contains john" })
+      );
+
+      expect(screen.getByPlaceholderText("Search all columns...")).toHaveValue(
+        "hello"
+      );
+      expect(table.setFilter).toHaveBeenLastCalledWith([]);
+      expect(table.setGlobalFilter).toHaveBeenLastCalledWith("hello");
+    });
+
+    it("keeps a filter group on the same column", () => {
+      const group = {
+        combinator: "or",
+        filters: [
+          { columnId: "status", operator: "is", value: "Active" },
+          { columnId: "name", operator: "contains", value: "john" },
+        ],
+      };
+      const { table } = createStatefulTable([{ id: "status", value: group }]);
+      setupMocks({ table, pluginArgs: searchQueryArgs });
+      render(<GlobalSearchHeader />);
+
+      typeQuery("status:pending");
+      expect(table.setFilter).toHaveBeenLastCalledWith([
+        {
+          id: "status",
+          value: {
+            combinator: "and",
+            filters: [
+              group,
+              { columnId: "status", operator: "is", value: "Pending" },
+            ],
+          },
+        },
+      ]);
+
+      typeQuery("status:inactive");
+      typeQuery("");
+      expect(table.setFilter).toHaveBeenLastCalledWith([
+        { id: "status", value: group },
+      ]);
+    });
+
+    it("keeps a filter equal to a query filter when the query changes", () => {
+      const filter = {
+        id: "status",
+        value: { operator: "is", value: "Active" },
+      };
+      const { table, setFilterState } = createStatefulTable();
+      setupMocks({ table, pluginArgs: searchQueryArgs });
+      render(<GlobalSearchHeader />);
+      setFilterState([filter]);
+
+      typeQuery("status:active");
+      typeQuery("");
+
+      expect(table.setFilter).toHaveBeenLastCalledWith([filter]);
+    });
+
+    it("removes the term of a query filter removed elsewhere", () => {
+      const { table, setFilterState } = createStatefulTable();
+      setupMocks({ table, pluginArgs: searchQueryArgs });
+      const { rerender } = render(<GlobalSearchHeader />);
+
+      typeQuery("name:john age:>30 hello");
+      act(() => {
+        setFilterState([
+          { id: "age", value: { operator: "gt", value: "30" } },
+        ]);
+      });
+      rerender(<GlobalSearchHeader />);
+
+      expect(screen.getByPlaceholderText("Search all columns...")).toHaveValue(
+        "age:>30 hello"
+      );
+      expect(screen.queryByText("Name contains john")).not.toBeInTheDocument();
+      expect(screen.getByText("Age > 30")).toBeInTheDocument();
+    });
+
+    it("restores the query from the table state when mounted again", () => {
+      const { table } = createStatefulTable();
+      table.getGlobalFilter.mockReturnValue("hello");
+      setupMocks({ table, pluginArgs: searchQueryArgs });
+      const { unmount } = render(<GlobalSearchHeader />);
+
+      typeQuery("name:john hello");
+      unmount();
+      render(<GlobalSearchHeader />);
+
+      expect(screen.getByPlaceholderText("Search all columns...")).toHaveValue(
+        "name:john hello"
+      );
+      expect(screen.getByText("Name contains john")).toBeInTheDocument();
+
+      // The restored terms own their filters
+      typeQuery("hello");
+      expect(table.setFilter).toHaveBeenLastCalledWith([]);
+    });
+
+    it("suggests column keys and enum values", () => {
+      setupMocks({ pluginArgs: searchQueryArgs });
+      render(<GlobalSearchHeader />);
+      const input = screen.getByRole("combobox");
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: "sta" } });
+      expect(screen.getByRole("option", { name: /status:/ })).toBeVisible();
+
+      fireEvent.keyDown(input, { key: "ArrowDown" });
+      fireEvent.keyDown(input, { key: "Enter" });
+      expect(input).toHaveValue("status:");
+
+      const options = screen.getAllByRole("option");
+      expect(options.map((option) => option.firstChild?.textContent)).toEqual(
+        ["Active", "Inactive", "Pending"]
+      );
+
+      fireEvent.click(options[2]);
+      expect(input).toHaveValue("status:Pending ");
+    });
+  });
 });
 
 // =============================================================================
@@ -1,12 +1,31 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import {
   usePluginContext,
   usePluginArgs,
-  DEFAULT_FILTER_OPERATORS,
-  FILTER_OPERATOR_LABELS,
+  DATE_PERIOD_LABELS,
+  isFilterGroup,
+  toColumnFilters,
+  toFilterExpression,
+  getDefaultFilterOperators,
+  getFilterOperatorLabel,
+  getFilterTypeDefinition,
+  filterOperatorRequiresValue,
+  type FilterCombinator,
+  type FilterCondition,
+  type FilterExpression,
+  type FilterGroup,
+  type DatePeriod,
   type FilterOperator,
+  type FilterRange,
+  type FilterType,
+  type FilterValue,
   type PluginColumnInfo,
 } from "@izumisy/seizen-table/plugin";
+import type {
+  ColumnFacets,
+  ColumnFiltersState,
+  FacetValue,
+} from "@izumisy/seizen-table";
 import { GlobalSearchInput } from "../shared";
 
 // =============================================================================
@@ -18,12 +37,25 @@ export interface FilterItem {
   columnKey: string;
   columnHeader: string;
   operator: FilterOperator;
-  value: string;
+  value: FilterValue;
 }
 
+/**
+ * Filter items combined with AND or OR. Groups can be nested.
+ */
+export interface FilterGroupItem {
+  id: string;
+  combinator: FilterCombinator;
+  items: FilterNode[];
+}
+
+export type FilterNode = FilterItem | FilterGroupItem;
+
 export interface FilterPluginConfig {
   width: number;
   disableGlobalSearch: boolean;
+  enableSearchQuery: boolean;
+  enableHeaderFilters: boolean;
 }
 
 // =============================================================================
@@ -45,7 +77,7 @@ export function getOperatorsForColumn(
 ): FilterOperator[] {
   if (!column.filterMeta?.filterType) return [];
   const { filterType, filterOperators } = column.filterMeta;
-  return filterOperators ?? DEFAULT_FILTER_OPERATORS[filterType];
+  return filterOperators ?? getDefaultFilterOperators(filterType);
 }
 
 /**
@@ -59,19 +91,222 @@ export function getDefaultOperator(column: PluginColumnInfo): FilterOperator {
 /**
  * Check if an operator requires a value input
  */
-export function operatorRequiresValue(operator: FilterOperator): boolean {
-  return operator !== "is_empty" && operator !== "is_not_empty";
+export function operatorRequiresValue(
+  operator: FilterOperator,
+  filterType?: FilterType
+): boolean {
+  return filterOperatorRequiresValue(operator, filterType);
+}
+
+/**
+ * Kind of value an operator takes. Values are kept when switching between
+ * operators of the same kind.
+ */
+function getOperatorValueKind(
+  operator: FilterOperator
+): "value" | "range" | "list" | "days" | "period" {
+  switch (operator) {
+    case "between":
+    case "not_between":
+      return "range";
+    case "in":
+    case "not_in":
+      return "list";
+    case "in_last":
+    case "in_next":
+      return "days";
+    case "in_this":
+      return "period";
+    default:
+      return "value";
+  }
+}
+
+/**
+ * Get the initial value of a filter with the operator
+ */
+export function getEmptyFilterValue(operator: FilterOperator): FilterValue {
+  switch (getOperatorValueKind(operator)) {
+    case "range":
+      return ["", ""];
+    case "list":
+      return [];
+    default:
+      return "";
+  }
+}
+
+/**
+ * Check if a filter value is empty: an empty string, or a list or range
+ * without any non-empty value
+ */
+function isFilterValueEmpty(value: FilterValue): boolean {
+  return Array.isArray(value) ? value.every((v) => v === "") : value === "";
+}
+
+/**
+ * Get a filter value as a `[min, max]` range
+ */
+function toFilterRange(value: FilterValue): FilterRange {
+  return Array.isArray(value) ? [value[0] ?? "", value[1] ?? ""] : ["", ""];
+}
+
+/**
+ * Check if a filter node is a group
+ */
+export function isFilterGroupItem(node: FilterNode): node is FilterGroupItem {
+  return "items" in node;
+}
+
+/**
+ * Create an empty filter group
+ */
+export function createFilterGroup(
+  combinator: FilterCombinator = "and"
+): FilterGroupItem {
+  return { id: generateFilterId(), combinator, items: [] };
+}
+
+/**
+ * Convert a filter group of the panel to a filter expression.
+ * Filters without values (unless the operator doesn't need one) and groups
+ * left empty are skipped.
+ */
+export function toFilterGroup(
+  group: FilterGroupItem,
+  columns: PluginColumnInfo[]
+): FilterGroup {
+  const filters: FilterExpression[] = [];
+  for (const node of group.items) {
+    if (isFilterGroupItem(node)) {
+      const nested = toFilterGroup(node, columns);
+      if (nested.filters.length > 0) filters.push(nested);
+    } else if (
+      !operatorRequiresValue(
+        node.operator,
+        columns.find((c) => c.key === node.columnKey)?.filterMeta?.filterType
+      ) ||
+      !isFilterValueEmpty(node.value)
+    ) {
+      filters.push({
+        columnId: node.columnKey,
+        operator: node.operator,
+        value: node.value,
+      });
+    }
+  }
+  return { combinator: group.combinator, filters };
+}
+
+/**
+ * Convert a filter expression to a filter group of the panel. Conditions on
+ * columns the panel doesn't know are kept, so that applying the panel
+ * doesn't drop them.
+ */
+export function fromFilterGroup(
+  group: FilterGroup,
+  columns: PluginColumnInfo[]
+): FilterGroupItem {
+  const items = group.filters.map((expression): FilterNode => {
+    if (isFilterGroup(expression)) return fromFilterGroup(expression, columns);
+    const column = columns.find((col) => col.key === expression.columnId);
+    return {
+      id: generateFilterId(),
+      columnKey: expression.columnId,
+      columnHeader: column?.header ?? expression.columnId,
+      operator: expression.operator,
+      value: expression.value,
+    };
+  });
+  return { id: generateFilterId(), combinator: group.combinator, items };
+}
+
+/**
+ * Get the conditions on a column anywhere in the column filter state
+ */
+function getColumnConditions(
+  columnFilters: ColumnFiltersState,
+  columnId: string
+): FilterCondition[] {
+  const collect = (expression: FilterExpression): FilterCondition[] =>
+    isFilterGroup(expression)
+      ? expression.filters.flatMap(collect)
+      : expression.columnId === columnId
+      ? [expression]
+      : [];
+  return collect(toFilterExpression(columnFilters));
+}
+
+/**
+ * Update the node with the given ID anywhere in the tree.
+ * Returning undefined from `update` removes the node.
+ */
+function updateFilterNode(
+  group: FilterGroupItem,
+  id: string,
+  update: (node: FilterNode) => FilterNode | undefined
+): FilterGroupItem {
+  const mapNodes = (nodes: FilterNode[]): FilterNode[] =>
+    nodes.flatMap((node) => {
+      if (node.id === id) {
+        const next = update(node);
+        return next ? [next] : [];
+      }
+      return isFilterGroupItem(node)
+        ? [{ ...node, items: mapNodes(node.items) }]
+        : [node];
+    });
+
+  return mapNodes([group])[0] as FilterGroupItem;
+}
+
+/**
+ * Label of the combinator of a group, e.g. "AND"
+ */
+function getCombinatorLabel(combinator: FilterCombinator): string {
+  return combinator.toUpperCase();
+}
+
+function toggleCombinator(combinator: FilterCombinator): FilterCombinator {
+  return combinator === "and" ? "or" : "and";
+}
+
+/**
+ * Values to choose from with their row counts: the enum values, or else the
+ * faceted values of the column. Selected values are kept as options.
+ */
+function getFacetOptions(
+  enumValues: string[] | undefined,
+  facets: ColumnFacets | undefined,
+  selected: string[] = []
+): FacetValue[] {
+  const counts = new Map(facets?.values.map((f) => [f.value, f.count]));
+  const values = enumValues ?? facets?.values.map((f) => f.value) ?? [];
+  return [...values, ...selected.filter((v) => !values.includes(v))].map(
+    (value) => ({ value, count: counts.get(value) ?? 0 })
+  );
 }
 
 // =============================================================================
 // Value Input Component
 // =============================================================================
 
+const valueInputStyle = {
+  flex: 1,
+  minWidth: 0,
+  padding: "6px 8px",
+  fontSize: "13px",
+  border: "1px solid #e5e7eb",
+  borderRadius: "4px",
+} as const;
+
 interface ValueInputProps {
   column: PluginColumnInfo;
   operator: FilterOperator;
-  value: string;
-  onChange: (value: string) => void;
+  value: FilterValue;
+  onChange: (value: FilterValue) => void;
+  /** Values of the column with their counts, shown as options */
+  facets?: ColumnFacets;
 }
 
 export function ValueInput({
@@ -79,22 +314,86 @@ export function ValueInput({
   operator,
   value,
   onChange,
+  facets,
 }: ValueInputProps) {
   const filterMeta = column.filterMeta;
   if (!filterMeta) return null;
 
-  // No input needed for is_empty / is_not_empty
-  if (!operatorRequiresValue(operator)) {
+  const { filterType, filterEnumValues } = filterMeta;
+
+  // No input needed for is_empty / is_not_empty and valueless operators
+  if (!operatorRequiresValue(operator, filterType)) {
     return null;
   }
 
-  const { filterType, filterEnumValues } = filterMeta;
+  // Custom filter type: render its registered input
+  const CustomInput =
+    filterType && getFilterTypeDefinition(filterType)?.input;
+  if (CustomInput) {
+    return (
+      <CustomInput
+        operator={operator}
+        value={value}
+        onChange={onChange}
+        filterMeta={filterMeta}
+      />
+    );
+  }
+
+  // Set membership: render a checklist of the values with their counts,
+  // or chips of the values without facets
+  if (operator === "in" || operator === "not_in") {
+    const values = Array.isArray(value) ? value : [];
+    const options = getFacetOptions(filterEnumValues, facets, values);
+    if (
+      facets &&
+      (filterType === "string" || filterType === "enum") &&
+      options.length > 0
+    ) {
+      return (
+        <FacetChecklist values={values} options={options} onChange={onChange} />
+      );
+    }
+    return (
+      <ChipInput
+        values={Array.isArray(value) ? value : []}
+        options={filterEnumValues}
+        onChange={onChange}
+      />
+    );
+  }
 
-  // Enum type: render select dropdown
-  if (filterType === "enum" && filterEnumValues) {
+  // Date type: render inputs matching the operator
+  if (filterType === "date") {
+    return (
+      <DateValueInput operator={operator} value={value} onChange={onChange} />
+    );
+  }
+
+  // Number range: render min and max inputs
+  if (operator === "between" || operator === "not_between") {
+    return (
+      <RangeInput
+        type="number"
+        labels={["Min", "Max"]}
+        value={toFilterRange(value)}
+        onChange={onChange}
+      />
+    );
+  }
+
+  const stringValue = typeof value === "string" ? value : "";
+
+  // Enum type: render select dropdown of the enum values, or else of the
+  // faceted values, with their counts
+  const enumOptions =
+    filterType === "enum" && (filterEnumValues || facets)
+      ? getFacetOptions(filterEnumValues, facets)
+      : undefined;
+  if (enumOptions) {
     return (
       <select
-        value={value}
+        value={stringValue}
         onChange={(e) => onChange(e.target.value)}
         style={{
           flex: 1,
@@ -108,22 +407,23 @@ export function ValueInput({
         }}
       >
         <option value="">Select...</option>
-        {filterEnumValues.map((enumValue) => (
+        {enumOptions.map(({ value: enumValue, count }) => (
           <option key={enumValue} value={enumValue}>
-            {enumValue}
+            {facets ? `${enumValue} (${count})` : enumValue}
           </option>
         ))}
       </select>
     );
   }
 
-  // Date type: render date input
-  if (filterType === "date") {
+  // Number type: render number input
+  if (filterType === "number") {
     return (
       <input
-        type="date"
-        value={value}
+        type="number"
+        value={stringValue}
         onChange={(e) => onChange(e.target.value)}
+        placeholder="Value..."
         style={{
           flex: 1,
           minWidth: 0,
@@ -136,42 +436,451 @@ export function ValueInput({
     );
   }
 
-  // Number type: render number input
-  if (filterType === "number") {
-    return (
+  // String type (default): render text input
+  return (
+    <input
+      type="text"
+      value={stringValue}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Value..."
+      style={{
+        flex: 1,
+        minWidth: 0,
+        padding: "6px 8px",
+        fontSize: "13px",
+        border: "1px solid #e5e7eb",
+        borderRadius: "4px",
+      }}
+    />
+  );
+}
+
+// =============================================================================
+// Range Input Component
+// =============================================================================
+
+interface RangeInputProps {
+  type: "number" | "date";
+  labels: [min: string, max: string];
+  value: FilterRange;
+  onChange: (value: FilterRange) => void;
+}
+
+/**
+ * Inputs of a `[min, max]` range. Either end can be left empty.
+ */
+function RangeInput({ type, labels, value, onChange }: RangeInputProps) {
+  const [min, max] = value;
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        minWidth: 0,
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: "4px",
+      }}
+    >
       <input
-        type="number"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder="Value..."
+        type={type}
+        aria-label={labels[0]}
+        placeholder={type === "number" ? labels[0] : undefined}
+        value={min}
+        onChange={(e) => onChange([e.target.value, max])}
+        style={valueInputStyle}
+      />
+      <span style={{ fontSize: "13px", color: "#6b7280" }}>–</span>
+      <input
+        type={type}
+        aria-label={labels[1]}
+        placeholder={type === "number" ? labels[1] : undefined}
+        value={max}
+        onChange={(e) => onChange([min, e.target.value])}
+        style={valueInputStyle}
+      />
+    </div>
+  );
+}
+
+// =============================================================================
+// Chip Input Component
+// =============================================================================
+
+interface ChipInputProps {
+  values: string[];
+  /** Values to choose from. Without options, values are typed in. */
+  options?: string[];
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Multi-value input showing the values as removable chips
+ */
+function ChipInput({ values, options, onChange }: ChipInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addValue = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed !== "" && !values.includes(trimmed)) {
+      onChange([...values, trimmed]);
+    }
+    setDraft("");
+  };
+
+  const remainingOptions = options?.filter((opt) => !values.includes(opt));
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        minWidth: 0,
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: "4px",
+      }}
+    >
+      {values.map((value) => (
+        <span
+          key={value}
+          style={{
+            display: "inline-flex",
+            alignItems: "center",
+            gap: "2px",
+            padding: "2px 4px 2px 8px",
+            fontSize: "12px",
+            color: "#1e40af",
+            backgroundColor: "#dbeafe",
+            borderRadius: "9999px",
+          }}
+        >
+          {value}
+          <button
+            onClick={() => onChange(values.filter((v) => v !== value))}
+            aria-label={`Remove ${value}`}
+            style={{
+              padding: "0 4px",
+              fontSize: "12px",
+              color: "#1e40af",
+              background: "none",
+              border: "none",
+              cursor: "pointer",
+              lineHeight: 1,
+            }}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {remainingOptions ? (
+        <select
+          value=""
+          aria-label="Add value"
+          onChange={(e) => addValue(e.target.value)}
+          disabled={remainingOptions.length === 0}
+          style={{
+            ...valueInputStyle,
+            backgroundColor: "#fff",
+            cursor: "pointer",
+          }}
+        >
+          <option value="">Add...</option>
+          {remainingOptions.map((opt) => (
+            <option key={opt} value={opt}>
+              {opt}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type="text"
+          aria-label="Add value"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addValue(draft);
+            } else if (e.key === "Backspace" && draft === "") {
+              onChange(values.slice(0, -1));
+            }
+          }}
+          onBlur={() => addValue(draft)}
+          placeholder="Add value..."
+          style={valueInputStyle}
+        />
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Facet Checklist Component
+// =============================================================================
+
+/** Values shown in a checklist before narrowing them down by search */
+const MAX_FACET_OPTIONS = 100;
+
+/** Checklists with more values get a search input */
+const SEARCHABLE_FACET_OPTIONS = 10;
+
+interface FacetChecklistProps {
+  values: string[];
+  options: FacetValue[];
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Checklist of the values of a column with their row counts, like a
+ * spreadsheet autofilter
+ */
+function FacetChecklist({ values, options, onChange }: FacetChecklistProps) {
+  const [search, setSearch] = useState("");
+
+  const matching = options.filter((option) =>
+    option.value.toLowerCase().includes(search.toLowerCase())
+  );
+  const shown = matching.slice(0, MAX_FACET_OPTIONS);
+  const allChecked =
+    matching.length > 0 &&
+    matching.every((option) => values.includes(option.value));
+
+  const toggleValue = (value: string) =>
+    onChange(
+      values.includes(value)
+        ? values.filter((v) => v !== value)
+        : [...values, value]
+    );
+
+  // Check or uncheck all values matching the search
+  const toggleAll = () => {
+    const matchingValues = matching.map((option) => option.value);
+    onChange(
+      allChecked
+        ? values.filter((v) => !matchingValues.includes(v))
+        : [...values, ...matchingValues.filter((v) => !values.includes(v))]
+    );
+  };
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        minWidth: 0,
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+      }}
+    >
+      {options.length > SEARCHABLE_FACET_OPTIONS && (
+        <input
+          type="text"
+          aria-label="Search values"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search values..."
+          style={valueInputStyle}
+        />
+      )}
+      <div
+        role="group"
+        aria-label="Values"
         style={{
-          flex: 1,
-          minWidth: 0,
-          padding: "6px 8px",
-          fontSize: "13px",
+          maxHeight: "200px",
+          overflowY: "auto",
+          padding: "4px 0",
           border: "1px solid #e5e7eb",
           borderRadius: "4px",
         }}
+      >
+        <FacetOption
+          label="(Select all)"
+          checked={allChecked}
+          onChange={toggleAll}
+        />
+        {shown.map((option) => (
+          <FacetOption
+            key={option.value}
+            label={option.value}
+            count={option.count}
+            checked={values.includes(option.value)}
+            onChange={() => toggleValue(option.value)}
+          />
+        ))}
+        {matching.length > shown.length && (
+          <div
+            style={{ padding: "4px 8px", fontSize: "12px", color: "#9ca3af" }}
+          >
+            {matching.length - shown.length} more values, search to narrow
+            down
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FacetOptionProps {
+  label: string;
+  count?: number;
+  checked: boolean;
+  onChange: () => void;
+}
+
+function FacetOption({ label, count, checked, onChange }: FacetOptionProps) {
+  return (
+    <label
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "6px",
+        padding: "2px 8px",
+        fontSize: "13px",
+        cursor: "pointer",
+      }}
+    >
+      <input type="checkbox" checked={checked} onChange={onChange} />
+      <span
+        style={{
+          flex: 1,
+          minWidth: 0,
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {label}
+      </span>
+      {count !== undefined && (
+        <span style={{ fontSize: "12px", color: "#6b7280" }}>{count}</span>
+      )}
+    </label>
+  );
+}
+
+// =============================================================================
+// Date Value Input Component
+// =============================================================================
+
+interface DateValueInputProps {
+  operator: FilterOperator;
+  value: FilterValue;
+  onChange: (value: FilterValue) => void;
+}
+
+/**
+ * Inputs of date filters: a date, a range of dates, a number of days or
+ * a period, depending on the operator
+ */
+function DateValueInput({ operator, value, onChange }: DateValueInputProps) {
+  // Date range: two date inputs, either end can be left empty
+  if (operator === "between" || operator === "not_between") {
+    return (
+      <RangeInput
+        type="date"
+        labels={["Start date", "End date"]}
+        value={toFilterRange(value)}
+        onChange={onChange}
       />
     );
   }
 
-  // String type (default): render text input
+  const stringValue = typeof value === "string" ? value : "";
+
+  // Relative range: number of days including today
+  if (operator === "in_last" || operator === "in_next") {
+    return (
+      <div
+        style={{
+          flex: 1,
+          minWidth: 0,
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+        }}
+      >
+        <input
+          type="number"
+          min={1}
+          step={1}
+          aria-label="Number of days"
+          value={stringValue}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="7"
+          style={valueInputStyle}
+        />
+        <span style={{ fontSize: "13px", color: "#6b7280" }}>days</span>
+      </div>
+    );
+  }
+
+  // Relative range: the current day, week, month or year
+  if (operator === "in_this") {
+    return (
+      <select
+        aria-label="Period"
+        value={stringValue}
+        onChange={(e) => onChange(e.target.value)}
+        style={{
+          ...valueInputStyle,
+          backgroundColor: "#fff",
+          cursor: "pointer",
+        }}
+      >
+        <option value="">Select...</option>
+        {(Object.keys(DATE_PERIOD_LABELS) as DatePeriod[]).map((period) => (
+          <option key={period} value={period}>
+            {DATE_PERIOD_LABELS[period]}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type="date"
+      value={stringValue}
+      onChange={(e) => onChange(e.target.value)}
+      style={valueInputStyle}
+    />
+  );
+}
+
+// =============================================================================
+// Operator Select Component
+// =============================================================================
+
+interface OperatorSelectProps {
+  column: PluginColumnInfo;
+  operator: FilterOperator;
+  onChange: (operator: FilterOperator) => void;
+}
+
+function OperatorSelect({ column, operator, onChange }: OperatorSelectProps) {
   return (
-    <input
-      type="text"
-      value={value}
-      onChange={(e) => onChange(e.target.value)}
-      placeholder="Value..."
+    <select
+      value={operator}
+      aria-label="Operator"
+      onChange={(e) => onChange(e.target.value as FilterOperator)}
       style={{
-        flex: 1,
-        minWidth: 0,
         padding: "6px 8px",
         fontSize: "13px",
         border: "1px solid #e5e7eb",
         borderRadius: "4px",
+        backgroundColor: "#f9fafb",
+        cursor: "pointer",
+        minWidth: "100px",
       }}
-    />
+    >
+      {getOperatorsForColumn(column).map((op) => (
+        <option key={op} value={op}>
+          {getFilterOperatorLabel(op, column.filterMeta?.filterType)}
+        </option>
+      ))}
+    </select>
   );
 }
 
@@ -182,20 +891,21 @@ export function ValueInput({
 interface FilterItemRowProps {
   filter: FilterItem;
   column: PluginColumnInfo;
+  /** Values of the column with their counts, and the range of its numbers */
+  facets?: ColumnFacets;
   onOperatorChange: (operator: FilterOperator) => void;
-  onValueChange: (value: string) => void;
+  onValueChange: (value: FilterValue) => void;
   onRemove: () => void;
 }
 
 export function FilterItemRow({
   filter,
   column,
+  facets,
   onOperatorChange,
   onValueChange,
   onRemove,
 }: FilterItemRowProps) {
-  const operators = getOperatorsForColumn(column);
-
   return (
     <div
       style={{
@@ -251,25 +961,11 @@ export function FilterItemRow({
         }}
       >
         {/* Operator selector */}
-        <select
-          value={filter.operator}
-          onChange={(e) => onOperatorChange(e.target.value as FilterOperator)}
-          style={{
-            padding: "6px 8px",
-            fontSize: "13px",
-            border: "1px solid #e5e7eb",
-            borderRadius: "4px",
-            backgroundColor: "#f9fafb",
-            cursor: "pointer",
-            minWidth: "100px",
-          }}
-        >
-          {operators.map((op) => (
-            <option key={op} value={op}>
-              {FILTER_OPERATOR_LABELS[op]}
-            </option>
-          ))}
-        </select>
+        <OperatorSelect
+          column={column}
+          operator={filter.operator}
+          onChange={onOperatorChange}
+        />
 
         {/* Value input */}
         <ValueInput
@@ -277,8 +973,17 @@ export function FilterItemRow({
           operator={filter.operator}
           value={filter.value}
           onChange={onValueChange}
+          facets={facets}
         />
       </div>
+
+      {/* Range of the column's numbers */}
+      {column.filterMeta?.filterType === "number" &&
+        facets?.min !== undefined && (
+          <div style={{ fontSize: "12px", color: "#6b7280" }}>
+            Min {facets.min} · Max {facets.max}
+          </div>
+        )}
     </div>
   );
 }
@@ -288,7 +993,12 @@ export function FilterItemRow({
 // =============================================================================
 
 interface UseFilterEventsOptions {
-  filters: FilterItem[];
+  filters: FilterNode[];
+  /**
+   * How the top-level filters are combined
+   * @default "and"
+   */
+  combinator?: FilterCombinator;
   addFilterWithValue: (
     columnKey: string,
     value?: unknown
@@ -301,151 +1011,379 @@ interface UseFilterEventsOptions {
  */
 export function useFilterEvents({
   filters,
+  combinator = "and",
   addFilterWithValue,
 }: UseFilterEventsOptions) {
-  const { table, useEvent } = usePluginContext();
+  const { table, columns, useEvent } = usePluginContext();
 
   // Subscribe to filter:add-request event (from context menu)
   useEvent("filter:add-request", (payload) => {
     const { columnKey, value } = payload;
     const newFilter = addFilterWithValue(columnKey, value);
     if (newFilter && value != null) {
-      // Auto-apply when coming from context menu
-      const columnFilters = [
-        ...filters.filter((f) => f.columnKey !== columnKey),
-        newFilter,
-      ]
-        .filter((f) => {
-          if (!operatorRequiresValue(f.operator)) return true;
-          return f.value !== "";
-        })
-        .map((f) => ({
-          id: f.columnKey,
-          value: {
-            operator: f.operator,
-            value: f.value,
-          },
-        }));
-      table.setFilter(columnFilters);
+      // Auto-apply when coming from context menu, replacing top-level
+      // filters of the same column
+      const root: FilterGroupItem = {
+        id: "root",
+        combinator,
+        items: [
+          ...filters.filter(
+            (f) => isFilterGroupItem(f) || f.columnKey !== columnKey
+          ),
+          newFilter,
+        ],
+      };
+      table.setFilter(toColumnFilters(toFilterGroup(root, columns)));
     }
   });
 }
 
+// =============================================================================
+// Filter Group Components
+// =============================================================================
+
+interface FilterTreeActions {
+  addFilter: (groupId: string, columnKey: string) => void;
+  addGroup: (groupId: string) => void;
+  removeNode: (nodeId: string) => void;
+  toggleCombinator: (groupId: string) => void;
+  updateOperator: (filterId: string, operator: FilterOperator) => void;
+  updateValue: (filterId: string, value: FilterValue) => void;
+}
+
+interface AddFilterControlsProps {
+  columns: PluginColumnInfo[];
+  onAddFilter: (columnKey: string) => void;
+  onAddGroup: () => void;
+}
+
+function AddFilterControls({
+  columns,
+  onAddFilter,
+  onAddGroup,
+}: AddFilterControlsProps) {
+  const disabled = columns.length === 0;
+
+  return (
+    <div style={{ display: "flex", gap: "8px" }}>
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) {
+            onAddFilter(e.target.value);
+          }
+        }}
+        disabled={disabled}
+        style={{
+          flex: 1,
+          minWidth: 0,
+          padding: "8px 12px",
+          fontSize: "14px",
+          border: "1px solid #e5e7eb",
+          borderRadius: "6px",
+          outline: "none",
+          boxSizing: "border-box",
+          backgroundColor: "#fff",
+          cursor: disabled ? "not-allowed" : "pointer",
+          opacity: disabled ? 0.6 : 1,
+        }}
+      >
+        <option value="">+ Add filter...</option>
+        {columns.map((column) => (
+          <option key={column.key} value={column.key}>
+            {column.header}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onAddGroup}
+        disabled={disabled}
+        title="Add group"
+        style={{
+          padding: "8px 12px",
+          fontSize: "14px",
+          color: "#374151",
+          backgroundColor: "#fff",
+          border: "1px solid #e5e7eb",
+          borderRadius: "6px",
+          cursor: disabled ? "not-allowed" : "pointer",
+          opacity: disabled ? 0.6 : 1,
+          whiteSpace: "nowrap",
+        }}
+      >
+        + Group
+      </button>
+    </div>
+  );
+}
+
+interface CombinatorToggleProps {
+  combinator: FilterCombinator;
+  onToggle: () => void;
+}
+
+function CombinatorToggle({ combinator, onToggle }: CombinatorToggleProps) {
+  const next = getCombinatorLabel(toggleCombinator(combinator));
+
+  return (
+    <button
+      onClick={onToggle}
+      style={{
+        fontSize: "12px",
+        color: "#3b82f6",
+        background: "none",
+        border: "none",
+        cursor: "pointer",
+        padding: "2px 6px",
+      }}
+    >
+      Switch to {next}
+    </button>
+  );
+}
+
+interface FilterNodeListProps {
+  items: FilterNode[];
+  columns: PluginColumnInfo[];
+  actions: FilterTreeActions;
+}
+
+function FilterNodeList({ items, columns, actions }: FilterNodeListProps) {
+  const { table } = usePluginContext();
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+      {items.map((node) => {
+        if (isFilterGroupItem(node)) {
+          return (
+            <FilterGroupBox
+              key={node.id}
+              group={node}
+              columns={columns}
+              actions={actions}
+            />
+          );
+        }
+
+        const column = columns.find((col) => col.key === node.columnKey);
+        if (!column) return null;
+
+        return (
+          <FilterItemRow
+            key={node.id}
+            filter={node}
+            column={column}
+            facets={table.getColumnFacets(column.key)}
+            onOperatorChange={(op) => actions.updateOperator(node.id, op)}
+            onValueChange={(val) => actions.updateValue(node.id, val)}
+            onRemove={() => actions.removeNode(node.id)}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+interface FilterGroupBoxProps {
+  group: FilterGroupItem;
+  columns: PluginColumnInfo[];
+  actions: FilterTreeActions;
+}
+
+function FilterGroupBox({ group, columns, actions }: FilterGroupBoxProps) {
+  return (
+    <div
+      role="group"
+      aria-label="Filter group"
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "8px",
+        borderRadius: "6px",
+        backgroundColor: "#f9fafb",
+        border: "1px dashed #d1d5db",
+      }}
+    >
+      {/* Header: combinator + remove button */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+        }}
+      >
+        <span style={{ fontSize: "12px", color: "#6b7280", fontWeight: 500 }}>
+          Group ({getCombinatorLabel(group.combinator)})
+        </span>
+        <div style={{ display: "flex", alignItems: "center" }}>
+          <CombinatorToggle
+            combinator={group.combinator}
+            onToggle={() => actions.toggleCombinator(group.id)}
+          />
+          <button
+            onClick={() => actions.removeNode(group.id)}
+            style={{
+              padding: "2px 6px",
+              fontSize: "14px",
+              color: "#9ca3af",
+              background: "none",
+              border: "none",
+              cursor: "pointer",
+              lineHeight: 1,
+            }}
+            title="Remove group"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <FilterNodeList items={group.items} columns={columns} actions={actions} />
+
+      <AddFilterControls
+        columns={columns}
+        onAddFilter={(columnKey) => actions.addFilter(group.id, columnKey)}
+        onAddGroup={() => actions.addGroup(group.id)}
+      />
+    </div>
+  );
+}
+
 // =============================================================================
 // Filter Panel Component
 // =============================================================================
 
 export function FilterPanel() {
   const { columns, table } = usePluginContext();
-  const [filters, setFilters] = useState<FilterItem[]>([]);
+  const filterState = table.getFilterState();
+  const [root, setRoot] = useState<FilterGroupItem>(() =>
+    fromFilterGroup(toFilterExpression(filterState), columns)
+  );
 
-  // Get columns that have filterMeta defined
+  // Get columns that have filterMeta defined. A column can be filtered by
+  // multiple conditions, so all of them stay available.
   const filterableColumns = useMemo(() => {
     return columns.filter((col) => col.filterMeta !== undefined);
   }, [columns]);
 
-  // Get columns not currently being filtered
-  const availableColumns = useMemo(() => {
-    const filteredColumnKeys = new Set(filters.map((f) => f.columnKey));
-    return filterableColumns.filter((col) => !filteredColumnKeys.has(col.key));
-  }, [filterableColumns, filters]);
+  // Rebuild the filters when they are changed elsewhere, e.g. in a column
+  // header. Unapplied changes are kept as long as the filters don't change.
+  const filterStateKey = JSON.stringify(filterState);
+  const lastFilterStateKeyRef = useRef(filterStateKey);
+  useEffect(() => {
+    if (filterStateKey === lastFilterStateKeyRef.current) return;
+    lastFilterStateKeyRef.current = filterStateKey;
+    setRoot((prev) =>
+      JSON.stringify(toColumnFilters(toFilterGroup(prev, columns))) ===
+        filterStateKey
+        ? prev
+        : fromFilterGroup(toFilterExpression(filterState), columns)
+    );
+  }, [filterStateKey, filterState, columns]);
 
-  // Add a new filter with optional value (for context menu)
-  const addFilterWithValue = useCallback(
-    (columnKey: string, value?: unknown) => {
+  const createFilterItem = useCallback(
+    (columnKey: string, operator?: FilterOperator, value?: FilterValue) => {
       const column = filterableColumns.find((col) => col.key === columnKey);
       if (!column) return;
 
+      const filterOperator = operator ?? getDefaultOperator(column);
       const newFilter: FilterItem = {
         id: generateFilterId(),
         columnKey,
         columnHeader: column.header,
-        operator: "equals",
-        value: value != null ? String(value) : "",
+        operator: filterOperator,
+        value: value ?? getEmptyFilterValue(filterOperator),
       };
-
-      setFilters((prev) => [...prev, newFilter]);
       return newFilter;
     },
     [filterableColumns]
   );
 
-  // Add a new filter (without value)
-  const addFilter = useCallback(
-    (columnKey: string) => {
-      const column = filterableColumns.find((col) => col.key === columnKey);
-      if (!column) return;
-
-      const newFilter: FilterItem = {
-        id: generateFilterId(),
+  // Add a top-level filter with optional value (for context menu)
+  const addFilterWithValue = useCallback(
+    (columnKey: string, value?: unknown) => {
+      const newFilter = createFilterItem(
         columnKey,
-        columnHeader: column.header,
-        operator: getDefaultOperator(column),
-        value: "",
-      };
+        "equals",
+        value != null ? String(value) : ""
+      );
+      if (!newFilter) return;
 
-      setFilters((prev) => [...prev, newFilter]);
+      setRoot((prev) => ({ ...prev, items: [...prev.items, newFilter] }));
+      return newFilter;
     },
-    [filterableColumns]
+    [createFilterItem]
   );
 
   // Subscribe to events from context menu
   useFilterEvents({
-    filters,
+    filters: root.items,
+    combinator: root.combinator,
     addFilterWithValue,
   });
 
-  // Remove a filter
-  const removeFilter = useCallback((filterId: string) => {
-    setFilters((prev) => prev.filter((f) => f.id !== filterId));
-  }, []);
+  const actions = useMemo<FilterTreeActions>(() => {
+    const update = (
+      id: string,
+      updater: (node: FilterNode) => FilterNode | undefined
+    ) => setRoot((prev) => updateFilterNode(prev, id, updater));
 
-  // Update filter operator
-  const updateOperator = useCallback(
-    (filterId: string, operator: FilterOperator) => {
-      setFilters((prev) =>
-        prev.map((f) => (f.id === filterId ? { ...f, operator } : f))
+    const appendToGroup = (groupId: string, item: FilterNode) =>
+      update(groupId, (node) =>
+        isFilterGroupItem(node)
+          ? { ...node, items: [...node.items, item] }
+          : node
       );
-    },
-    []
-  );
 
-  // Update filter value
-  const updateValue = useCallback((filterId: string, value: string) => {
-    setFilters((prev) =>
-      prev.map((f) => (f.id === filterId ? { ...f, value } : f))
-    );
-  }, []);
+    return {
+      addFilter: (groupId, columnKey) => {
+        const newFilter = createFilterItem(columnKey);
+        if (newFilter) appendToGroup(groupId, newFilter);
+      },
+      addGroup: (groupId) => appendToGroup(groupId, createFilterGroup()),
+      removeNode: (nodeId) => update(nodeId, () => undefined),
+      toggleCombinator: (groupId) =>
+        update(groupId, (node) =>
+          isFilterGroupItem(node)
+            ? { ...node, combinator: toggleCombinator(node.combinator) }
+            : node
+        ),
+      updateOperator: (filterId, operator) =>
+        update(filterId, (node) => {
+          if (isFilterGroupItem(node)) return node;
+          const keepValue =
+            getOperatorValueKind(node.operator) ===
+            getOperatorValueKind(operator);
+          return {
+            ...node,
+            operator,
+            value: keepValue ? node.value : getEmptyFilterValue(operator),
+          };
+        }),
+      updateValue: (filterId, value) =>
+        update(filterId, (node) =>
+          isFilterGroupItem(node) ? node : { ...node, value }
+        ),
+    };
+  }, [createFilterItem]);
 
   // Clear all filters
   const clearAll = useCallback(() => {
-    setFilters([]);
+    setRoot((prev) => ({ ...prev, items: [] }));
     table.setFilter([]);
   }, [table]);
 
   // Apply filters to table
   const applyFilters = useCallback(() => {
-    // Convert our filter items to TanStack Table's ColumnFiltersState format
-    // Each filter becomes { id: columnKey, value: { operator, value } }
-    const columnFilters = filters
-      .filter((f) => {
-        // Skip filters without values (unless operator doesn't need value)
-        if (!operatorRequiresValue(f.operator)) return true;
-        return f.value !== "";
-      })
-      .map((f) => ({
-        id: f.columnKey,
-        value: {
-          operator: f.operator,
-          value: f.value,
-        },
-      }));
-
-    table.setFilter(columnFilters);
-  }, [filters, table]);
+    // Convert the filter tree to TanStack Table's ColumnFiltersState format.
+    // Top-level AND filters become { id, value: { operator, value } } and
+    // OR/nested groups are stored as filter groups.
+    table.setFilter(toColumnFilters(toFilterGroup(root, columns)));
+  }, [root, table, columns]);
 
   // Check if there are unapplied changes
-  const hasFilters = filters.length > 0;
+  const hasFilters = root.items.length > 0;
 
   return (
     <div
@@ -457,34 +1395,11 @@ export function FilterPanel() {
     >
       {/* Add filter dropdown */}
       <div style={{ marginBottom: "12px" }}>
-        <select
-          value=""
-          onChange={(e) => {
-            if (e.target.value) {
-              addFilter(e.target.value);
-            }
-          }}
-          disabled={availableColumns.length === 0}
-          style={{
-            width: "100%",
-            padding: "8px 12px",
-            fontSize: "14px",
-            border: "1px solid #e5e7eb",
-            borderRadius: "6px",
-            outline: "none",
-            boxSizing: "border-box",
-            backgroundColor: "#fff",
-            cursor: availableColumns.length === 0 ? "not-allowed" : "pointer",
-            opacity: availableColumns.length === 0 ? 0.6 : 1,
-          }}
-        >
-          <option value="">+ Add filter...</option>
-          {availableColumns.map((column) => (
-            <option key={column.key} value={column.key}>
-              {column.header}
-            </option>
-          ))}
-        </select>
+        <AddFilterControls
+          columns={filterableColumns}
+          onAddFilter={(columnKey) => actions.addFilter(root.id, columnKey)}
+          onAddGroup={() => actions.addGroup(root.id)}
+        />
       </div>
 
       {/* Filter list */}
@@ -496,7 +1411,7 @@ export function FilterPanel() {
       >
         {hasFilters ? (
           <>
-            {/* Header with clear all */}
+            {/* Header with combinator and clear all */}
             <div
               style={{
                 display: "flex",
@@ -508,45 +1423,35 @@ export function FilterPanel() {
               <span
                 style={{ fontSize: "12px", color: "#6b7280", fontWeight: 500 }}
               >
-                Active filters (AND)
+                Active filters ({getCombinatorLabel(root.combinator)})
               </span>
-              <button
-                onClick={clearAll}
-                style={{
-                  fontSize: "12px",
-                  color: "#ef4444",
-                  background: "none",
-                  border: "none",
-                  cursor: "pointer",
-                  padding: "2px 6px",
-                }}
-              >
-                Clear all
-              </button>
+              <div style={{ display: "flex", alignItems: "center" }}>
+                <CombinatorToggle
+                  combinator={root.combinator}
+                  onToggle={() => actions.toggleCombinator(root.id)}
+                />
+                <button
+                  onClick={clearAll}
+                  style={{
+                    fontSize: "12px",
+                    color: "#ef4444",
+                    background: "none",
+                    border: "none",
+                    cursor: "pointer",
+                    padding: "2px 6px",
+                  }}
+                >
+                  Clear all
+                </button>
+              </div>
             </div>
 
-            {/* Filter items */}
-            <div
-              style={{ display: "flex", flexDirection: "column", gap: "8px" }}
-            >
-              {filters.map((filter) => {
-                const column = filterableColumns.find(
-                  (col) => col.key === filter.columnKey
-                );
-                if (!column) return null;
-
-                return (
-                  <FilterItemRow
-                    key={filter.id}
-                    filter={filter}
-                    column={column}
-                    onOperatorChange={(op) => updateOperator(filter.id, op)}
-                    onValueChange={(val) => updateValue(filter.id, val)}
-                    onRemove={() => removeFilter(filter.id)}
-                  />
-                );
-              })}
-            </div>
+            {/* Filter items and groups */}
+            <FilterNodeList
+              items={root.items}
+              columns={filterableColumns}
+              actions={actions}
+            />
           </>
         ) : (
           <div
@@ -605,6 +1510,258 @@ export function FilterPanel() {
   );
 }
 
+// =============================================================================
+// Header Filter Components
+// =============================================================================
+
+const POPOVER_WIDTH = 280;
+
+function FunnelIcon() {
+  return (
+    <svg
+      viewBox="0 0 16 16"
+      width="12"
+      height="12"
+      fill="currentColor"
+      aria-hidden="true"
+    >
+      <path d="M1 2h14l-5.5 6.5V14l-3-1.5V8.5z" />
+    </svg>
+  );
+}
+
+interface HeaderFilterPopoverProps {
+  column: PluginColumnInfo;
+  /** Position of the button the popover opens from */
+  anchor: DOMRect;
+  onClose: () => void;
+}
+
+/**
+ * Popover editing the filter of a column: an operator and a value, applied
+ * as the column's entry of the column filter state
+ */
+function HeaderFilterPopover({
+  column,
+  anchor,
+  onClose,
+}: HeaderFilterPopoverProps) {
+  const { table } = usePluginContext();
+  const filterState = table.getFilterState();
+  const entry = filterState.find((f) => f.id === column.key);
+  const current =
+    entry && !isFilterGroup(entry.value)
+      ? (entry.value as Pick<FilterCondition, "operator" | "value">)
+      : undefined;
+
+  const [operator, setOperator] = useState<FilterOperator>(
+    () => current?.operator ?? getDefaultOperator(column)
+  );
+  const [value, setValue] = useState<FilterValue>(
+    () => current?.value ?? getEmptyFilterValue(operator)
+  );
+
+  // Move focus into the popover when it opens
+  const formRef = useRef<HTMLFormElement>(null);
+  useEffect(() => {
+    formRef.current?.querySelector<HTMLElement>("select, input")?.focus();
+  }, []);
+
+  const changeOperator = (next: FilterOperator) => {
+    if (getOperatorValueKind(next) !== getOperatorValueKind(operator)) {
+      setValue(getEmptyFilterValue(next));
+    }
+    setOperator(next);
+  };
+
+  // Replace the column's entry, keeping the filters of other columns
+  const applyFilter = (
+    condition?: Pick<FilterCondition, "operator" | "value">
+  ) => {
+    const others = filterState.filter((f) => f.id !== column.key);
+    table.setFilter(
+      condition ? [...others, { id: column.key, value: condition }] : others
+    );
+    onClose();
+  };
+
+  const isEmpty =
+    operatorRequiresValue(operator, column.filterMeta?.filterType) &&
+    isFilterValueEmpty(value);
+
+  return (
+    <form
+      ref={formRef}
+      role="dialog"
+      aria-label={`Filter ${column.header}`}
+      onSubmit={(e) => {
+        e.preventDefault();
+        applyFilter(isEmpty ? undefined : { operator, value });
+      }}
+      style={{
+        position: "fixed",
+        top: anchor.bottom + 4,
+        left: Math.max(
+          8,
+          Math.min(anchor.left, window.innerWidth - POPOVER_WIDTH - 8)
+        ),
+        zIndex: 1000,
+        width: POPOVER_WIDTH,
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "12px",
+        boxSizing: "border-box",
+        // Don't inherit the header's text style
+        fontSize: "13px",
+        fontWeight: "normal",
+        textTransform: "none",
+        letterSpacing: "normal",
+        color: "#111827",
+        backgroundColor: "#fff",
+        border: "1px solid #e5e7eb",
+        borderRadius: "6px",
+        boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+        cursor: "auto",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <OperatorSelect
+          column={column}
+          operator={operator}
+          onChange={changeOperator}
+        />
+        <ValueInput
+          column={column}
+          operator={operator}
+          value={value}
+          onChange={setValue}
+          facets={table.getColumnFacets(column.key)}
+        />
+      </div>
+
+      {entry && !current && (
+        <div style={{ fontSize: "12px", color: "#6b7280" }}>
+          Applying replaces the grouped filters of this column.
+        </div>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}>
+        <button
+          type="button"
+          onClick={() => applyFilter()}
+          disabled={!entry}
+          style={{
+            padding: "6px 12px",
+            fontSize: "13px",
+            color: "#374151",
+            backgroundColor: "#fff",
+            border: "1px solid #e5e7eb",
+            borderRadius: "4px",
+            cursor: entry ? "pointer" : "not-allowed",
+            opacity: entry ? 1 : 0.6,
+          }}
+        >
+          Clear
+        </button>
+        <button
+          type="submit"
+          style={{
+            padding: "6px 12px",
+            fontSize: "13px",
+            fontWeight: 500,
+            color: "#fff",
+            backgroundColor: "#3b82f6",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+          }}
+        >
+          Apply
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface HeaderFilterProps {
+  columnKey: string;
+}
+
+/**
+ * Funnel button in a column header, opening a popover to filter the column.
+ * Highlighted while the column is filtered, here or in the panel.
+ */
+export function HeaderFilter({ columnKey }: HeaderFilterProps) {
+  const args = usePluginArgs<FilterPluginConfig>();
+  const { columns, table } = usePluginContext();
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const containerRef = useRef<HTMLSpanElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close on clicks outside the button and the popover
+  useEffect(() => {
+    if (!anchor) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setAnchor(null);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [anchor]);
+
+  const column = columns.find((col) => col.key === columnKey);
+  if (!args.enableHeaderFilters || !column?.filterMeta?.filterType) {
+    return null;
+  }
+
+  const isActive =
+    getColumnConditions(table.getFilterState(), columnKey).length > 0;
+
+  const close = () => {
+    setAnchor(null);
+    buttonRef.current?.focus();
+  };
+
+  return (
+    <span
+      ref={containerRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && anchor) close();
+      }}
+      style={{ display: "inline-flex" }}
+    >
+      <button
+        ref={buttonRef}
+        type="button"
+        aria-label={`Filter ${column.header}`}
+        aria-haspopup="dialog"
+        aria-expanded={anchor !== null}
+        data-active={isActive || undefined}
+        title={isActive ? "Filtered" : "Filter"}
+        onClick={(e) =>
+          setAnchor(anchor ? null : e.currentTarget.getBoundingClientRect())
+        }
+        style={{
+          display: "inline-flex",
+          padding: "2px",
+          color: isActive ? "#3b82f6" : "#9ca3af",
+          background: isActive ? "#dbeafe" : "none",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+        }}
+      >
+        <FunnelIcon />
+      </button>
+      {anchor && (
+        <HeaderFilterPopover column={column} anchor={anchor} onClose={close} />
+      )}
+    </span>
+  );
+}
+
 // =============================================================================
 // Global Search Header Component
 // =============================================================================
@@ -633,6 +1790,7 @@ export function GlobalSearchHeader() {
         debounceMs={300}
         width="100%"
         variant="default"
+        enableQuery={args.enableSearchQuery}
       />
     </div>
   );
@@ -3,7 +3,11 @@ import {
   definePlugin,
   cellContextMenuItem,
 } from "@izumisy/seizen-table/plugin";
-import { FilterPluginPanel, GlobalSearchHeader } from "./component";
+import {
+  FilterPluginPanel,
+  GlobalSearchHeader,
+  HeaderFilter,
+} from "./component";
 
 // =============================================================================
 // Module Augmentation for EventBus
@@ -30,6 +34,10 @@ const FilterPluginSchema = z.object({
   width: z.number().optional().default(320),
   /** Disable global search in header slot */
   disableGlobalSearch: z.boolean().optional().default(false),
+  /** Parse global search as a query, e.g. `status:active age:>30` */
+  enableSearchQuery: z.boolean().optional().default(false),
+  /** Show a filter button in the header of each filterable column */
+  enableHeaderFilters: z.boolean().optional().default(false),
 });
 
 // Re-export component utilities for testing
@@ -43,13 +51,22 @@ export { useFilterEvents } from "./component";
  * Filter Plugin
  *
  * Provides a side panel for adding column filters with type-aware operators.
- * Only columns with meta.filterType defined are filterable.
+ * Only columns with meta.filterType defined are filterable. Filters can be
+ * combined with AND/OR in nested groups.
  *
  * Supported filter types:
- * - "string": Contains, Equals, Starts with, Ends with, Is empty, Is not empty
- * - "number": =, not equals, >, >=, <, <=
- * - "date": =, Before, After
- * - "enum": Is, Is not (requires meta.filterEnumValues)
+ * - "string": Contains, Equals, Starts with, Ends with, Is any of, Is none of,
+ *   Is empty, Is not empty
+ * - "number": =, not equals, >, >=, <, <=, Between, Not between
+ * - "date": On, Before, After, Between, Not between, In the last/next N days,
+ *   In this day/week/month/year
+ * - "enum": Is, Is not, Is any of, Is none of (values from
+ *   meta.filterEnumValues, or else from the data)
+ *
+ * Values are offered with their row counts, from `table.getColumnFacets`.
+ *
+ * With `enableHeaderFilters`, filterable columns also get a filter button in
+ * their header. Both edit the same column filters, so they stay in sync.
  */
 export const FilterPlugin = definePlugin({
   id: "filter",
@@ -64,6 +81,9 @@ export const FilterPlugin = definePlugin({
     header: {
       render: GlobalSearchHeader,
     },
+    columnHeader: {
+      render: (column) => <HeaderFilter columnKey={column.id} />,
+    },
   },
   contextMenuItems: {
     cell: [
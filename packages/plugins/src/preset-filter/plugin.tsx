@@ -34,14 +34,27 @@ const FilterConditionSchema = z.object({
     "gte",
     "lt",
     "lte",
+    "in",
+    "not_in",
     "is",
     "is_not",
+    "on",
     "before",
     "after",
-    "on",
+    "between",
+    "not_between",
+    "in_last",
+    "in_next",
+    "in_this",
   ]) as z.ZodType<FilterOperator>,
-  /** Filter value (not required for is_empty/is_not_empty) */
-  value: z.string().optional().default(""),
+  /**
+   * Filter value (not required for is_empty/is_not_empty).
+   * A `[min, max]` range for between/not_between, a list for in/not_in.
+   */
+  value: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .default(""),
 });
 
 /**
@@ -256,10 +269,10 @@ function PresetFilterHeader() {
  * ```
  *
  * Filter Operators:
- * - String: "contains", "not_contains", "equals", "not_equals", "starts_with", "ends_with", "is_empty", "is_not_empty"
- * - Number: "eq", "neq", "gt", "gte", "lt", "lte"
- * - Date: "before", "after", "on"
- * - Enum: "is", "is_not"
+ * - String: "contains", "not_contains", "equals", "not_equals", "starts_with", "ends_with", "in", "not_in", "is_empty", "is_not_empty"
+ * - Number: "eq", "neq", "gt", "gte", "lt", "lte", "between", "not_between"
+ * - Date: "on", "before", "after", "between", "not_between", "in_last", "in_next", "in_this"
+ * - Enum: "is", "is_not", "in", "not_in"
  */
 export const PresetFilterPlugin = definePlugin({
   id: "preset-filter",
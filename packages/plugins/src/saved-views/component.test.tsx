@@ -0,0 +1,300 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { createMockTable } from "../../tests/utils/mocks";
+import {
+  pluginMockState,
+  initPluginMockState,
+  setupPluginMocks,
+  getPluginContextValue,
+  getPluginArgsValue,
+} from "../../tests/utils/mockState";
+import {
+  createMemoryViewStorage,
+  type SavedView,
+  type SavedViewsData,
+} from "./storage";
+
+// =============================================================================
+// Mock Setup
+// =============================================================================
+
+vi.mock("@izumisy/seizen-table/plugin", () => ({
+  usePluginContext: vi.fn(() => getPluginContextValue()),
+  usePluginArgs: vi.fn(() => getPluginArgsValue()),
+}));
+
+// Import components after mocking
+import { SavedViewsPanel } from "./component";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const columns = [
+  { accessorKey: "name" },
+  { accessorKey: "email" },
+  { accessorKey: "status" },
+  { accessorKey: "age" },
+];
+
+function createView(overrides: Partial<SavedView> = {}): SavedView {
+  return {
+    id: "view-1",
+    name: "Active users",
+    state: {
+      columnFilters: [
+        { id: "status", value: { operator: "equals", value: "active" } },
+      ],
+      globalFilter: "",
+      sorting: [{ id: "name", desc: false }],
+      columnVisibility: { email: false },
+      columnOrder: [],
+    },
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function setupStorage(initial?: SavedViewsData, applyDefaultView = true) {
+  const storage = createMemoryViewStorage(initial);
+  const save = vi.spyOn(storage, "save");
+  setupPluginMocks({
+    table: createMockTable({ columns }),
+    pluginArgs: { width: 300, storage, applyDefaultView },
+  });
+  return { storage, save };
+}
+
+function lastSaved(save: ReturnType<typeof vi.fn>): SavedViewsData {
+  return save.mock.calls[save.mock.calls.length - 1][0] as SavedViewsData;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  initPluginMockState({});
+});
+
+// =============================================================================
+// SavedViewsPanel Tests
+// =============================================================================
+
+describe("SavedViewsPanel", () => {
+  it("shows an empty state without views", async () => {
+    setupStorage();
+    render(<SavedViewsPanel />);
+
+    expect(await screen.findByText("No saved views yet")).toBeInTheDocument();
+  });
+
+  it("renders stored views", async () => {
+    setupStorage({
+      views: [createView(), createView({ id: "view-2", name: "Admins" })],
+      defaultViewId: null,
+    });
+    render(<SavedViewsPanel />);
+
+    expect(await screen.findByText("Active users")).toBeInTheDocument();
+    expect(screen.getByText("Admins")).toBeInTheDocument();
+  });
+
+  it("applies the default view on mount", async () => {
+    const view = createView();
+    setupStorage({ views: [view], defaultViewId: view.id });
+    render(<SavedViewsPanel />);
+
+    await screen.findByText("Active users");
+    const table = pluginMockState.table;
+    expect(table.setFilter).toHaveBeenCalledWith(view.state.columnFilters);
+    expect(table.setSorting).toHaveBeenCalledWith(view.state.sorting);
+    expect(table.setColumnVisibility).toHaveBeenCalledWith({ email: false });
+    expect(table.setPageIndex).toHaveBeenCalledWith(0);
+    expect(table.eventBus.emit).toHaveBeenCalledWith("views:applied", {
+      view,
+    });
+  });
+
+  it("drops unknown columns from stored views", async () => {
+    const view = createView({
+      state: {
+        columnFilters: [
+          { id: "status", value: { operator: "equals", value: "active" } },
+          { id: "removed", value: { operator: "equals", value: "x" } },
+        ],
+        globalFilter: "",
+        sorting: [{ id: "removed", desc: true }],
+        columnVisibility: { email: false, removed: false },
+        columnOrder: ["removed", "name"],
+      },
+    });
+    setupStorage({ views: [view], defaultViewId: view.id });
+    render(<SavedViewsPanel />);
+
+    await screen.findByText("Active users");
+    const table = pluginMockState.table;
+    expect(table.setFilter).toHaveBeenCalledWith([
+      { id: "status", value: { operator: "equals", value: "active" } },
+    ]);
+    expect(table.setSorting).toHaveBeenCalledWith([]);
+    expect(table.setColumnVisibility).toHaveBeenCalledWith({ email: false });
+    expect(table.setColumnOrder).toHaveBeenCalledWith(["name"]);
+  });
+
+  it("does not apply the default view when disabled", async () => {
+    const view = createView();
+    setupStorage({ views: [view], defaultViewId: view.id }, false);
+    render(<SavedViewsPanel />);
+
+    await screen.findByText("Active users");
+    expect(pluginMockState.table.setFilter).not.toHaveBeenCalled();
+  });
+
+  it("applies a view when clicked", async () => {
+    const user = userEvent.setup();
+    const view = createView();
+    setupStorage({ views: [view], defaultViewId: null });
+    render(<SavedViewsPanel />);
+
+    await user.click(await screen.findByText("Active users"));
+
+    expect(pluginMockState.table.setSorting).toHaveBeenCalledWith(
+      view.state.sorting
+    );
+    expect(pluginMockState.table.eventBus.emit).toHaveBeenCalledWith(
+      "views:applied",
+      { view }
+    );
+  });
+
+  it("saves the current table state as a new view", async () => {
+    const user = userEvent.setup();
+    const { save } = setupStorage();
+    pluginMockState.table.getSortingState.mockReturnValue([
+      { id: "age", desc: true },
+    ]);
+    render(<SavedViewsPanel />);
+    await screen.findByText("No saved views yet");
+
+    await user.type(screen.getByPlaceholderText("New view name..."), "Oldest");
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    const saved = lastSaved(save).views[0];
+    expect(saved.name).toBe("Oldest");
+    expect(saved.state.sorting).toEqual([{ id: "age", desc: true }]);
+    expect(screen.getByText("Oldest")).toBeInTheDocument();
+    expect(pluginMockState.table.eventBus.emit).toHaveBeenCalledWith(
+      "views:saved",
+      { view: saved, action: "create" }
+    );
+  });
+
+  it("renames a view", async () => {
+    const user = userEvent.setup();
+    const { save } = setupStorage({
+      views: [createView()],
+      defaultViewId: null,
+    });
+    render(<SavedViewsPanel />);
+    await screen.findByText("Active users");
+
+    await user.click(screen.getByRole("button", { name: "Rename view" }));
+    const input = screen.getByRole("textbox", { name: "View name" });
+    await user.clear(input);
+    await user.type(input, "Active{Enter}");
+
+    expect(lastSaved(save).views[0].name).toBe("Active");
+    expect(pluginMockState.table.eventBus.emit).toHaveBeenCalledWith(
+      "views:saved",
+      expect.objectContaining({ action: "rename" })
+    );
+  });
+
+  it("duplicates a view after the original", async () => {
+    const user = userEvent.setup();
+    const view = createView();
+    const { save } = setupStorage({
+      views: [view, createView({ id: "view-2", name: "Admins" })],
+      defaultViewId: null,
+    });
+    render(<SavedViewsPanel />);
+    await screen.findByText("Active users");
+
+    const item = screen.getByText("Active users").closest("[data-view-id]");
+    await user.click(
+      within(item as HTMLElement).getByRole("button", {
+        name: "Duplicate view",
+      })
+    );
+
+    const views = lastSaved(save).views;
+    expect(views.map((v) => v.name)).toEqual([
+      "Active users",
+      "Active users (copy)",
+      "Admins",
+    ]);
+    expect(views[1].id).not.toBe(view.id);
+    expect(views[1].state).toEqual(view.state);
+  });
+
+  it("deletes a view and clears it as the default", async () => {
+    const user = userEvent.setup();
+    const view = createView();
+    const { save } = setupStorage(
+      { views: [view], defaultViewId: view.id },
+      false
+    );
+    render(<SavedViewsPanel />);
+    await screen.findByText("Active users");
+
+    await user.click(screen.getByRole("button", { name: "Delete view" }));
+
+    expect(lastSaved(save)).toEqual({ views: [], defaultViewId: null });
+    expect(screen.queryByText("Active users")).not.toBeInTheDocument();
+    expect(pluginMockState.table.eventBus.emit).toHaveBeenCalledWith(
+      "views:deleted",
+      { viewId: view.id }
+    );
+  });
+
+  it("toggles the default view", async () => {
+    const user = userEvent.setup();
+    const view = createView();
+    const { save } = setupStorage({ views: [view], defaultViewId: null });
+    render(<SavedViewsPanel />);
+    await screen.findByText("Active users");
+
+    await user.click(
+      screen.getByRole("button", { name: "Set as default view" })
+    );
+    expect(lastSaved(save).defaultViewId).toBe(view.id);
+    expect(pluginMockState.table.eventBus.emit).toHaveBeenCalledWith(
+      "views:default-change",
+      { viewId: view.id }
+    );
+
+    await user.click(
+      screen.getByRole("button", { name: "Unset default view" })
+    );
+    expect(lastSaved(save).defaultViewId).toBeNull();
+  });
+
+  it("offers to update the active view when the table state differs", async () => {
+    const user = userEvent.setup();
+    const view = createView();
+    const { save } = setupStorage({ views: [view], defaultViewId: null });
+    render(<SavedViewsPanel />);
+
+    await user.click(await screen.findByText("Active users"));
+    expect(screen.getByText("(modified)")).toBeInTheDocument();
+
+    pluginMockState.table.getSortingState.mockReturnValue([
+      { id: "age", desc: false },
+    ]);
+    await user.click(screen.getByRole("button", { name: "Update view" }));
+
+    expect(lastSaved(save).views[0].state.sorting).toEqual([
+      { id: "age", desc: false },
+    ]);
+  });
+});
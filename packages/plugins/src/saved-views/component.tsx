@@ -0,0 +1,587 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { usePluginContext, usePluginArgs } from "@izumisy/seizen-table/plugin";
+import {
+  getColumnIds,
+  sanitizePersistedState,
+  type SeizenTableInstance,
+} from "@izumisy/seizen-table";
+import type {
+  SavedView,
+  SavedViewState,
+  SavedViewsData,
+  ViewStorage,
+} from "./storage";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SavedViewsConfig {
+  width: number;
+  storage: ViewStorage;
+  applyDefaultView: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Capture the current table state for a view
+ */
+export function captureViewState(
+  table: SeizenTableInstance<unknown>
+): SavedViewState {
+  return {
+    columnFilters: table.getFilterState(),
+    globalFilter: table.getGlobalFilter(),
+    sorting: table.getSortingState(),
+    columnVisibility: table.getColumnVisibility(),
+    columnOrder: table.getColumnOrder(),
+  };
+}
+
+/**
+ * Apply a view's state to the table
+ */
+export function applyViewState(
+  table: SeizenTableInstance<unknown>,
+  state: SavedViewState
+): void {
+  table.setFilter(state.columnFilters);
+  table.setGlobalFilter(state.globalFilter);
+  table.setSorting(state.sorting);
+  table.setColumnVisibility(state.columnVisibility);
+  table.setColumnOrder(state.columnOrder);
+  table.setPageIndex(0);
+}
+
+/**
+ * Validate a stored view state and drop entries for unknown columns,
+ * e.g. of columns removed since the view was saved
+ */
+export function sanitizeViewState(
+  state: unknown,
+  columnIds: string[]
+): SavedViewState {
+  const sanitized = sanitizePersistedState(state, columnIds);
+  const globalFilter =
+    typeof state === "object" && state !== null && "globalFilter" in state
+      ? state.globalFilter
+      : undefined;
+  return {
+    columnFilters: sanitized.columnFilters ?? [],
+    globalFilter: typeof globalFilter === "string" ? globalFilter : "",
+    sorting: sanitized.sorting ?? [],
+    columnVisibility: sanitized.columnVisibility ?? {},
+    columnOrder: sanitized.columnOrder ?? [],
+  };
+}
+
+function isSameViewState(a: SavedViewState, b: SavedViewState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+// =============================================================================
+// useSavedViews Hook
+// =============================================================================
+
+/**
+ * Hook that manages saved views: loading from and saving to the storage,
+ * applying views to the table and emitting `views:*` events.
+ */
+export function useSavedViews() {
+  const { table } = usePluginContext();
+  const args = usePluginArgs<SavedViewsConfig>();
+  const [data, setData] = useState<SavedViewsData>({
+    views: [],
+    defaultViewId: null,
+  });
+  const [loading, setLoading] = useState(true);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+
+  const dataRef = useRef(data);
+  const tableRef = useRef(table);
+  tableRef.current = table;
+  // Plugin args are re-created whenever the plugin is configured during
+  // render, so read them through a ref instead of depending on them
+  const argsRef = useRef(args);
+  argsRef.current = args;
+
+  const commit = useCallback((next: SavedViewsData) => {
+    dataRef.current = next;
+    setData(next);
+    void Promise.resolve(argsRef.current.storage.save(next)).catch(() => {
+      // Keep the in-memory views even if the storage fails
+    });
+  }, []);
+
+  const applyView = useCallback((viewId: string) => {
+    const view = dataRef.current.views.find((v) => v.id === viewId);
+    if (!view) return;
+    applyViewState(tableRef.current, view.state);
+    setActiveViewId(view.id);
+    tableRef.current.eventBus.emit("views:applied", { view });
+  }, []);
+
+  // Load views and apply the default view on mount
+  useEffect(() => {
+    let cancelled = false;
+    Promise.resolve()
+      .then(() => argsRef.current.storage.load())
+      .catch(() => null)
+      .then((loaded) => {
+        if (cancelled) return;
+        const columnIds = getColumnIds(tableRef.current.getColumns());
+        const next: SavedViewsData = {
+          views: (loaded?.views ?? []).map((view) => ({
+            ...view,
+            state: sanitizeViewState(view.state, columnIds),
+          })),
+          defaultViewId: loaded?.defaultViewId ?? null,
+        };
+        dataRef.current = next;
+        setData(next);
+        setLoading(false);
+        if (argsRef.current.applyDefaultView && next.defaultViewId) {
+          applyView(next.defaultViewId);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyView]);
+
+  const saveView = useCallback(
+    (name: string) => {
+      const now = new Date().toISOString();
+      const view: SavedView = {
+        id: createViewId(),
+        name,
+        state: captureViewState(tableRef.current),
+        createdAt: now,
+        updatedAt: now,
+      };
+      commit({
+        ...dataRef.current,
+        views: [...dataRef.current.views, view],
+      });
+      setActiveViewId(view.id);
+      tableRef.current.eventBus.emit("views:saved", {
+        view,
+        action: "create",
+      });
+      return view;
+    },
+    [commit]
+  );
+
+  const updateView = useCallback(
+    (viewId: string, changes: { name?: string; state?: SavedViewState }) => {
+      const existing = dataRef.current.views.find((v) => v.id === viewId);
+      if (!existing) return;
+      const view: SavedView = {
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+      commit({
+        ...dataRef.current,
+        views: dataRef.current.views.map((v) => (v.id === viewId ? view : v)),
+      });
+      tableRef.current.eventBus.emit("views:saved", {
+        view,
+        action: changes.state ? "update" : "rename",
+      });
+    },
+    [commit]
+  );
+
+  const overwriteView = useCallback(
+    (viewId: string) =>
+      updateView(viewId, { state: captureViewState(tableRef.current) }),
+    [updateView]
+  );
+
+  const renameView = useCallback(
+    (viewId: string, name: string) => updateView(viewId, { name }),
+    [updateView]
+  );
+
+  const duplicateView = useCallback(
+    (viewId: string) => {
+      const source = dataRef.current.views.find((v) => v.id === viewId);
+      if (!source) return;
+      const now = new Date().toISOString();
+      const view: SavedView = {
+        ...source,
+        id: createViewId(),
+        name: `${source.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const index = dataRef.current.views.indexOf(source);
+      const views = [...dataRef.current.views];
+      views.splice(index + 1, 0, view);
+      commit({ ...dataRef.current, views });
+      tableRef.current.eventBus.emit("views:saved", {
+        view,
+        action: "duplicate",
+      });
+    },
+    [commit]
+  );
+
+  const deleteView = useCallback(
+    (viewId: string) => {
+      const { views, defaultViewId } = dataRef.current;
+      commit({
+        views: views.filter((v) => v.id !== viewId),
+        defaultViewId: defaultViewId === viewId ? null : defaultViewId,
+      });
+      setActiveViewId((current) => (current === viewId ? null : current));
+      tableRef.current.eventBus.emit("views:deleted", { viewId });
+    },
+    [commit]
+  );
+
+  const setDefaultView = useCallback(
+    (viewId: string | null) => {
+      commit({ ...dataRef.current, defaultViewId: viewId });
+      tableRef.current.eventBus.emit("views:default-change", { viewId });
+    },
+    [commit]
+  );
+
+  return {
+    views: data.views,
+    defaultViewId: data.defaultViewId,
+    activeViewId,
+    loading,
+    saveView,
+    overwriteView,
+    renameView,
+    duplicateView,
+    deleteView,
+    setDefaultView,
+    applyView,
+  };
+}
+
+// =============================================================================
+// Small Components
+// =============================================================================
+
+function ActionButton({
+  label,
+  onClick,
+  active = false,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  active?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      title={label}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      style={{
+        padding: "2px 6px",
+        fontSize: "12px",
+        color: active ? "#f59e0b" : "#6b7280",
+        backgroundColor: "transparent",
+        border: "none",
+        borderRadius: "4px",
+        cursor: "pointer",
+      }}
+      onMouseOver={(e) => {
+        e.currentTarget.style.backgroundColor = "#f3f4f6";
+      }}
+      onMouseOut={(e) => {
+        e.currentTarget.style.backgroundColor = "transparent";
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: "6px 10px",
+  fontSize: "13px",
+  border: "1px solid #d1d5db",
+  borderRadius: "6px",
+  outline: "none",
+  boxSizing: "border-box",
+};
+
+// =============================================================================
+// View Item Component
+// =============================================================================
+
+interface ViewItemProps {
+  view: SavedView;
+  isActive: boolean;
+  isModified: boolean;
+  isDefault: boolean;
+  onApply: () => void;
+  onOverwrite: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onToggleDefault: () => void;
+}
+
+export function ViewItem({
+  view,
+  isActive,
+  isModified,
+  isDefault,
+  onApply,
+  onOverwrite,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onToggleDefault,
+}: ViewItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(view.name);
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (name && name !== view.name) {
+      onRename(name);
+    }
+    setIsRenaming(false);
+  };
+
+  return (
+    <div
+      data-view-id={view.id}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "4px",
+        padding: "6px 8px",
+        borderRadius: "6px",
+        backgroundColor: isActive ? "#eff6ff" : "#fff",
+        border: isActive ? "1px solid #bfdbfe" : "1px solid #e5e7eb",
+      }}
+    >
+      <ActionButton
+        label={isDefault ? "Unset default view" : "Set as default view"}
+        onClick={onToggleDefault}
+        active={isDefault}
+      >
+        {isDefault ? "★" : "☆"}
+      </ActionButton>
+
+      {isRenaming ? (
+        <input
+          type="text"
+          aria-label="View name"
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") {
+              setDraftName(view.name);
+              setIsRenaming(false);
+            }
+          }}
+          style={inputStyle}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={onApply}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: "2px 4px",
+            fontSize: "13px",
+            fontWeight: isActive ? 600 : 400,
+            color: "#111827",
+            textAlign: "left",
+            backgroundColor: "transparent",
+            border: "none",
+            cursor: "pointer",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {view.name}
+          {isActive && isModified && (
+            <span
+              style={{ marginLeft: "6px", fontSize: "11px", color: "#6b7280" }}
+            >
+              (modified)
+            </span>
+          )}
+        </button>
+      )}
+
+      {isActive && isModified && (
+        <ActionButton label="Update view" onClick={onOverwrite}>
+          Update
+        </ActionButton>
+      )}
+      <ActionButton
+        label="Rename view"
+        onClick={() => {
+          setDraftName(view.name);
+          setIsRenaming(true);
+        }}
+      >
+        ✎
+      </ActionButton>
+      <ActionButton label="Duplicate view" onClick={onDuplicate}>
+        ⧉
+      </ActionButton>
+      <ActionButton label="Delete view" onClick={onDelete}>
+        ✕
+      </ActionButton>
+    </div>
+  );
+}
+
+// =============================================================================
+// Main Panel Component
+// =============================================================================
+
+export function SavedViewsPanel() {
+  const { table } = usePluginContext();
+  const args = usePluginArgs<SavedViewsConfig>();
+  const {
+    views,
+    defaultViewId,
+    activeViewId,
+    loading,
+    saveView,
+    overwriteView,
+    renameView,
+    duplicateView,
+    deleteView,
+    setDefaultView,
+    applyView,
+  } = useSavedViews();
+  const [newViewName, setNewViewName] = useState("");
+
+  const currentState = captureViewState(table);
+  const trimmedName = newViewName.trim();
+
+  const handleSave = () => {
+    if (!trimmedName) return;
+    saveView(trimmedName);
+    setNewViewName("");
+  };
+
+  return (
+    <div
+      style={{
+        width: args.width,
+        height: "100%",
+        padding: "16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "12px",
+        boxSizing: "border-box",
+      }}
+    >
+      {/* Save current view */}
+      <div style={{ display: "flex", gap: "8px" }}>
+        <input
+          type="text"
+          placeholder="New view name..."
+          value={newViewName}
+          onChange={(e) => setNewViewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSave();
+          }}
+          style={inputStyle}
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!trimmedName}
+          style={{
+            padding: "6px 12px",
+            fontSize: "13px",
+            fontWeight: 500,
+            color: "#fff",
+            backgroundColor: trimmedName ? "#3b82f6" : "#93c5fd",
+            border: "none",
+            borderRadius: "6px",
+            cursor: trimmedName ? "pointer" : "not-allowed",
+          }}
+        >
+          Save
+        </button>
+      </div>
+
+      {/* View list */}
+      <div
+        style={{
+          flex: 1,
+          overflow: "auto",
+          display: "flex",
+          flexDirection: "column",
+          gap: "6px",
+        }}
+      >
+        {loading ? (
+          <div style={{ fontSize: "13px", color: "#6b7280" }}>
+            Loading views...
+          </div>
+        ) : views.length === 0 ? (
+          <div
+            style={{
+              padding: "24px 0",
+              fontSize: "13px",
+              color: "#9ca3af",
+              textAlign: "center",
+            }}
+          >
+            No saved views yet
+          </div>
+        ) : (
+          views.map((view) => (
+            <ViewItem
+              key={view.id}
+              view={view}
+              isActive={view.id === activeViewId}
+              isModified={!isSameViewState(view.state, currentState)}
+              isDefault={view.id === defaultViewId}
+              onApply={() => applyView(view.id)}
+              onOverwrite={() => overwriteView(view.id)}
+              onRename={(name) => renameView(view.id, name)}
+              onDuplicate={() => duplicateView(view.id)}
+              onDelete={() => deleteView(view.id)}
+              onToggleDefault={() =>
+                setDefaultView(view.id === defaultViewId ? null : view.id)
+              }
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
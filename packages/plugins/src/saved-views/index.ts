@@ -0,0 +1,11 @@
+export { SavedViewsPlugin } from "./plugin";
+export {
+  createLocalStorageViewStorage,
+  createMemoryViewStorage,
+} from "./storage";
+export type {
+  SavedView,
+  SavedViewState,
+  SavedViewsData,
+  ViewStorage,
+} from "./storage";
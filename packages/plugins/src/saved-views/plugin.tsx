@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { definePlugin } from "@izumisy/seizen-table/plugin";
+import { SavedViewsPanel } from "./component";
+import {
+  createLocalStorageViewStorage,
+  type SavedView,
+  type ViewStorage,
+} from "./storage";
+
+// =============================================================================
+// Module Augmentation for EventBus
+// =============================================================================
+
+declare module "@izumisy/seizen-table/plugin" {
+  interface EventBusRegistry {
+    /**
+     * A view was created, updated with the current table state,
+     * renamed, or duplicated.
+     */
+    "views:saved": {
+      view: SavedView;
+      action: "create" | "update" | "rename" | "duplicate";
+    };
+    /** A view was deleted */
+    "views:deleted": { viewId: string };
+    /** A view was applied to the table */
+    "views:applied": { view: SavedView };
+    /** The default view changed (null when unset) */
+    "views:default-change": { viewId: string | null };
+  }
+}
+
+/**
+ * Schema for SavedViews plugin configuration
+ */
+const SavedViewsSchema = z
+  .object({
+    /** Width of the side panel */
+    width: z.number().default(300),
+    /** Storage for views. Defaults to localStorage under `storageKey`. */
+    storage: z.custom<ViewStorage>().optional(),
+    /**
+     * localStorage key, unique per table. Required when `storage` is not
+     * provided.
+     */
+    storageKey: z.string().min(1).optional(),
+    /** Apply the default view when the table mounts */
+    applyDefaultView: z.boolean().default(true),
+  })
+  .refine(({ storage, storageKey }) => storage || storageKey, {
+    message: "Either storage or storageKey is required",
+    path: ["storageKey"],
+  })
+  .transform(({ storage, storageKey, ...rest }) => ({
+    ...rest,
+    storage: storage ?? createLocalStorageViewStorage(storageKey!),
+  }));
+
+// =============================================================================
+// Plugin Definition
+// =============================================================================
+
+/**
+ * SavedViews Plugin
+ *
+ * Provides a side panel where users save the current filters, global search,
+ * sorting, column visibility and column order as named views, and switch
+ * between them. Views can be renamed, duplicated, deleted, updated with the
+ * current table state, and marked as the default view that is applied on mount.
+ *
+ * Emits `views:saved`, `views:deleted`, `views:applied` and
+ * `views:default-change` events, so views can be synced to a backend.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   SavedViewsPlugin,
+ *   createLocalStorageViewStorage,
+ * } from "@izumisy/seizen-table-plugins/saved-views";
+ *
+ * const table = useSeizenTable({
+ *   data,
+ *   columns,
+ *   plugins: [
+ *     SavedViewsPlugin.configure({
+ *       storage: createLocalStorageViewStorage("orders-table-views"),
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export const SavedViewsPlugin = definePlugin({
+  id: "saved-views",
+  name: "Views",
+  args: SavedViewsSchema,
+  slots: {
+    sidePanel: {
+      position: "right-sider",
+      header: "Saved Views",
+      render: SavedViewsPanel,
+    },
+  },
+});
@@ -0,0 +1,104 @@
+import type {
+  ColumnFiltersState,
+  SortingState,
+} from "@izumisy/seizen-table";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Table state captured by a saved view
+ */
+export interface SavedViewState {
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  sorting: SortingState;
+  columnVisibility: Record<string, boolean>;
+  columnOrder: string[];
+}
+
+/**
+ * A named table configuration
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  state: SavedViewState;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** ISO 8601 timestamp */
+  updatedAt: string;
+}
+
+/**
+ * All views of a table, as stored
+ */
+export interface SavedViewsData {
+  views: SavedView[];
+  defaultViewId: string | null;
+}
+
+/**
+ * Storage interface for saved views.
+ * Both methods may be async, e.g. to store views on a backend.
+ */
+export interface ViewStorage {
+  load: () => SavedViewsData | null | Promise<SavedViewsData | null>;
+  save: (data: SavedViewsData) => void | Promise<void>;
+}
+
+// =============================================================================
+// Built-in Storages
+// =============================================================================
+
+/**
+ * Creates a storage that keeps views in localStorage under the given key.
+ * Views are not persisted when localStorage is unavailable.
+ *
+ * @example
+ * ```tsx
+ * SavedViewsPlugin.configure({
+ *   storage: createLocalStorageViewStorage("orders-table-views"),
+ * });
+ * ```
+ */
+export function createLocalStorageViewStorage(key: string): ViewStorage {
+  return {
+    load: () => {
+      try {
+        const raw = window.localStorage.getItem(key);
+        if (!raw) return null;
+        const parsed = JSON.parse(raw) as Partial<SavedViewsData>;
+        return Array.isArray(parsed.views)
+          ? { views: parsed.views, defaultViewId: parsed.defaultViewId ?? null }
+          : null;
+      } catch {
+        return null;
+      }
+    },
+    save: (data) => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(data));
+      } catch {
+        // Storage is best-effort
+      }
+    },
+  };
+}
+
+/**
+ * Creates a storage that keeps views in memory only.
+ * Useful for tests, or when views are synced to a backend via events.
+ */
+export function createMemoryViewStorage(
+  initial: SavedViewsData = { views: [], defaultViewId: null }
+): ViewStorage {
+  let data = initial;
+  return {
+    load: () => data,
+    save: (next) => {
+      data = next;
+    },
+  };
+}
@@ -1,5 +1,30 @@
-import { useState, useCallback, useRef, useEffect } from "react";
-import { usePluginContext } from "@izumisy/seizen-table/plugin";
+import {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+  useId,
+  type KeyboardEvent,
+} from "react";
+import {
+  usePluginContext,
+  getFilterOperatorLabel,
+  toColumnFilters,
+  toFilterExpression,
+  type FilterExpression,
+  type PluginColumnInfo,
+} from "@izumisy/seizen-table/plugin";
+import {
+  parseSearchQuery,
+  removeSearchTerm,
+  getSearchSuggestions,
+  getAndedExpressions,
+  removeExpressions,
+  getSearchTermFilters,
+  restoreSearchQuery,
+  type SearchTerm,
+} from "./searchQuery";
 
 // =============================================================================
 // Types
@@ -14,6 +39,41 @@ export interface GlobalSearchInputProps {
   width?: string | number;
   /** Visual variant */
   variant?: "default" | "compact";
+  /**
+   * Parse the search text as a query, e.g. `status:active age:>30 -archived`.
+   * Terms on columns become column filters, shown as removable chips.
+   */
+  enableQuery?: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Label of a search term chip, e.g. `Age > 30` or `Not "archived"`
+ */
+function getSearchTermLabel(
+  term: SearchTerm,
+  columns: PluginColumnInfo[]
+): string {
+  if (term.type === "text") {
+    return term.negated ? `Not "${term.text}"` : `"${term.text}"`;
+  }
+
+  const { columnId, operator, value } = term.condition;
+  const column = columns.find((c) => c.key === columnId);
+  const operatorLabel = getFilterOperatorLabel(
+    operator,
+    column?.filterMeta?.filterType
+  ).toLowerCase();
+  const valueLabel =
+    operator === "between" || operator === "not_between"
+      ? `${value[0] || "…"} – ${value[1] || "…"}`
+      : Array.isArray(value)
+      ? value.join(", ")
+      : value;
+  return `${column?.header ?? columnId} ${operatorLabel} ${valueLabel}`;
 }
 
 // =============================================================================
@@ -23,41 +83,172 @@ export interface GlobalSearchInputProps {
 /**
  * A reusable global search input component for filtering table data.
  * Uses debounced input to avoid excessive re-renders.
+ *
+ * With `enableQuery`, the text is parsed as a search query: `column:value`
+ * terms are applied as column filters, added to the filters from other
+ * sources such as the filter panel, and the rest as the global filter.
+ * Column keys and enum values are suggested while typing. The query is
+ * rebuilt from the table state when the input is mounted.
  */
 export function GlobalSearchInput({
   placeholder = "Search...",
   debounceMs = 300,
   width = 200,
   variant = "compact",
+  enableQuery = false,
 }: GlobalSearchInputProps) {
-  const { table } = usePluginContext();
-  const [searchValue, setSearchValue] = useState(
-    () => table.getGlobalFilter() ?? ""
-  );
+  const { table, columns } = usePluginContext();
+  // Column filters applied by the query, compared by value so that filters
+  // from other sources on the same columns are kept
+  const queryFiltersRef = useRef<FilterExpression[]>([]);
+  const [searchValue, setSearchValue] = useState(() => {
+    const globalFilter = table.getGlobalFilter() ?? "";
+    if (!enableQuery) return globalFilter;
+
+    const { query, filters } = restoreSearchQuery(
+      table.getFilterState(),
+      globalFilter,
+      columns
+    );
+    queryFiltersRef.current = filters;
+    return query;
+  });
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const listboxId = useId();
+
+  const terms = useMemo(
+    () => (enableQuery ? parseSearchQuery(searchValue, columns).terms : []),
+    [enableQuery, searchValue, columns]
+  );
+  const suggestions = useMemo(
+    () =>
+      enableQuery && isSuggesting
+        ? getSearchSuggestions(searchValue, columns)
+        : [],
+    [enableQuery, isSuggesting, searchValue, columns]
+  );
+
+  const applySearch = useCallback(
+    (value: string) => {
+      if (!enableQuery) {
+        table.setGlobalFilter(value);
+        return;
+      }
+
+      const { filters, globalFilter } = parseSearchQuery(value, columns);
+      table.setGlobalFilter(globalFilter);
+
+      const previous = queryFiltersRef.current;
+      const queryFilters = getAndedExpressions(filters);
+      if (JSON.stringify(previous) !== JSON.stringify(queryFilters)) {
+        const filterState = table.getFilterState();
+        const nextFilters = toColumnFilters({
+          combinator: "and",
+          filters: [
+            ...removeExpressions(getAndedExpressions(filterState), previous),
+            ...queryFilters,
+          ],
+        });
+        // Keep column filters which aren't filter expressions
+        const otherFilters = filterState.filter(
+          (filter) =>
+            toFilterExpression([filter]).filters.length === 0 &&
+            !nextFilters.some(({ id }) => id === filter.id)
+        );
+        table.setFilter([...otherFilters, ...nextFilters]);
+        queryFiltersRef.current = queryFilters;
+      }
+    },
+    [table, columns, enableQuery]
+  );
+
+  // Remove the terms of query filters removed elsewhere, e.g. in the panel
+  const filterStateKey = JSON.stringify(table.getFilterState());
+  useEffect(() => {
+    if (!enableQuery) return;
+
+    const removed = removeExpressions(
+      queryFiltersRef.current,
+      getAndedExpressions(table.getFilterState())
+    );
+    if (removed.length === 0) return;
+
+    queryFiltersRef.current = removeExpressions(
+      queryFiltersRef.current,
+      removed
+    );
+    setSearchValue((value) =>
+      parseSearchQuery(value, columns)
+        .terms.filter((term) =>
+          getSearchTermFilters(term, columns).some(
+            (filter) => removeExpressions([filter], removed).length === 0
+          )
+        )
+        .reverse()
+        .reduce(removeSearchTerm, value)
+    );
+  }, [table, columns, enableQuery, filterStateKey]);
 
   const handleSearchChange = useCallback(
     (value: string) => {
       setSearchValue(value);
+      setActiveIndex(-1);
+      setIsSuggesting(true);
 
       // Debounce the global filter update
       if (debounceRef.current) {
         clearTimeout(debounceRef.current);
       }
       debounceRef.current = setTimeout(() => {
-        table.setGlobalFilter(value);
+        applySearch(value);
       }, debounceMs);
     },
-    [table, debounceMs]
+    [applySearch, debounceMs]
   );
 
-  const handleClear = useCallback(() => {
-    setSearchValue("");
-    if (debounceRef.current) {
-      clearTimeout(debounceRef.current);
+  const applyNow = useCallback(
+    (value: string) => {
+      setSearchValue(value);
+      setActiveIndex(-1);
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+      }
+      applySearch(value);
+    },
+    [applySearch]
+  );
+
+  const handleClear = useCallback(() => applyNow(""), [applyNow]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((index) =>
+          index <= 0 ? suggestions.length - 1 : index - 1
+        );
+        break;
+      case "Enter":
+      case "Tab":
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          handleSearchChange(suggestions[activeIndex].query);
+        }
+        break;
+      case "Escape":
+        setActiveIndex(-1);
+        setIsSuggesting(false);
+        break;
     }
-    table.setGlobalFilter("");
-  }, [table]);
+  };
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -69,96 +260,204 @@ export function GlobalSearchInput({
   }, []);
 
   const isCompact = variant === "compact";
+  const showSuggestions = suggestions.length > 0;
 
   return (
     <div
       style={{
         display: "flex",
+        flexWrap: "wrap",
         alignItems: "center",
         gap: "8px",
-        position: "relative",
       }}
     >
-      {/* Search icon */}
-      <svg
-        width="16"
-        height="16"
-        viewBox="0 0 24 24"
-        fill="none"
-        stroke="#9ca3af"
-        strokeWidth="2"
-        strokeLinecap="round"
-        strokeLinejoin="round"
+      <div
         style={{
-          position: "absolute",
-          left: "10px",
-          pointerEvents: "none",
+          display: "flex",
+          alignItems: "center",
+          position: "relative",
         }}
       >
-        <circle cx="11" cy="11" r="8" />
-        <path d="m21 21-4.35-4.35" />
-      </svg>
-
-      {/* Search input */}
-      <input
-        type="text"
-        value={searchValue}
-        onChange={(e) => handleSearchChange(e.target.value)}
-        placeholder={placeholder}
-        style={{
-          width: typeof width === "number" ? `${width}px` : width,
-          padding: isCompact ? "6px 32px" : "6px 32px 6px 32px",
-          fontSize: isCompact ? "13px" : "14px",
-          border: "1px solid #d1d5db",
-          borderRadius: "6px",
-          outline: "none",
-          backgroundColor: "#fff",
-          transition: "border-color 0.15s ease, box-shadow 0.15s ease",
-        }}
-        onFocus={(e) => {
-          e.currentTarget.style.borderColor = "#3b82f6";
-          e.currentTarget.style.boxShadow = "0 0 0 2px rgba(59, 130, 246, 0.1)";
-        }}
-        onBlur={(e) => {
-          e.currentTarget.style.borderColor = "#d1d5db";
-          e.currentTarget.style.boxShadow = "none";
-        }}
-      />
-
-      {/* Clear button - only show when there's a value */}
-      {searchValue && (
-        <button
-          onClick={handleClear}
+        {/* Search icon */}
+        <svg
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="#9ca3af"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
           style={{
             position: "absolute",
-            right: "8px",
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            width: "18px",
-            height: "18px",
-            padding: 0,
-            fontSize: "14px",
-            color: "#9ca3af",
-            backgroundColor: "transparent",
-            border: "none",
-            borderRadius: "50%",
-            cursor: "pointer",
-            transition: "all 0.15s ease",
+            left: "10px",
+            pointerEvents: "none",
+          }}
+        >
+          <circle cx="11" cy="11" r="8" />
+          <path d="m21 21-4.35-4.35" />
+        </svg>
+
+        {/* Search input */}
+        <input
+          type="text"
+          value={searchValue}
+          onChange={(e) => handleSearchChange(e.target.value)}
+          onKeyDown={enableQuery ? handleKeyDown : undefined}
+          placeholder={placeholder}
+          {...(enableQuery && {
+            role: "combobox",
+            "aria-autocomplete": "list" as const,
+            "aria-expanded": showSuggestions,
+            "aria-controls": listboxId,
+            "aria-activedescendant":
+              activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined,
+          })}
+          style={{
+            width: typeof width === "number" ? `${width}px` : width,
+            padding: isCompact ? "6px 32px" : "6px 32px 6px 32px",
+            fontSize: isCompact ? "13px" : "14px",
+            border: "1px solid #d1d5db",
+            borderRadius: "6px",
+            outline: "none",
+            backgroundColor: "#fff",
+            transition: "border-color 0.15s ease, box-shadow 0.15s ease",
           }}
-          onMouseOver={(e) => {
-            e.currentTarget.style.backgroundColor = "#f3f4f6";
-            e.currentTarget.style.color = "#6b7280";
+          onFocus={(e) => {
+            setIsSuggesting(true);
+            e.currentTarget.style.borderColor = "#3b82f6";
+            e.currentTarget.style.boxShadow =
+              "0 0 0 2px rgba(59, 130, 246, 0.1)";
           }}
-          onMouseOut={(e) => {
-            e.currentTarget.style.backgroundColor = "transparent";
-            e.currentTarget.style.color = "#9ca3af";
+          onBlur={(e) => {
+            setIsSuggesting(false);
+            e.currentTarget.style.borderColor = "#d1d5db";
+            e.currentTarget.style.boxShadow = "none";
           }}
-          title="Clear search"
-        >
-          ×
-        </button>
-      )}
+        />
+
+        {/* Clear button - only show when there's a value */}
+        {searchValue && (
+          <button
+            onClick={handleClear}
+            style={{
+              position: "absolute",
+              right: "8px",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              width: "18px",
+              height: "18px",
+              padding: 0,
+              fontSize: "14px",
+              color: "#9ca3af",
+              backgroundColor: "transparent",
+              border: "none",
+              borderRadius: "50%",
+              cursor: "pointer",
+              transition: "all 0.15s ease",
+            }}
+            onMouseOver={(e) => {
+              e.currentTarget.style.backgroundColor = "#f3f4f6";
+              e.currentTarget.style.color = "#6b7280";
+            }}
+            onMouseOut={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+              e.currentTarget.style.color = "#9ca3af";
+            }}
+            title="Clear search"
+          >
+            ×
+          </button>
+        )}
+
+        {/* Autocomplete suggestions */}
+        {showSuggestions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="Suggestions"
+            style={{
+              position: "absolute",
+              top: "100%",
+              left: 0,
+              right: 0,
+              zIndex: 10,
+              margin: "4px 0 0",
+              padding: "4px 0",
+              listStyle: "none",
+              backgroundColor: "#fff",
+              border: "1px solid #e5e7eb",
+              borderRadius: "6px",
+              boxShadow: "0 4px 12px rgba(0, 0, 0, 0.1)",
+            }}
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.query}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep the focus in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSearchChange(suggestion.query)}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  gap: "8px",
+                  padding: "6px 10px",
+                  fontSize: "13px",
+                  cursor: "pointer",
+                  backgroundColor:
+                    index === activeIndex ? "#eff6ff" : "transparent",
+                }}
+              >
+                <span>{suggestion.label}</span>
+                <span style={{ color: "#9ca3af" }}>
+                  {suggestion.description}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Parsed query terms */}
+      {terms.map((term) => {
+        const label = getSearchTermLabel(term, columns);
+        return (
+          <span
+            key={`${term.start}-${label}`}
+            style={{
+              display: "inline-flex",
+              alignItems: "center",
+              gap: "2px",
+              padding: "2px 4px 2px 8px",
+              fontSize: "12px",
+              color: "#1e40af",
+              backgroundColor: "#dbeafe",
+              borderRadius: "9999px",
+            }}
+          >
+            {label}
+            <button
+              onClick={() => applyNow(removeSearchTerm(searchValue, term))}
+              aria-label={`Remove ${label}`}
+              style={{
+                padding: "0 4px",
+                fontSize: "12px",
+                color: "#1e40af",
+                background: "none",
+                border: "none",
+                cursor: "pointer",
+                lineHeight: 1,
+              }}
+            >
+              ×
+            </button>
+          </span>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import type { PluginColumnInfo } from "@izumisy/seizen-table/plugin";
+import {
+  parseSearchQuery,
+  removeSearchTerm,
+  restoreSearchQuery,
+  getSearchSuggestions,
+} from "./searchQuery";
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const columns: PluginColumnInfo[] = [
+  { key: "name", header: "Name", filterMeta: { filterType: "string" } },
+  { key: "age", header: "Age", filterMeta: { filterType: "number" } },
+  {
+    key: "status",
+    header: "Status",
+    filterMeta: {
+      filterType: "enum",
+      filterEnumValues: ["Active", "Archived", "On hold"],
+    },
+  },
+  {
+    key: "createdAt",
+    header: "Created At",
+    filterMeta: { filterType: "date" },
+  },
+  { key: "id", header: "ID" },
+];
+
+// =============================================================================
+// parseSearchQuery
+// =============================================================================
+
+describe("parseSearchQuery", () => {
+  it("parses column terms by the column's filter type", () => {
+    expect(
+      parseSearchQuery("name:john age:>30 status:active", columns).filters
+    ).toEqual([
+      { id: "name", value: { operator: "contains", value: "john" } },
+      { id: "age", value: { operator: "gt", value: "30" } },
+      { id: "status", value: { operator: "is", value: "Active" } },
+    ]);
+  });
+
+  it("parses comparisons and ranges of numbers and dates", () => {
+    const parse = (query: string) =>
+      parseSearchQuery(query, columns).filters[0]?.value;
+
+    expect(parse("age:30")).toEqual({ operator: "eq", value: "30" });
+    expect(parse("age:<=30")).toEqual({ operator: "lte", value: "30" });
+    expect(parse("age:20..30")).toEqual({
+      operator: "between",
+      value: ["20", "30"],
+    });
+    expect(parse("createdAt:2024-06-01")).toEqual({
+      operator: "on",
+      value: "2024-06-01",
+    });
+    expect(parse("createdAt:>=2024-06-01")).toEqual({
+      operator: "between",
+      value: ["2024-06-01", ""],
+    });
+  });
+
+  it("negates column terms with a leading minus", () => {
+    const parse = (query: string) =>
+      parseSearchQuery(query, columns).filters[0]?.value;
+
+    expect(parse("-name:john")).toEqual({
+      operator: "not_contains",
+      value: "john",
+    });
+    expect(parse("-age:>30")).toEqual({ operator: "lte", value: "30" });
+    expect(parse("-status:archived,active")).toEqual({
+      operator: "not_in",
+      value: ["Archived", "Active"],
+    });
+    expect(parse("-createdAt:2024-06-01")).toEqual({
+      operator: "not_between",
+      value: ["2024-06-01", "2024-06-01"],
+    });
+  });
+
+  it("uses free text and quoted phrases as the global filter", () => {
+    const parsed = parseSearchQuery(
+      'status:"on hold" "exact phrase" john',
+      columns
+    );
+
+    expect(parsed.globalFilter).toBe("exact phrase john");
+    expect(parsed.filters).toEqual([
+      { id: "status", value: { operator: "is", value: "On hold" } },
+    ]);
+  });
+
+  it("excludes negated free text in every column", () => {
+    expect(parseSearchQuery("-archived", columns).filters).toEqual([
+      {
+        id: "name",
+        value: {
+          combinator: "and",
+          filters: ["name", "age", "status", "createdAt", "id"].map(
+            (columnId) => ({
+              columnId,
+              operator: "not_contains",
+              value: "archived",
+            })
+          ),
+        },
+      },
+    ]);
+  });
+
+  it("falls back to free text for unknown columns and invalid values", () => {
+    const parsed = parseSearchQuery("id:1 age:old http://example.com", columns);
+
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.globalFilter).toBe("id:1 age:old http://example.com");
+  });
+
+  it("respects the operators a column is restricted to", () => {
+    const restricted: PluginColumnInfo[] = [
+      {
+        key: "age",
+        header: "Age",
+        filterMeta: { filterType: "number", filterOperators: ["eq"] },
+      },
+    ];
+
+    expect(parseSearchQuery("age:30", restricted).filters).toHaveLength(1);
+    expect(parseSearchQuery("age:>30", restricted).globalFilter).toBe(
+      "age:>30"
+    );
+  });
+});
+
+// =============================================================================
+// removeSearchTerm
+// =============================================================================
+
+describe("removeSearchTerm", () => {
+  it("removes a term and the space around it", () => {
+    const query = 'name:john "exact phrase" age:>30';
+    const { terms } = parseSearchQuery(query, columns);
+
+    expect(removeSearchTerm(query, terms[1])).toBe("name:john age:>30");
+    expect(removeSearchTerm(query, terms[2])).toBe('name:john "exact phrase"');
+  });
+});
+
+// =============================================================================
+// restoreSearchQuery
+// =============================================================================
+
+describe("restoreSearchQuery", () => {
+  it("rebuilds the query the filters were parsed from", () => {
+    const query =
+      'name:"john doe" -age:20..30 status:active,"on hold" ' +
+      "createdAt:>=2024-01-01 -archived hello";
+    const { filters, globalFilter } = parseSearchQuery(query, columns);
+
+    const restored = restoreSearchQuery(filters, globalFilter, columns);
+
+    // Terms are ordered by column, like the filter state
+    expect(restored.query).toBe(
+      'name:"john doe" -archived -age:20..30 status:"Active,On hold" ' +
+        "createdAt:2024-01-01.. hello"
+    );
+    expect(parseSearchQuery(restored.query, columns).filters).toEqual(
+      filters
+    );
+  });
+
+  it("leaves out filters which can't be written as terms", () => {
+    const group = {
+      combinator: "or" as const,
+      filters: [
+        { columnId: "name", operator: "equals" as const, value: "john" },
+        { columnId: "age", operator: "gt" as const, value: "30" },
+      ],
+    };
+
+    const restored = restoreSearchQuery(
+      [
+        { id: "name", value: group },
+        { id: "age", value: { operator: "gt", value: "30" } },
+      ],
+      "",
+      columns
+    );
+
+    expect(restored).toEqual({
+      query: "age:>30",
+      filters: [{ columnId: "age", operator: "gt", value: "30" }],
+    });
+  });
+});
+
+// =============================================================================
+// getSearchSuggestions
+// =============================================================================
+
+describe("getSearchSuggestions", () => {
+  it("suggests filterable column keys", () => {
+    expect(getSearchSuggestions("john -st", columns)).toEqual([
+      { label: "status:", description: "Status", query: "john -status:" },
+    ]);
+    expect(getSearchSuggestions("i", columns)).toEqual([]);
+  });
+
+  it("suggests enum values after the column key", () => {
+    expect(
+      getSearchSuggestions("status:", columns).map((s) => s.query)
+    ).toEqual(["status:Active ", "status:Archived ", 'status:"On hold" ']);
+    expect(getSearchSuggestions("status:ar", columns)).toEqual([
+      {
+        label: "Archived",
+        description: "Status",
+        query: "status:Archived ",
+      },
+    ]);
+  });
+
+  it("suggests nothing after a completed term", () => {
+    expect(getSearchSuggestions("status:Active ", columns)).toEqual([]);
+  });
+});
@@ -0,0 +1,549 @@
+/**
+ * Search query language of GlobalSearchInput.
+ *
+ * A query such as `status:active age:>30 "exact phrase" -archived` is parsed
+ * into column filters, based on the filter type of each column, and free
+ * text for the global filter.
+ */
+
+import {
+  toColumnFilters,
+  toFilterExpression,
+  isFilterGroup,
+  getDefaultFilterOperators,
+  getFilterTypeDefinition,
+  filterOperatorRequiresValue,
+  type FilterCondition,
+  type FilterExpression,
+  type FilterGroup,
+  type FilterOperator,
+  type FilterValue,
+  type PluginColumnInfo,
+} from "@izumisy/seizen-table/plugin";
+import type { ColumnFiltersState } from "@izumisy/seizen-table";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A term of a search query, with its position in the query
+ */
+export type SearchTerm =
+  | {
+      /** A `column:value` term, parsed into a column filter */
+      type: "filter";
+      start: number;
+      end: number;
+      condition: FilterCondition;
+    }
+  | {
+      /** Free text, matched by the global filter or excluded with "-" */
+      type: "text";
+      start: number;
+      end: number;
+      text: string;
+      negated: boolean;
+    };
+
+/**
+ * Result of parsing a search query
+ */
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  /** Column filters of the `column:value` terms and excluded text */
+  filters: ColumnFiltersState;
+  /** Free text for the global filter */
+  globalFilter: string;
+}
+
+/**
+ * Autocomplete suggestion for the term being typed
+ */
+export interface SearchSuggestion {
+  label: string;
+  description?: string;
+  /** Query with the suggestion applied */
+  query: string;
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface Token {
+  start: number;
+  end: number;
+  raw: string;
+}
+
+/**
+ * Split a query on whitespace outside double quotes
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ start, end: i, raw: query.slice(start, i) });
+  }
+  return tokens;
+}
+
+const TERM_PATTERN = /^(-?)(?:([\w.]+):)?(.*)$/;
+
+function unquote(value: string): string {
+  return value.replace(/"/g, "");
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function findColumn(
+  columns: PluginColumnInfo[],
+  key: string
+): PluginColumnInfo | undefined {
+  const lowerKey = key.toLowerCase();
+  return columns.find(
+    (column) =>
+      column.filterMeta?.filterType && column.key.toLowerCase() === lowerKey
+  );
+}
+
+// =============================================================================
+// Column Filters
+// =============================================================================
+
+/** Operators of number comparisons, and of their negation */
+const NUMBER_OPERATORS: Record<string, [FilterOperator, FilterOperator]> = {
+  "": ["eq", "neq"],
+  ">": ["gt", "lte"],
+  ">=": ["gte", "lt"],
+  "<": ["lt", "gte"],
+  "<=": ["lte", "gt"],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Operator and value of a date term. Negated comparisons are expressed as
+ * ranges open on one end, e.g. "not after" as "between any date and it".
+ */
+function getDateFilter(
+  comparator: string,
+  operand: string,
+  negated: boolean
+): { operator: FilterOperator; value: FilterValue } | undefined {
+  if (operand.includes("..")) {
+    const [start, end] = operand.split("..");
+    if (start === "" && end === "") return undefined;
+    if (![start, end].every((d) => d === "" || DATE_PATTERN.test(d))) {
+      return undefined;
+    }
+    return {
+      operator: negated ? "not_between" : "between",
+      value: [start, end],
+    };
+  }
+  if (!DATE_PATTERN.test(operand)) return undefined;
+
+  switch (comparator) {
+    case "":
+      return negated
+        ? { operator: "not_between", value: [operand, operand] }
+        : { operator: "on", value: operand };
+    case ">":
+      return negated
+        ? { operator: "between", value: ["", operand] }
+        : { operator: "after", value: operand };
+    case "<":
+      return negated
+        ? { operator: "between", value: [operand, ""] }
+        : { operator: "before", value: operand };
+    case ">=":
+      return negated
+        ? { operator: "before", value: operand }
+        : { operator: "between", value: [operand, ""] };
+    case "<=":
+      return negated
+        ? { operator: "after", value: operand }
+        : { operator: "between", value: ["", operand] };
+  }
+  return undefined;
+}
+
+function getNumberFilter(
+  comparator: string,
+  operand: string,
+  negated: boolean
+): { operator: FilterOperator; value: FilterValue } | undefined {
+  if (operand.includes("..")) {
+    const [min, max] = operand.split("..");
+    if (min === "" && max === "") return undefined;
+    if ([min, max].some((n) => n !== "" && isNaN(Number(n)))) {
+      return undefined;
+    }
+    return {
+      operator: negated ? "not_between" : "between",
+      value: [min, max],
+    };
+  }
+  if (operand === "" || isNaN(Number(operand))) return undefined;
+
+  const [operator, negatedOperator] = NUMBER_OPERATORS[comparator];
+  return { operator: negated ? negatedOperator : operator, value: operand };
+}
+
+/**
+ * Operator and value of a `column:value` term, based on the column's filter
+ * type. Returns undefined if the value isn't valid for the column.
+ */
+function getColumnFilter(
+  column: PluginColumnInfo,
+  value: string,
+  negated: boolean
+): { operator: FilterOperator; value: FilterValue } | undefined {
+  const { filterType, filterEnumValues } = column.filterMeta ?? {};
+  const [, comparator = "", operand = ""] =
+    /^(>=|<=|>|<)?(.*)$/.exec(value) ?? [];
+
+  switch (filterType) {
+    case "string":
+      if (comparator !== "" || operand === "") return undefined;
+      return { operator: negated ? "not_contains" : "contains", value };
+    case "number":
+      return getNumberFilter(comparator, operand, negated);
+    case "date":
+      return getDateFilter(comparator, operand, negated);
+    case "enum": {
+      if (comparator !== "") return undefined;
+      // Match enum values case-insensitively, e.g. "active" as "Active"
+      const values = value
+        .split(",")
+        .filter((v) => v !== "")
+        .map(
+          (v) =>
+            filterEnumValues?.find(
+              (enumValue) => enumValue.toLowerCase() === v.toLowerCase()
+            ) ?? v
+        );
+      if (values.length === 0) return undefined;
+      if (values.length > 1) {
+        return { operator: negated ? "not_in" : "in", value: values };
+      }
+      return { operator: negated ? "is_not" : "is", value: values[0] };
+    }
+  }
+
+  // Custom filter types: the first operator taking a value
+  if (!filterType || negated || value === "") return undefined;
+  const operator = getDefaultFilterOperators(filterType).find((operator) =>
+    filterOperatorRequiresValue(operator, filterType)
+  );
+  return operator && { operator, value };
+}
+
+function toFilterCondition(
+  column: PluginColumnInfo,
+  value: string,
+  negated: boolean
+): FilterCondition | undefined {
+  const filter = getColumnFilter(column, value, negated);
+  if (!filter) return undefined;
+
+  // Respect the operators the column is restricted to
+  const allowedOperators = column.filterMeta?.filterOperators;
+  if (allowedOperators && !allowedOperators.includes(filter.operator)) {
+    return undefined;
+  }
+  return { columnId: column.key, ...filter };
+}
+
+/**
+ * Filter excluding rows with the text in any column
+ */
+function toExclusionFilter(
+  text: string,
+  columns: PluginColumnInfo[]
+): FilterGroup {
+  return {
+    combinator: "and",
+    filters: columns
+      // Custom filter types evaluate operators with their own predicate
+      .filter(
+        (column) =>
+          !column.filterMeta?.filterType ||
+          !getFilterTypeDefinition(column.filterMeta.filterType)
+      )
+      .map((column) => ({
+        columnId: column.key,
+        operator: "not_contains",
+        value: text,
+      })),
+  };
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Parse a search query into column filters and free text.
+ *
+ * - `column:value` filters a column by its key, with an operator based on
+ *   its filter type: contains for strings, is for enums (`status:a,b` for
+ *   any of them) and equals or on for numbers and dates
+ * - `age:>30`, `age:<=30` and `age:20..30` compare numbers and dates
+ * - `"exact phrase"` searches text with spaces, also as a column value
+ * - `-` excludes a term, e.g. `-status:archived` or `-archived`
+ *
+ * Other text, including terms on unknown columns or with invalid values,
+ * is matched by the global filter.
+ */
+export function parseSearchQuery(
+  query: string,
+  columns: PluginColumnInfo[]
+): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+
+  for (const { start, end, raw } of tokenize(query)) {
+    const [, sign = "", key, rest = ""] = TERM_PATTERN.exec(raw) ?? [];
+    const negated = sign === "-";
+    const column = key === undefined ? undefined : findColumn(columns, key);
+
+    if (column) {
+      const condition = toFilterCondition(column, unquote(rest), negated);
+      if (condition) {
+        terms.push({ type: "filter", start, end, condition });
+        continue;
+      }
+    }
+
+    const text = unquote(raw.slice(sign.length));
+    if (text !== "") {
+      terms.push({ type: "text", start, end, text, negated });
+    }
+  }
+
+  const expressions: FilterExpression[] = [];
+  const texts: string[] = [];
+  for (const term of terms) {
+    if (term.type === "filter") {
+      expressions.push(term.condition);
+    } else if (term.negated) {
+      expressions.push(toExclusionFilter(term.text, columns));
+    } else {
+      texts.push(term.text);
+    }
+  }
+
+  return {
+    terms,
+    filters: toColumnFilters({ combinator: "and", filters: expressions }),
+    globalFilter: texts.join(" "),
+  };
+}
+
+/**
+ * Remove a term from a query, e.g. when its chip is removed
+ */
+export function removeSearchTerm(query: string, term: SearchTerm): string {
+  const before = query.slice(0, term.start).trimEnd();
+  const after = query.slice(term.end).trimStart();
+  return before && after ? `${before} ${after}` : before + after;
+}
+
+// =============================================================================
+// Query Filters
+// =============================================================================
+
+/**
+ * Expressions combined with AND in column filter state, with nested AND
+ * groups flattened, so that filters are compared by value regardless of
+ * how they are grouped under column IDs
+ */
+export function getAndedExpressions(
+  columnFilters: ColumnFiltersState
+): FilterExpression[] {
+  const flatten = (expressions: FilterExpression[]): FilterExpression[] =>
+    expressions.flatMap((expression) =>
+      isFilterGroup(expression) && expression.combinator === "and"
+        ? flatten(expression.filters)
+        : [expression]
+    );
+  return flatten(toFilterExpression(columnFilters).filters);
+}
+
+/**
+ * Remove expressions by value, each occurrence in `removed` removing one
+ */
+export function removeExpressions(
+  expressions: FilterExpression[],
+  removed: FilterExpression[]
+): FilterExpression[] {
+  const keys = removed.map((expression) => JSON.stringify(expression));
+  return expressions.filter((expression) => {
+    const index = keys.indexOf(JSON.stringify(expression));
+    if (index === -1) return true;
+    keys.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Filters applied by a search term
+ */
+export function getSearchTermFilters(
+  term: SearchTerm,
+  columns: PluginColumnInfo[]
+): FilterExpression[] {
+  if (term.type === "filter") return [term.condition];
+  return term.negated ? toExclusionFilter(term.text, columns).filters : [];
+}
+
+const COMPARATORS = ["", ">", ">=", "<", "<="];
+
+/**
+ * Format a filter condition as a search term. Returns undefined if no term
+ * is parsed back into the same condition.
+ */
+function formatSearchTerm(
+  condition: FilterCondition,
+  columns: PluginColumnInfo[]
+): string | undefined {
+  const { columnId, value } = condition;
+  const operands = Array.isArray(value)
+    ? [value.join(".."), value.join(",")]
+    : COMPARATORS.map((comparator) => comparator + value);
+
+  for (const operand of operands) {
+    for (const sign of ["", "-"]) {
+      const term = `${sign}${columnId}:${quoteIfNeeded(operand)}`;
+      const [parsed] = parseSearchQuery(term, columns).terms;
+      if (
+        parsed?.type === "filter" &&
+        JSON.stringify(parsed.condition) === JSON.stringify(condition)
+      ) {
+        return term;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rebuild a search query from table state, e.g. when the search input is
+ * mounted again. Filters that can be written as terms become terms, and are
+ * returned as the filters of the query; other filters are left out.
+ */
+export function restoreSearchQuery(
+  columnFilters: ColumnFiltersState,
+  globalFilter: string,
+  columns: PluginColumnInfo[]
+): { query: string; filters: FilterExpression[] } {
+  let remaining = getAndedExpressions(columnFilters);
+  const terms: string[] = [];
+  const filters: FilterExpression[] = [];
+
+  while (remaining.length > 0) {
+    const [expression, ...rest] = remaining;
+    remaining = rest;
+    if (isFilterGroup(expression)) continue;
+
+    // Excluded text: not_contains on every column, e.g. `-archived`
+    if (expression.operator === "not_contains") {
+      const exclusion = toExclusionFilter(
+        String(expression.value),
+        columns
+      ).filters;
+      const others = removeExpressions(exclusion, [expression]);
+      const left = removeExpressions(remaining, others);
+      if (
+        others.length === exclusion.length - 1 &&
+        left.length === remaining.length - others.length
+      ) {
+        terms.push(`-${quoteIfNeeded(String(expression.value))}`);
+        filters.push(...exclusion);
+        remaining = left;
+        continue;
+      }
+    }
+
+    const term = formatSearchTerm(expression, columns);
+    if (term !== undefined) {
+      terms.push(term);
+      filters.push(expression);
+    }
+  }
+
+  if (globalFilter) terms.push(globalFilter);
+  return { query: terms.join(" "), filters };
+}
+
+// =============================================================================
+// Autocomplete
+// =============================================================================
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Suggest column keys, and enum values after `column:`, for the term at the
+ * end of the query
+ */
+export function getSearchSuggestions(
+  query: string,
+  columns: PluginColumnInfo[]
+): SearchSuggestion[] {
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1];
+  if (!last || last.end !== query.length) return [];
+
+  const [, sign = "", key, rest = ""] = TERM_PATTERN.exec(last.raw) ?? [];
+  const before = query.slice(0, last.start);
+
+  // Column keys
+  if (key === undefined) {
+    if (rest === "" || rest.includes('"')) return [];
+    const prefix = rest.toLowerCase();
+    return columns
+      .filter(
+        (column) =>
+          column.filterMeta?.filterType &&
+          column.key.toLowerCase().startsWith(prefix)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map((column) => ({
+        label: `${column.key}:`,
+        description: column.header,
+        query: `${before}${sign}${column.key}:`,
+      }));
+  }
+
+  // Enum values
+  const column = findColumn(columns, key);
+  const enumValues = column?.filterMeta?.filterEnumValues;
+  if (column?.filterMeta?.filterType !== "enum" || !enumValues) return [];
+  const partial = unquote(rest).toLowerCase();
+  return enumValues
+    .filter(
+      (value) =>
+        value.toLowerCase().startsWith(partial) &&
+        value.toLowerCase() !== partial
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => ({
+      label: value,
+      description: column.header,
+      query: `${before}${sign}${column.key}:${quoteIfNeeded(value)} `,
+    }));
+}
@@ -1,6 +1,9 @@
 import { vi } from "vitest";
 import type { PluginColumnInfo, EventBus } from "@izumisy/seizen-table/plugin";
-import type { SeizenTableInstance } from "@izumisy/seizen-table";
+import type {
+  ColumnFacets,
+  SeizenTableInstance,
+} from "@izumisy/seizen-table";
 
 // =============================================================================
 // Mock Table Instance
@@ -43,7 +46,12 @@ export interface CreateMockTableOptions {
   columnVisibility?: Record<string, boolean>;
   sorting?: Array<{ id: string; desc: boolean }>;
   columnOrder?: string[];
+  columnPinning?: { left?: string[]; right?: string[] };
+  grouping?: string[];
+  columnAggregates?: Record<string, unknown>;
+  columnFacets?: Record<string, ColumnFacets>;
   data?: unknown[];
+  columns?: unknown[];
   selectedRows?: unknown[];
   globalFilter?: string;
   pagination?: { pageIndex: number; pageSize: number };
@@ -60,7 +68,12 @@ export function createMockTable(
     columnVisibility = {},
     sorting = [],
     columnOrder = [],
+    columnPinning = { left: [], right: [] },
+    grouping = [],
+    columnAggregates = {},
+    columnFacets = {},
     data = [],
+    columns = [],
     selectedRows = [],
     globalFilter = "",
     pagination = { pageIndex: 0, pageSize: 10 },
@@ -71,12 +84,16 @@ export function createMockTable(
     getSelectedRows: vi.fn(() => selectedRows),
     setSelectedRows: vi.fn(),
     clearSelection: vi.fn(),
+    selectAllRows: vi.fn(),
+    getIsAllRowsSelected: vi.fn(() => false),
 
     // Filtering
     getFilterState: vi.fn(() => []),
     setFilter: vi.fn(),
     getGlobalFilter: vi.fn(() => globalFilter),
     setGlobalFilter: vi.fn(),
+    highlightSearchMatches: vi.fn((text: string) => text),
+    getColumnFacets: vi.fn((columnId: string) => columnFacets[columnId]),
 
     // Sorting
     getSortingState: vi.fn(() => sorting),
@@ -89,7 +106,7 @@ export function createMockTable(
 
     // Data
     getData: vi.fn(() => data),
-    getColumns: vi.fn(() => []),
+    getColumns: vi.fn(() => columns),
 
     // Column Visibility
     getColumnVisibility: vi.fn(() => columnVisibility),
@@ -101,6 +118,36 @@ export function createMockTable(
     setColumnOrder: vi.fn(),
     moveColumn: vi.fn(),
 
+    // Column Sizing
+    getColumnSizing: vi.fn(() => ({})),
+    setColumnSizing: vi.fn(),
+
+    // Column Pinning
+    getColumnPinning: vi.fn(() => columnPinning),
+    pinColumn: vi.fn(),
+
+    // Grouping
+    getGrouping: vi.fn(() => grouping),
+    setGrouping: vi.fn(),
+
+    // Aggregation
+    getColumnAggregates: vi.fn(() => columnAggregates),
+
+    // Export
+    getExportData: vi.fn(() => ({ columns: [], rows: [], rowCount: 0 })),
+
+    // Tree Data
+    getIsRowLoading: vi.fn(() => false),
+
+    // Cell Editing
+    getEditingCell: vi.fn(() => null),
+    startCellEdit: vi.fn(),
+    setCellEditDraft: vi.fn(),
+    commitCellEdit: vi.fn(() => true),
+    cancelCellEdit: vi.fn(),
+    getPendingCellEdit: vi.fn(() => undefined),
+    rollbackCellEdit: vi.fn(),
+
     // Non-method properties
     plugins: [],
     plugin: {
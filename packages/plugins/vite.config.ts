@@ -21,6 +21,7 @@ export default defineConfig({
         "all-slots-demo": "./src/all-slots-demo/index.ts",
         "preset-filter": "./src/preset-filter/index.ts",
         remote: "./src/remote/index.ts",
+        "saved-views": "./src/saved-views/index.ts",
       },
       formats: ["es"],
     },